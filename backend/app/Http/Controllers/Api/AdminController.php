@@ -306,6 +306,39 @@ class AdminController extends Controller
         }
     }
 
+    /**
+     * Get the recent admin activity feed.
+     * 
+     * @param Request $request
+     * @return JsonResponse
+     */
+    public function activities(Request $request): JsonResponse
+    {
+        try {
+            $request->validate([
+                'limit' => 'sometimes|integer|min:1|max:100',
+            ]);
+
+            return response()->json([
+                'success' => true,
+                'data' => $this->getRecentActivities((int) $request->get('limit', 20)),
+            ]);
+
+        } catch (\Exception $e) {
+            Log::error('Error in admin activities operation', [
+                'error' => $e->getMessage(),
+                'trace' => $e->getTraceAsString(),
+                'request_params' => $request->all()
+            ]);
+            
+            return response()->json([
+                'success' => false,
+                'message' => 'An error occurred while loading recent activities.',
+                'error' => config('app.debug') ? $e->getMessage() : 'Internal server error'
+            ], 500);
+        }
+    }
+
     /**
      * Get system health and performance metrics.
      * 
@@ -452,7 +485,7 @@ class AdminController extends Controller
      */
     private function getRecentActivities($limit = 20): array
     {
-        return SalaryHistory::with(['user:id,name,email', 'changedByUser:id,name,email'])
+        return SalaryHistory::with(['user:id,name,email', 'changedBy:id,name,email'])
             ->orderBy('created_at', 'desc')
             ->limit($limit)
             ->get()
@@ -461,7 +494,7 @@ class AdminController extends Controller
                     'id' => $history->id,
                     'type' => 'salary_change',
                     'user' => $history->user,
-                    'changed_by' => $history->changedByUser,
+                    'changed_by' => $history->changedBy,
                     'changes' => [
                         'salary_change' => $history->new_salary_euros - $history->old_salary_euros,
                         'commission_change' => $history->new_commission - $history->old_commission,
@@ -516,6 +549,7 @@ class AdminController extends Controller
             '30d' => now()->subDays(30),
             '90d' => now()->subDays(90),
             '1y' => now()->subYear(),
+            'all' => \Carbon\Carbon::createFromTimestamp(0),
             default => now()->subDays(30),
         };
     }
@@ -615,6 +649,7 @@ class AdminController extends Controller
             'median_salary' => $this->getMedianSalary(),
             'average_commission' => round(Salary::avg('commission'), 2),
             'changes_in_period' => SalaryHistory::where('created_at', '>=', $fromDate)->count(),
+            'distribution' => $this->getSalaryDistribution(),
         ];
     }
 
@@ -643,19 +678,88 @@ class AdminController extends Controller
     }
 
     /**
-     * Get trend analysis.
+     * Get trend analysis, bucketed by the start date of each period.
      */
     private function getTrendAnalysis($fromDate, $groupBy): array
     {
-        // This would implement trend analysis based on the groupBy parameter
-        // For now, returning a simple structure
+        $periodOf = fn ($date) => $this->getPeriodStart(\Carbon\Carbon::parse($date), $groupBy);
+
+        $userGrowth = User::where('created_at', '>=', $fromDate)
+            ->pluck('created_at')
+            ->groupBy($periodOf)
+            ->map(fn ($dates, $period) => [
+                'period_start' => $period,
+                'registrations' => $dates->count(),
+            ]);
+
+        $salaryChanges = SalaryHistory::where('created_at', '>=', $fromDate)
+            ->get(['created_at', 'new_salary_euros', 'new_commission'])
+            ->groupBy(fn ($history) => $periodOf($history->created_at));
+
+        $salaryTrends = $salaryChanges->map(fn ($changes, $period) => [
+            'period_start' => $period,
+            'average_salary' => round((float) $changes->avg('new_salary_euros'), 2),
+            'total_commission' => round((float) $changes->sum('new_commission'), 2),
+            'changes' => $changes->count(),
+        ]);
+
+        $documentUploads = UploadedDocument::where('created_at', '>=', $fromDate)
+            ->pluck('created_at')
+            ->groupBy($periodOf);
+
+        $activityTrends = $salaryChanges->keys()
+            ->merge($documentUploads->keys())
+            ->unique()
+            ->map(fn ($period) => [
+                'period_start' => $period,
+                'salary_changes' => $salaryChanges->get($period, collect())->count(),
+                'document_uploads' => $documentUploads->get($period, collect())->count(),
+            ]);
+
         return [
-            'user_growth' => [],
-            'salary_trends' => [],
-            'activity_trends' => [],
+            'group_by' => $groupBy,
+            'user_growth' => $userGrowth->sortKeys()->values(),
+            'salary_trends' => $salaryTrends->sortKeys()->values(),
+            'activity_trends' => $activityTrends->sortBy('period_start')->values(),
         ];
     }
 
+    /**
+     * Get the first day of the period a date falls in.
+     */
+    private function getPeriodStart(\Carbon\Carbon $date, string $groupBy): string
+    {
+        $start = match($groupBy) {
+            'day' => $date->copy()->startOfDay(),
+            'month' => $date->copy()->startOfMonth(),
+            'quarter' => $date->copy()->startOfQuarter(),
+            'year' => $date->copy()->startOfYear(),
+            default => $date->copy()->startOfWeek(),
+        };
+
+        return $start->toDateString();
+    }
+
+    /**
+     * Get salary counts in 10k EUR bands, with everything from 150k up in the last band.
+     */
+    private function getSalaryDistribution(): array
+    {
+        $bandSize = 10000;
+        $lastBand = 15;
+        $counts = array_fill(0, $lastBand + 1, 0);
+
+        Salary::pluck('salary_euros')->each(function ($salary) use (&$counts, $bandSize, $lastBand) {
+            $counts[max(0, min((int) floor($salary / $bandSize), $lastBand))]++;
+        });
+
+        return array_map(fn ($count, $band) => [
+            'min' => $band * $bandSize,
+            'max' => $band === $lastBand ? null : ($band + 1) * $bandSize,
+            'count' => $count,
+        ], $counts, array_keys($counts));
+    }
+
     /**
      * Get comparative analysis.
      */
@@ -320,6 +320,9 @@ class AuthController extends Controller
     public function revokeToken(Request $request): JsonResponse
     {
         try {
+            // The token id comes from the route, not the request body
+            $request->merge(['token_id' => $request->route('token_id')]);
+
             $request->validate([
                 'token_id' => 'required|integer|exists:personal_access_tokens,id',
             ]);
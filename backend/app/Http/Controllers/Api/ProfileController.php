@@ -0,0 +1,129 @@
+<?php
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use Illuminate\Http\Request;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Support\Facades\Log;
+use Illuminate\Validation\Rule;
+
+class ProfileController extends Controller
+{
+    /**
+     * Update the authenticated user's name and email.
+     *
+     * @param Request $request
+     * @return JsonResponse
+     */
+    public function update(Request $request): JsonResponse
+    {
+        $user = $request->user();
+
+        $request->validate([
+            'name' => 'required|string|min:2|max:255|regex:/^[a-zA-Z\s\-\'\.]+$/',
+            'email' => [
+                'required',
+                'string',
+                'email',
+                'max:255',
+                Rule::unique('users', 'email')->ignore($user->id),
+            ],
+        ], [
+            'name.required' => 'The name field is required.',
+            'name.min' => 'The name must be at least 2 characters long.',
+            'name.max' => 'The name may not be greater than 255 characters.',
+            'name.regex' => 'The name may only contain letters, spaces, hyphens, apostrophes, and dots.',
+            'email.unique' => 'This email address is already in use.',
+        ]);
+
+        try {
+            $oldEmail = $user->email;
+            $user->update([
+                'name' => trim($request->name),
+                'email' => strtolower(trim($request->email)),
+            ]);
+
+            Log::info('User profile updated', [
+                'user_id' => $user->id,
+                'email_changed' => $oldEmail !== $user->email,
+            ]);
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Profile updated successfully',
+                'data' => $user->load(['salary', 'uploadedDocuments'])
+            ]);
+
+        } catch (\Exception $e) {
+            Log::error('Error in profile update operation', [
+                'user_id' => $user->id,
+                'error' => $e->getMessage(),
+                'trace' => $e->getTraceAsString(),
+            ]);
+
+            return response()->json([
+                'success' => false,
+                'message' => 'An error occurred while updating your profile.',
+                'error' => config('app.debug') ? $e->getMessage() : 'Internal server error'
+            ], 500);
+        }
+    }
+
+    /**
+     * Get the authenticated user's preferences.
+     *
+     * @param Request $request
+     * @return JsonResponse
+     */
+    public function preferences(Request $request): JsonResponse
+    {
+        return response()->json([
+            'success' => true,
+            'data' => $request->user()->getPreferences()
+        ]);
+    }
+
+    /**
+     * Update the authenticated user's preferences; omitted fields keep their saved values.
+     *
+     * @param Request $request
+     * @return JsonResponse
+     */
+    public function updatePreferences(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'theme' => ['sometimes', 'string', Rule::in(['light', 'dark', 'system'])],
+            'notifications' => 'sometimes|array',
+            'notifications.salary_updates' => 'sometimes|boolean',
+            'notifications.announcements' => 'sometimes|boolean',
+        ]);
+
+        $user = $request->user();
+
+        try {
+            $user->update([
+                'preferences' => array_replace_recursive($user->getPreferences(), $validated),
+            ]);
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Preferences updated successfully',
+                'data' => $user->getPreferences()
+            ]);
+
+        } catch (\Exception $e) {
+            Log::error('Error in preferences update operation', [
+                'user_id' => $user->id,
+                'error' => $e->getMessage(),
+                'trace' => $e->getTraceAsString(),
+            ]);
+
+            return response()->json([
+                'success' => false,
+                'message' => 'An error occurred while updating your preferences.',
+                'error' => config('app.debug') ? $e->getMessage() : 'Internal server error'
+            ], 500);
+        }
+    }
+}
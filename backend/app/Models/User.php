@@ -14,6 +14,17 @@ class User extends Authenticatable
 {
     use HasApiTokens, HasFactory, Notifiable, SoftDeletes;
 
+    /**
+     * Preferences used until the user saves their own.
+     */
+    public const DEFAULT_PREFERENCES = [
+        'theme' => 'dark',
+        'notifications' => [
+            'salary_updates' => true,
+            'announcements' => false,
+        ],
+    ];
+
     /**
      * The attributes that are mass assignable.
      */
@@ -22,6 +33,7 @@ class User extends Authenticatable
         'email',
         'password',
         'email_verified_at',
+        'preferences',
     ];
 
     /**
@@ -31,6 +43,7 @@ class User extends Authenticatable
         'password',
         'remember_token',
         'deleted_at',
+        'preferences',
     ];
 
     /**
@@ -39,11 +52,20 @@ class User extends Authenticatable
     protected $casts = [
         'email_verified_at' => 'datetime',
         'password' => 'hashed',
+        'preferences' => 'array',
         'created_at' => 'datetime',
         'updated_at' => 'datetime',
         'deleted_at' => 'datetime',
     ];
 
+    /**
+     * Get the user's preferences, filled in with the defaults for anything not saved.
+     */
+    public function getPreferences(): array
+    {
+        return array_replace_recursive(self::DEFAULT_PREFERENCES, $this->preferences ?? []);
+    }
+
     /**
      * Get the current salary for the user.
      */
@@ -7,6 +7,7 @@ use App\Http\Controllers\Api\SalaryController;
 use App\Http\Controllers\Api\CommissionController;
 use App\Http\Controllers\Api\AdminController;
 use App\Http\Controllers\Api\AuthController;
+use App\Http\Controllers\Api\ProfileController;
 
 /*
 |--------------------------------------------------------------------------
@@ -73,6 +74,11 @@ Route::prefix('v1')->name('api.v1.')->group(function () {
             ]);
         })->name('user');
 
+        // Current user's own profile and preferences
+        Route::put('user', [ProfileController::class, 'update'])->name('user.update');
+        Route::get('user/preferences', [ProfileController::class, 'preferences'])->name('user.preferences');
+        Route::put('user/preferences', [ProfileController::class, 'updatePreferences'])->name('user.preferences.update');
+
         // User Management Routes (basic authenticated users)
         Route::prefix('users')->name('users.')->group(function () {
             Route::get('/{user}', [UserController::class, 'show'])->name('show');
@@ -90,6 +96,7 @@ Route::prefix('v1')->name('api.v1.')->group(function () {
             // Admin Dashboard
             Route::get('dashboard', [AdminController::class, 'dashboard'])->name('dashboard');
             Route::get('statistics', [AdminController::class, 'statistics'])->name('statistics');
+            Route::get('activities', [AdminController::class, 'activities'])->name('activities');
             Route::get('health', [AdminController::class, 'health'])->name('health');
 
             // User Management (Admin)
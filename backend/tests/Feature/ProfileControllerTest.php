@@ -0,0 +1,118 @@
+<?php
+
+namespace Tests\Feature;
+
+use Tests\TestCase;
+use App\Models\User;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Sanctum\Sanctum;
+
+class ProfileControllerTest extends TestCase
+{
+    use RefreshDatabase;
+
+    /** @test */
+    public function user_can_update_their_own_profile()
+    {
+        $user = User::factory()->create(['name' => 'Old Name', 'email' => 'old@example.com']);
+        Sanctum::actingAs($user);
+
+        $response = $this->putJson('/api/v1/user', [
+            'name' => 'New Name',
+            'email' => 'New@Example.com'
+        ]);
+
+        $response->assertStatus(200)
+                ->assertJson([
+                    'success' => true,
+                    'data' => [
+                        'name' => 'New Name',
+                        'email' => 'new@example.com'
+                    ]
+                ]);
+
+        $this->assertDatabaseHas('users', [
+            'id' => $user->id,
+            'name' => 'New Name',
+            'email' => 'new@example.com'
+        ]);
+    }
+
+    /** @test */
+    public function profile_update_rejects_an_email_used_by_another_user()
+    {
+        User::factory()->create(['email' => 'taken@example.com']);
+        $user = User::factory()->create();
+        Sanctum::actingAs($user);
+
+        $response = $this->putJson('/api/v1/user', [
+            'name' => $user->name,
+            'email' => 'taken@example.com'
+        ]);
+
+        $response->assertStatus(422)
+                ->assertJsonValidationErrors(['email']);
+    }
+
+    /** @test */
+    public function preferences_default_until_saved()
+    {
+        Sanctum::actingAs(User::factory()->create());
+
+        $response = $this->getJson('/api/v1/user/preferences');
+
+        $response->assertStatus(200)
+                ->assertJson([
+                    'success' => true,
+                    'data' => User::DEFAULT_PREFERENCES
+                ]);
+    }
+
+    /** @test */
+    public function partial_preference_updates_keep_saved_values()
+    {
+        $user = User::factory()->create();
+        Sanctum::actingAs($user);
+
+        $this->putJson('/api/v1/user/preferences', [
+            'theme' => 'light',
+            'notifications' => ['announcements' => true]
+        ])->assertStatus(200);
+
+        $response = $this->putJson('/api/v1/user/preferences', [
+            'notifications' => ['salary_updates' => false]
+        ]);
+
+        $response->assertStatus(200)
+                ->assertJson([
+                    'data' => [
+                        'theme' => 'light',
+                        'notifications' => [
+                            'salary_updates' => false,
+                            'announcements' => true
+                        ]
+                    ]
+                ]);
+
+        $this->assertEquals('light', $user->fresh()->getPreferences()['theme']);
+    }
+
+    /** @test */
+    public function preferences_reject_unknown_themes()
+    {
+        Sanctum::actingAs(User::factory()->create());
+
+        $response = $this->putJson('/api/v1/user/preferences', ['theme' => 'neon']);
+
+        $response->assertStatus(422)
+                ->assertJsonValidationErrors(['theme']);
+    }
+
+    /** @test */
+    public function profile_routes_require_authentication()
+    {
+        $this->putJson('/api/v1/user', ['name' => 'Someone', 'email' => 'someone@example.com'])
+            ->assertStatus(401);
+        $this->getJson('/api/v1/user/preferences')->assertStatus(401);
+    }
+}
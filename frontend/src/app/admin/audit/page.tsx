@@ -0,0 +1,267 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import Layout from '@/components/Layout';
+import Button from '@/components/Button';
+import SalaryHistoryDiff from '@/components/SalaryHistoryDiff';
+import { LazyAdvancedFilters } from '@/components/LazyComponents';
+import { SmartLoader } from '@/components/OptimizedLoading';
+import { useAuditLog } from '@/hooks/useAuditLog';
+import { AuditLogParams, CommissionAuditEntry } from '@/lib/api/types';
+import { getAuditActorName, getCommissionChange } from '@/lib/auditLog';
+import { SALARY_FIELD_CONFIG, formatMoney, formatPercentChange } from '@/lib/salaryHistory';
+import { ADMIN_NAVIGATION_ITEMS } from '@/lib/navigation';
+
+const positiveInteger = (value: string) => {
+  if (value && !/^\d+$/.test(String(value))) {
+    return 'Must be a numeric user id';
+  }
+  return null;
+};
+
+const filterOptions = [
+  {
+    key: 'type',
+    label: 'Change Type',
+    type: 'select' as const,
+    options: [
+      { value: 'salary', label: 'Salary changes' },
+      { value: 'commission', label: 'Commission changes' },
+    ],
+  },
+  {
+    key: 'user_id',
+    label: 'User ID',
+    type: 'text' as const,
+    placeholder: 'Whose salary changed',
+    validation: positiveInteger,
+  },
+  {
+    key: 'actor_id',
+    label: 'Changed By (User ID)',
+    type: 'text' as const,
+    placeholder: 'Who made the change',
+    validation: positiveInteger,
+  },
+  {
+    key: 'field',
+    label: 'Field',
+    type: 'select' as const,
+    options: [
+      ...Object.entries(SALARY_FIELD_CONFIG).map(([value, config]) => ({ value, label: config.label })),
+      { value: 'commission_amount', label: 'Global commission' },
+    ],
+  },
+  {
+    key: 'reason',
+    label: 'Reason Contains',
+    type: 'text' as const,
+    placeholder: 'e.g., annual review',
+  },
+  // Keyed like the users table's date filter so the "Last 7/30 Days" quick filters apply to it
+  {
+    key: 'created',
+    label: 'Date',
+    type: 'date' as const,
+  },
+];
+
+type AuditFilters = Omit<AuditLogParams, 'page' | 'per_page'>;
+
+// Form values for AdvancedFilters; unset filters are left out so they are not counted as active
+function toFormValues(filters: AuditFilters): Record<string, string> {
+  const values: Record<string, string | undefined> = {
+    type: filters.type,
+    user_id: filters.user_id?.toString(),
+    actor_id: filters.actor_id?.toString(),
+    field: filters.field,
+    reason: filters.reason,
+    created_from: filters.date_from,
+    created_to: filters.date_to,
+  };
+
+  return Object.fromEntries(
+    Object.entries(values).filter((entry): entry is [string, string] => Boolean(entry[1]))
+  );
+}
+
+function CommissionAuditItem({ entry }: { entry: CommissionAuditEntry }) {
+  const change = getCommissionChange(entry);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="rounded-full bg-primary/15 px-2 py-0.5 text-xs font-medium text-primary">
+            Commission
+          </span>
+          <span className="text-muted-foreground text-sm">by {getAuditActorName(entry)}</span>
+        </div>
+        <time className="text-muted-foreground text-xs" dateTime={entry.created_at}>
+          {new Date(entry.created_at).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+        </time>
+      </div>
+
+      {entry.change_reason && (
+        <p className="text-foreground text-sm">
+          <span className="text-muted-foreground">Reason: </span>
+          {entry.change_reason}
+        </p>
+      )}
+
+      <div className="grid grid-cols-[140px_1fr_auto] items-baseline gap-3 rounded-lg bg-surface px-3 py-2">
+        <span className="text-muted-foreground text-sm">Global commission</span>
+        <span className="text-sm">
+          <span className="text-muted-foreground line-through decoration-1">
+            {change.oldAmount === null ? '—' : formatMoney(change.oldAmount, 'EUR')}
+          </span>
+          <span className="text-muted-foreground mx-2">→</span>
+          <span className="text-foreground font-medium">{formatMoney(change.newAmount, 'EUR')}</span>
+        </span>
+        {change.delta !== null ? (
+          <span className={`text-xs font-medium ${change.delta > 0 ? 'text-green-400' : change.delta < 0 ? 'text-red-400' : 'text-muted-foreground'}`}>
+            {change.delta > 0 ? '+' : ''}{formatMoney(change.delta, 'EUR')}
+            {change.percentChange !== null && ` (${formatPercentChange(change.percentChange)})`}
+          </span>
+        ) : (
+          <span />
+        )}
+      </div>
+      <p className="text-muted-foreground text-xs">
+        Effective {new Date(entry.effective_date).toLocaleDateString(undefined, { dateStyle: 'medium' })}
+      </p>
+    </div>
+  );
+}
+
+export default function AuditLogPage() {
+  const audit = useAuditLog();
+  const { pagination } = audit;
+
+  // AdvancedFilters hands back raw form values; map them onto the API params
+  const handleFiltersChange = useCallback((values: Record<string, string>) => {
+    const nextFilters: AuditFilters = {};
+
+    if (values.type) nextFilters.type = values.type as AuditLogParams['type'];
+    if (values.user_id) nextFilters.user_id = Number(values.user_id);
+    if (values.actor_id) nextFilters.actor_id = Number(values.actor_id);
+    if (values.field) nextFilters.field = values.field;
+    if (values.reason) nextFilters.reason = values.reason.trim();
+    if (values.created_from) nextFilters.date_from = values.created_from;
+    if (values.created_to) nextFilters.date_to = values.created_to;
+
+    audit.actions.applyFilters(nextFilters);
+  }, [audit.actions]);
+
+  const formValues = useMemo(() => toFormValues(audit.filters), [audit.filters]);
+
+  const handleResetFilters = useCallback(() => {
+    audit.actions.applyFilters({});
+  }, [audit.actions]);
+
+  return (
+    <Layout
+      brandName="PayWise Admin"
+      navigationItems={ADMIN_NAVIGATION_ITEMS}
+      showUserProfile={true}
+    >
+      <div className="flex flex-wrap justify-between gap-3 p-4">
+        <div className="flex min-w-72 flex-col gap-3">
+          <p className="text-foreground tracking-light text-[32px] font-bold leading-tight">Audit Log</p>
+          <p className="text-muted-foreground text-sm font-normal leading-normal">
+            Every salary and commission change across the organisation, newest first.
+          </p>
+        </div>
+        <div className="flex items-start gap-2">
+          <Button variant="outline" onClick={audit.actions.refresh} disabled={audit.loading}>
+            Refresh
+          </Button>
+          <Button
+            onClick={audit.actions.exportCsv}
+            disabled={audit.exporting || audit.loading || pagination.total === 0}
+          >
+            {audit.exporting ? 'Exporting...' : 'Export CSV'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="px-4 py-3">
+        <LazyAdvancedFilters
+          filters={formValues}
+          onFiltersChange={handleFiltersChange}
+          filterOptions={filterOptions}
+          onReset={handleResetFilters}
+          loading={audit.loading}
+          showActiveCount={true}
+        />
+      </div>
+
+      {audit.error && (
+        <div className="mx-4 mb-4 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <div className="flex items-center gap-2">
+            <svg className="w-5 h-5 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p className="text-red-400 text-sm">{audit.error}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="px-4 py-3">
+        {audit.loading && audit.entries.length === 0 ? (
+          <SmartLoader type="Table" />
+        ) : (
+          <div className={`flex flex-col overflow-hidden rounded-lg border border-border bg-background ${audit.loading ? 'opacity-60' : ''}`}>
+            {audit.entries.length === 0 && (
+              <p className="text-muted-foreground text-sm p-4">No changes match these filters.</p>
+            )}
+            {audit.entries.map(entry => (
+              <div key={`${entry.type}-${entry.id}`} className="border-t border-t-border first:border-t-0 px-4 py-3">
+                {entry.type === 'commission' ? (
+                  <CommissionAuditItem entry={entry} />
+                ) : (
+                  <SalaryHistoryDiff record={entry} showUser={true} />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between px-4 py-3">
+        <div className="flex items-center gap-4">
+          <span className="text-muted-foreground text-sm">
+            {pagination.total} changes · Page {pagination.currentPage} of {Math.max(pagination.totalPages, 1)}
+          </span>
+          <select
+            value={pagination.perPage}
+            onChange={(e) => audit.actions.changePerPage(Number(e.target.value))}
+            className="bg-surface-raised text-foreground rounded px-2 py-1 text-sm border-none focus:outline-none focus:ring-1 focus:ring-primary"
+          >
+            <option value={25}>25</option>
+            <option value={50}>50</option>
+            <option value={100}>100</option>
+          </select>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={pagination.currentPage <= 1 || audit.loading}
+            onClick={() => audit.actions.changePage(pagination.currentPage - 1)}
+          >
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={pagination.currentPage >= pagination.totalPages || audit.loading}
+            onClick={() => audit.actions.changePage(pagination.currentPage + 1)}
+          >
+            Next
+          </Button>
+        </div>
+      </div>
+    </Layout>
+  );
+}
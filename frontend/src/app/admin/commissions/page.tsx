@@ -0,0 +1,462 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import Layout from '@/components/Layout';
+import Input from '@/components/Input';
+import Button from '@/components/Button';
+import { SmartLoader } from '@/components/OptimizedLoading';
+import CommissionSourceBadge from '@/components/CommissionSourceBadge';
+import { useAdminData } from '@/hooks/useAdminData';
+import { useCommissionOverrides, getOverrideKey } from '@/hooks/useCommissionOverrides';
+import { useCommissionSchedule } from '@/hooks/useCommissionSchedule';
+import { useForm } from '@/hooks/useForm';
+import { CommissionStatus, CommissionTimelineEntry, previewCommissionChange, todayIsoDate } from '@/lib/commissions';
+import { parseAmount } from '@/lib/currency';
+import { DEPARTMENT_OPTIONS } from '@/lib/departments';
+import { formatMoney } from '@/lib/salaryHistory';
+import { ADMIN_NAVIGATION_ITEMS } from '@/lib/navigation';
+
+const STATUS_STYLES: Record<CommissionStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-yellow-500/10 border-yellow-500/20 text-yellow-400' },
+  current: { label: 'In effect', className: 'bg-primary/15 border-primary/30 text-primary' },
+  past: { label: 'Past', className: 'bg-surface-raised border-border text-muted-foreground' },
+};
+
+interface ScheduleFormData extends Record<string, unknown> {
+  amount: string;
+  effective_date: string;
+}
+
+function formatDay(value: string): string {
+  return new Date(`${value.slice(0, 10)}T00:00:00`).toLocaleDateString(undefined, { dateStyle: 'medium' });
+}
+
+export default function CommissionsPage() {
+  const commissions = useCommissionSchedule();
+  const previewUsers = useAdminData({ initialPerPage: 10 });
+  const commissionOverrides = useCommissionOverrides();
+  const [departmentDrafts, setDepartmentDrafts] = useState<Record<string, string>>({});
+  const [previewId, setPreviewId] = useState<number | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const form = useForm<ScheduleFormData>({
+    initialValues: {
+      amount: '',
+      effective_date: '',
+    },
+    validate: (values) => {
+      const errors: Record<string, string> = {};
+      const amount = parseFloat(values.amount);
+
+      if (!values.amount.trim()) {
+        errors.amount = 'Amount is required';
+      } else if (isNaN(amount) || amount < 0) {
+        errors.amount = 'Please enter a valid commission amount';
+      }
+
+      if (!values.effective_date) {
+        errors.effective_date = 'Effective date is required';
+      } else if (values.effective_date < todayIsoDate()) {
+        errors.effective_date = 'Effective date cannot be in the past';
+      }
+
+      return errors;
+    },
+    onSubmit: async (values) => {
+      setSuccessMessage(null);
+      const scheduled = await commissions.actions.schedule(parseFloat(values.amount), values.effective_date);
+      form.reset();
+      setPreviewId(scheduled.id);
+      setSuccessMessage(
+        values.effective_date === todayIsoDate()
+          ? 'Commission updated.'
+          : `Commission change scheduled for ${formatDay(values.effective_date)}.`
+      );
+    },
+  });
+
+  // Preview the draft while typing, otherwise the selected (or next) pending change
+  const draftAmount = parseAmount(form.values.amount);
+  const selectedPending = commissions.pendingCommissions.find(entry => entry.id === previewId)
+    ?? commissions.pendingCommissions[commissions.pendingCommissions.length - 1]
+    ?? null;
+  const previewAmount = draftAmount ?? (selectedPending ? Number(selectedPending.amount) : null);
+  const previewLabel = draftAmount !== null
+    ? 'draft change'
+    : selectedPending ? `change effective ${formatDay(selectedPending.effective_date)}` : null;
+
+  const handleCancel = async (entry: CommissionTimelineEntry) => {
+    if (!confirm(`Cancel the commission change to ${formatMoney(Number(entry.amount), 'EUR')} scheduled for ${formatDay(entry.effective_date)}?`)) {
+      return;
+    }
+    setSuccessMessage(null);
+    await commissions.actions.cancel(entry.id);
+  };
+
+  return (
+    <Layout
+      brandName="PayWise Admin"
+      navigationItems={ADMIN_NAVIGATION_ITEMS}
+      showUserProfile={true}
+    >
+      <div className="flex flex-wrap justify-between gap-3 p-4">
+        <div className="flex min-w-72 flex-col gap-3">
+          <p className="text-foreground tracking-light text-[32px] font-bold leading-tight">Commissions</p>
+          <p className="text-muted-foreground text-sm font-normal leading-normal">
+            Schedule changes to the global commission and review when each one takes effect.
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-1">
+          <p className="text-muted-foreground text-sm">Currently in effect</p>
+          <p className="text-foreground text-2xl font-bold">
+            {commissions.currentCommission ? formatMoney(Number(commissions.currentCommission.amount), 'EUR') : '—'}
+          </p>
+        </div>
+      </div>
+
+      {commissions.error && (
+        <div className="mx-4 mb-4 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <div className="flex items-center gap-2">
+            <svg className="w-5 h-5 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p className="text-red-400 text-sm">{commissions.error}</p>
+          </div>
+        </div>
+      )}
+
+      {commissions.scheduledError && (
+        <div className="mx-4 mb-4 p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
+          <p className="text-yellow-400 text-sm">{commissions.scheduledError}</p>
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="mx-4 mb-4 p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
+          <div className="flex items-center gap-2">
+            <svg className="w-5 h-5 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+            </svg>
+            <p className="text-green-400 text-sm">{successMessage}</p>
+          </div>
+        </div>
+      )}
+
+      <h2 className="text-foreground text-[22px] font-bold leading-tight tracking-[-0.015em] px-4 pb-3 pt-5">
+        Schedule a Change
+      </h2>
+      <form onSubmit={form.handleSubmit} className="flex max-w-[640px] flex-wrap items-start gap-4 px-4 py-3">
+        <div className="flex-1 min-w-48">
+          <Input
+            label="New Commission (EUR)"
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="e.g., 500"
+            value={form.values.amount}
+            onChange={(e) => form.handleChange('amount', e.target.value)}
+            error={form.errors.amount}
+            disabled={form.isSubmitting}
+          />
+        </div>
+        <div className="flex-1 min-w-48">
+          <Input
+            label="Effective Date"
+            type="date"
+            min={todayIsoDate()}
+            value={form.values.effective_date}
+            onChange={(e) => form.handleChange('effective_date', e.target.value)}
+            error={form.errors.effective_date}
+            disabled={form.isSubmitting}
+          />
+        </div>
+        <div className="flex w-full justify-end gap-2">
+          {form.isDirty && (
+            <Button type="button" variant="outline" onClick={() => form.reset()} disabled={form.isSubmitting}>
+              Clear
+            </Button>
+          )}
+          <Button type="submit" disabled={form.isSubmitting || commissions.scheduling}>
+            {form.isSubmitting ? 'Scheduling...' : 'Schedule Change'}
+          </Button>
+        </div>
+      </form>
+
+      <h2 className="text-foreground text-[22px] font-bold leading-tight tracking-[-0.015em] px-4 pb-3 pt-5">
+        Timeline
+      </h2>
+      <div className="px-4 py-3">
+        {commissions.loading && commissions.timeline.length === 0 ? (
+          <SmartLoader type="Table" />
+        ) : commissions.timeline.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No commission changes recorded.</p>
+        ) : (
+          <ol className="relative flex flex-col border-l border-border ml-2">
+            {commissions.timeline.map(entry => {
+              const style = STATUS_STYLES[entry.status];
+              const isSelected = entry.status === 'pending' && selectedPending?.id === entry.id && draftAmount === null;
+
+              return (
+                <li key={entry.id} className="relative pl-6 pb-5 last:pb-0">
+                  <span
+                    className={`absolute -left-[7px] top-1.5 h-3 w-3 rounded-full border-2 border-background ${
+                      entry.status === 'pending' ? 'bg-yellow-400' : entry.status === 'current' ? 'bg-primary' : 'bg-border'
+                    }`}
+                  />
+                  <div className={`flex flex-wrap items-center justify-between gap-3 rounded-lg border px-4 py-3 ${isSelected ? 'border-primary bg-surface' : 'border-border bg-background'}`}>
+                    <div className="flex flex-col gap-1">
+                      <div className="flex items-center gap-2">
+                        <span className="text-foreground text-base font-bold">{formatMoney(Number(entry.amount), 'EUR')}</span>
+                        <span className={`rounded-full border px-2 py-0.5 text-xs font-medium ${style.className}`}>
+                          {style.label}
+                        </span>
+                      </div>
+                      <p className="text-muted-foreground text-xs">
+                        Effective {formatDay(entry.effective_date)} · Created {new Date(entry.created_at).toLocaleDateString(undefined, { dateStyle: 'medium' })}
+                      </p>
+                    </div>
+                    {entry.status === 'pending' && (
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setPreviewId(entry.id)} disabled={isSelected}>
+                          Preview
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleCancel(entry)}
+                          disabled={commissions.cancellingId === entry.id}
+                          className="text-red-400 border-red-400 hover:bg-red-400 hover:text-white"
+                        >
+                          {commissions.cancellingId === entry.id ? 'Cancelling...' : 'Cancel'}
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+
+      <h2 className="text-foreground text-[22px] font-bold leading-tight tracking-[-0.015em] px-4 pb-3 pt-5">
+        Overrides
+      </h2>
+      <p className="text-muted-foreground text-sm px-4">
+        User overrides win over department overrides, which win over the global commission.
+        Set a user override by editing their commission in the users table.
+      </p>
+
+      {commissionOverrides.error && (
+        <div className="mx-4 mt-3 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <p className="text-red-400 text-sm">{commissionOverrides.error}</p>
+        </div>
+      )}
+
+      <div className="px-4 py-3">
+        <div className={`flex overflow-hidden rounded-lg border border-border bg-background ${commissionOverrides.loading ? 'opacity-60' : ''}`}>
+          <table className="flex-1">
+            <thead>
+              <tr className="bg-surface">
+                <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Department</th>
+                <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Commission</th>
+                <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal w-[360px]">Override</th>
+              </tr>
+            </thead>
+            <tbody>
+              {DEPARTMENT_OPTIONS.map(department => {
+                const override = commissionOverrides.overrides.find(
+                  item => item.scope === 'department' && item.department === department.value
+                );
+                const key = getOverrideKey({ scope: 'department', department: department.value });
+                const saving = commissionOverrides.savingKey === key;
+                const draft = departmentDrafts[department.value] ?? '';
+                const draftAmount = draft.trim() === '' ? null : parseFloat(draft);
+
+                return (
+                  <tr key={department.value} className="border-t border-t-border">
+                    <td className="px-4 py-3 text-foreground text-sm">{department.label}</td>
+                    <td className="px-4 py-3 text-sm">
+                      {override ? (
+                        <span className="text-foreground font-medium">{formatMoney(Number(override.amount), 'EUR')}</span>
+                      ) : (
+                        <span className="text-muted-foreground">
+                          Global{commissionOverrides.globalAmount !== null && ` (${formatMoney(commissionOverrides.globalAmount, 'EUR')})`}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          placeholder={override ? String(override.amount) : 'Amount (EUR)'}
+                          value={draft}
+                          onChange={(e) => setDepartmentDrafts(prev => ({ ...prev, [department.value]: e.target.value }))}
+                          disabled={saving}
+                          className="bg-surface-raised text-foreground rounded px-2 py-1 text-sm border-none focus:outline-none focus:ring-1 focus:ring-primary w-32"
+                        />
+                        <Button
+                          size="sm"
+                          disabled={saving || draftAmount === null || isNaN(draftAmount) || draftAmount < 0}
+                          onClick={async () => {
+                            await commissionOverrides.actions.setOverride({
+                              scope: 'department',
+                              department: department.value,
+                              amount: draftAmount!,
+                            });
+                            setDepartmentDrafts(prev => ({ ...prev, [department.value]: '' }));
+                          }}
+                        >
+                          {saving ? '...' : 'Set'}
+                        </Button>
+                        {override && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={saving}
+                            onClick={() => commissionOverrides.actions.resetToGlobal(override)}
+                          >
+                            Reset to global
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {commissionOverrides.overrides.some(override => override.scope === 'user') && (
+        <div className="px-4 py-3">
+          <p className="text-foreground text-base font-bold leading-tight pb-3">User overrides</p>
+          <div className="flex flex-col overflow-hidden rounded-lg border border-border bg-background">
+            {commissionOverrides.overrides
+              .filter(override => override.scope === 'user')
+              .map(override => (
+                <div key={override.id} className="flex items-center justify-between gap-4 border-t border-t-border first:border-t-0 px-4 py-3">
+                  <Link href={`/admin/users/${override.user_id}`} className="text-primary text-sm font-medium">
+                    User #{override.user_id}
+                  </Link>
+                  <div className="flex items-center gap-3">
+                    <span className="text-foreground text-sm font-medium">{formatMoney(Number(override.amount), 'EUR')}</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={commissionOverrides.savingKey === getOverrideKey(override)}
+                      onClick={() => commissionOverrides.actions.resetToGlobal(override)}
+                    >
+                      Reset to global
+                    </Button>
+                  </div>
+                </div>
+              ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between px-4 pb-3 pt-5">
+        <h2 className="text-foreground text-[22px] font-bold leading-tight tracking-[-0.015em]">
+          Impact Preview
+        </h2>
+        {previewLabel && previewAmount !== null && (
+          <span className="text-muted-foreground text-sm">
+            {formatMoney(previewAmount, 'EUR')} · {previewLabel}
+          </span>
+        )}
+      </div>
+
+      {previewAmount === null ? (
+        <p className="text-muted-foreground text-sm px-4 py-3">
+          Enter an amount or select a pending change to see how displayed salaries would change.
+        </p>
+      ) : (
+        <>
+          {previewUsers.error && (
+            <div className="mx-4 mb-3 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+              <p className="text-red-400 text-sm">{previewUsers.error}</p>
+            </div>
+          )}
+          <div className="px-4 py-3">
+            <div className={`flex overflow-hidden rounded-lg border border-border bg-background ${previewUsers.loading ? 'opacity-60' : ''}`}>
+              <table className="flex-1">
+                <thead>
+                  <tr className="bg-surface">
+                    <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">User</th>
+                    <th className="px-4 py-3 text-right text-foreground text-sm font-medium leading-normal">Salary (EUR)</th>
+                    <th className="px-4 py-3 text-right text-foreground text-sm font-medium leading-normal">Displayed now</th>
+                    <th className="px-4 py-3 text-right text-foreground text-sm font-medium leading-normal">After change</th>
+                    <th className="px-4 py-3 text-right text-foreground text-sm font-medium leading-normal">Difference</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {previewUsers.users.map(user => {
+                    const salary = user.current_salary;
+                    const resolved = commissionOverrides.actions.resolve(user);
+                    const preview = salary ? previewCommissionChange(salary, previewAmount, resolved) : null;
+
+                    return (
+                      <tr key={user.id} className="border-t border-t-border">
+                        <td className="px-4 py-3 text-foreground text-sm">
+                          <span className="mr-2">{user.name}</span>
+                          <CommissionSourceBadge resolved={resolved} />
+                        </td>
+                        <td className="px-4 py-3 text-right text-muted-foreground text-sm">
+                          {salary ? formatMoney(Number(salary.salary_euros), 'EUR') : '—'}
+                        </td>
+                        <td className="px-4 py-3 text-right text-muted-foreground text-sm">
+                          {preview ? formatMoney(preview.currentDisplayed, 'EUR') : '—'}
+                        </td>
+                        <td className="px-4 py-3 text-right text-foreground text-sm font-medium">
+                          {preview ? formatMoney(preview.newDisplayed, 'EUR') : '—'}
+                        </td>
+                        <td className={`px-4 py-3 text-right text-sm ${!preview || preview.delta === 0 ? 'text-muted-foreground' : preview.delta > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                          {!preview
+                            ? 'No salary'
+                            : preview.overridden
+                              ? 'Overridden'
+                              : `${preview.delta > 0 ? '+' : ''}${formatMoney(preview.delta, 'EUR')}`}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {previewUsers.pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between px-4 py-3">
+              <span className="text-muted-foreground text-sm">
+                Page {previewUsers.pagination.currentPage} of {previewUsers.pagination.totalPages}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={previewUsers.pagination.currentPage === 1 || previewUsers.loading}
+                  onClick={() => previewUsers.actions.changePage(previewUsers.pagination.currentPage - 1)}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={previewUsers.pagination.currentPage === previewUsers.pagination.totalPages || previewUsers.loading}
+                  onClick={() => previewUsers.actions.changePage(previewUsers.pagination.currentPage + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </Layout>
+  );
+}
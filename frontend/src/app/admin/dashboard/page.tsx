@@ -0,0 +1,213 @@
+'use client';
+
+import { ReactNode } from 'react';
+import Link from 'next/link';
+import Layout from '@/components/Layout';
+import Button from '@/components/Button';
+import { BarChart, LineChart } from '@/components/Charts';
+import { SmartLoader } from '@/components/OptimizedLoading';
+import { useSalaryStats } from '@/hooks/useSalaryStats';
+import { ActivityItem, StatsPeriod } from '@/lib/api/types';
+import { formatDistributionLabel, formatPeriodLabel } from '@/lib/charts';
+import { formatMoney } from '@/lib/salaryHistory';
+import { ADMIN_NAVIGATION_ITEMS } from '@/lib/navigation';
+
+const PERIOD_OPTIONS: Array<{ value: StatsPeriod; label: string }> = [
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'quarter', label: 'Quarter' },
+  { value: 'year', label: 'Year' },
+];
+
+const formatEuros = (value: number) => formatMoney(value, 'EUR');
+
+function ChartCard({ title, description, children }: { title: string; description: string; children: ReactNode }) {
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-border bg-surface p-4">
+      <div>
+        <p className="text-foreground text-base font-bold leading-tight">{title}</p>
+        <p className="text-muted-foreground text-sm">{description}</p>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+function describeActivity(activity: ActivityItem): string {
+  const subject = activity.user?.name ?? 'A user';
+
+  switch (activity.type) {
+    case 'user_registered':
+      return `${subject} registered`;
+    case 'commission_change':
+      return 'Global commission updated';
+    default: {
+      const parts: string[] = [];
+      if (activity.changes.salary_change) {
+        parts.push(`salary ${activity.changes.salary_change > 0 ? '+' : ''}${formatEuros(activity.changes.salary_change)}`);
+      }
+      if (activity.changes.commission_change) {
+        parts.push(`commission ${activity.changes.commission_change > 0 ? '+' : ''}${formatEuros(activity.changes.commission_change)}`);
+      }
+      return parts.length > 0 ? `${subject}: ${parts.join(', ')}` : `${subject}: salary record updated`;
+    }
+  }
+}
+
+export default function AdminDashboardPage() {
+  const dashboard = useSalaryStats();
+  const { stats, period } = dashboard;
+
+  const distributionData = stats?.salaries.distribution.map(bucket => ({
+    label: formatDistributionLabel(bucket),
+    value: bucket.count,
+  })) ?? [];
+  const salaryTrendData = stats?.trends?.salary_trends.map(point => ({
+    label: formatPeriodLabel(point.period_start, period),
+    value: point.average_salary,
+  })) ?? [];
+  const commissionData = stats?.trends?.salary_trends.map(point => ({
+    label: formatPeriodLabel(point.period_start, period),
+    value: point.total_commission,
+  })) ?? [];
+  const registrationData = stats?.trends?.user_growth.map(point => ({
+    label: formatPeriodLabel(point.period_start, period),
+    value: point.registrations,
+  })) ?? [];
+
+  return (
+    <Layout
+      brandName="PayWise Admin"
+      navigationItems={ADMIN_NAVIGATION_ITEMS}
+      showUserProfile={true}
+    >
+      <div className="flex flex-wrap justify-between gap-3 p-4">
+        <div className="flex min-w-72 flex-col gap-3">
+          <p className="text-foreground tracking-light text-[32px] font-bold leading-tight">Dashboard</p>
+          <p className="text-muted-foreground text-sm font-normal leading-normal">
+            Salary, commission and registration trends across the organisation.
+          </p>
+        </div>
+        <div className="flex items-start gap-2">
+          <div className="flex rounded-lg bg-surface-raised p-1" role="group" aria-label="Group statistics by">
+            {PERIOD_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => dashboard.actions.changePeriod(option.value)}
+                aria-pressed={period === option.value}
+                className={`rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
+                  period === option.value
+                    ? 'bg-primary text-primary-foreground'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <Button variant="outline" onClick={dashboard.actions.refresh} disabled={dashboard.loading}>
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {dashboard.error && (
+        <div className="mx-4 mb-4 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <div className="flex items-center gap-2">
+            <svg className="w-5 h-5 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p className="text-red-400 text-sm">{dashboard.error}</p>
+          </div>
+        </div>
+      )}
+
+      {dashboard.loading && !stats ? (
+        <div className="p-4">
+          <SmartLoader type="Dashboard" />
+        </div>
+      ) : stats && (
+        <div className={dashboard.loading ? 'opacity-60' : ''}>
+          <div className="grid grid-cols-[repeat(auto-fit,minmax(180px,1fr))] gap-3 p-4">
+            {[
+              { label: 'Average salary', value: formatEuros(stats.salaries.average_salary) },
+              { label: 'Median salary', value: formatEuros(stats.salaries.median_salary) },
+              { label: 'Average commission', value: formatEuros(stats.salaries.average_commission) },
+              { label: 'Users', value: stats.users.total.toLocaleString() },
+              { label: 'New in range', value: stats.users.new_in_period.toLocaleString() },
+            ].map(item => (
+              <div key={item.label} className="flex flex-col gap-2 rounded-lg border border-border bg-surface p-4">
+                <p className="text-muted-foreground text-sm font-medium leading-normal">{item.label}</p>
+                <p className="text-foreground text-xl font-bold leading-tight">{item.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 p-4 lg:grid-cols-2">
+            <ChartCard title="Salary distribution" description="Employees per salary band (EUR)">
+              <BarChart
+                title="Salary distribution histogram"
+                data={distributionData}
+                formatValue={value => `${value} employees`}
+              />
+            </ChartCard>
+            <ChartCard title="Average salary" description="Mean salary in EUR set by the changes in each period">
+              <LineChart title="Average salary over time" data={salaryTrendData} formatValue={formatEuros} />
+            </ChartCard>
+            <ChartCard title="Commission totals" description="Commission on the salaries changed in each period">
+              <BarChart title="Commission totals per period" data={commissionData} formatValue={formatEuros} />
+            </ChartCard>
+            <ChartCard title="Registrations" description="New users per period">
+              <BarChart
+                title="Registrations per period"
+                data={registrationData}
+                formatValue={value => `${value} registrations`}
+              />
+            </ChartCard>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between px-4 pb-3 pt-5">
+        <h2 className="text-foreground text-[22px] font-bold leading-tight tracking-[-0.015em]">
+          Recent Activity
+        </h2>
+        <Link href="/admin/audit" className="text-primary text-sm font-medium">
+          View audit log →
+        </Link>
+      </div>
+
+      {dashboard.activitiesError && (
+        <div className="mx-4 mb-3 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <p className="text-red-400 text-sm">{dashboard.activitiesError}</p>
+        </div>
+      )}
+
+      <div className="px-4 py-3">
+        <div className={`flex flex-col overflow-hidden rounded-lg border border-border bg-background ${dashboard.activitiesLoading ? 'opacity-60' : ''}`}>
+          {dashboard.activities.length === 0 && !dashboard.activitiesLoading && (
+            <p className="text-muted-foreground text-sm p-4">No recent activity.</p>
+          )}
+          {dashboard.activities.map(activity => (
+            <div
+              key={`${activity.type}-${activity.id}`}
+              className="flex flex-wrap items-center justify-between gap-2 border-t border-t-border first:border-t-0 px-4 py-3"
+            >
+              <div className="flex min-w-0 flex-col">
+                <p className="text-foreground text-sm font-medium">{describeActivity(activity)}</p>
+                <p className="text-muted-foreground text-xs">
+                  {activity.changed_by ? `by ${activity.changed_by.name}` : 'System'}
+                  {activity.reason && ` · ${activity.reason}`}
+                </p>
+              </div>
+              <time className="text-muted-foreground text-xs" dateTime={activity.created_at}>
+                {new Date(activity.created_at).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+              </time>
+            </div>
+          ))}
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,176 @@
+'use client';
+
+import Link from 'next/link';
+import Layout from '@/components/Layout';
+import Button from '@/components/Button';
+import { SmartLoader } from '@/components/OptimizedLoading';
+import { useExportJobs } from '@/hooks/useExportJobs';
+import { ExportJob, ExportJobStatus } from '@/lib/api/types';
+import {
+  EXPORT_FORMAT_LABELS,
+  EXPORT_STATUS_LABELS,
+  describeExportParams,
+  formatFileSize,
+  isActiveExportJob,
+  isExportDownloadable,
+  toUsersQueryString,
+} from '@/lib/exports';
+import { ADMIN_NAVIGATION_ITEMS } from '@/lib/navigation';
+
+const STATUS_CLASSES: Record<ExportJobStatus, string> = {
+  queued: 'bg-surface-raised border-border text-muted-foreground',
+  processing: 'bg-primary/15 border-primary/30 text-primary',
+  completed: 'bg-green-500/10 border-green-500/20 text-green-400',
+  failed: 'bg-red-500/10 border-red-500/20 text-red-400',
+  expired: 'bg-yellow-500/10 border-yellow-500/20 text-yellow-400',
+};
+
+function formatDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) : '—';
+}
+
+function ExportStatus({ job }: { job: ExportJob }) {
+  // A completed file past its expiry can no longer be downloaded even if the job has not been swept yet
+  const status: ExportJobStatus = job.status === 'completed' && !isExportDownloadable(job) ? 'expired' : job.status;
+
+  return (
+    <div className="flex flex-col gap-1">
+      <span className={`inline-flex w-fit items-center rounded-full border px-2 py-0.5 text-xs font-medium ${STATUS_CLASSES[status]}`}>
+        {EXPORT_STATUS_LABELS[status]}
+      </span>
+      {job.status === 'processing' && job.progress !== null && (
+        <div className="h-1.5 w-24 overflow-hidden rounded-full bg-border">
+          <div className="h-full bg-primary transition-all" style={{ width: `${job.progress}%` }} />
+        </div>
+      )}
+      {job.status === 'failed' && job.error && (
+        <span className="text-red-400 text-xs">{job.error}</span>
+      )}
+    </div>
+  );
+}
+
+export default function ExportsPage() {
+  const exports = useExportJobs();
+
+  const handleDelete = (job: ExportJob) => {
+    if (confirm(`Delete this ${EXPORT_FORMAT_LABELS[job.format]} export? The file will no longer be available.`)) {
+      exports.actions.deleteJob(job.id);
+    }
+  };
+
+  return (
+    <Layout
+      brandName="PayWise Admin"
+      navigationItems={ADMIN_NAVIGATION_ITEMS}
+      showUserProfile={true}
+    >
+      <div className="flex flex-wrap justify-between gap-3 p-4">
+        <div className="flex min-w-72 flex-col gap-3">
+          <p className="text-foreground tracking-light text-[32px] font-bold leading-tight">Exports</p>
+          <p className="text-muted-foreground text-sm font-normal leading-normal">
+            Exports run in the background. Start one from the users table; finished files stay here until they expire.
+          </p>
+        </div>
+        <div className="flex items-start gap-2">
+          <Button variant="outline" onClick={exports.actions.refresh} disabled={exports.loading}>
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {(exports.error || exports.actionError) && (
+        <div className="mx-4 mb-4 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <div className="flex items-center gap-2">
+            <svg className="w-5 h-5 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p className="text-red-400 text-sm">{exports.actionError || exports.error}</p>
+          </div>
+        </div>
+      )}
+
+      {exports.activeCount > 0 && (
+        <p className="text-muted-foreground text-sm px-4">
+          {exports.activeCount} export{exports.activeCount === 1 ? ' is' : 's are'} running. This list updates automatically.
+        </p>
+      )}
+
+      <div className="px-4 py-3">
+        {exports.loading && exports.jobs.length === 0 ? (
+          <SmartLoader type="Table" />
+        ) : (
+          <div className="flex overflow-x-auto rounded-lg border border-border bg-background">
+            <table className="flex-1">
+              <thead>
+                <tr className="bg-surface">
+                  <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Format</th>
+                  <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Filters</th>
+                  <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Status</th>
+                  <th className="px-4 py-3 text-right text-foreground text-sm font-medium leading-normal">Rows</th>
+                  <th className="px-4 py-3 text-right text-foreground text-sm font-medium leading-normal">Size</th>
+                  <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Created</th>
+                  <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Expires</th>
+                  <th className="px-4 py-3 text-right text-foreground text-sm font-medium leading-normal">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {exports.jobs.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="px-4 py-6 text-center text-muted-foreground text-sm">
+                      No exports yet.
+                    </td>
+                  </tr>
+                )}
+                {exports.jobs.map(job => (
+                  <tr key={job.id} className="border-t border-t-border align-top">
+                    <td className="px-4 py-3 text-foreground text-sm">{EXPORT_FORMAT_LABELS[job.format]}</td>
+                    <td className="px-4 py-3 text-sm max-w-[280px]">
+                      <Link
+                        href={`/admin?${toUsersQueryString(job.params)}`}
+                        className="text-muted-foreground hover:text-primary"
+                        title="Open these filters in the users table"
+                      >
+                        {describeExportParams(job.params)}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-3">
+                      <ExportStatus job={job} />
+                    </td>
+                    <td className="px-4 py-3 text-right text-muted-foreground text-sm">
+                      {job.row_count !== null ? job.row_count.toLocaleString() : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-right text-muted-foreground text-sm">{formatFileSize(job.file_size)}</td>
+                    <td className="px-4 py-3 text-muted-foreground text-sm">{formatDateTime(job.created_at)}</td>
+                    <td className="px-4 py-3 text-muted-foreground text-sm">{formatDateTime(job.expires_at)}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => exports.actions.download(job)}
+                          disabled={!isExportDownloadable(job)}
+                        >
+                          Download
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelete(job)}
+                          disabled={exports.deletingId === job.id || isActiveExportJob(job)}
+                          className="text-red-400 border-red-400 hover:bg-red-400 hover:text-white"
+                        >
+                          {exports.deletingId === job.id ? 'Deleting...' : 'Delete'}
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
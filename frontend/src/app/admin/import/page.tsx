@@ -0,0 +1,365 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import Layout from '@/components/Layout';
+import Button from '@/components/Button';
+import FileUpload from '@/components/FileUpload';
+import { ChangeRow } from '@/components/SalaryHistoryDiff';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { ImportRowStatus, ImportStep, useSalaryImport } from '@/hooks/useSalaryImport';
+import { IMPORT_FIELDS, ImportAction, ImportField } from '@/lib/salaryImport';
+import { ADMIN_NAVIGATION_ITEMS } from '@/lib/navigation';
+
+const STEPS: Array<{ key: ImportStep; label: string }> = [
+  { key: 'upload', label: 'Upload' },
+  { key: 'map', label: 'Map columns' },
+  { key: 'preview', label: 'Review' },
+  { key: 'results', label: 'Results' },
+];
+
+const ACTION_STYLES: Record<ImportAction, { label: string; className: string }> = {
+  create: { label: 'New user', className: 'bg-primary/15 border-primary/30 text-primary' },
+  update: { label: 'Update', className: 'bg-green-500/10 border-green-500/20 text-green-400' },
+  unchanged: { label: 'No change', className: 'bg-surface-raised border-border text-muted-foreground' },
+  invalid: { label: 'Invalid', className: 'bg-red-500/10 border-red-500/20 text-red-400' },
+};
+
+const STATUS_STYLES: Record<ImportRowStatus, { label: string; className: string }> = {
+  created: { label: 'Created', className: 'bg-primary/15 border-primary/30 text-primary' },
+  updated: { label: 'Updated', className: 'bg-green-500/10 border-green-500/20 text-green-400' },
+  pending_approval: { label: 'Awaiting approval', className: 'bg-yellow-500/10 border-yellow-500/20 text-yellow-400' },
+  failed: { label: 'Failed', className: 'bg-red-500/10 border-red-500/20 text-red-400' },
+  skipped: { label: 'Not sent', className: 'bg-yellow-500/10 border-yellow-500/20 text-yellow-400' },
+};
+
+const selectClassName = 'bg-surface-raised text-foreground rounded-lg px-3 h-10 text-sm border-none focus:outline-none focus:ring-1 focus:ring-primary';
+
+function Pill({ label, className }: { label: string; className: string }) {
+  return (
+    <span className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-medium ${className}`}>
+      {label}
+    </span>
+  );
+}
+
+export default function SalaryImportPage() {
+  const exchangeRates = useExchangeRates();
+  const importer = useSalaryImport(exchangeRates.currencies);
+  const [actionFilter, setActionFilter] = useState<ImportAction | 'all'>('all');
+
+  const counts = importer.preview.reduce<Record<ImportAction, number>>(
+    (acc, row) => ({ ...acc, [row.action]: acc[row.action] + 1 }),
+    { create: 0, update: 0, unchanged: 0, invalid: 0 }
+  );
+  const submittable = counts.create + counts.update;
+  const visibleRows = actionFilter === 'all'
+    ? importer.preview
+    : importer.preview.filter(row => row.action === actionFilter);
+  const emailMapped = importer.mapping.includes('email');
+  const currentStepIndex = STEPS.findIndex(step => step.key === importer.step);
+
+  const handleSubmit = () => {
+    if (!confirm(`Import ${submittable} row${submittable === 1 ? '' : 's'}? ${counts.create} users will be created and ${counts.update} salaries updated.`)) {
+      return;
+    }
+    importer.actions.submit();
+  };
+
+  return (
+    <Layout
+      brandName="PayWise Admin"
+      navigationItems={ADMIN_NAVIGATION_ITEMS}
+      showUserProfile={true}
+    >
+      <div className="flex flex-wrap justify-between gap-3 p-4">
+        <div className="flex min-w-72 flex-col gap-3">
+          <p className="text-foreground tracking-light text-[32px] font-bold leading-tight">Import Salaries</p>
+          <p className="text-muted-foreground text-sm font-normal leading-normal">
+            Create users and update salaries from a CSV or Excel file. Nothing is saved until you confirm the review step.
+          </p>
+        </div>
+        <div className="flex items-start">
+          <Link href="/admin" className="text-primary text-sm font-medium">
+            ← Back to users
+          </Link>
+        </div>
+      </div>
+
+      <ol className="flex flex-wrap gap-2 px-4 pb-3">
+        {STEPS.map((step, index) => (
+          <li
+            key={step.key}
+            className={`rounded-full px-3 py-1 text-sm font-medium ${
+              index === currentStepIndex
+                ? 'bg-primary text-primary-foreground'
+                : index < currentStepIndex
+                  ? 'bg-surface-raised text-foreground'
+                  : 'bg-surface-raised text-muted-foreground'
+            }`}
+          >
+            {index + 1}. {step.label}
+          </li>
+        ))}
+      </ol>
+
+      {importer.error && (
+        <div className="mx-4 mb-4 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <div className="flex items-center gap-2">
+            <svg className="w-5 h-5 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p className="text-red-400 text-sm">{importer.error}</p>
+          </div>
+        </div>
+      )}
+
+      {importer.step === 'upload' && (
+        <>
+          <FileUpload
+            onFileSelect={importer.actions.selectFile}
+            acceptedTypes=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            selectedFile={importer.file}
+            onRemoveFile={importer.actions.reset}
+            isUploading={importer.parsing}
+            prompt="Drag and drop a CSV or Excel file here"
+            formatsHint="Supported formats: CSV, XLSX • The first row must contain column headers"
+          />
+          {importer.parsing && (
+            <p className="text-muted-foreground text-sm px-4">Reading file and loading current users...</p>
+          )}
+        </>
+      )}
+
+      {importer.step === 'map' && (
+        <>
+          <h2 className="text-foreground text-[22px] font-bold leading-tight tracking-[-0.015em] px-4 pb-3 pt-5">
+            Map Columns
+          </h2>
+          <p className="text-muted-foreground text-sm px-4">
+            Rows are matched to existing users by email. Existing users get a salary update; unknown emails become new users.
+          </p>
+          <div className="px-4 py-3">
+            <div className="flex overflow-hidden rounded-lg border border-border bg-background">
+              <table className="flex-1">
+                <thead>
+                  <tr className="bg-surface">
+                    <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Column in file</th>
+                    <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Example</th>
+                    <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Import as</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {importer.headers.map((header, index) => (
+                    <tr key={`${header}-${index}`} className="border-t border-t-border">
+                      <td className="px-4 py-3 text-foreground text-sm">{header || `Column ${index + 1}`}</td>
+                      <td className="px-4 py-3 text-muted-foreground text-sm">{importer.rows[0]?.[index] || '—'}</td>
+                      <td className="px-4 py-3">
+                        <select
+                          value={importer.mapping[index] ?? ''}
+                          onChange={(e) => importer.actions.setColumnField(index, (e.target.value || null) as ImportField | null)}
+                          className={selectClassName}
+                        >
+                          <option value="">Ignore</option>
+                          {(Object.keys(IMPORT_FIELDS) as ImportField[]).map(field => (
+                            <option key={field} value={field}>{IMPORT_FIELDS[field].label}</option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+          {!emailMapped && (
+            <p className="text-yellow-400 text-sm px-4">Map a column to Email to continue.</p>
+          )}
+          <div className="flex justify-end gap-3 px-4 py-3">
+            <Button variant="outline" onClick={importer.actions.reset}>
+              Choose Another File
+            </Button>
+            <Button onClick={() => importer.actions.goToStep('preview')} disabled={!emailMapped}>
+              Review {importer.rows.length} Rows
+            </Button>
+          </div>
+        </>
+      )}
+
+      {importer.step === 'preview' && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3 px-4 pb-3 pt-5">
+            <h2 className="text-foreground text-[22px] font-bold leading-tight tracking-[-0.015em]">
+              Review Changes
+            </h2>
+            <div className="flex flex-wrap gap-2" role="group" aria-label="Filter rows">
+              {(['all', 'create', 'update', 'unchanged', 'invalid'] as const).map(filter => (
+                <button
+                  key={filter}
+                  type="button"
+                  onClick={() => setActionFilter(filter)}
+                  aria-pressed={actionFilter === filter}
+                  className={`rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
+                    actionFilter === filter
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-surface-raised text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  {filter === 'all' ? `All (${importer.preview.length})` : `${ACTION_STYLES[filter].label} (${counts[filter]})`}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="px-4 py-3">
+            <div className="flex max-h-[560px] overflow-auto rounded-lg border border-border bg-background">
+              <table className="flex-1">
+                <thead className="sticky top-0">
+                  <tr className="bg-surface">
+                    <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Row</th>
+                    <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">User</th>
+                    <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Action</th>
+                    <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.length === 0 && (
+                    <tr>
+                      <td colSpan={4} className="px-4 py-6 text-center text-muted-foreground text-sm">
+                        No rows in this category.
+                      </td>
+                    </tr>
+                  )}
+                  {visibleRows.map(row => (
+                    <tr key={row.rowNumber} className="border-t border-t-border align-top">
+                      <td className="px-4 py-3 text-muted-foreground text-sm">{row.rowNumber}</td>
+                      <td className="px-4 py-3 text-sm">
+                        <p className="text-foreground">{row.name || '—'}</p>
+                        <p className="text-muted-foreground text-xs">{row.email || '—'}</p>
+                      </td>
+                      <td className="px-4 py-3">
+                        <Pill {...ACTION_STYLES[row.action]} />
+                      </td>
+                      <td className="px-4 py-3">
+                        {row.errors.map(error => (
+                          <p key={error} className="text-red-400 text-sm">{error}</p>
+                        ))}
+                        {row.changes.map(change => (
+                          <ChangeRow key={change.field} change={change} />
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {counts.invalid > 0 && (
+            <p className="text-yellow-400 text-sm px-4">
+              {counts.invalid} invalid row{counts.invalid === 1 ? '' : 's'} will be skipped. Fix the file and upload it again to include them.
+            </p>
+          )}
+          <div className="flex justify-end gap-3 px-4 py-3">
+            <Button variant="outline" onClick={() => importer.actions.goToStep('map')}>
+              Back to Mapping
+            </Button>
+            <Button onClick={handleSubmit} disabled={submittable === 0}>
+              Import {submittable} Row{submittable === 1 ? '' : 's'}
+            </Button>
+          </div>
+        </>
+      )}
+
+      {importer.step === 'results' && (
+        <>
+          <h2 className="text-foreground text-[22px] font-bold leading-tight tracking-[-0.015em] px-4 pb-3 pt-5">
+            {importer.isProcessing || importer.phase ? 'Importing...' : 'Import Results'}
+          </h2>
+
+          {(importer.isProcessing || importer.phase) && (
+            <div className="flex flex-col gap-2 px-4 py-3">
+              <div className="flex justify-between text-sm">
+                <span className="text-foreground">
+                  {importer.cancelling
+                    ? 'Stopping after the current batch...'
+                    : importer.phase === 'creating' ? 'Creating users' : 'Updating salaries'}
+                </span>
+                <span className="text-muted-foreground">
+                  {importer.processed} of {importer.total} rows · {Math.round(importer.progress)}%
+                </span>
+              </div>
+              <div className="w-full bg-border rounded-full h-2">
+                <div
+                  className="bg-primary h-2 rounded-full transition-all duration-300 ease-out"
+                  style={{ width: `${importer.progress}%` }}
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button variant="outline" size="sm" onClick={importer.actions.cancel} disabled={importer.cancelling}>
+                  {importer.cancelling ? 'Stopping...' : 'Stop'}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {importer.results.length > 0 && (
+            <>
+              <div className="flex flex-wrap gap-2 px-4 py-3">
+                {(Object.keys(STATUS_STYLES) as ImportRowStatus[]).map(status => {
+                  const count = importer.results.filter(result => result.status === status).length;
+                  return count > 0 ? (
+                    <Pill key={status} label={`${STATUS_STYLES[status].label}: ${count}`} className={STATUS_STYLES[status].className} />
+                  ) : null;
+                })}
+              </div>
+              <div className="px-4 py-3">
+                <div className="flex max-h-[560px] overflow-auto rounded-lg border border-border bg-background">
+                  <table className="flex-1">
+                    <thead className="sticky top-0">
+                      <tr className="bg-surface">
+                        <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Row</th>
+                        <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Email</th>
+                        <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Result</th>
+                        <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Messages</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {importer.results.map(result => (
+                        <tr key={result.rowNumber} className="border-t border-t-border align-top">
+                          <td className="px-4 py-3 text-muted-foreground text-sm">{result.rowNumber}</td>
+                          <td className="px-4 py-3 text-foreground text-sm">{result.email}</td>
+                          <td className="px-4 py-3">
+                            <Pill {...STATUS_STYLES[result.status]} />
+                          </td>
+                          <td className="px-4 py-3">
+                            {result.messages.map(message => (
+                              <p key={message} className={`text-sm ${result.status === 'failed' ? 'text-red-400' : 'text-muted-foreground'}`}>
+                                {message}
+                              </p>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+
+          {!importer.isProcessing && !importer.phase && (
+            <div className="flex justify-end gap-3 px-4 py-3">
+              <Button variant="outline" onClick={importer.actions.reset}>
+                Import Another File
+              </Button>
+              <Link href="/admin">
+                <Button>Back to Users</Button>
+              </Link>
+            </div>
+          )}
+        </>
+      )}
+    </Layout>
+  );
+}
@@ -1,4 +1,5 @@
 import type { Metadata } from 'next';
+import AdminGuard from '@/components/AdminGuard';
 
 export const metadata: Metadata = {
   title: 'Admin Dashboard | PayWise Admin',
@@ -15,5 +16,5 @@ export default function AdminLayout({
 }: {
   children: React.ReactNode;
 }) {
-  return children;
+  return <AdminGuard>{children}</AdminGuard>;
 }
\ No newline at end of file
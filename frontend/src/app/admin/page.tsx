@@ -1,28 +1,55 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Layout from '@/components/Layout';
 import Button from '@/components/Button';
 import Input from '@/components/Input';
+import { EuroPreview, RateDriftBadge } from '@/components/CurrencyConversion';
+import CommissionSourceBadge from '@/components/CommissionSourceBadge';
+import { PendingApprovalBadge, PendingApprovalsQueue } from '@/components/SalaryApprovals';
+import SavedViewEditor from '@/components/SavedViewEditor';
+import { useAuthContext } from '@/components/AuthProvider';
 import { LazyDataTable, LazyAdvancedFilters, LazyAdvancedSearch, LazySearchPresets, LazyModal } from '@/components/LazyComponents';
 import { SmartLoader, ProgressiveLoader } from '@/components/OptimizedLoading';
 import { useAdminData } from '@/hooks/useAdminData';
 import { useBulkOperations } from '@/hooks/useBulkOperations';
+import { useCommissionOverrides, getOverrideKey } from '@/hooks/useCommissionOverrides';
+import { useSalaryApprovals } from '@/hooks/useSalaryApprovals';
+import { useExportJobs } from '@/hooks/useExportJobs';
 import { useSearchAndFilterState } from '@/hooks/useUrlState';
 import { useSearchWithHistory } from '@/hooks/useSearchHistory';
-import { SearchPreset } from '@/hooks/useSearchPresets';
-import { UserWithSalary } from '@/lib/api/types';
+import { SearchPreset, useSearchPresets } from '@/hooks/useSearchPresets';
+import { useSearchSuggestions } from '@/hooks/useSearchSuggestions';
+import { useSavedViews } from '@/hooks/useSavedViews';
+import { BulkUpdateResult, BulkUserSelector, CommissionOverride, ExportFormat, SavedViewDigest, UserWithSalary } from '@/lib/api/types';
 import { userUtils } from '@/lib/api/user';
+import { ADMIN_NAVIGATION_ITEMS } from '@/lib/navigation';
+import { DEPARTMENT_OPTIONS } from '@/lib/departments';
+import { EXPORT_FORMAT_LABELS } from '@/lib/exports';
+import { TableLayout, applyLayout, getTableLayoutKey, normalizeLayout } from '@/lib/tableLayout';
+import { LocalStorageCache } from '@/lib/cache';
+import { buildUsersQuery } from '@/lib/searchQuery';
+import { EMPTY_SELECTION, RowSelection, getSelectedCount } from '@/lib/tableSelection';
+import { describePendingApprovals } from '@/lib/approvals';
 
 export default function AdminPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const [selectedRows, setSelectedRows] = useState<number[]>([]);
+  const [selection, setSelection] = useState<RowSelection>(EMPTY_SELECTION);
+  const [infiniteScroll, setInfiniteScroll] = useState(false);
   const [showBulkModal, setShowBulkModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [editingUser, setEditingUser] = useState<UserWithSalary | null>(null);
   const [showSuccessMessage, setShowSuccessMessage] = useState(false);
+  const [approvalNotice, setApprovalNotice] = useState<string | null>(null);
+  const [bulkCommission, setBulkCommission] = useState('');
+  const [bulkIncrease, setBulkIncrease] = useState('');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [exportNotice, setExportNotice] = useState(false);
+  const [showSaveView, setShowSaveView] = useState(false);
+  const [viewNotice, setViewNotice] = useState<string | null>(null);
+  const auth = useAuthContext();
 
   // URL state management for search and filters
   const { state: urlState, updateState: updateUrlState, reset: resetUrlState } = useSearchAndFilterState();
@@ -35,6 +62,9 @@ export default function AdminPage() {
   });
 
   const bulkOps = useBulkOperations();
+  const commissionOverrides = useCommissionOverrides();
+  const salaryApprovals = useSalaryApprovals();
+  const exportJobs = useExportJobs();
 
   // Advanced search with history
   const searchWithHistory = useSearchWithHistory(
@@ -48,6 +78,16 @@ export default function AdminPage() {
     }
   );
 
+  // Typeahead for the term under the caret, ranked by this admin's searches and presets
+  const [searchCursor, setSearchCursor] = useState(0);
+  const searchPresets = useSearchPresets();
+  const suggestionUsage = useMemo(
+    () => ({ history: searchWithHistory.searchHistory, presets: searchPresets.presets }),
+    [searchWithHistory.searchHistory, searchPresets.presets]
+  );
+  const searchSuggestions = useSearchSuggestions(searchWithHistory.query, searchCursor, suggestionUsage);
+  const savedViews = useSavedViews();
+
   // Extract filters from URL state (excluding pagination and search)
   const filters = Object.entries(urlState)
     .filter(([key]) => !['search', 'page', 'per_page', 'sort_by', 'sort_direction'].includes(key))
@@ -73,7 +113,11 @@ export default function AdminPage() {
       sortable: true, 
       editable: true,
       width: 'w-[200px]',
-      type: 'text' as const
+      type: 'text' as const,
+      renderExtra: (row: unknown) => {
+        const request = salaryApprovals.actions.getPendingForUser((row as UserWithSalary).id);
+        return request ? <span className="ml-2"><PendingApprovalBadge request={request} /></span> : null;
+      },
     },
     { 
       key: 'email', 
@@ -90,7 +134,13 @@ export default function AdminPage() {
       editable: true,
       width: 'w-[150px]',
       type: 'number' as const,
-      formatter: (value: number) => value ? userUtils.formatSalary(value, 'USD') : 'N/A'
+      formatter: (value: number) => value ? userUtils.formatSalary(value, 'USD') : 'N/A',
+      editPreview: (value: string, row: unknown) => (
+        <EuroPreview
+          amount={value}
+          currencyCode={(row as UserWithSalary).current_salary?.local_currency_code ?? 'EUR'}
+        />
+      ),
     },
     { 
       key: 'salary_euros', 
@@ -99,7 +149,11 @@ export default function AdminPage() {
       editable: true,
       width: 'w-[150px]',
       type: 'number' as const,
-      formatter: (value: number) => value ? userUtils.formatSalary(value, 'EUR') : 'N/A'
+      formatter: (value: number) => value ? userUtils.formatSalary(value, 'EUR') : 'N/A',
+      renderExtra: (row: unknown) => {
+        const salary = (row as UserWithSalary).current_salary;
+        return salary ? <span className="ml-2"><RateDriftBadge salary={salary} /></span> : null;
+      },
     },
     { 
       key: 'commission', 
@@ -108,7 +162,20 @@ export default function AdminPage() {
       editable: true,
       width: 'w-[120px]',
       type: 'number' as const,
-      formatter: (value: number) => value ? userUtils.formatSalary(value, 'EUR') : 'N/A'
+      formatter: (value: number) => value ? userUtils.formatSalary(value, 'EUR') : 'N/A',
+      renderExtra: (row: unknown) => {
+        const user = row as UserWithSalary;
+        const resolved = commissionOverrides.actions.resolve(user);
+        return (
+          <span className="ml-2">
+            <CommissionSourceBadge
+              resolved={resolved}
+              onReset={resolved.override ? () => handleResetCommission(resolved.override!) : undefined}
+              resetting={commissionOverrides.savingKey === getOverrideKey({ scope: 'user', user_id: user.id })}
+            />
+          </span>
+        );
+      },
     },
     { 
       key: 'displayed_salary', 
@@ -124,7 +191,7 @@ export default function AdminPage() {
       width: 'w-[120px]',
       formatter: (value: string) => value ? new Date(value).toLocaleDateString() : 'N/A'
     },
-    { key: 'actions', label: 'Actions', sortable: false, width: 'w-[150px]' }
+    { key: 'actions', label: 'Actions', sortable: false, width: 'w-[220px]' }
   ];
 
   // Enhanced filter options for advanced filtering
@@ -133,16 +200,7 @@ export default function AdminPage() {
       key: 'department',
       label: 'Department',
       type: 'multiselect' as const,
-      options: [
-        { value: 'engineering', label: 'Engineering' },
-        { value: 'marketing', label: 'Marketing' },
-        { value: 'sales', label: 'Sales' },
-        { value: 'finance', label: 'Finance' },
-        { value: 'hr', label: 'Human Resources' },
-        { value: 'operations', label: 'Operations' },
-        { value: 'design', label: 'Design' },
-        { value: 'product', label: 'Product Management' },
-      ],
+      options: DEPARTMENT_OPTIONS,
     },
     {
       key: 'salary',
@@ -227,20 +285,48 @@ export default function AdminPage() {
     },
   ];
 
+  useEffect(() => {
+    setInfiniteScroll(LocalStorageCache.getUserPreferences()?.adminInfiniteScroll === true);
+  }, []);
+
+  const handleInfiniteScrollChange = useCallback((enabled: boolean) => {
+    setInfiniteScroll(enabled);
+    LocalStorageCache.setUserPreferences({ ...LocalStorageCache.getUserPreferences(), adminInfiniteScroll: enabled });
+    // Going back to pages starts from the first one rather than wherever scrolling stopped
+    updateUrlState({ page: 1 });
+  }, [updateUrlState]);
+
   // Load data when URL state changes
   useEffect(() => {
+    // Field filters typed into the search box are sent as filter_by alongside the panel's
+    const { search, filter_by } = buildUsersQuery(urlState.search, filters);
     const searchParams = {
-      search: urlState.search,
+      search,
       page: urlState.page || 1,
       per_page: urlState.per_page || 20,
       sort_by: urlState.sort_by,
       sort_direction: urlState.sort_direction,
-      filter_by: Object.keys(filters).length > 0 ? filters : undefined,
+      filter_by,
     };
 
     adminData.actions.loadUsers(searchParams);
   }, [urlState, adminData.actions, filters]);
 
+  // Selection follows users across pages and sorting, but a different search selects a different set
+  const usersQuery = buildUsersQuery(urlState.search, filters);
+  const selectionScope = JSON.stringify([usersQuery.search, usersQuery.filter_by]);
+  useEffect(() => {
+    setSelection(EMPTY_SELECTION);
+  }, [selectionScope]);
+
+  // Users seen on any page, so failed rows of a selection spanning pages can be shown by name
+  const knownUsers = useRef(new Map<number, UserWithSalary>());
+  useEffect(() => {
+    adminData.users.forEach(user => knownUsers.current.set(user.id, user));
+  }, [adminData.users]);
+
+  const selectedCount = getSelectedCount(selection, adminData.pagination.total);
+
   // Sync search input with URL state
   useEffect(() => {
     if (urlState.search !== searchWithHistory.query) {
@@ -280,16 +366,16 @@ export default function AdminPage() {
         }
         break;
       case 'bulk-edit':
-        setSelectedRows(row as number[]);
+        setSelection(row as RowSelection);
         setShowBulkModal(true);
         break;
       case 'bulk-delete':
-        if (confirm(`Are you sure you want to delete ${(row as number[]).length} users?`)) {
+        if (confirm(`Are you sure you want to delete ${getSelectedCount(row as RowSelection, adminData.pagination.total)} users?`)) {
           console.log('Bulk delete:', row);
         }
         break;
     }
-  }, [adminData.actions]);
+  }, [adminData.actions, adminData.pagination.total]);
 
   const handleCellEdit = useCallback(async (rowIndex: number, columnKey: string, value: any) => {
     const user = adminData.users[rowIndex];
@@ -297,28 +383,107 @@ export default function AdminPage() {
 
     const updateData: Partial<UserWithSalary> = {};
     
-    if (columnKey === 'salary_local_currency' || columnKey === 'salary_euros' || columnKey === 'commission') {
-      updateData.current_salary = {
-        ...user.current_salary!,
+    // Editing a commission pins it for this user instead of rewriting the salary record
+    if (columnKey === 'commission') {
+      await commissionOverrides.actions.setOverride({
+        scope: 'user',
+        user_id: user.id,
+        amount: parseFloat(value) || 0,
+      });
+      adminData.actions.refresh();
+      return;
+    }
+
+    // Salary edits go through the approval workflow; large changes wait for a second admin
+    if (columnKey === 'salary_local_currency' || columnKey === 'salary_euros') {
+      const result = await salaryApprovals.actions.submitSalaryChange(user.id, {
         [columnKey]: parseFloat(value) || 0,
-      };
-    } else {
-      updateData[columnKey as keyof UserWithSalary] = value;
+      });
+
+      if (result.status === 'pending_approval') {
+        setApprovalNotice(
+          `The salary change for ${user.name} exceeds the approval threshold and is waiting for another admin to review it.`
+        );
+      } else {
+        setApprovalNotice(null);
+      }
+      adminData.actions.refresh();
+      return;
     }
 
+    updateData[columnKey as keyof UserWithSalary] = value;
     await adminData.actions.updateUser(user.id, updateData);
-  }, [adminData.users, adminData.actions]);
+  }, [adminData.users, adminData.actions, commissionOverrides.actions, salaryApprovals.actions]);
+
+  const handleApproveChange = useCallback(async (requestId: number, reason: string) => {
+    await salaryApprovals.actions.approve(requestId, reason);
+    adminData.actions.refresh();
+  }, [salaryApprovals.actions, adminData.actions]);
+
+  const handleResetCommission = useCallback(async (override: CommissionOverride) => {
+    await commissionOverrides.actions.resetToGlobal(override);
+    adminData.actions.refresh();
+  }, [commissionOverrides.actions, adminData.actions]);
+
+  // Bulk raises above the approval threshold come back as change requests rather than being written
+  const handleBulkApprovals = useCallback((results: BulkUpdateResult | undefined) => {
+    const notice = describePendingApprovals(results);
+    if (notice) {
+      setApprovalNotice(notice);
+      salaryApprovals.actions.refresh();
+    }
+  }, [salaryApprovals.actions]);
+
+  const handleBulkUpdate = useCallback(async () => {
+    // The API applies the change to current values, so users on other pages are never updated from stale rows.
+    // "All matching" also covers users that were never loaded.
+    const selector: BulkUserSelector = selection.mode === 'all'
+      ? {
+          filter: { search: usersQuery.search, filter_by: usersQuery.filter_by },
+          exclude_ids: selection.excludedIds.map(Number),
+        }
+      : { ids: selection.ids.map(Number) };
 
-  const handleExport = useCallback(async (format: 'csv' | 'excel') => {
+    const results = await bulkOps.actions.bulkAdjustSalaries(
+      selector,
+      {
+        percent_raise: bulkIncrease.trim() !== '' ? parseFloat(bulkIncrease) || 0 : undefined,
+        commission: bulkCommission.trim() !== '' ? parseFloat(bulkCommission) || 0 : undefined,
+      },
+      selectedCount
+    );
+    handleBulkApprovals(results);
+    adminData.actions.refresh();
+  }, [selection, usersQuery.search, usersQuery.filter_by, selectedCount, adminData.actions, bulkIncrease, bulkCommission, bulkOps.actions, handleBulkApprovals]);
+
+  const handleRetryFailed = useCallback(async () => {
+    handleBulkApprovals(await bulkOps.actions.retryFailed());
+    adminData.actions.refresh();
+  }, [bulkOps.actions, adminData.actions, handleBulkApprovals]);
+
+  const handleCloseBulkModal = useCallback(() => {
+    if (bulkOps.isProcessing) return;
+    setShowBulkModal(false);
+    setBulkCommission('');
+    setBulkIncrease('');
+    bulkOps.actions.reset();
+  }, [bulkOps.isProcessing, bulkOps.actions]);
+
+  const handleExport = useCallback(async () => {
     try {
-      await bulkOps.actions.exportUsers(format, { 
-        search: urlState.search,
-        filter_by: filters 
+      // Same search, filters and sort as the table, across all pages
+      const { search, filter_by } = buildUsersQuery(urlState.search, filters);
+      await exportJobs.actions.startExport(exportFormat, {
+        search,
+        sort_by: urlState.sort_by,
+        sort_direction: urlState.sort_direction,
+        filter_by,
       });
     } catch (error) {
       console.error('Export failed:', error);
     }
-  }, [bulkOps.actions, filters, urlState.search]);
+    setExportNotice(true);
+  }, [exportJobs.actions, exportFormat, filters, urlState.search, urlState.sort_by, urlState.sort_direction]);
 
   const handleResetFilters = useCallback(() => {
     resetUrlState();
@@ -335,6 +500,41 @@ export default function AdminPage() {
     });
   }, [searchWithHistory, updateUrlState]);
 
+  const layoutKey = getTableLayoutKey('admin-users', auth.user?.id);
+  const filterValues = useMemo(
+    () => Object.fromEntries(Object.entries(filters).map(([key, value]) => [key, String(value)])),
+    [filters]
+  );
+  const currentView = useMemo(() => ({
+    search: urlState.search || '',
+    filters: filterValues,
+    sort_by: urlState.sort_by ?? null,
+    sort_direction: urlState.sort_direction ?? 'asc' as const,
+  }), [urlState.search, urlState.sort_by, urlState.sort_direction, filterValues]);
+
+  // Columns as currently shown in the table, so the view reopens the way it was saved
+  const getVisibleColumnKeys = () => {
+    const layout = normalizeLayout(LocalStorageCache.get<TableLayout>(layoutKey), columns);
+    return applyLayout(columns, layout).map(column => column.key);
+  };
+
+  const handleSaveView = async (name: string, digest: SavedViewDigest | null) => {
+    const matchingPreset = searchPresets.presets.find(preset =>
+      preset.search === currentView.search &&
+      JSON.stringify(preset.filters) === JSON.stringify(currentView.filters)
+    );
+
+    const view = await savedViews.actions.createView({
+      name,
+      presetId: matchingPreset?.id,
+      ...currentView,
+      columns: getVisibleColumnKeys(),
+      digest,
+    });
+    setViewNotice(digest ? `Saved "${view.name}". The first digest goes out ${view.next_run_at ? new Date(view.next_run_at).toLocaleString() : 'on schedule'}.` : `Saved "${view.name}".`);
+    setTimeout(() => setViewNotice(null), 5000);
+  };
+
   const handleSavePreset = useCallback((name: string, description?: string) => {
     // Preset is saved by the SearchPresets component
     console.log(`Saved preset: ${name}`, { search: searchWithHistory.query, filters });
@@ -343,11 +543,7 @@ export default function AdminPage() {
   return (
     <Layout 
       brandName="PayWise Admin"
-      navigationItems={[
-        { href: '/admin', label: 'Users' },
-        { href: '/register', label: 'Add User' },
-        { href: '/settings', label: 'Settings' }
-      ]}
+      navigationItems={ADMIN_NAVIGATION_ITEMS}
       showUserProfile={true}
     >
       {/* Success Message */}
@@ -365,8 +561,8 @@ export default function AdminPage() {
       {/* Header */}
       <div className="flex flex-wrap justify-between gap-3 p-4">
         <div className="flex min-w-72 flex-col gap-3">
-          <p className="text-white tracking-light text-[32px] font-bold leading-tight">User Management</p>
-          <p className="text-[#9cabba] text-sm font-normal leading-normal">
+          <p className="text-foreground tracking-light text-[32px] font-bold leading-tight">User Management</p>
+          <p className="text-muted-foreground text-sm font-normal leading-normal">
             Manage user accounts and salary information with advanced filtering and bulk operations.
           </p>
         </div>
@@ -374,12 +570,69 @@ export default function AdminPage() {
           <Button variant="secondary" size="sm" onClick={() => router.push('/register')}>
             Add New User
           </Button>
-          <Button variant="outline" size="sm" onClick={() => handleExport('csv')}>
-            Export CSV
+          <Button variant="outline" size="sm" onClick={() => router.push(`/admin/simulator?${searchParams.toString()}`)}>
+            Simulate Raises
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => router.push('/admin/import')}>
+            Import
           </Button>
+          <div className="flex">
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              aria-label="Export format"
+              className="bg-surface-raised text-foreground rounded-l-lg px-2 text-sm border-none focus:outline-none focus:ring-1 focus:ring-primary"
+            >
+              {Object.entries(EXPORT_FORMAT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExport}
+              disabled={exportJobs.starting}
+              className="rounded-l-none"
+            >
+              {exportJobs.starting ? 'Starting...' : 'Export'}
+            </Button>
+          </div>
         </div>
       </div>
 
+      {exportNotice && (
+        <div className={`mx-4 mb-4 p-4 rounded-lg border ${exportJobs.actionError ? 'bg-red-500/10 border-red-500/20' : 'bg-green-500/10 border-green-500/20'}`}>
+          <div className="flex items-center justify-between gap-2">
+            <p className={`text-sm ${exportJobs.actionError ? 'text-red-400' : 'text-green-400'}`}>
+              {exportJobs.actionError
+                ? `Export could not be started: ${exportJobs.actionError}`
+                : exportJobs.activeCount > 0
+                  ? 'Export started. It downloads automatically when ready, or you can pick it up later from the Exports page.'
+                  : 'Export finished. Past exports are listed on the Exports page.'}
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => router.push('/admin/exports')}>
+                View Exports
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setExportNotice(false)}>
+                Dismiss
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {approvalNotice && (
+        <div className="mx-4 mb-4 p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-yellow-400 text-sm">{approvalNotice}</p>
+            <Button variant="outline" size="sm" onClick={() => setApprovalNotice(null)}>
+              Dismiss
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Advanced Filters */}
       <ProgressiveLoader
         fallback={<SmartLoader type="Form" />}
@@ -396,22 +649,57 @@ export default function AdminPage() {
       </ProgressiveLoader>
 
       {/* Search Presets */}
-      <div className="px-4 py-2 border-b border-[#3b4754]">
-        <LazySearchPresets
-          currentSearch={searchWithHistory.query}
-          currentFilters={filters}
-          onApplyPreset={handleApplyPreset}
-          onSavePreset={handleSavePreset}
-        />
+      <div className="px-4 py-2 border-b border-border">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <LazySearchPresets
+            currentSearch={searchWithHistory.query}
+            currentFilters={filters}
+            onApplyPreset={handleApplyPreset}
+            onSavePreset={handleSavePreset}
+          />
+          <Button variant="outline" size="sm" onClick={() => setShowSaveView(true)}>
+            Save View
+          </Button>
+        </div>
+        {viewNotice && (
+          <div className="mt-2 p-4 rounded-lg border bg-green-500/10 border-green-500/20">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-green-400">{viewNotice}</p>
+              <Button variant="outline" size="sm" onClick={() => router.push('/admin/views')}>
+                View Saved Views
+              </Button>
+            </div>
+          </div>
+        )}
       </div>
 
+      {showSaveView && (
+        <SavedViewEditor
+          isOpen={true}
+          onClose={() => {
+            setShowSaveView(false);
+            savedViews.actions.clearError();
+          }}
+          title="Save View"
+          initialName=""
+          view={currentView}
+          columns={getVisibleColumnKeys()}
+          initialDigest={null}
+          saving={savedViews.saving}
+          error={savedViews.actionError}
+          onSave={handleSaveView}
+        />
+      )}
+
       {/* Advanced Search */}
       <div className="px-4 py-3">
         <LazyAdvancedSearch
           value={searchWithHistory.query}
           onChange={handleSearch}
           placeholder="Search users by name, email, salary, or use filters like name:john, email:@company.com..."
-          loading={searchWithHistory.isSearching}
+          loading={searchWithHistory.isSearching || searchSuggestions.loading}
+          suggestions={searchSuggestions.suggestions}
+          onCursorChange={setSearchCursor}
           recentSearches={searchWithHistory.searchHistory}
           onClearRecent={searchWithHistory.clearHistory}
           searchFilters={[
@@ -431,6 +719,18 @@ export default function AdminPage() {
         />
       </div>
 
+      <div className="flex justify-end px-4">
+        <label className="flex items-center gap-2 text-muted-foreground text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={infiniteScroll}
+            onChange={(e) => handleInfiniteScrollChange(e.target.checked)}
+            className="h-4 w-4 rounded border-border border-2 bg-transparent text-primary checked:bg-primary checked:border-primary"
+          />
+          Load more as I scroll
+        </label>
+      </div>
+
       {/* Data Table */}
       <ProgressiveLoader
         fallback={<SmartLoader type="Table" />}
@@ -441,13 +741,21 @@ export default function AdminPage() {
           data={adminData.users}
           loading={adminData.loading || searchWithHistory.isSearching}
           onRowAction={handleRowAction}
+          getRowHref={(row) => `/admin/users/${(row as UserWithSalary).id}`}
           onCellEdit={handleCellEdit}
           onSort={handleSort}
           searchable={false} // We're using the advanced search above
           selectable={true}
-          selectedRows={selectedRows}
-          onSelectionChange={setSelectedRows}
-          pagination={{
+          customizableColumns={true}
+          layoutKey={getTableLayoutKey('admin-users', auth.user?.id)}
+          getRowId={(row) => (row as UserWithSalary).id}
+          selection={selection}
+          onSelectionChange={setSelection}
+          totalMatching={adminData.pagination.total}
+          onLoadMore={infiniteScroll ? adminData.actions.loadMore : undefined}
+          hasMore={adminData.hasMore}
+          loadingMore={adminData.loadingMore}
+          pagination={infiniteScroll ? undefined : {
             currentPage: adminData.pagination.currentPage,
             totalPages: adminData.pagination.totalPages,
             total: adminData.pagination.total,
@@ -475,20 +783,66 @@ export default function AdminPage() {
         </div>
       )}
 
+      {commissionOverrides.error && (
+        <div className="mx-4 mt-4 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <div className="flex items-center gap-2">
+            <svg className="w-5 h-5 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p className="text-red-400 text-sm">Commission overrides: {commissionOverrides.error}</p>
+          </div>
+        </div>
+      )}
+
+      {salaryApprovals.error && (
+        <div className="mx-4 mt-4 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <div className="flex items-center gap-2">
+            <svg className="w-5 h-5 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p className="text-red-400 text-sm">Salary approvals: {salaryApprovals.error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Pending Approvals */}
+      <PendingApprovalsQueue
+        requests={salaryApprovals.pendingRequests}
+        settings={salaryApprovals.settings}
+        currentUserId={auth.user?.id ?? null}
+        reviewingId={salaryApprovals.reviewingId}
+        savingSettings={salaryApprovals.savingSettings}
+        loading={salaryApprovals.loading}
+        onApprove={handleApproveChange}
+        onReject={salaryApprovals.actions.reject}
+        onUpdateSettings={salaryApprovals.actions.updateSettings}
+      />
+
       {/* Bulk Edit Modal */}
       <LazyModal
         isOpen={showBulkModal}
-        onClose={() => setShowBulkModal(false)}
+        onClose={handleCloseBulkModal}
         title="Bulk Edit Salaries"
         size="lg"
         actions={
           <>
-            <Button variant="outline" onClick={() => setShowBulkModal(false)}>
-              Cancel
-            </Button>
+            {bulkOps.isProcessing ? (
+              <Button variant="outline" onClick={bulkOps.actions.cancel} disabled={bulkOps.cancelling}>
+                {bulkOps.cancelling ? 'Stopping...' : 'Stop'}
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={handleCloseBulkModal}>
+                {bulkOps.results ? 'Close' : 'Cancel'}
+              </Button>
+            )}
+            {bulkOps.failedRows.length > 0 && !bulkOps.isProcessing && (
+              <Button variant="secondary" onClick={handleRetryFailed}>
+                Retry Failed Only ({bulkOps.failedRows.length})
+              </Button>
+            )}
             <Button 
-              onClick={() => setShowBulkModal(false)}
-              disabled={bulkOps.isProcessing}
+              onClick={handleBulkUpdate}
+              disabled={bulkOps.isProcessing || (bulkCommission.trim() === '' && bulkIncrease.trim() === '')}
             >
               {bulkOps.isProcessing ? 'Updating...' : 'Update All'}
             </Button>
@@ -496,19 +850,25 @@ export default function AdminPage() {
         }
       >
         <div className="space-y-4">
-          <p className="text-[#9cabba] text-sm">
-            Update salary information for {selectedRows.length} selected users.
+          <p className="text-muted-foreground text-sm">
+            Update salary information for {selectedCount} selected users{selection.mode === 'all' ? ' matching the current filter, including those on other pages' : ''}.
           </p>
           
-          {bulkOps.isProcessing && (
+          {(bulkOps.isProcessing || bulkOps.processed > 0) && (
             <div className="space-y-2">
               <div className="flex justify-between text-sm">
-                <span className="text-white">Processing...</span>
-                <span className="text-[#9cabba]">{Math.round(bulkOps.progress)}%</span>
+                <span className="text-foreground">
+                  {bulkOps.isProcessing
+                    ? (bulkOps.cancelling ? 'Stopping after the current batch...' : 'Processing...')
+                    : 'Finished'}
+                </span>
+                <span className="text-muted-foreground">
+                  {bulkOps.processed} of {bulkOps.total} rows · {Math.round(bulkOps.progress)}%
+                </span>
               </div>
-              <div className="w-full bg-[#3b4754] rounded-full h-2">
+              <div className="w-full bg-border rounded-full h-2">
                 <div 
-                  className="bg-[#0d80f2] h-2 rounded-full transition-all duration-300 ease-out"
+                  className="bg-primary h-2 rounded-full transition-all duration-300 ease-out"
                   style={{ width: `${bulkOps.progress}%` }}
                 />
               </div>
@@ -527,6 +887,21 @@ export default function AdminPage() {
             </div>
           )}
 
+          {bulkOps.failedRows.length > 0 && (
+            <div className="max-h-48 overflow-y-auto rounded-lg border border-red-500/20">
+              {bulkOps.failedRows.map(row => (
+                <div key={row.id} className="border-t border-t-border first:border-t-0 px-3 py-2">
+                  <p className="text-foreground text-sm font-medium">
+                    {knownUsers.current.get(row.id)?.name ?? `User #${row.id}`}
+                  </p>
+                  {row.messages.map(message => (
+                    <p key={message} className="text-red-400 text-xs">{message}</p>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             <Input
               label="Commission (EUR)"
@@ -534,6 +909,9 @@ export default function AdminPage() {
               placeholder="500"
               min="0"
               step="1"
+              value={bulkCommission}
+              onChange={(e) => setBulkCommission(e.target.value)}
+              disabled={bulkOps.isProcessing}
             />
             <Input
               label="Salary Increase (%)"
@@ -541,6 +919,9 @@ export default function AdminPage() {
               placeholder="5"
               min="0"
               step="0.1"
+              value={bulkIncrease}
+              onChange={(e) => setBulkIncrease(e.target.value)}
+              disabled={bulkOps.isProcessing}
             />
           </div>
         </div>
@@ -0,0 +1,341 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import Layout from '@/components/Layout';
+import Button from '@/components/Button';
+import { SmartLoader } from '@/components/OptimizedLoading';
+import { useSalarySimulator } from '@/hooks/useSalarySimulator';
+import { useSearchAndFilterState } from '@/hooks/useUrlState';
+import { SearchParams } from '@/lib/api/types';
+import { DEPARTMENT_OPTIONS, getDepartmentLabel } from '@/lib/departments';
+import { RULE_TYPE_LABELS, SimulationRuleInput, SimulationRuleType, describeRule } from '@/lib/salarySimulator';
+import { formatMoney, formatPercentChange } from '@/lib/salaryHistory';
+import { buildUsersQuery } from '@/lib/searchQuery';
+import { ADMIN_NAVIGATION_ITEMS } from '@/lib/navigation';
+
+const NON_FILTER_KEYS = ['search', 'page', 'per_page', 'sort_by', 'sort_direction'];
+
+const selectClassName = 'bg-surface-raised text-foreground rounded-lg px-3 h-10 text-sm border-none focus:outline-none focus:ring-1 focus:ring-primary';
+
+function formatDelta(value: number): string {
+  return `${value > 0 ? '+' : ''}${formatMoney(value, 'EUR')}`;
+}
+
+function SalarySimulator() {
+  // Same URL parameters as the users table, so "Simulate raises" keeps the active filters
+  const searchParams = useSearchParams();
+  const { state: urlState } = useSearchAndFilterState();
+  const filterBy = Object.entries(urlState)
+    .filter(([key, value]) => !NON_FILTER_KEYS.includes(key) && value !== undefined && value !== null && value !== '')
+    .reduce((acc, [key, value]) => {
+      acc[key] = String(value);
+      return acc;
+    }, {} as Record<string, string>);
+  const { search, filter_by } = buildUsersQuery(urlState.search, filterBy);
+  const query: Omit<SearchParams, 'page' | 'per_page'> = {
+    search,
+    sort_by: urlState.sort_by,
+    sort_direction: urlState.sort_direction,
+    filter_by,
+  };
+
+  const simulator = useSalarySimulator(query);
+  const { result } = simulator;
+
+  const [ruleType, setRuleType] = useState<SimulationRuleType>('percent_raise');
+  const [ruleValue, setRuleValue] = useState('');
+  const [ruleDepartment, setRuleDepartment] = useState('');
+  const [showOnlyAffected, setShowOnlyAffected] = useState(true);
+
+  const parsedValue = parseFloat(ruleValue);
+  const isValueValid = ruleValue.trim() !== '' && !isNaN(parsedValue)
+    && (ruleType === 'percent_raise' ? parsedValue > -100 : parsedValue >= 0);
+
+  const handleAddRule = () => {
+    if (!isValueValid) return;
+
+    const department = ruleDepartment || null;
+    let rule: SimulationRuleInput;
+    switch (ruleType) {
+      case 'percent_raise':
+        rule = { type: 'percent_raise', percent: parsedValue, department };
+        break;
+      case 'salary_floor':
+        rule = { type: 'salary_floor', minimum: parsedValue, department };
+        break;
+      case 'set_commission':
+        rule = { type: 'set_commission', amount: parsedValue, department };
+        break;
+    }
+
+    simulator.actions.addRule(rule);
+    setRuleValue('');
+  };
+
+  const handleSubmit = () => {
+    const count = result.totals.affectedUsers;
+    if (!confirm(`Apply these changes to ${count} user${count === 1 ? '' : 's'}? This updates their salaries immediately, and new commissions are saved as per-user overrides.`)) {
+      return;
+    }
+    simulator.actions.submit();
+  };
+
+  const visibleRows = showOnlyAffected ? result.rows.filter(row => row.changed) : result.rows;
+  const filterSummary = [
+    urlState.search && `search "${urlState.search}"`,
+    ...Object.entries(filterBy).map(([key, value]) => `${key}: ${value}`),
+  ].filter(Boolean);
+
+  return (
+    <>
+      <div className="flex flex-wrap justify-between gap-3 p-4">
+        <div className="flex min-w-72 flex-col gap-3">
+          <p className="text-foreground tracking-light text-[32px] font-bold leading-tight">Raise Simulator</p>
+          <p className="text-muted-foreground text-sm font-normal leading-normal">
+            Try out raise rules on the current user selection. Nothing is saved until you apply the result.
+          </p>
+        </div>
+        <div className="flex items-start">
+          <Link href={`/admin?${searchParams.toString()}`} className="text-primary text-sm font-medium">
+            ← Back to users
+          </Link>
+        </div>
+      </div>
+
+      <p className="text-muted-foreground text-sm px-4">
+        {simulator.loading
+          ? 'Loading users...'
+          : `${simulator.users.length} users loaded${filterSummary.length > 0 ? ` matching ${filterSummary.join(', ')}` : ''}.`}
+        {simulator.isTruncated && ` Only the first ${simulator.users.length} of ${simulator.totalMatching} are included; narrow the filters to cover everyone before applying.`}
+      </p>
+
+      {simulator.error && (
+        <div className="mx-4 mt-4 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <svg className="w-5 h-5 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <p className="text-red-400 text-sm">{simulator.error}</p>
+            </div>
+            <Button variant="outline" size="sm" onClick={simulator.actions.refresh}>
+              Retry
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {simulator.submitResult && (
+        <div className="mx-4 mt-4 p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
+          <div className="flex items-center gap-2">
+            <svg className="w-5 h-5 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+            </svg>
+            <p className="text-green-400 text-sm">
+              Updated {simulator.submitResult.updated} salaries
+              {simulator.submitResult.commissions > 0 && ` and ${simulator.submitResult.commissions} commissions`}
+              {simulator.submitResult.failed > 0 && `, ${simulator.submitResult.failed} failed`}.
+              {simulator.submitResult.pendingApproval > 0 && ` ${simulator.submitResult.pendingApproval} changes exceed the approval threshold and are waiting for another admin to review them.`}
+            </p>
+          </div>
+        </div>
+      )}
+
+      <h2 className="text-foreground text-[22px] font-bold leading-tight tracking-[-0.015em] px-4 pb-3 pt-5">
+        Rules
+      </h2>
+      <div className="flex flex-wrap items-end gap-3 px-4 py-3">
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground text-xs">Rule</span>
+          <select value={ruleType} onChange={(e) => setRuleType(e.target.value as SimulationRuleType)} className={selectClassName}>
+            {Object.entries(RULE_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground text-xs">{ruleType === 'percent_raise' ? 'Percent' : 'Amount (EUR)'}</span>
+          <input
+            type="number"
+            step={ruleType === 'percent_raise' ? '0.1' : '100'}
+            value={ruleValue}
+            onChange={(e) => setRuleValue(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddRule()}
+            placeholder={ruleType === 'percent_raise' ? 'e.g., 5' : 'e.g., 40000'}
+            className={`${selectClassName} w-36 placeholder:text-muted-foreground`}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground text-xs">Applies to</span>
+          <select value={ruleDepartment} onChange={(e) => setRuleDepartment(e.target.value)} className={selectClassName}>
+            <option value="">Everyone</option>
+            {DEPARTMENT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <Button onClick={handleAddRule} disabled={!isValueValid}>
+          Add Rule
+        </Button>
+      </div>
+
+      <div className="px-4 py-3">
+        {simulator.rules.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No rules yet. Rules are applied top to bottom.</p>
+        ) : (
+          <ol className="flex flex-col overflow-hidden rounded-lg border border-border bg-background">
+            {simulator.rules.map((rule, index) => (
+              <li key={rule.id} className="flex items-center justify-between gap-3 border-t border-t-border first:border-t-0 px-4 py-3">
+                <span className="text-foreground text-sm">
+                  <span className="text-muted-foreground mr-2">{index + 1}.</span>
+                  {describeRule(rule)}
+                </span>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => simulator.actions.moveRule(rule.id, -1)} disabled={index === 0}>
+                    ↑
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => simulator.actions.moveRule(rule.id, 1)} disabled={index === simulator.rules.length - 1}>
+                    ↓
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => simulator.actions.removeRule(rule.id)}
+                    className="text-red-400 border-red-400 hover:bg-red-400 hover:text-white"
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <div className="grid grid-cols-[repeat(auto-fit,minmax(180px,1fr))] gap-3 p-4">
+        {[
+          { label: 'Total before', value: formatMoney(result.totals.before, 'EUR') },
+          { label: 'Total after', value: formatMoney(result.totals.after, 'EUR') },
+          {
+            label: 'Difference',
+            value: `${formatDelta(result.totals.delta)}${result.totals.percentChange !== null && result.totals.delta !== 0 ? ` (${formatPercentChange(result.totals.percentChange)})` : ''}`,
+          },
+          { label: 'Users affected', value: `${result.totals.affectedUsers} of ${result.rows.length}` },
+        ].map(item => (
+          <div key={item.label} className="flex flex-col gap-2 rounded-lg border border-border bg-surface p-4">
+            <p className="text-muted-foreground text-sm font-medium leading-normal">{item.label}</p>
+            <p className="text-foreground text-xl font-bold leading-tight">{item.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 pb-3 pt-5">
+        <h2 className="text-foreground text-[22px] font-bold leading-tight tracking-[-0.015em]">
+          Per-user Changes
+        </h2>
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          <input
+            type="checkbox"
+            checked={showOnlyAffected}
+            onChange={(e) => setShowOnlyAffected(e.target.checked)}
+            className="h-4 w-4 rounded border-border bg-transparent text-primary checked:bg-primary checked:border-primary focus:ring-0 focus:ring-offset-0"
+          />
+          Only show affected users
+        </label>
+      </div>
+
+      <div className="px-4 py-3">
+        {simulator.loading && simulator.users.length === 0 ? (
+          <SmartLoader type="Table" />
+        ) : (
+          <div className="flex max-h-[480px] overflow-auto rounded-lg border border-border bg-background">
+            <table className="flex-1">
+              <thead className="sticky top-0">
+                <tr className="bg-surface">
+                  <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">User</th>
+                  <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Department</th>
+                  <th className="px-4 py-3 text-right text-foreground text-sm font-medium leading-normal">Salary (EUR)</th>
+                  <th className="px-4 py-3 text-right text-foreground text-sm font-medium leading-normal">Commission</th>
+                  <th className="px-4 py-3 text-right text-foreground text-sm font-medium leading-normal">Total before</th>
+                  <th className="px-4 py-3 text-right text-foreground text-sm font-medium leading-normal">Total after</th>
+                  <th className="px-4 py-3 text-right text-foreground text-sm font-medium leading-normal">Difference</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRows.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-6 text-center text-muted-foreground text-sm">
+                      {simulator.rules.length === 0 ? 'Add a rule to see its effect.' : 'No users are affected by these rules.'}
+                    </td>
+                  </tr>
+                )}
+                {visibleRows.map(row => (
+                  <tr key={row.user.id} className="border-t border-t-border">
+                    <td className="px-4 py-3 text-sm">
+                      <Link href={`/admin/users/${row.user.id}`} className="text-foreground hover:text-primary">
+                        {row.user.name}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-3 text-muted-foreground text-sm">{getDepartmentLabel(row.user.department)}</td>
+                    <td className="px-4 py-3 text-right text-sm">
+                      <span className="text-muted-foreground">{formatMoney(row.before.salary_euros, 'EUR')}</span>
+                      {row.after.salary_euros !== row.before.salary_euros && (
+                        <span className="text-foreground"> → {formatMoney(row.after.salary_euros, 'EUR')}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm">
+                      <span className="text-muted-foreground">{formatMoney(row.before.commission, 'EUR')}</span>
+                      {row.after.commission !== row.before.commission && (
+                        <span className="text-foreground"> → {formatMoney(row.after.commission, 'EUR')}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right text-muted-foreground text-sm">{formatMoney(row.before.displayed_salary, 'EUR')}</td>
+                    <td className="px-4 py-3 text-right text-foreground text-sm font-medium">{formatMoney(row.after.displayed_salary, 'EUR')}</td>
+                    <td className={`px-4 py-3 text-right text-sm ${row.delta > 0 ? 'text-green-400' : row.delta < 0 ? 'text-red-400' : 'text-muted-foreground'}`}>
+                      {formatDelta(row.delta)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-end gap-3 px-4 py-3">
+        <Button
+          variant="outline"
+          onClick={simulator.actions.clearRules}
+          disabled={simulator.rules.length === 0 || simulator.submitting}
+        >
+          Clear Rules
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          disabled={result.totals.affectedUsers === 0 || simulator.submitting || simulator.loading || simulator.isTruncated}
+          title={simulator.isTruncated ? 'Narrow the filters so every matching user is loaded' : undefined}
+        >
+          {simulator.submitting
+            ? 'Applying...'
+            : `Apply to ${result.totals.affectedUsers} user${result.totals.affectedUsers === 1 ? '' : 's'}`}
+        </Button>
+      </div>
+    </>
+  );
+}
+
+export default function SalarySimulatorPage() {
+  return (
+    <Layout
+      brandName="PayWise Admin"
+      navigationItems={ADMIN_NAVIGATION_ITEMS}
+      showUserProfile={true}
+    >
+      <Suspense fallback={<div className="p-4"><SmartLoader type="Table" /></div>}>
+        <SalarySimulator />
+      </Suspense>
+    </Layout>
+  );
+}
@@ -0,0 +1,260 @@
+'use client';
+
+import { ReactNode, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import Layout from '@/components/Layout';
+import Button from '@/components/Button';
+import { SmartLoader } from '@/components/OptimizedLoading';
+import SalaryHistoryDiff from '@/components/SalaryHistoryDiff';
+import { LineChart } from '@/components/Charts';
+import { RateDriftBadge } from '@/components/CurrencyConversion';
+import { useUserDetail } from '@/hooks/useUserDetail';
+import { useExchangeRates, useExchangeRateHistory } from '@/hooks/useExchangeRates';
+import { userUtils } from '@/lib/api/user';
+import { formatRate, getRate, getRateUsed } from '@/lib/currency';
+import { ADMIN_NAVIGATION_ITEMS } from '@/lib/navigation';
+
+function formatDate(value: string | null | undefined): string {
+  if (!value) return '—';
+  return new Date(value).toLocaleDateString(undefined, { dateStyle: 'medium' });
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function InfoRow({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <div className="col-span-2 grid grid-cols-subgrid border-t border-t-border py-5">
+      <p className="text-muted-foreground text-sm font-normal leading-normal">{label}</p>
+      <p className="text-foreground text-sm font-normal leading-normal">{value}</p>
+    </div>
+  );
+}
+
+export default function AdminUserDetailPage() {
+  const params = useParams<{ id: string }>();
+  const parsedId = Number(params.id);
+  const userId = Number.isInteger(parsedId) && parsedId > 0 ? parsedId : null;
+
+  const detail = useUserDetail(userId);
+  const { user, history, historyPagination } = detail;
+  const salary = user?.current_salary ?? null;
+
+  const exchangeRates = useExchangeRates();
+  const [rateHistoryFrom] = useState(() => {
+    const date = new Date();
+    date.setFullYear(date.getFullYear() - 1);
+    return date.toISOString().slice(0, 10);
+  });
+  const rateHistory = useExchangeRateHistory(salary?.local_currency_code ?? null, rateHistoryFrom);
+  const rateUsed = salary ? getRateUsed(salary) : null;
+  const currentRate = salary ? getRate(exchangeRates.rates, salary.local_currency_code) : null;
+
+  return (
+    <Layout
+      brandName="PayWise Admin"
+      navigationItems={ADMIN_NAVIGATION_ITEMS}
+      showUserProfile={true}
+    >
+      <div className="px-4 pt-4">
+        <Link href="/admin" className="text-primary text-sm font-medium">
+          ← Back to users
+        </Link>
+      </div>
+
+      {userId === null ? (
+        <div className="mx-4 mt-4 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <p className="text-red-400 text-sm">Invalid user id.</p>
+        </div>
+      ) : detail.loading && !user ? (
+        <div className="p-4">
+          <SmartLoader type="Dashboard" />
+        </div>
+      ) : detail.error || !user ? (
+        <div className="mx-4 mt-4 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <svg className="w-5 h-5 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <p className="text-red-400 text-sm">{detail.error || 'User not found.'}</p>
+            </div>
+            <Button variant="outline" size="sm" onClick={detail.actions.refresh}>
+              Retry
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap justify-between gap-3 p-4">
+            <div className="flex min-w-72 flex-col gap-3">
+              <p className="text-foreground tracking-light text-[32px] font-bold leading-tight">
+                {userUtils.formatDisplayName(user)}
+              </p>
+              <p className="text-muted-foreground text-sm font-normal leading-normal">
+                User #{user.id} · Member since {formatDate(user.created_at)}
+              </p>
+            </div>
+          </div>
+
+          <h2 className="text-foreground text-[22px] font-bold leading-tight tracking-[-0.015em] px-4 pb-3 pt-5">
+            Personal Information
+          </h2>
+          <div className="p-4 grid grid-cols-[20%_1fr] gap-x-6">
+            <InfoRow label="Name" value={user.name} />
+            <InfoRow label="Email" value={user.email} />
+            <InfoRow
+              label="Email verified"
+              value={user.email_verified_at ? formatDate(user.email_verified_at) : 'Not verified'}
+            />
+            <InfoRow label="Last updated" value={formatDate(user.updated_at)} />
+          </div>
+
+          <h2 className="text-foreground text-[22px] font-bold leading-tight tracking-[-0.015em] px-4 pb-3 pt-5">
+            Current Salary
+          </h2>
+          {salary ? (
+            <div className="grid grid-cols-[repeat(auto-fit,minmax(180px,1fr))] gap-3 p-4">
+              {[
+                { label: 'Local salary', value: userUtils.formatSalary(salary.salary_local_currency, salary.local_currency_code) },
+                { label: 'Salary (EUR)', value: userUtils.formatSalary(salary.salary_euros, 'EUR') },
+                { label: 'Commission', value: userUtils.formatSalary(salary.commission, 'EUR') },
+                { label: 'Displayed salary', value: userUtils.formatSalary(salary.displayed_salary, 'EUR') },
+              ].map(item => (
+                <div key={item.label} className="flex flex-col gap-2 rounded-lg border border-border bg-surface p-4">
+                  <p className="text-muted-foreground text-sm font-medium leading-normal">{item.label}</p>
+                  <p className="text-foreground text-xl font-bold leading-tight">{item.value}</p>
+                </div>
+              ))}
+              <p className="text-muted-foreground text-sm col-span-full">
+                Effective {formatDate(salary.effective_date)}
+                {salary.notes && ` · ${salary.notes}`}
+              </p>
+              {salary.local_currency_code !== 'EUR' && (
+                <div className="col-span-full flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+                  <span className="text-muted-foreground">
+                    Rate used: <span className="text-foreground">{rateUsed !== null ? formatRate(rateUsed, salary.local_currency_code) : '—'}</span>
+                  </span>
+                  <span className="text-muted-foreground">
+                    Today: <span className="text-foreground">{currentRate !== null ? formatRate(currentRate, salary.local_currency_code) : '—'}</span>
+                  </span>
+                  <RateDriftBadge salary={salary} />
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-muted-foreground text-sm px-4 py-3">No salary on record.</p>
+          )}
+
+          {salary && salary.local_currency_code !== 'EUR' && (
+            <>
+              <h2 className="text-foreground text-[22px] font-bold leading-tight tracking-[-0.015em] px-4 pb-3 pt-5">
+                {salary.local_currency_code} → EUR Rate
+              </h2>
+              <div className="mx-4 rounded-lg border border-border bg-surface p-4">
+                {rateHistory.error ? (
+                  <p className="text-red-400 text-sm">{rateHistory.error}</p>
+                ) : (
+                  <LineChart
+                    title={`${salary.local_currency_code} to EUR exchange rate over the last year`}
+                    data={rateHistory.history.map(rate => ({
+                      label: new Date(rate.effective_date).toLocaleDateString(undefined, { month: 'short', year: '2-digit' }),
+                      value: Number(rate.rate_to_eur),
+                    }))}
+                    formatValue={value => formatRate(value, salary.local_currency_code)}
+                    emptyMessage={rateHistory.loading ? 'Loading rate history...' : 'No rate history available.'}
+                  />
+                )}
+              </div>
+            </>
+          )}
+
+          <div className="flex items-center justify-between px-4 pb-3 pt-5">
+            <h2 className="text-foreground text-[22px] font-bold leading-tight tracking-[-0.015em]">
+              Salary History
+            </h2>
+            <span className="text-muted-foreground text-sm">{historyPagination.total} changes</span>
+          </div>
+
+          {detail.historyError && (
+            <div className="mx-4 mb-3 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+              <p className="text-red-400 text-sm">{detail.historyError}</p>
+            </div>
+          )}
+
+          <div className="px-4 py-3">
+            <div className={`flex flex-col overflow-hidden rounded-lg border border-border bg-background ${detail.historyLoading ? 'opacity-60' : ''}`}>
+              {history.length === 0 && !detail.historyLoading && (
+                <p className="text-muted-foreground text-sm p-4">No salary changes recorded.</p>
+              )}
+              {history.map(record => (
+                <div key={record.id} className="border-t border-t-border first:border-t-0 px-4 py-3">
+                  <SalaryHistoryDiff
+                    record={record}
+                    fallbackCurrency={salary?.local_currency_code}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {historyPagination.totalPages > 1 && (
+            <div className="flex items-center justify-between px-4 py-3">
+              <span className="text-muted-foreground text-sm">
+                Page {historyPagination.currentPage} of {historyPagination.totalPages}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={historyPagination.currentPage === 1 || detail.historyLoading}
+                  onClick={() => detail.actions.loadHistory(historyPagination.currentPage - 1)}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={historyPagination.currentPage === historyPagination.totalPages || detail.historyLoading}
+                  onClick={() => detail.actions.loadHistory(historyPagination.currentPage + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <h2 className="text-foreground text-[22px] font-bold leading-tight tracking-[-0.015em] px-4 pb-3 pt-5">
+            Documents
+          </h2>
+          <div className="px-4 py-3">
+            {user.uploaded_documents?.length ? (
+              <div className="flex flex-col overflow-hidden rounded-lg border border-border bg-background">
+                {user.uploaded_documents.map(document => (
+                  <div
+                    key={document.id}
+                    className="flex items-center justify-between gap-4 border-t border-t-border first:border-t-0 px-4 py-3"
+                  >
+                    <div className="flex min-w-0 flex-col">
+                      <p className="text-foreground text-sm font-medium truncate">{document.original_filename}</p>
+                      <p className="text-muted-foreground text-xs">
+                        {document.mime_type} · {formatFileSize(document.file_size)}
+                      </p>
+                    </div>
+                    <p className="text-muted-foreground text-sm">{formatDate(document.created_at)}</p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-muted-foreground text-sm">No documents uploaded.</p>
+            )}
+          </div>
+        </>
+      )}
+    </Layout>
+  );
+}
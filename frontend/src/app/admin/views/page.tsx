@@ -0,0 +1,190 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Layout from '@/components/Layout';
+import Button from '@/components/Button';
+import SavedViewEditor from '@/components/SavedViewEditor';
+import { SmartLoader } from '@/components/OptimizedLoading';
+import { useAuthContext } from '@/components/AuthProvider';
+import { useSavedViews } from '@/hooks/useSavedViews';
+import { LocalStorageCache } from '@/lib/cache';
+import { SavedView } from '@/lib/api/types';
+import { describeExportParams, toUsersQueryString } from '@/lib/exports';
+import { ADMIN_NAVIGATION_ITEMS } from '@/lib/navigation';
+import { ViewQuery, describeSchedule, getViewLayout, getViewSearchParams } from '@/lib/savedViews';
+import { TableLayout, getTableLayoutKey } from '@/lib/tableLayout';
+
+function formatDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) : '—';
+}
+
+function toViewQuery(view: SavedView): ViewQuery {
+  return {
+    search: view.preset.search,
+    filters: view.preset.filters,
+    sort_by: view.sort_by,
+    sort_direction: view.sort_direction,
+  };
+}
+
+export default function SavedViewsPage() {
+  const router = useRouter();
+  const auth = useAuthContext();
+  const savedViews = useSavedViews();
+  const [editingView, setEditingView] = useState<SavedView | null>(null);
+  const editingViewQuery = useMemo(() => editingView ? toViewQuery(editingView) : null, [editingView]);
+
+  const handleOpen = (view: SavedView) => {
+    if (view.columns) {
+      const layoutKey = getTableLayoutKey('admin-users', auth.user?.id);
+      LocalStorageCache.set(layoutKey, getViewLayout(view.columns, LocalStorageCache.get<TableLayout>(layoutKey)));
+    }
+    // The raw query goes in the URL; the users page translates field filters itself
+    router.push(`/admin?${toUsersQueryString({
+      search: view.preset.search,
+      filter_by: view.preset.filters,
+      sort_by: view.sort_by ?? undefined,
+      sort_direction: view.sort_direction,
+    })}`);
+  };
+
+  const handleDelete = (view: SavedView) => {
+    const digestNote = view.digest?.enabled ? ' Its digest will stop being sent.' : '';
+    if (confirm(`Delete the saved view "${view.name}"?${digestNote}`)) {
+      savedViews.actions.deleteView(view.id);
+    }
+  };
+
+  const closeEditor = () => {
+    setEditingView(null);
+    savedViews.actions.clearError();
+  };
+
+  return (
+    <Layout
+      brandName="PayWise Admin"
+      navigationItems={ADMIN_NAVIGATION_ITEMS}
+      showUserProfile={true}
+    >
+      <div className="flex flex-wrap justify-between gap-3 p-4">
+        <div className="flex min-w-72 flex-col gap-3">
+          <p className="text-foreground tracking-light text-[32px] font-bold leading-tight">Saved Views</p>
+          <p className="text-muted-foreground text-sm font-normal leading-normal">
+            A saved view keeps a search with its sort and columns. Schedule a digest to have matching users emailed on a regular basis.
+          </p>
+        </div>
+        <div className="flex items-start gap-2">
+          <Button variant="outline" onClick={savedViews.actions.refresh} disabled={savedViews.loading}>
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {(savedViews.error || (savedViews.actionError && !editingView)) && (
+        <div className="mx-4 mb-4 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <div className="flex items-center gap-2">
+            <svg className="w-5 h-5 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p className="text-red-400 text-sm">{savedViews.actionError || savedViews.error}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="px-4 py-3">
+        {savedViews.loading && savedViews.views.length === 0 ? (
+          <SmartLoader type="Table" />
+        ) : (
+          <div className="flex overflow-x-auto rounded-lg border border-border bg-background">
+            <table className="flex-1">
+              <thead>
+                <tr className="bg-surface">
+                  <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Name</th>
+                  <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Search</th>
+                  <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Digest</th>
+                  <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Next Digest</th>
+                  <th className="px-4 py-3 text-left text-foreground text-sm font-medium leading-normal">Last Sent</th>
+                  <th className="px-4 py-3 text-right text-foreground text-sm font-medium leading-normal">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {savedViews.views.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-6 text-center text-muted-foreground text-sm">
+                      No saved views yet. Use Save View on the users table to create one.
+                    </td>
+                  </tr>
+                )}
+                {savedViews.views.map(view => (
+                  <tr key={view.id} className="border-t border-t-border align-top">
+                    <td className="px-4 py-3 text-foreground text-sm font-medium">{view.name}</td>
+                    <td className="px-4 py-3 text-muted-foreground text-sm max-w-[280px]">
+                      {describeExportParams(getViewSearchParams(toViewQuery(view)))}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {view.digest?.enabled ? (
+                        <div className="flex flex-col gap-1">
+                          <span className="text-foreground">{describeSchedule(view.digest.schedule)}</span>
+                          <span className="text-muted-foreground text-xs">
+                            To {view.digest.recipients.join(', ')}
+                          </span>
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">No digest</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-muted-foreground text-sm whitespace-nowrap">
+                      {view.digest?.enabled ? formatDateTime(view.next_run_at) : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-muted-foreground text-sm whitespace-nowrap">
+                      {formatDateTime(view.last_sent_at)}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" onClick={() => handleOpen(view)}>
+                          Open
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setEditingView(view)}>
+                          Edit
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelete(view)}
+                          disabled={savedViews.deletingId === view.id}
+                          className="text-red-400 border-red-400 hover:bg-red-400 hover:text-white"
+                        >
+                          {savedViews.deletingId === view.id ? 'Deleting...' : 'Delete'}
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {editingView && editingViewQuery && (
+        <SavedViewEditor
+          key={editingView.id}
+          isOpen={true}
+          onClose={closeEditor}
+          title="Edit Saved View"
+          initialName={editingView.name}
+          view={editingViewQuery}
+          columns={editingView.columns}
+          initialDigest={editingView.digest}
+          lastSentAt={editingView.last_sent_at}
+          saving={savedViews.saving}
+          sending={savedViews.sendingId === editingView.id}
+          error={savedViews.actionError}
+          onSave={(name, digest) => savedViews.actions.updateView(editingView.id, { name, digest })}
+          onSend={(message) => savedViews.actions.sendDigest(editingView, message)}
+        />
+      )}
+    </Layout>
+  );
+}
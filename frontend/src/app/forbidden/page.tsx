@@ -0,0 +1,16 @@
+import type { Metadata } from 'next';
+import Layout from '@/components/Layout';
+import AccessDenied from '@/components/AccessDenied';
+
+export const metadata: Metadata = {
+  title: '403 - Access Denied | PayWise',
+  description: 'You do not have permission to view this page.',
+};
+
+export default function ForbiddenPage() {
+  return (
+    <Layout brandName="PayWise" showUserProfile={true}>
+      <AccessDenied />
+    </Layout>
+  );
+}
@@ -4,6 +4,9 @@ import "./globals.css";
 import { ServiceWorkerProvider } from "@/components/ServiceWorkerProvider";
 import { ClientOnlyPerformance } from "@/components/ClientOnlyPerformance";
 import { OptimizedPreloader } from "@/components/ResourcePreloader";
+import { AuthProvider } from "@/components/AuthProvider";
+import { ThemeProvider } from "@/components/ThemeProvider";
+import { themeInitScript } from "@/lib/theme";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -34,8 +37,9 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    <html lang="en" suppressHydrationWarning>
       <head>
+        <script dangerouslySetInnerHTML={{ __html: themeInitScript }} />
         <link rel="preconnect" href="https://fonts.googleapis.com" />
         <link rel="preconnect" href="https://fonts.gstatic.com" crossOrigin="anonymous" />
         <link rel="dns-prefetch" href="//api.example.com" />
@@ -51,9 +55,13 @@ export default function RootLayout({
       >
         <OptimizedPreloader />
         <ServiceWorkerProvider>
-          <ClientOnlyPerformance>
-            {children}
-          </ClientOnlyPerformance>
+          <AuthProvider>
+            <ThemeProvider>
+              <ClientOnlyPerformance>
+                {children}
+              </ClientOnlyPerformance>
+            </ThemeProvider>
+          </AuthProvider>
         </ServiceWorkerProvider>
       </body>
     </html>
@@ -0,0 +1,195 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Layout from '@/components/Layout';
+import Input from '@/components/Input';
+import Button from '@/components/Button';
+import { useAuthContext } from '@/components/AuthProvider';
+import { useForm } from '@/hooks/useForm';
+import { authUtils } from '@/lib/api/auth';
+import { userUtils } from '@/lib/api/user';
+import { ValidationError } from '@/lib/api/client';
+import { getErrorInfo } from '@/lib/api/errors';
+
+interface LoginFormData extends Record<string, unknown> {
+  email: string;
+  password: string;
+  remember: boolean;
+}
+
+/**
+ * Only follow same-origin paths from the redirect parameter. Browsers treat a
+ * backslash like a slash and drop tabs and newlines, so `/\evil.com` and
+ * `/\t/evil.com` are as protocol-relative as `//evil.com`.
+ */
+function getSafeRedirect(param: string | null): string | null {
+  if (!param || !param.startsWith('/') || /[\u0000-\u001f]/.test(param) || /^\/[/\\]/.test(param)) {
+    return null;
+  }
+  return param;
+}
+
+function LoginForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const auth = useAuthContext();
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const redirectTo = getSafeRedirect(searchParams.get('redirect'));
+  const sessionExpired = searchParams.get('expired') === '1';
+
+  const form = useForm<LoginFormData>({
+    initialValues: {
+      email: '',
+      password: '',
+      remember: false,
+    },
+    validate: (values) => {
+      const errors: Record<string, string> = {};
+
+      if (!values.email.trim()) {
+        errors.email = 'Email is required';
+      } else if (!userUtils.isValidEmail(values.email.trim())) {
+        errors.email = 'Please enter a valid email address';
+      }
+
+      if (!values.password) {
+        errors.password = 'Password is required';
+      } else if (values.password.length < 6) {
+        errors.password = 'Password must be at least 6 characters';
+      }
+
+      return errors;
+    },
+    onSubmit: async (values) => {
+      setSubmitError(null);
+
+      try {
+        const session = await auth.login({
+          email: values.email.trim().toLowerCase(),
+          password: values.password,
+          remember: values.remember,
+        });
+
+        router.replace(redirectTo || (authUtils.isAdmin(session.permissions) ? '/admin' : '/settings'));
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          const validationErrors: Record<string, string> = {};
+          Object.entries(error.errors).forEach(([field, messages]) => {
+            validationErrors[field] = messages[0];
+          });
+          form.setErrors(validationErrors);
+          setSubmitError('Please correct the errors and try again.');
+        } else {
+          setSubmitError(getErrorInfo(error as Error).message);
+        }
+      }
+    },
+  });
+
+  // Skip the form when a stored token is still valid
+  useEffect(() => {
+    if (!auth.isLoading && auth.isAuthenticated) {
+      router.replace(redirectTo || (auth.isAdmin ? '/admin' : '/settings'));
+    }
+  }, [auth.isLoading, auth.isAuthenticated, auth.isAdmin, redirectTo, router]);
+
+  return (
+    <>
+      <div className="flex flex-wrap justify-between gap-3 p-4">
+        <div className="flex min-w-72 flex-col gap-3">
+          <p className="text-foreground tracking-light text-[32px] font-bold leading-tight">Sign In</p>
+          <p className="text-muted-foreground text-sm font-normal leading-normal">
+            Sign in with your account to manage salary information.
+          </p>
+        </div>
+      </div>
+
+      {sessionExpired && !submitError && (
+        <div className="mx-4 mb-4 max-w-[480px] p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
+          <div className="flex items-center gap-2">
+            <svg className="w-5 h-5 text-yellow-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p className="text-yellow-400 text-sm">Your session has expired. Please sign in again.</p>
+          </div>
+        </div>
+      )}
+
+      {submitError && (
+        <div className="mx-4 mb-4 max-w-[480px] p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <div className="flex items-center gap-2">
+            <svg className="w-5 h-5 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p className="text-red-400 text-sm">{submitError}</p>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={form.handleSubmit}>
+        <div className="flex max-w-[480px] flex-wrap items-end gap-4 px-4 py-3">
+          <Input
+            label="Email Address"
+            placeholder="you@company.com"
+            type="email"
+            autoComplete="email"
+            value={form.values.email}
+            onChange={(e) => form.handleChange('email', e.target.value)}
+            error={form.errors.email}
+            disabled={form.isSubmitting}
+          />
+        </div>
+
+        <div className="flex max-w-[480px] flex-wrap items-end gap-4 px-4 py-3">
+          <Input
+            label="Password"
+            placeholder="Enter your password"
+            type="password"
+            autoComplete="current-password"
+            value={form.values.password}
+            onChange={(e) => form.handleChange('password', e.target.value)}
+            error={form.errors.password}
+            disabled={form.isSubmitting}
+          />
+        </div>
+
+        <div className="px-4">
+          <label className="flex gap-x-3 py-3 flex-row">
+            <input
+              type="checkbox"
+              className="h-5 w-5 rounded border-border border-2 bg-transparent text-primary checked:bg-primary checked:border-primary focus:ring-0 focus:ring-offset-0 focus:border-border focus:outline-none"
+              checked={form.values.remember}
+              onChange={(e) => form.handleChange('remember', e.target.checked)}
+              disabled={form.isSubmitting}
+            />
+            <p className="text-foreground text-base font-normal leading-normal">
+              Keep me signed in for 30 days
+            </p>
+          </label>
+        </div>
+
+        <div className="flex max-w-[480px] items-center justify-between px-4 py-3">
+          <Link href="/register" className="text-primary text-sm font-medium">
+            Need an account? Register
+          </Link>
+          <Button type="submit" disabled={form.isSubmitting}>
+            {form.isSubmitting ? 'Signing in...' : 'Sign In'}
+          </Button>
+        </div>
+      </form>
+    </>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <Layout brandName="PayWise">
+      <Suspense fallback={null}>
+        <LoginForm />
+      </Suspense>
+    </Layout>
+  );
+}
@@ -6,9 +6,11 @@ import Layout from '@/components/Layout';
 import Input from '@/components/Input';
 import FileUpload from '@/components/FileUpload';
 import Button from '@/components/Button';
+import { EuroPreview } from '@/components/CurrencyConversion';
 import { useForm } from '@/hooks/useForm';
 import { useEmailValidation } from '@/hooks/useEmailValidation';
 import { useFileUpload } from '@/hooks/useFileUpload';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
 import { userApi } from '@/lib/api/user';
 import { CreateUserRequest } from '@/lib/api/types';
 import { ValidationError, ApiError } from '@/lib/api/client';
@@ -27,6 +29,9 @@ export default function RegisterPage() {
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [submitSuccess, setSubmitSuccess] = useState(false);
 
+  // Supported currencies come from the exchange rate table
+  const exchangeRates = useExchangeRates();
+
   // Email validation hook
   const emailValidation = useEmailValidation({ debounceMs: 500 });
 
@@ -213,13 +218,13 @@ export default function RegisterPage() {
         <div className="flex flex-col items-center justify-center min-h-[400px] p-8">
           <div className="flex flex-col items-center gap-6 max-w-md text-center">
             <div className="w-16 h-16 bg-green-500 rounded-full flex items-center justify-center">
-              <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <svg className="w-8 h-8 text-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
               </svg>
             </div>
             <div>
-              <h2 className="text-white text-2xl font-bold mb-2">Registration Successful!</h2>
-              <p className="text-[#9cabba] text-sm">
+              <h2 className="text-foreground text-2xl font-bold mb-2">Registration Successful!</h2>
+              <p className="text-muted-foreground text-sm">
                 Your information has been submitted successfully. You will be redirected to the admin panel shortly.
               </p>
             </div>
@@ -240,8 +245,8 @@ export default function RegisterPage() {
     >
       <div className="flex flex-wrap justify-between gap-3 p-4">
         <div className="flex min-w-72 flex-col gap-3">
-          <p className="text-white tracking-light text-[32px] font-bold leading-tight">User Registration</p>
-          <p className="text-[#9cabba] text-sm font-normal leading-normal">
+          <p className="text-foreground tracking-light text-[32px] font-bold leading-tight">User Registration</p>
+          <p className="text-muted-foreground text-sm font-normal leading-normal">
             Please fill in the details below to register and upload your salary information.
           </p>
         </div>
@@ -300,23 +305,25 @@ export default function RegisterPage() {
               />
             </div>
             <div className="w-24">
-              <label className="text-white text-base font-medium leading-normal pb-2 block">
+              <label className="text-foreground text-base font-medium leading-normal pb-2 block">
                 Currency
               </label>
               <select
                 value={form.values.local_currency_code}
                 onChange={(e) => form.handleChange('local_currency_code', e.target.value)}
                 disabled={isSubmitting}
-                className="flex w-full min-w-0 flex-1 resize-none overflow-hidden rounded-lg text-white focus:outline-0 focus:ring-0 border-none bg-[#283039] focus:border-none h-14 px-4 text-base font-normal leading-normal"
+                className="flex w-full min-w-0 flex-1 resize-none overflow-hidden rounded-lg text-foreground focus:outline-0 focus:ring-0 border-none bg-surface-raised focus:border-none h-14 px-4 text-base font-normal leading-normal"
               >
-                <option value="EUR">EUR</option>
-                <option value="USD">USD</option>
-                <option value="GBP">GBP</option>
-                <option value="CAD">CAD</option>
-                <option value="AUD">AUD</option>
+                {exchangeRates.currencies.map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
               </select>
             </div>
           </div>
+          <EuroPreview
+            amount={form.values.salary_local_currency}
+            currencyCode={form.values.local_currency_code}
+          />
         </div>
         
         <FileUpload
@@ -1,46 +1,242 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import Layout from '@/components/Layout';
 import Input from '@/components/Input';
 import Button from '@/components/Button';
+import SessionsSection from '@/components/SessionsSection';
+import { FormSkeleton } from '@/components/OptimizedLoading';
+import { useAuthContext } from '@/components/AuthProvider';
+import { useThemeContext } from '@/components/ThemeProvider';
+import { useForm } from '@/hooks/useForm';
+import { useEmailValidation } from '@/hooks/useEmailValidation';
+import { useUnsavedChangesPrompt } from '@/hooks/useUnsavedChangesPrompt';
+import { userApi, userUtils } from '@/lib/api/user';
+import { ValidationError } from '@/lib/api/client';
+import { getErrorInfo } from '@/lib/api/errors';
+import { DEFAULT_THEME } from '@/lib/theme';
+import { ThemePreference, UserPreferences, UserWithSalary } from '@/lib/api/types';
+
+interface SettingsFormData extends Record<string, unknown> {
+  name: string;
+  email: string;
+  theme: ThemePreference;
+  salary_updates: boolean;
+  announcements: boolean;
+}
+
+const DEFAULT_PREFERENCES: UserPreferences = {
+  theme: DEFAULT_THEME,
+  notifications: {
+    salary_updates: true,
+    announcements: false,
+  },
+};
+
+// Module-level so the form's reset callback keeps a stable identity
+const INITIAL_FORM_VALUES: SettingsFormData = {
+  name: '',
+  email: '',
+  theme: DEFAULT_PREFERENCES.theme,
+  salary_updates: DEFAULT_PREFERENCES.notifications.salary_updates,
+  announcements: DEFAULT_PREFERENCES.notifications.announcements,
+};
+
+const THEME_OPTIONS: Array<{ value: ThemePreference; label: string }> = [
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+  { value: 'system', label: 'Follow system' },
+];
+
+function toFormData(profile: UserWithSalary, preferences: UserPreferences): SettingsFormData {
+  return {
+    name: profile.name,
+    email: profile.email,
+    theme: preferences.theme,
+    salary_updates: preferences.notifications.salary_updates,
+    announcements: preferences.notifications.announcements,
+  };
+}
 
 export default function SettingsPage() {
-  const [formData, setFormData] = useState({
-    name: 'Admin User',
-    email: 'admin@salarypro.com'
+  const auth = useAuthContext();
+  const theme = useThemeContext();
+  const [profile, setProfile] = useState<UserWithSalary | null>(null);
+  const [preferences, setPreferences] = useState<UserPreferences>(DEFAULT_PREFERENCES);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [showSuccessMessage, setShowSuccessMessage] = useState(false);
+
+  const emailValidation = useEmailValidation({
+    debounceMs: 500,
+    excludeUserId: profile?.id,
   });
-  const [theme, setTheme] = useState<'light' | 'dark'>('dark');
-  const [notifications, setNotifications] = useState({
-    salaryUpdates: true,
-    announcements: false
+
+  const form = useForm<SettingsFormData>({
+    initialValues: INITIAL_FORM_VALUES,
+    validate: (values) => {
+      const errors: Record<string, string> = {};
+
+      if (!values.name.trim()) {
+        errors.name = 'Name is required';
+      } else if (values.name.trim().length < 2) {
+        errors.name = 'Name must be at least 2 characters';
+      }
+
+      if (!values.email.trim()) {
+        errors.email = 'Email is required';
+      } else if (!userUtils.isValidEmail(values.email.trim())) {
+        errors.email = 'Please enter a valid email address';
+      } else if (emailValidation.isAvailable === false) {
+        errors.email = 'This email is already used by another account';
+      }
+
+      return errors;
+    },
+    onSubmit: async (values) => {
+      if (!profile) return;
+
+      setSubmitError(null);
+      setShowSuccessMessage(false);
+
+      const name = values.name.trim();
+      const email = values.email.trim().toLowerCase();
+
+      try {
+        let savedProfile = profile;
+        if (name !== profile.name || email !== profile.email) {
+          const response = await userApi.updateProfile({ name, email });
+          savedProfile = response.data;
+        }
+
+        let savedPreferences = preferences;
+        if (
+          values.theme !== preferences.theme ||
+          values.salary_updates !== preferences.notifications.salary_updates ||
+          values.announcements !== preferences.notifications.announcements
+        ) {
+          const response = await userApi.updatePreferences({
+            theme: values.theme,
+            notifications: {
+              salary_updates: values.salary_updates,
+              announcements: values.announcements,
+            },
+          });
+          savedPreferences = response.data;
+        }
+
+        setProfile(savedProfile);
+        setPreferences(savedPreferences);
+        theme.setMode(savedPreferences.theme);
+        form.reset(toFormData(savedProfile, savedPreferences));
+        emailValidation.reset();
+        setShowSuccessMessage(true);
+        setTimeout(() => setShowSuccessMessage(false), 5000);
+
+        // Keep the header and other auth consumers in sync with the new name/email
+        auth.reloadUser();
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          const validationErrors: Record<string, string> = {};
+          Object.entries(error.errors).forEach(([field, messages]) => {
+            validationErrors[field] = messages[0];
+          });
+          form.setErrors(validationErrors);
+          setSubmitError('Please correct the errors and try again.');
+        } else {
+          setSubmitError(getErrorInfo(error as Error).message);
+        }
+      }
+    },
   });
 
-  const handleInputChange = (field: string, value: string) => {
-    setFormData(prev => ({ ...prev, [field]: value }));
-  };
+  useUnsavedChangesPrompt(form.isDirty && !form.isSubmitting);
 
-  const handleThemeChange = (selectedTheme: 'light' | 'dark') => {
-    setTheme(selectedTheme);
-  };
+  const { reset: resetForm } = form;
+  const { validateEmail, reset: resetEmailValidation } = emailValidation;
 
-  const handleNotificationChange = (key: string, value: boolean) => {
-    setNotifications(prev => ({ ...prev, [key]: value }));
-  };
+  // Load the profile and stored preferences
+  const loadSettings = useCallback(async () => {
+    const profileResponse = await userApi.getProfile();
 
-  const handleSave = async () => {
+    let loadedPreferences = DEFAULT_PREFERENCES;
     try {
-      // TODO: Implement API call to save settings
-      console.log('Saving settings:', { formData, theme, notifications });
-      alert('Settings saved successfully!');
+      const preferencesResponse = await userApi.getPreferences();
+      loadedPreferences = preferencesResponse.data;
     } catch (error) {
-      console.error('Save error:', error);
-      alert('Failed to save settings. Please try again.');
+      // Accounts without saved preferences fall back to the defaults
+      console.warn('Failed to load preferences:', error);
     }
+
+    return { profile: profileResponse.data, preferences: loadedPreferences };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadSettings()
+      .then(loaded => {
+        if (cancelled) return;
+        setProfile(loaded.profile);
+        setPreferences(loaded.preferences);
+        resetForm(toFormData(loaded.profile, loaded.preferences));
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setLoadError(getErrorInfo(error as Error).message);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loadSettings, resetForm]);
+
+  // Only check availability once the email differs from the saved one
+  useEffect(() => {
+    const email = form.values.email.trim().toLowerCase();
+    if (profile && email && email !== profile.email) {
+      validateEmail(email);
+    } else {
+      resetEmailValidation();
+    }
+  }, [form.values.email, profile, validateEmail, resetEmailValidation]);
+
+  const getEmailValidationState = () => {
+    if (form.errors.email) {
+      return { isLoading: false, success: false, helperText: undefined };
+    }
+
+    if (emailValidation.isChecking) {
+      return { isLoading: true, success: false, helperText: 'Checking email availability...' };
+    }
+
+    if (emailValidation.error) {
+      return { isLoading: false, success: false, helperText: emailValidation.error };
+    }
+
+    if (emailValidation.isAvailable === true) {
+      return { isLoading: false, success: true, helperText: 'Email is available' };
+    }
+
+    if (emailValidation.isAvailable === false) {
+      return { isLoading: false, success: false, helperText: 'Email is already used by another account' };
+    }
+
+    return { isLoading: false, success: false, helperText: undefined };
   };
 
+  const emailState = getEmailValidationState();
+  const isFormDisabled = isLoading || !profile || form.isSubmitting;
+
   return (
-    <Layout 
+    <Layout
       brandName="SalaryTrack"
       navigationItems={[
         { href: '/dashboard', label: 'Dashboard' },
@@ -51,106 +247,150 @@ export default function SettingsPage() {
     >
       <div className="flex flex-wrap justify-between gap-3 p-4">
         <div className="flex min-w-72 flex-col gap-3">
-          <p className="text-white tracking-light text-[32px] font-bold leading-tight">Settings</p>
-          <p className="text-[#9cabba] text-sm font-normal leading-normal">
+          <p className="text-foreground tracking-light text-[32px] font-bold leading-tight">Settings</p>
+          <p className="text-muted-foreground text-sm font-normal leading-normal">
             Manage your account details and preferences.
           </p>
         </div>
       </div>
-      
-      <h3 className="text-white text-lg font-bold leading-tight tracking-[-0.015em] px-4 pb-2 pt-4">
-        Account Details
-      </h3>
-      
-      <div className="flex max-w-[480px] flex-wrap items-end gap-4 px-4 py-3">
-        <Input
-          label="Name"
-          value={formData.name}
-          onChange={(e) => handleInputChange('name', e.target.value)}
-        />
-      </div>
-      
-      <div className="flex max-w-[480px] flex-wrap items-end gap-4 px-4 py-3">
-        <Input
-          label="Email"
-          value={formData.email}
-          onChange={(e) => handleInputChange('email', e.target.value)}
-        />
-      </div>
-      
-      <h3 className="text-white text-lg font-bold leading-tight tracking-[-0.015em] px-4 pb-2 pt-4">
-        Appearance
-      </h3>
-      
-      <div className="flex flex-wrap gap-3 p-4">
-        <label
-          className={`text-sm font-medium leading-normal flex items-center justify-center rounded-lg border px-4 h-11 text-white relative cursor-pointer transition-all ${
-            theme === 'light' 
-              ? 'border-[3px] px-3.5 border-[#0d80f2]' 
-              : 'border-[#3b4754]'
-          }`}
-        >
-          Light
-          <input 
-            type="radio" 
-            className="invisible absolute" 
-            name="theme" 
-            checked={theme === 'light'}
-            onChange={() => handleThemeChange('light')}
-          />
-        </label>
-        <label
-          className={`text-sm font-medium leading-normal flex items-center justify-center rounded-lg border px-4 h-11 text-white relative cursor-pointer transition-all ${
-            theme === 'dark' 
-              ? 'border-[3px] px-3.5 border-[#0d80f2]' 
-              : 'border-[#3b4754]'
-          }`}
-        >
-          Dark
-          <input 
-            type="radio" 
-            className="invisible absolute" 
-            name="theme" 
-            checked={theme === 'dark'}
-            onChange={() => handleThemeChange('dark')}
-          />
-        </label>
-      </div>
-      
-      <h3 className="text-white text-lg font-bold leading-tight tracking-[-0.015em] px-4 pb-2 pt-4">
-        Notification Preferences
-      </h3>
-      
-      <div className="px-4">
-        <label className="flex gap-x-3 py-3 flex-row">
-          <input
-            type="checkbox"
-            className="h-5 w-5 rounded border-[#3b4754] border-2 bg-transparent text-[#0d80f2] checked:bg-[#0d80f2] checked:border-[#0d80f2] focus:ring-0 focus:ring-offset-0 focus:border-[#3b4754] focus:outline-none"
-            checked={notifications.salaryUpdates}
-            onChange={(e) => handleNotificationChange('salaryUpdates', e.target.checked)}
-          />
-          <p className="text-white text-base font-normal leading-normal">
-            Receive email notifications about salary updates
-          </p>
-        </label>
-        <label className="flex gap-x-3 py-3 flex-row">
-          <input
-            type="checkbox"
-            className="h-5 w-5 rounded border-[#3b4754] border-2 bg-transparent text-[#0d80f2] checked:bg-[#0d80f2] checked:border-[#0d80f2] focus:ring-0 focus:ring-offset-0 focus:border-[#3b4754] focus:outline-none"
-            checked={notifications.announcements}
-            onChange={(e) => handleNotificationChange('announcements', e.target.checked)}
-          />
-          <p className="text-white text-base font-normal leading-normal">
-            Receive in-app notifications about important announcements
-          </p>
-        </label>
-      </div>
-      
-      <div className="flex px-4 py-3 justify-end">
-        <Button onClick={handleSave}>
-          Save Changes
-        </Button>
-      </div>
+
+      {showSuccessMessage && (
+        <div className="mx-4 mb-4 p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
+          <div className="flex items-center gap-2">
+            <svg className="w-5 h-5 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+            </svg>
+            <p className="text-green-400 text-sm">Settings saved successfully!</p>
+          </div>
+        </div>
+      )}
+
+      {(loadError || submitError) && (
+        <div className="mx-4 mb-4 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <div className="flex items-center gap-2">
+            <svg className="w-5 h-5 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p className="text-red-400 text-sm">{loadError || submitError}</p>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="px-4 py-3 max-w-[480px]">
+          <FormSkeleton />
+        </div>
+      ) : (
+        <form onSubmit={form.handleSubmit}>
+          <h3 className="text-foreground text-lg font-bold leading-tight tracking-[-0.015em] px-4 pb-2 pt-4">
+            Account Details
+          </h3>
+
+          <div className="flex max-w-[480px] flex-wrap items-end gap-4 px-4 py-3">
+            <Input
+              label="Name"
+              value={form.values.name}
+              onChange={(e) => form.handleChange('name', e.target.value)}
+              error={form.errors.name}
+              disabled={isFormDisabled}
+            />
+          </div>
+
+          <div className="flex max-w-[480px] flex-wrap items-end gap-4 px-4 py-3">
+            <Input
+              label="Email"
+              type="email"
+              value={form.values.email}
+              onChange={(e) => form.handleChange('email', e.target.value)}
+              error={form.errors.email}
+              isLoading={emailState.isLoading}
+              success={emailState.success}
+              helperText={emailState.helperText}
+              disabled={isFormDisabled}
+            />
+          </div>
+
+          <h3 className="text-foreground text-lg font-bold leading-tight tracking-[-0.015em] px-4 pb-2 pt-4">
+            Appearance
+          </h3>
+
+          <div className="flex flex-wrap gap-3 p-4">
+            {THEME_OPTIONS.map(option => (
+              <label
+                key={option.value}
+                className={`text-sm font-medium leading-normal flex items-center justify-center rounded-lg border px-4 h-11 text-foreground relative cursor-pointer transition-all ${
+                  form.values.theme === option.value
+                    ? 'border-[3px] px-3.5 border-primary'
+                    : 'border-border'
+                }`}
+              >
+                {option.label}
+                <input
+                  type="radio"
+                  className="invisible absolute"
+                  name="theme"
+                  checked={form.values.theme === option.value}
+                  onChange={() => form.handleChange('theme', option.value)}
+                  disabled={isFormDisabled}
+                />
+              </label>
+            ))}
+          </div>
+
+          <h3 className="text-foreground text-lg font-bold leading-tight tracking-[-0.015em] px-4 pb-2 pt-4">
+            Notification Preferences
+          </h3>
+
+          <div className="px-4">
+            <label className="flex gap-x-3 py-3 flex-row">
+              <input
+                type="checkbox"
+                className="h-5 w-5 rounded border-border border-2 bg-transparent text-primary checked:bg-primary checked:border-primary focus:ring-0 focus:ring-offset-0 focus:border-border focus:outline-none"
+                checked={form.values.salary_updates}
+                onChange={(e) => form.handleChange('salary_updates', e.target.checked)}
+                disabled={isFormDisabled}
+              />
+              <p className="text-foreground text-base font-normal leading-normal">
+                Receive email notifications about salary updates
+              </p>
+            </label>
+            <label className="flex gap-x-3 py-3 flex-row">
+              <input
+                type="checkbox"
+                className="h-5 w-5 rounded border-border border-2 bg-transparent text-primary checked:bg-primary checked:border-primary focus:ring-0 focus:ring-offset-0 focus:border-border focus:outline-none"
+                checked={form.values.announcements}
+                onChange={(e) => form.handleChange('announcements', e.target.checked)}
+                disabled={isFormDisabled}
+              />
+              <p className="text-foreground text-base font-normal leading-normal">
+                Receive in-app notifications about important announcements
+              </p>
+            </label>
+          </div>
+
+          <div className="flex items-center px-4 py-3 justify-end gap-3">
+            {form.isDirty && (
+              <p className="text-muted-foreground text-sm mr-auto">You have unsaved changes</p>
+            )}
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => form.reset(profile ? toFormData(profile, preferences) : undefined)}
+              disabled={isFormDisabled || !form.isDirty}
+            >
+              Discard
+            </Button>
+            <Button
+              type="submit"
+              disabled={isFormDisabled || !form.isDirty || emailValidation.isChecking}
+            >
+              {form.isSubmitting ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      <SessionsSection />
     </Layout>
   );
 }
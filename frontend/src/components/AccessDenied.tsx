@@ -0,0 +1,30 @@
+import Link from 'next/link';
+import Button from './Button';
+
+interface AccessDeniedProps {
+  title?: string;
+  message?: string;
+}
+
+export default function AccessDenied({
+  title = 'Access Denied',
+  message = 'You do not have permission to view this page. Contact an administrator if you think this is a mistake.',
+}: AccessDeniedProps) {
+  return (
+    <div className="flex flex-col items-center gap-6 px-4 py-16 text-center">
+      <p className="text-border text-8xl font-black leading-none">403</p>
+      <div className="flex max-w-[480px] flex-col gap-2">
+        <h1 className="text-foreground text-[28px] font-bold leading-tight">{title}</h1>
+        <p className="text-muted-foreground text-sm font-normal leading-normal">{message}</p>
+      </div>
+      <div className="flex gap-3">
+        <Link href="/settings">
+          <Button>Go to Settings</Button>
+        </Link>
+        <Link href="/">
+          <Button variant="secondary">Homepage</Button>
+        </Link>
+      </div>
+    </div>
+  );
+}
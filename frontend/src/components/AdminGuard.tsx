@@ -0,0 +1,41 @@
+'use client';
+
+import { ReactNode, useEffect } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import Layout from './Layout';
+import AccessDenied from './AccessDenied';
+import { SmartLoader } from './OptimizedLoading';
+import { useAuthContext } from './AuthProvider';
+
+// Client-side counterpart of the /admin middleware check, also covering client navigations
+export default function AdminGuard({ children }: { children: ReactNode }) {
+  const auth = useAuthContext();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  useEffect(() => {
+    if (!auth.isLoading && !auth.isAuthenticated) {
+      router.replace(`/login?redirect=${encodeURIComponent(pathname)}`);
+    }
+  }, [auth.isLoading, auth.isAuthenticated, pathname, router]);
+
+  if (auth.isLoading || !auth.isAuthenticated) {
+    return (
+      <Layout brandName="PayWise Admin">
+        <div className="p-4">
+          <SmartLoader type="Dashboard" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!auth.isAdmin) {
+    return (
+      <Layout brandName="PayWise" showUserProfile={true}>
+        <AccessDenied message="The admin dashboard is only available to administrators." />
+      </Layout>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -218,8 +218,8 @@ export default function AdvancedFilters({
             <select
               value={value}
               onChange={(e) => handleTempFilterChange(option.key, e.target.value)}
-              className={`w-full bg-[#283039] text-white rounded-lg px-3 py-2 border-none focus:outline-none focus:ring-2 ${
-                error ? 'focus:ring-red-500 ring-1 ring-red-500' : 'focus:ring-[#0d80f2]'
+              className={`w-full bg-surface-raised text-foreground rounded-lg px-3 py-2 border-none focus:outline-none focus:ring-2 ${
+                error ? 'focus:ring-red-500 ring-1 ring-red-500' : 'focus:ring-primary'
               }`}
             >
               <option value="">All {option.label}</option>
@@ -249,9 +249,9 @@ export default function AdvancedFilters({
                         : selectedValues.filter(v => v !== opt.value);
                       handleTempFilterChange(option.key, newValues);
                     }}
-                    className="h-4 w-4 rounded border-[#3b4754] border-2 bg-transparent text-[#0d80f2] checked:bg-[#0d80f2] checked:border-[#0d80f2]"
+                    className="h-4 w-4 rounded border-border border-2 bg-transparent text-primary checked:bg-primary checked:border-primary"
                   />
-                  <span className="text-white">{opt.label}</span>
+                  <span className="text-foreground">{opt.label}</span>
                 </label>
               ))}
             </div>
@@ -262,7 +262,7 @@ export default function AdvancedFilters({
                   return (
                     <span
                       key={val}
-                      className="inline-flex items-center gap-1 px-2 py-1 bg-[#0d80f2]/20 text-[#0d80f2] rounded text-xs"
+                      className="inline-flex items-center gap-1 px-2 py-1 bg-primary/20 text-primary rounded text-xs"
                     >
                       {opt?.label || val}
                       <button
@@ -270,7 +270,7 @@ export default function AdvancedFilters({
                           const newValues = selectedValues.filter(v => v !== val);
                           handleTempFilterChange(option.key, newValues);
                         }}
-                        className="hover:text-white"
+                        className="hover:text-foreground"
                       >
                         ×
                       </button>
@@ -387,7 +387,7 @@ export default function AdvancedFilters({
         >
           Advanced Filters
           {showActiveCount && activeFilterCount > 0 && (
-            <span className="ml-2 bg-[#0d80f2] text-white rounded-full px-2 py-1 text-xs">
+            <span className="ml-2 bg-primary text-primary-foreground rounded-full px-2 py-1 text-xs">
               {activeFilterCount}
             </span>
           )}
@@ -405,8 +405,8 @@ export default function AdvancedFilters({
         )}
 
         {loading && (
-          <div className="flex items-center gap-2 text-[#9cabba] text-sm">
-            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-[#0d80f2]"></div>
+          <div className="flex items-center gap-2 text-muted-foreground text-sm">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
             <span>Filtering...</span>
           </div>
         )}
@@ -433,17 +433,17 @@ export default function AdvancedFilters({
         }
       >
         <div className="space-y-6">
-          <p className="text-[#9cabba] text-sm">
+          <p className="text-muted-foreground text-sm">
             Use advanced filters to narrow down your search results. All filters are combined with AND logic.
           </p>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {visibleFilterOptions.map((option) => (
               <div key={option.key} className="space-y-2">
-                <label className="text-white text-sm font-medium">
+                <label className="text-foreground text-sm font-medium">
                   {option.label}
                   {option.dependsOn && (
-                    <span className="text-[#9cabba] text-xs ml-2">
+                    <span className="text-muted-foreground text-xs ml-2">
                       (depends on {filterOptions.find(f => f.key === option.dependsOn)?.label})
                     </span>
                   )}
@@ -455,7 +455,7 @@ export default function AdvancedFilters({
 
           {visibleFilterOptions.length === 0 && (
             <div className="text-center py-8">
-              <p className="text-[#9cabba] text-sm">
+              <p className="text-muted-foreground text-sm">
                 No filters available. Please adjust your current selections.
               </p>
             </div>
@@ -463,9 +463,9 @@ export default function AdvancedFilters({
 
           {/* Active Filters Preview */}
           {Object.keys(tempFilters).length > 0 && (
-            <div className="border-t border-[#3b4754] pt-4">
+            <div className="border-t border-border pt-4">
               <div className="flex items-center justify-between mb-2">
-                <h4 className="text-white text-sm font-medium">Active Filters:</h4>
+                <h4 className="text-foreground text-sm font-medium">Active Filters:</h4>
                 <Button
                   variant="outline"
                   size="sm"
@@ -517,12 +517,12 @@ export default function AdvancedFilters({
                   return (
                     <span
                       key={key}
-                      className="inline-flex items-center gap-1 px-2 py-1 bg-[#0d80f2]/20 text-[#0d80f2] rounded text-xs"
+                      className="inline-flex items-center gap-1 px-2 py-1 bg-primary/20 text-primary rounded text-xs"
                     >
                       {displayKey}: {displayValue}
                       <button
                         onClick={() => handleTempFilterChange(key, Array.isArray(value) ? [] : '')}
-                        className="hover:text-white"
+                        className="hover:text-foreground"
                       >
                         ×
                       </button>
@@ -535,8 +535,8 @@ export default function AdvancedFilters({
 
           {/* Filter Summary */}
           {Object.keys(tempFilters).length > 0 && (
-            <div className="border-t border-[#3b4754] pt-4">
-              <div className="flex items-center gap-2 text-sm text-[#9cabba]">
+            <div className="border-t border-border pt-4">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
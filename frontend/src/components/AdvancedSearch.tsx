@@ -1,24 +1,21 @@
 'use client';
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo, ReactNode } from 'react';
 import Input from './Input';
 import Button from './Button';
 import { useDebouncedSearch } from '@/hooks/useDebounce';
-
-interface SearchSuggestion {
-  type: 'recent' | 'suggestion' | 'filter';
-  value: string;
-  label: string;
-  description?: string;
-  count?: number;
-}
+import { QUERY_FIELDS, QueryError, QueryNode, flattenAnd, parseSearchQuery, queryToSearchParams, removeQuerySpan } from '@/lib/searchQuery';
+import { SearchSuggestion } from '@/lib/searchSuggestions';
 
 interface AdvancedSearchProps {
   value: string;
   onChange: (value: string) => void;
   placeholder?: string;
+  /** Suggestions already matched to the current input, e.g. from useSearchSuggestions */
   suggestions?: SearchSuggestion[];
   onSuggestionSelect?: (suggestion: SearchSuggestion) => void;
+  /** Called with the caret position so suggestions can complete the term being typed */
+  onCursorChange?: (position: number) => void;
   loading?: boolean;
   showSuggestions?: boolean;
   recentSearches?: string[];
@@ -31,12 +28,67 @@ interface AdvancedSearchProps {
   }>;
 }
 
+// Filters suggested while typing a prefix, before any passed in searchFilters
+const DEFAULT_SEARCH_FILTERS: NonNullable<AdvancedSearchProps['searchFilters']> = [
+  {
+    key: 'name',
+    label: 'Name',
+    prefix: 'name:',
+    examples: ['name:john', 'name:"John Doe"'],
+  },
+  {
+    key: 'email',
+    label: 'Email',
+    prefix: 'email:',
+    examples: ['email:@company.com', 'email:john@'],
+  },
+  {
+    key: 'salary',
+    label: 'Salary',
+    prefix: 'salary:',
+    examples: ['salary:>50000', 'salary:40000-80000'],
+  },
+  {
+    key: 'department',
+    label: 'Department',
+    prefix: 'dept:',
+    examples: ['dept:engineering', 'dept:sales'],
+  },
+  {
+    key: 'created',
+    label: 'Created',
+    prefix: 'created:',
+    examples: ['created:last-30d', 'created:>2024-01-01', 'created:2024-01-01..2024-06-30'],
+  },
+];
+
+function highlightQueryErrors(query: string, errors: QueryError[]): ReactNode[] {
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+
+  errors.forEach((error, index) => {
+    const start = Math.max(error.start, cursor);
+    if (start >= error.end) return;
+    parts.push(query.slice(cursor, start));
+    parts.push(
+      <span key={index} className="underline decoration-wavy decoration-red-500 underline-offset-4">
+        {query.slice(start, error.end)}
+      </span>
+    );
+    cursor = error.end;
+  });
+  parts.push(query.slice(cursor));
+
+  return parts;
+}
+
 export default function AdvancedSearch({
   value,
   onChange,
   placeholder = 'Search users...',
   suggestions = [],
   onSuggestionSelect,
+  onCursorChange,
   loading = false,
   showSuggestions = true,
   recentSearches = [],
@@ -45,64 +97,24 @@ export default function AdvancedSearch({
 }: AdvancedSearchProps) {
   const [isFocused, setIsFocused] = useState(false);
   const [showDropdown, setShowDropdown] = useState(false);
+  const [inputScroll, setInputScroll] = useState(0);
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
   const inputRef = useRef<HTMLInputElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
-  // Default search filters
-  const defaultSearchFilters = [
-    {
-      key: 'name',
-      label: 'Name',
-      prefix: 'name:',
-      examples: ['name:john', 'name:"John Doe"'],
-    },
-    {
-      key: 'email',
-      label: 'Email',
-      prefix: 'email:',
-      examples: ['email:@company.com', 'email:john@'],
-    },
-    {
-      key: 'salary',
-      label: 'Salary',
-      prefix: 'salary:',
-      examples: ['salary:>50000', 'salary:40000-80000'],
-    },
-    {
-      key: 'department',
-      label: 'Department',
-      prefix: 'dept:',
-      examples: ['dept:engineering', 'dept:sales'],
-    },
-    {
-      key: 'created',
-      label: 'Created',
-      prefix: 'created:',
-      examples: ['created:today', 'created:>2024-01-01'],
-    },
-  ];
+  const allSearchFilters = useMemo(() => [...DEFAULT_SEARCH_FILTERS, ...searchFilters], [searchFilters]);
 
-  const allSearchFilters = [...defaultSearchFilters, ...searchFilters];
-
-  // Parse search query to extract filters and text
-  const parseSearchQuery = useCallback((query: string) => {
-    const filters: Record<string, string> = {};
-    let textQuery = query;
-
-    allSearchFilters.forEach(filter => {
-      const regex = new RegExp(`${filter.prefix}([^\\s]+)`, 'gi');
-      const matches = query.match(regex);
-      if (matches) {
-        matches.forEach(match => {
-          const value = match.replace(filter.prefix, '');
-          filters[filter.key] = value;
-          textQuery = textQuery.replace(match, '').trim();
-        });
-      }
-    });
-
-    return { filters, textQuery };
-  }, [allSearchFilters]);
+  // Parse the query into field filters for the chips and errors for inline highlighting
+  const parsedQuery = useMemo(() => {
+    const parsed = parseSearchQuery(value);
+    const translated = queryToSearchParams(parsed.ast);
+    return {
+      fieldNodes: parsed.ast
+        ? flattenAnd(parsed.ast).filter((node): node is Extract<QueryNode, { type: 'field' }> => node.type === 'field')
+        : [],
+      errors: [...parsed.errors, ...translated.errors].sort((a, b) => a.start - b.start),
+    };
+  }, [value]);
 
   // Generate suggestions based on current input
   const generateSuggestions = useCallback((): SearchSuggestion[] => {
@@ -120,6 +132,9 @@ export default function AdvancedSearch({
       });
     }
 
+    // Add provided suggestions first, they complete the term under the caret
+    currentSuggestions.push(...suggestions);
+
     // Add filter suggestions if typing a filter prefix
     const lastWord = value.split(' ').pop() || '';
     allSearchFilters.forEach(filter => {
@@ -135,13 +150,6 @@ export default function AdvancedSearch({
       }
     });
 
-    // Add provided suggestions
-    suggestions.forEach(suggestion => {
-      if (suggestion.label.toLowerCase().includes(value.toLowerCase())) {
-        currentSuggestions.push(suggestion);
-      }
-    });
-
     return currentSuggestions.slice(0, 10); // Limit to 10 suggestions
   }, [value, recentSearches, allSearchFilters, suggestions]);
 
@@ -161,18 +169,37 @@ export default function AdvancedSearch({
   }, []);
 
   const handleSuggestionClick = useCallback((suggestion: SearchSuggestion) => {
+    const cursor = suggestion.cursor ?? suggestion.value.length;
     onChange(suggestion.value);
+    onCursorChange?.(cursor);
     setShowDropdown(false);
+    setHighlightedIndex(-1);
     inputRef.current?.focus();
+    // Wait for the new value to render before moving the caret after the inserted term
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(cursor, cursor));
     onSuggestionSelect?.(suggestion);
-  }, [onChange, onSuggestionSelect]);
+  }, [onChange, onCursorChange, onSuggestionSelect]);
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Escape') {
       setShowDropdown(false);
+      setHighlightedIndex(-1);
       inputRef.current?.blur();
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (currentSuggestions.length === 0) return;
+      e.preventDefault();
+      setShowDropdown(true);
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlightedIndex(prev => {
+        // -1 is the input itself, so the cycle has one more stop than there are suggestions
+        const stops = currentSuggestions.length + 1;
+        return ((prev + 1 + step + stops) % stops) - 1;
+      });
+    } else if ((e.key === 'Enter' || e.key === 'Tab') && showDropdown && currentSuggestions[highlightedIndex]) {
+      e.preventDefault();
+      handleSuggestionClick(currentSuggestions[highlightedIndex]);
     }
-  }, []);
+  }, [currentSuggestions, highlightedIndex, showDropdown, handleSuggestionClick]);
 
   const handleClear = useCallback(() => {
     onChange('');
@@ -195,15 +222,15 @@ export default function AdvancedSearch({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const { filters: parsedFilters, textQuery } = parseSearchQuery(value);
-  const hasFilters = Object.keys(parsedFilters).length > 0;
+  const { fieldNodes, errors: queryErrors } = parsedQuery;
+  const hasFilters = fieldNodes.length > 0;
 
   return (
     <div className="relative w-full">
       {/* Search Input */}
       <div className="relative">
         <div className="absolute left-3 top-1/2 transform -translate-y-1/2 z-10">
-          <svg className="w-5 h-5 text-[#9cabba]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <svg className="w-5 h-5 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
           </svg>
         </div>
@@ -212,20 +239,39 @@ export default function AdvancedSearch({
           ref={inputRef}
           variant="search"
           value={value}
-          onChange={(e) => onChange(e.target.value)}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setHighlightedIndex(-1);
+            if (showSuggestions) setShowDropdown(true);
+          }}
+          onSelect={(e) => onCursorChange?.(e.currentTarget.selectionStart ?? e.currentTarget.value.length)}
           onFocus={handleFocus}
           onBlur={handleBlur}
           onKeyDown={handleKeyDown}
           placeholder={placeholder}
+          onScroll={(e) => setInputScroll(e.currentTarget.scrollLeft)}
           isLoading={loading}
           className="pl-10 pr-20"
+          aria-invalid={queryErrors.length > 0}
         />
 
+        {/* Mirror of the query that underlines the parts with errors */}
+        {queryErrors.length > 0 && (
+          <div
+            aria-hidden="true"
+            className="pointer-events-none absolute inset-0 flex items-center overflow-hidden pl-10 pr-20 text-base font-normal leading-normal text-transparent whitespace-pre"
+          >
+            <span style={{ transform: `translateX(-${inputScroll}px)` }}>
+              {highlightQueryErrors(value, queryErrors)}
+            </span>
+          </div>
+        )}
+
         {/* Clear button */}
         {value && (
           <button
             onClick={handleClear}
-            className="absolute right-12 top-1/2 transform -translate-y-1/2 text-[#9cabba] hover:text-white transition-colors"
+            className="absolute right-12 top-1/2 transform -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
           >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -236,7 +282,7 @@ export default function AdvancedSearch({
         {/* Help button */}
         <button
           onClick={() => setShowDropdown(!showDropdown)}
-          className="absolute right-3 top-1/2 transform -translate-y-1/2 text-[#9cabba] hover:text-white transition-colors"
+          className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
           title="Search help"
         >
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -245,30 +291,35 @@ export default function AdvancedSearch({
         </button>
       </div>
 
+      {/* Query Errors */}
+      {queryErrors.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {queryErrors.map((error, index) => (
+            <li key={`${error.start}-${index}`} className="text-red-400 text-xs">
+              <span className="font-mono">{value.slice(error.start, error.end) || '…'}</span>: {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Active Filters Display */}
       {hasFilters && (
         <div className="mt-2 flex flex-wrap gap-2">
-          {Object.entries(parsedFilters).map(([key, value]) => {
-            const filter = allSearchFilters.find(f => f.key === key);
-            return (
-              <span
-                key={key}
-                className="inline-flex items-center gap-1 px-2 py-1 bg-[#0d80f2]/20 text-[#0d80f2] rounded text-xs"
+          {fieldNodes.map(node => (
+            <span
+              key={`${node.start}-${node.end}`}
+              className="inline-flex items-center gap-1 px-2 py-1 bg-primary/20 text-primary rounded text-xs"
+            >
+              {QUERY_FIELDS[node.field].label}: {value.slice(node.start, node.end).split(':').slice(1).join(':')}
+              <button
+                onClick={() => onChange(removeQuerySpan(value, node))}
+                className="hover:text-foreground"
+                aria-label="Remove filter"
               >
-                {filter?.label || key}: {value}
-                <button
-                  onClick={() => {
-                    const newValue = onChange(
-                      value.replace(`${filter?.prefix || key + ':'}${value}`, '').trim()
-                    );
-                  }}
-                  className="hover:text-white"
-                >
-                  ×
-                </button>
-              </span>
-            );
-          })}
+                ×
+              </button>
+            </span>
+          ))}
         </div>
       )}
 
@@ -276,42 +327,47 @@ export default function AdvancedSearch({
       {showDropdown && showSuggestions && (
         <div
           ref={dropdownRef}
-          className="absolute top-full left-0 right-0 mt-1 bg-[#283039] border border-[#3b4754] rounded-lg shadow-lg z-50 max-h-80 overflow-y-auto"
+          className="absolute top-full left-0 right-0 mt-1 bg-surface-raised border border-border rounded-lg shadow-lg z-50 max-h-80 overflow-y-auto"
         >
           {currentSuggestions.length > 0 ? (
-            <div className="py-2">
+            <div className="py-2" role="listbox">
               {currentSuggestions.map((suggestion, index) => (
                 <button
                   key={index}
+                  role="option"
+                  aria-selected={index === highlightedIndex}
                   onClick={() => handleSuggestionClick(suggestion)}
-                  className="w-full px-4 py-2 text-left hover:bg-[#3b4754] transition-colors"
+                  onMouseEnter={() => setHighlightedIndex(index)}
+                  className={`w-full px-4 py-2 text-left hover:bg-border transition-colors ${
+                    index === highlightedIndex ? 'bg-border' : ''
+                  }`}
                 >
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-3">
                       {suggestion.type === 'recent' && (
-                        <svg className="w-4 h-4 text-[#9cabba]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <svg className="w-4 h-4 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                         </svg>
                       )}
                       {suggestion.type === 'filter' && (
-                        <svg className="w-4 h-4 text-[#0d80f2]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <svg className="w-4 h-4 text-primary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" />
                         </svg>
                       )}
                       {suggestion.type === 'suggestion' && (
-                        <svg className="w-4 h-4 text-[#9cabba]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <svg className="w-4 h-4 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                         </svg>
                       )}
                       <div>
-                        <div className="text-white text-sm">{suggestion.label}</div>
+                        <div className="text-foreground text-sm">{suggestion.label}</div>
                         {suggestion.description && (
-                          <div className="text-[#9cabba] text-xs">{suggestion.description}</div>
+                          <div className="text-muted-foreground text-xs">{suggestion.description}</div>
                         )}
                       </div>
                     </div>
                     {suggestion.count && (
-                      <span className="text-[#9cabba] text-xs">{suggestion.count}</span>
+                      <span className="text-muted-foreground text-xs">{suggestion.count}</span>
                     )}
                   </div>
                 </button>
@@ -319,20 +375,21 @@ export default function AdvancedSearch({
             </div>
           ) : (
             <div className="py-8 text-center">
-              <div className="text-[#9cabba] text-sm">
+              <div className="text-muted-foreground text-sm">
                 {value ? 'No suggestions found' : 'Start typing to see suggestions'}
               </div>
             </div>
           )}
 
           {/* Search Help */}
-          <div className="border-t border-[#3b4754] p-4">
-            <div className="text-white text-sm font-medium mb-2">Search Tips:</div>
-            <div className="space-y-1 text-xs text-[#9cabba]">
+          <div className="border-t border-border p-4">
+            <div className="text-foreground text-sm font-medium mb-2">Search Tips:</div>
+            <div className="space-y-1 text-xs text-muted-foreground">
               <div>• Use quotes for exact phrases: "John Doe"</div>
               <div>• Filter by field: name:john, email:@company.com</div>
               <div>• Salary ranges: salary:50000-80000, salary:{'>'}60000</div>
-              <div>• Date filters: created:today, created:{'>'}2024-01-01</div>
+              <div>• Date filters: created:last-30d, created:{'>'}2024-01-01, created:2024-01-01..2024-06-30</div>
+              <div>• Combine terms: dept:sales OR dept:finance, NOT status:inactive, -intern</div>
             </div>
             {recentSearches.length > 0 && onClearRecent && (
               <Button
@@ -0,0 +1,163 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { ApiError, apiClient } from '@/lib/api/client';
+import { authApi, authUtils } from '@/lib/api/auth';
+import { getErrorInfo } from '@/lib/api/errors';
+import { CurrentUser, LoginRequest, UserPermissions, UserWithSalary } from '@/lib/api/types';
+
+// Auth context
+interface AuthContextType {
+  user: UserWithSalary | null;
+  permissions: UserPermissions | null;
+  statistics: CurrentUser['statistics'] | null;
+  isAuthenticated: boolean;
+  isAdmin: boolean;
+  isLoading: boolean;
+  error: string | null;
+  login: (credentials: LoginRequest) => Promise<CurrentUser>;
+  logout: () => Promise<void>;
+  logoutAll: () => Promise<void>;
+  reloadUser: () => Promise<CurrentUser | null>;
+}
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+// Pages that need a signed-in user; public pages stay put when a session expires
+const PROTECTED_ROUTE_PREFIXES = ['/admin', '/settings'];
+
+function isProtectedRoute(pathname: string): boolean {
+  return PROTECTED_ROUTE_PREFIXES.some(prefix => pathname === prefix || pathname.startsWith(`${prefix}/`));
+}
+
+// Auth provider component
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const pathname = usePathname();
+  // Read by the session-expired listener, which should only act when someone was signed in
+  const isSignedInRef = useRef(false);
+
+  useEffect(() => {
+    isSignedInRef.current = currentUser !== null;
+  }, [currentUser]);
+
+  const clearSession = useCallback(() => {
+    apiClient.clearAuthToken();
+    setCurrentUser(null);
+  }, []);
+
+  const reloadUser = useCallback(async () => {
+    const token = apiClient.getAuthToken();
+    if (!token) {
+      setCurrentUser(null);
+      return null;
+    }
+
+    try {
+      const response = await authApi.me();
+      // Re-store the token so the middleware cookie stays in step with local storage
+      apiClient.setAuthToken(apiClient.getAuthToken() || token);
+      setCurrentUser(response.data);
+      setError(null);
+      return response.data;
+    } catch (err) {
+      // A stale or revoked token is not an error worth surfacing on boot
+      if (err instanceof ApiError && (err.status === 401 || err.status === 403)) {
+        clearSession();
+        return null;
+      }
+
+      // Network errors and server failures keep the token, so a backend blip does not sign everyone out
+      setError(getErrorInfo(err as Error).message);
+      return null;
+    }
+  }, [clearSession]);
+
+  // Load the current user on boot if a token is already stored
+  useEffect(() => {
+    reloadUser().finally(() => setIsLoading(false));
+  }, [reloadUser]);
+
+  // Send the user back to sign in when the client could not refresh an expired token
+  useEffect(() => {
+    return apiClient.addSessionExpiredListener(() => {
+      if (!isSignedInRef.current) return;
+
+      setCurrentUser(null);
+      setError('Your session has expired. Please sign in again.');
+
+      if (isProtectedRoute(pathname)) {
+        router.push(`/login?redirect=${encodeURIComponent(pathname)}&expired=1`);
+      }
+    });
+  }, [pathname, router]);
+
+  const login = useCallback(async (credentials: LoginRequest) => {
+    setError(null);
+
+    try {
+      const response = await authApi.login(credentials);
+      apiClient.setAuthToken(response.data.token);
+
+      const me = await authApi.me();
+      setCurrentUser(me.data);
+      return me.data;
+    } catch (err) {
+      clearSession();
+      setError(getErrorInfo(err as Error).message);
+      throw err;
+    }
+  }, [clearSession]);
+
+  const logout = useCallback(async () => {
+    try {
+      await authApi.logout();
+    } catch (err) {
+      // The token is discarded locally even if the server call fails
+      console.warn('Logout request failed:', err);
+    } finally {
+      clearSession();
+    }
+  }, [clearSession]);
+
+  const logoutAll = useCallback(async () => {
+    try {
+      await authApi.logoutAll();
+    } finally {
+      clearSession();
+    }
+  }, [clearSession]);
+
+  const contextValue: AuthContextType = {
+    user: currentUser?.user ?? null,
+    permissions: currentUser?.permissions ?? null,
+    statistics: currentUser?.statistics ?? null,
+    isAuthenticated: currentUser !== null,
+    isAdmin: authUtils.isAdmin(currentUser?.permissions),
+    isLoading,
+    error,
+    login,
+    logout,
+    logoutAll,
+    reloadUser,
+  };
+
+  return (
+    <AuthContext.Provider value={contextValue}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+// Hook to use auth context
+export function useAuthContext() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuthContext must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -18,9 +18,9 @@ export default function Button({
   const baseClasses = 'flex cursor-pointer items-center justify-center overflow-hidden rounded-lg font-bold leading-normal tracking-[0.015em] transition-colors';
   
   const variants = {
-    primary: 'bg-[#0d80f2] text-white hover:bg-[#0b6fd8]',
-    secondary: 'bg-[#283039] text-white hover:bg-[#1f252a]',
-    outline: 'border border-[#3b4754] bg-transparent text-white hover:bg-[#283039]'
+    primary: 'bg-primary text-primary-foreground hover:bg-primary-hover',
+    secondary: 'bg-surface-raised text-foreground hover:bg-surface-hover',
+    outline: 'border border-border bg-transparent text-foreground hover:bg-surface-raised'
   };
   
   const sizes = {
@@ -0,0 +1,141 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { ChartDatum, formatCompactNumber, getNiceTicks } from '@/lib/charts';
+
+const WIDTH = 600;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 48 };
+
+interface ChartProps {
+  data: ChartDatum[];
+  /** Accessible description of the chart */
+  title: string;
+  height?: number;
+  formatValue?: (value: number) => string;
+  emptyMessage?: string;
+}
+
+interface ChartFrameProps {
+  data: ChartDatum[];
+  title: string;
+  height: number;
+  ticks: number[];
+  emptyMessage: string;
+  children: (scale: { x: (index: number) => number; y: (value: number) => number; band: number }) => ReactNode;
+}
+
+// Shared axes, gridlines and labels; series are drawn by the caller
+function ChartFrame({ data, title, height, ticks, emptyMessage, children }: ChartFrameProps) {
+  if (data.length === 0) {
+    return (
+      <div className="flex items-center justify-center text-muted-foreground text-sm" style={{ height }}>
+        {emptyMessage}
+      </div>
+    );
+  }
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const maxTick = ticks[ticks.length - 1] || 1;
+  const band = plotWidth / data.length;
+  // Thin out x labels so they don't overlap on long series
+  const labelEvery = Math.max(1, Math.ceil(data.length / 8));
+
+  const x = (index: number) => PADDING.left + band * index + band / 2;
+  const y = (value: number) => PADDING.top + plotHeight - (Math.max(value, 0) / maxTick) * plotHeight;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label={title}>
+      <title>{title}</title>
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={y(tick)}
+            y2={y(tick)}
+            className="stroke-border"
+            strokeDasharray={tick === 0 ? undefined : '2 4'}
+          />
+          <text x={PADDING.left - 8} y={y(tick)} dy="0.32em" textAnchor="end" className="fill-muted-foreground text-[11px]">
+            {formatCompactNumber(tick)}
+          </text>
+        </g>
+      ))}
+      {data.map((datum, index) => (index % labelEvery === 0 ? (
+        <text
+          key={`${datum.label}-${index}`}
+          x={x(index)}
+          y={height - 8}
+          textAnchor="middle"
+          className="fill-muted-foreground text-[11px]"
+        >
+          {datum.label}
+        </text>
+      ) : null))}
+      {children({ x, y, band })}
+    </svg>
+  );
+}
+
+export function BarChart({
+  data,
+  title,
+  height = 220,
+  formatValue = formatCompactNumber,
+  emptyMessage = 'No data for this period.',
+}: ChartProps) {
+  const ticks = getNiceTicks(Math.max(0, ...data.map(datum => datum.value)));
+
+  return (
+    <ChartFrame data={data} title={title} height={height} ticks={ticks} emptyMessage={emptyMessage}>
+      {({ x, y, band }) => {
+        const barWidth = Math.max(2, band * 0.7);
+        return data.map((datum, index) => (
+          <rect
+            key={`${datum.label}-${index}`}
+            x={x(index) - barWidth / 2}
+            y={y(datum.value)}
+            width={barWidth}
+            height={Math.max(0, y(0) - y(datum.value))}
+            rx={2}
+            className="fill-primary hover:fill-primary-hover"
+          >
+            <title>{`${datum.label}: ${formatValue(datum.value)}`}</title>
+          </rect>
+        ));
+      }}
+    </ChartFrame>
+  );
+}
+
+export function LineChart({
+  data,
+  title,
+  height = 220,
+  formatValue = formatCompactNumber,
+  emptyMessage = 'No data for this period.',
+}: ChartProps) {
+  const values = data.map(datum => datum.value);
+  const ticks = getNiceTicks(Math.max(0, ...values));
+
+  return (
+    <ChartFrame data={data} title={title} height={height} ticks={ticks} emptyMessage={emptyMessage}>
+      {({ x, y }) => {
+        const points = data.map((datum, index) => `${x(index)},${y(datum.value)}`).join(' ');
+        const area = `${x(0)},${y(0)} ${points} ${x(data.length - 1)},${y(0)}`;
+        return (
+          <>
+            <polygon points={area} className="fill-primary/10" />
+            <polyline points={points} fill="none" strokeWidth={2} strokeLinejoin="round" className="stroke-primary" />
+            {data.map((datum, index) => (
+              <circle key={`${datum.label}-${index}`} cx={x(index)} cy={y(datum.value)} r={3.5} className="fill-primary">
+                <title>{`${datum.label}: ${formatValue(datum.value)}`}</title>
+              </circle>
+            ))}
+          </>
+        );
+      }}
+    </ChartFrame>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import Button from './Button';
+import { ColumnPin, TableLayout } from '@/lib/tableLayout';
+
+interface ColumnChooserProps {
+  columns: Array<{ key: string; label: string }>;
+  layout: TableLayout;
+  isCustomized: boolean;
+  onToggle: (key: string) => void;
+  onMove: (key: string, targetKey: string) => void;
+  onPin: (key: string, pin: ColumnPin | null) => void;
+  onReset: () => void;
+}
+
+export default function ColumnChooser({
+  columns,
+  layout,
+  isCustomized,
+  onToggle,
+  onMove,
+  onPin,
+  onReset,
+}: ColumnChooserProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close the panel when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const labels = new Map(columns.map(column => [column.key, column.label]));
+  const visibleCount = layout.order.length - layout.hidden.length;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button variant="outline" size="sm" onClick={() => setIsOpen(open => !open)} aria-expanded={isOpen}>
+        Columns{isCustomized ? ' •' : ''}
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-80 bg-surface-raised border border-border rounded-lg shadow-lg z-50 p-3">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-foreground text-sm font-medium">Columns</span>
+            <Button variant="outline" size="sm" onClick={onReset} disabled={!isCustomized}>
+              Reset to Default
+            </Button>
+          </div>
+          <p className="text-muted-foreground text-xs mb-2">
+            Drag headers to reorder and drag their right edge to resize.
+          </p>
+
+          <ul className="flex flex-col gap-1 max-h-80 overflow-y-auto">
+            {layout.order.map((key, index) => {
+              const hidden = layout.hidden.includes(key);
+
+              return (
+                <li key={key} className="flex items-center gap-2 rounded px-1 py-1 hover:bg-surface">
+                  <input
+                    type="checkbox"
+                    checked={!hidden}
+                    onChange={() => onToggle(key)}
+                    disabled={!hidden && visibleCount <= 1}
+                    className="h-4 w-4 rounded border-border border-2 bg-transparent text-primary checked:bg-primary checked:border-primary"
+                    aria-label={`Show ${labels.get(key)}`}
+                  />
+                  <span className={`flex-1 text-sm ${hidden ? 'text-muted-foreground' : 'text-foreground'}`}>
+                    {labels.get(key)}
+                  </span>
+                  <select
+                    value={layout.pinned[key] ?? ''}
+                    onChange={(e) => onPin(key, (e.target.value || null) as ColumnPin | null)}
+                    className="bg-surface text-foreground rounded px-1 py-0.5 text-xs border-none focus:outline-none focus:ring-1 focus:ring-primary"
+                    aria-label={`Pin ${labels.get(key)}`}
+                  >
+                    <option value="">Unpinned</option>
+                    <option value="left">Pin left</option>
+                    <option value="right">Pin right</option>
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => onMove(key, layout.order[index - 1])}
+                    disabled={index === 0}
+                    className="text-muted-foreground hover:text-foreground disabled:opacity-30 text-xs px-1"
+                    aria-label={`Move ${labels.get(key)} up`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onMove(key, layout.order[index + 1])}
+                    disabled={index === layout.order.length - 1}
+                    className="text-muted-foreground hover:text-foreground disabled:opacity-30 text-xs px-1"
+                    aria-label={`Move ${labels.get(key)} down`}
+                  >
+                    ↓
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
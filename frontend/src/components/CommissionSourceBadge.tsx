@@ -0,0 +1,53 @@
+'use client';
+
+import { ResolvedCommission } from '@/lib/commissions';
+import { getDepartmentLabel } from '@/lib/departments';
+import { formatMoney } from '@/lib/salaryHistory';
+
+interface CommissionSourceBadgeProps {
+  resolved: ResolvedCommission;
+  onReset?: () => void;
+  resetting?: boolean;
+}
+
+/**
+ * Shows whether a user's commission is inherited from the global amount or overridden
+ */
+export default function CommissionSourceBadge({ resolved, onReset, resetting = false }: CommissionSourceBadgeProps) {
+  if (resolved.source === 'global') {
+    return (
+      <span className="inline-flex items-center rounded-full border border-border bg-surface-raised px-2 py-0.5 text-xs text-muted-foreground">
+        Global
+      </span>
+    );
+  }
+
+  const label = resolved.source === 'user'
+    ? 'Override'
+    : `${getDepartmentLabel(resolved.override?.department)} override`;
+
+  return (
+    <span className="inline-flex items-center gap-1">
+      <span
+        className="inline-flex items-center rounded-full border border-primary/30 bg-primary/15 px-2 py-0.5 text-xs font-medium text-primary"
+        title={resolved.amount !== null ? `${label}: ${formatMoney(resolved.amount, 'EUR')}` : label}
+      >
+        {label}
+      </span>
+      {resolved.source === 'user' && onReset && (
+        <button
+          type="button"
+          onClick={(e) => {
+            // Keep the click from opening the cell editor underneath
+            e.stopPropagation();
+            onReset();
+          }}
+          disabled={resetting}
+          className="text-xs text-muted-foreground underline hover:text-foreground disabled:opacity-50"
+        >
+          {resetting ? 'Resetting...' : 'Reset to global'}
+        </button>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { Salary } from '@/lib/api/types';
+import { convertToEuros, formatRate, getRate, getRateDrift, parseAmount } from '@/lib/currency';
+import { formatMoney, formatPercentChange } from '@/lib/salaryHistory';
+
+interface EuroPreviewProps {
+  amount: unknown;
+  currencyCode: string;
+  className?: string;
+}
+
+/**
+ * Live EUR equivalent of a local amount at today's rate
+ */
+export function EuroPreview({ amount, currencyCode, className = '' }: EuroPreviewProps) {
+  const { rates, isFallback } = useExchangeRates();
+  const parsed = parseAmount(amount);
+  const rate = getRate(rates, currencyCode);
+
+  if (rate === null) {
+    return <p className={`text-yellow-400 text-xs ${className}`}>No exchange rate available for {currencyCode}.</p>;
+  }
+
+  if (parsed === null || currencyCode.toUpperCase() === 'EUR') {
+    return null;
+  }
+
+  return (
+    <p className={`text-muted-foreground text-xs ${className}`}>
+      ≈ <span className="text-foreground font-medium">{formatMoney(convertToEuros(parsed, rate), 'EUR')}</span>
+      {' '}at {formatRate(rate, currencyCode)}
+      {isFallback && ' (offline estimate)'}
+    </p>
+  );
+}
+
+interface RateDriftBadgeProps {
+  salary: Pick<Salary, 'salary_local_currency' | 'local_currency_code' | 'salary_euros' | 'exchange_rate'>;
+}
+
+/**
+ * Warns when a stored EUR salary no longer matches today's conversion
+ */
+export function RateDriftBadge({ salary }: RateDriftBadgeProps) {
+  const { rates } = useExchangeRates();
+  const drift = getRateDrift(salary, rates);
+
+  if (!drift?.exceedsThreshold) {
+    return null;
+  }
+
+  return (
+    <span
+      className="inline-flex items-center rounded-full bg-yellow-500/10 border border-yellow-500/20 px-2 py-0.5 text-xs font-medium text-yellow-400"
+      title={`Stored ${formatMoney(Number(salary.salary_euros), 'EUR')}, today's rate gives ${formatMoney(drift.expectedEuros, 'EUR')}`}
+    >
+      Rate drift {formatPercentChange(drift.driftPercent)}
+    </span>
+  );
+}
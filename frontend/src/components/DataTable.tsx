@@ -1,10 +1,49 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import {
+  useState,
+  useCallback,
+  useEffect,
+  useRef,
+  ReactNode,
+  CSSProperties,
+  KeyboardEvent as ReactKeyboardEvent,
+  PointerEvent as ReactPointerEvent,
+  UIEvent as ReactUIEvent,
+} from 'react';
+import Link from 'next/link';
 import Button from './Button';
 import Input from './Input';
+import ColumnChooser from './ColumnChooser';
+import { useTableLayout } from '@/hooks/useTableLayout';
+import { SELECTION_COLUMN_WIDTH, applyLayout, getColumnWidth, getPinnedOffsets } from '@/lib/tableLayout';
+import {
+  EMPTY_SELECTION,
+  RowId,
+  RowSelection,
+  getSelectedCount,
+  isRowSelected,
+  setRowsSelected,
+  toggleRowSelection,
+} from '@/lib/tableSelection';
 
-interface Column {
+// Rows are a fixed height (h-[72px]) so the visible window can be computed from the scroll offset
+const ROW_HEIGHT = 72;
+const OVERSCAN_ROWS = 8;
+/** Tables with more rows than this render only the rows in view */
+const VIRTUALIZE_THRESHOLD = 100;
+/** Start loading the next page when this many rows are left below the viewport */
+const LOAD_MORE_THRESHOLD_ROWS = 10;
+
+const getDefaultRowId = (row: unknown): RowId => (row as { id: RowId }).id;
+
+function getVisibleRange(scrollTop: number, viewportHeight: number, rowCount: number) {
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const end = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
+  return { start, end };
+}
+
+interface Column<T = Record<string, unknown>> {
   key: string;
   label: string;
   sortable?: boolean;
@@ -13,12 +52,17 @@ interface Column {
   type?: 'text' | 'number' | 'email' | 'select';
   options?: Array<{ value: string; label: string }>;
   formatter?: (value: any) => string;
+  /** Extra content shown next to the formatted value, e.g. a status badge */
+  renderExtra?: (row: T) => ReactNode;
+  /** Live feedback shown under the input while the cell is being edited */
+  editPreview?: (value: string, row: T) => ReactNode;
 }
 
 interface DataTableProps<T = Record<string, unknown>> {
-  columns: Column[];
+  columns: Column<T>[];
   data: T[];
   onRowAction?: (action: string, row: T, index: number) => void;
+  getRowHref?: (row: T) => string;
   onCellEdit?: (rowIndex: number, columnKey: string, value: any) => Promise<void>;
   onSort?: (column: string, direction: 'asc' | 'desc') => void;
   searchable?: boolean;
@@ -26,9 +70,25 @@ interface DataTableProps<T = Record<string, unknown>> {
   searchPlaceholder?: string;
   onSearch?: (query: string) => void;
   selectable?: boolean;
-  selectedRows?: number[];
-  onSelectionChange?: (selectedRows: number[]) => void;
+  /** Identifies a row for selection; defaults to its `id` */
+  getRowId?: (row: T) => RowId;
+  selection?: RowSelection;
+  onSelectionChange?: (selection: RowSelection) => void;
+  /** Rows matching the current filter on all pages, for "select all matching". Defaults to the pagination total */
+  totalMatching?: number;
   loading?: boolean;
+  /** Show the column chooser and allow reordering, resizing and pinning columns */
+  customizableColumns?: boolean;
+  /** Storage key for the column layout, see getTableLayoutKey */
+  layoutKey?: string;
+  /** Render only the rows in view. Defaults to on for large pages and in infinite scroll mode */
+  virtualized?: boolean;
+  /** Height of the scrolling body when virtualized */
+  maxHeight?: number;
+  /** Infinite scroll: called when the user scrolls near the end of the loaded rows */
+  onLoadMore?: () => void;
+  hasMore?: boolean;
+  loadingMore?: boolean;
   pagination?: {
     currentPage: number;
     totalPages: number;
@@ -43,6 +103,7 @@ export default function DataTable<T = Record<string, unknown>>({
   columns, 
   data, 
   onRowAction,
+  getRowHref,
   onCellEdit,
   onSort,
   searchable = false,
@@ -50,9 +111,18 @@ export default function DataTable<T = Record<string, unknown>>({
   searchPlaceholder = 'Search...',
   onSearch,
   selectable = false,
-  selectedRows = [],
+  getRowId = getDefaultRowId,
+  selection = EMPTY_SELECTION,
   onSelectionChange,
+  totalMatching,
   loading = false,
+  customizableColumns = false,
+  layoutKey,
+  virtualized,
+  maxHeight = 640,
+  onLoadMore,
+  hasMore = false,
+  loadingMore = false,
   pagination 
 }: DataTableProps<T>) {
   const [sortColumn, setSortColumn] = useState<string>('');
@@ -60,6 +130,67 @@ export default function DataTable<T = Record<string, unknown>>({
   const [editingCell, setEditingCell] = useState<{ row: number; column: string } | null>(null);
   const [editValue, setEditValue] = useState<any>('');
   const [savingCell, setSavingCell] = useState<{ row: number; column: string } | null>(null);
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null);
+  const [resizing, setResizing] = useState<{ key: string; startX: number; startWidth: number; width: number } | null>(null);
+
+  const tableLayout = useTableLayout(columns, customizableColumns ? layoutKey : undefined);
+  const { layout } = tableLayout;
+  const visibleColumns = customizableColumns ? applyLayout(columns, layout) : columns;
+  const hasLeftPins = customizableColumns && visibleColumns.some(column => layout.pinned[column.key] === 'left');
+  const pinnedOffsets = customizableColumns
+    ? getPinnedOffsets(visibleColumns, layout, selectable ? SELECTION_COLUMN_WIDTH : 0)
+    : {};
+
+  const getWidth = useCallback((column: Column<T>) => (
+    resizing?.key === column.key ? resizing.width : getColumnWidth(column, layout)
+  ), [resizing, layout]);
+
+  const getHeaderStyle = (column: Column<T>): CSSProperties | undefined => {
+    const style = getColumnStyle(column);
+    if (!isVirtualized) return style;
+    // Pinned headers stay above both the scrolled rows and the other sticky headers
+    return { ...style, position: 'sticky', top: 0, zIndex: pinnedOffsets[column.key] ? 30 : 20 };
+  };
+
+  const getColumnStyle = (column: Column<T>): CSSProperties | undefined => {
+    if (!customizableColumns) return undefined;
+
+    const width = getWidth(column);
+    const pin = pinnedOffsets[column.key];
+    return {
+      width,
+      minWidth: width,
+      maxWidth: width,
+      ...(pin ? { position: 'sticky', [pin.side]: pin.offset, zIndex: 10 } : {}),
+    };
+  };
+
+  const handleResizeStart = (event: ReactPointerEvent<HTMLDivElement>, column: Column<T>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const width = getWidth(column);
+    setResizing({ key: column.key, startX: event.clientX, startWidth: width, width });
+  };
+
+  const handleResizeMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (!resizing) return;
+    setResizing({ ...resizing, width: Math.max(0, resizing.startWidth + event.clientX - resizing.startX) });
+  };
+
+  const handleResizeEnd = () => {
+    if (!resizing) return;
+    // Only the final width is persisted, not every intermediate drag position
+    tableLayout.actions.resizeColumn(resizing.key, resizing.width);
+    setResizing(null);
+  };
+
+  const handleColumnDrop = (targetKey: string) => {
+    if (draggedColumn) {
+      tableLayout.actions.reorderColumn(draggedColumn, targetKey);
+    }
+    setDraggedColumn(null);
+  };
 
   const handleSort = useCallback((columnKey: string) => {
     const newDirection = sortColumn === columnKey && sortDirection === 'asc' ? 'desc' : 'asc';
@@ -98,27 +229,41 @@ export default function DataTable<T = Record<string, unknown>>({
     setEditValue('');
   }, []);
 
-  const handleSelectAll = useCallback(() => {
-    if (!onSelectionChange) return;
+  const sortedData = onSort ? data : [...data].sort((a, b) => {
+    if (!sortColumn) return 0;
     
-    const allRowIds = data.map((_, index) => index);
-    const isAllSelected = selectedRows.length === data.length;
+    const aValue = (a as Record<string, unknown>)[sortColumn];
+    const bValue = (b as Record<string, unknown>)[sortColumn];
+    
+    if (typeof aValue === 'string' && typeof bValue === 'string') {
+      return sortDirection === 'asc' 
+        ? aValue.localeCompare(bValue)
+        : bValue.localeCompare(aValue);
+    } else if (typeof aValue === 'number' && typeof bValue === 'number') {
+      return sortDirection === 'asc' ? aValue - bValue : bValue - aValue;
+    }
     
-    onSelectionChange(isAllSelected ? [] : allRowIds);
-  }, [data, selectedRows, onSelectionChange]);
+    return 0;
+  });
+
+  // Selection is by row id, so it stays on the same rows through sorting, paging and refreshes
+  const loadedRowIds = sortedData.map(row => getRowId(row));
+  const selectedOnPage = loadedRowIds.filter(id => isRowSelected(selection, id)).length;
+  const allLoadedSelected = loadedRowIds.length > 0 && selectedOnPage === loadedRowIds.length;
+  const matchingCount = totalMatching ?? pagination?.total ?? data.length;
+  const selectedCount = getSelectedCount(selection, matchingCount);
 
-  const handleRowSelect = useCallback((rowIndex: number) => {
+  const handleSelectAll = useCallback(() => {
     if (!onSelectionChange) return;
-    
-    const isSelected = selectedRows.includes(rowIndex);
-    const newSelection = isSelected
-      ? selectedRows.filter(id => id !== rowIndex)
-      : [...selectedRows, rowIndex];
-    
-    onSelectionChange(newSelection);
-  }, [selectedRows, onSelectionChange]);
+    onSelectionChange(setRowsSelected(selection, loadedRowIds, !allLoadedSelected));
+  }, [selection, loadedRowIds, allLoadedSelected, onSelectionChange]);
+
+  const handleRowSelect = useCallback((rowId: RowId) => {
+    if (!onSelectionChange) return;
+    onSelectionChange(toggleRowSelection(selection, rowId));
+  }, [selection, onSelectionChange]);
 
-  const renderCell = useCallback((row: T, column: Column, rowIndex: number) => {
+  const renderCell = useCallback((row: T, column: Column<T>, rowIndex: number) => {
     const value = (row as Record<string, unknown>)[column.key];
     const isEditing = editingCell?.row === rowIndex && editingCell?.column === column.key;
     const isSaving = savingCell?.row === rowIndex && savingCell?.column === column.key;
@@ -126,6 +271,13 @@ export default function DataTable<T = Record<string, unknown>>({
     if (column.key === 'actions') {
       return (
         <div className="flex gap-2">
+          {getRowHref && (
+            <Link href={getRowHref(row)}>
+              <Button variant="outline" size="sm">
+                View
+              </Button>
+            </Link>
+          )}
           <Button
             variant="outline"
             size="sm"
@@ -152,7 +304,7 @@ export default function DataTable<T = Record<string, unknown>>({
             <select
               value={editValue}
               onChange={(e) => setEditValue(e.target.value)}
-              className="bg-[#283039] text-white rounded px-2 py-1 text-sm border-none focus:outline-none focus:ring-1 focus:ring-[#0d80f2]"
+              className="bg-surface-raised text-foreground rounded px-2 py-1 text-sm border-none focus:outline-none focus:ring-1 focus:ring-primary"
               disabled={isSaving}
             >
               {column.options.map(option => (
@@ -180,37 +332,40 @@ export default function DataTable<T = Record<string, unknown>>({
         );
       } else {
         return (
-          <div className="flex gap-2 items-center">
-            <input
-              type={column.type || 'text'}
-              value={editValue}
-              onChange={(e) => setEditValue(e.target.value)}
-              className="bg-[#283039] text-white rounded px-2 py-1 text-sm border-none focus:outline-none focus:ring-1 focus:ring-[#0d80f2] w-full"
-              disabled={isSaving}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter') {
-                  handleCellSave(rowIndex, column.key);
-                } else if (e.key === 'Escape') {
-                  handleCellCancel();
-                }
-              }}
-              autoFocus
-            />
-            <Button
-              size="sm"
-              onClick={() => handleCellSave(rowIndex, column.key)}
-              disabled={isSaving}
-            >
-              {isSaving ? '...' : '✓'}
-            </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleCellCancel}
-              disabled={isSaving}
-            >
-              ✕
-            </Button>
+          <div className="flex flex-col gap-1">
+            <div className="flex gap-2 items-center">
+              <input
+                type={column.type || 'text'}
+                value={editValue}
+                onChange={(e) => setEditValue(e.target.value)}
+                className="bg-surface-raised text-foreground rounded px-2 py-1 text-sm border-none focus:outline-none focus:ring-1 focus:ring-primary w-full"
+                disabled={isSaving}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    handleCellSave(rowIndex, column.key);
+                  } else if (e.key === 'Escape') {
+                    handleCellCancel();
+                  }
+                }}
+                autoFocus
+              />
+              <Button
+                size="sm"
+                onClick={() => handleCellSave(rowIndex, column.key)}
+                disabled={isSaving}
+              >
+                {isSaving ? '...' : '✓'}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleCellCancel}
+                disabled={isSaving}
+              >
+                ✕
+              </Button>
+            </div>
+            {column.editPreview?.(String(editValue ?? ''), row)}
           </div>
         );
       }
@@ -220,42 +375,111 @@ export default function DataTable<T = Record<string, unknown>>({
     
     return (
       <div
-        className={`${column.editable ? 'cursor-pointer hover:bg-[#283039] rounded px-2 py-1' : ''}`}
+        className={`${column.editable ? 'cursor-pointer hover:bg-surface-raised rounded px-2 py-1' : ''}`}
         onClick={() => column.editable && handleCellEdit(rowIndex, column.key, value)}
       >
         {displayValue}
+        {column.renderExtra?.(row)}
         {column.editable && (
-          <span className="ml-2 text-[#9cabba] text-xs opacity-0 group-hover:opacity-100">
+          <span className="ml-2 text-muted-foreground text-xs opacity-0 group-hover:opacity-100">
             Click to edit
           </span>
         )}
       </div>
     );
-  }, [editingCell, editValue, savingCell, onRowAction, handleCellEdit, handleCellSave, handleCellCancel]);
+  }, [editingCell, editValue, savingCell, onRowAction, getRowHref, handleCellEdit, handleCellSave, handleCellCancel]);
 
-  const sortedData = onSort ? data : [...data].sort((a, b) => {
-    if (!sortColumn) return 0;
-    
-    const aValue = (a as Record<string, unknown>)[sortColumn];
-    const bValue = (b as Record<string, unknown>)[sortColumn];
-    
-    if (typeof aValue === 'string' && typeof bValue === 'string') {
-      return sortDirection === 'asc' 
-        ? aValue.localeCompare(bValue)
-        : bValue.localeCompare(aValue);
-    } else if (typeof aValue === 'number' && typeof bValue === 'number') {
-      return sortDirection === 'asc' ? aValue - bValue : bValue - aValue;
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(maxHeight);
+  const [activeRow, setActiveRow] = useState<number | null>(null);
+  const isVirtualized = virtualized ?? (data.length > VIRTUALIZE_THRESHOLD || !!onLoadMore);
+
+  const maybeLoadMore = useCallback((element: HTMLDivElement) => {
+    if (!onLoadMore || !hasMore || loadingMore) return;
+    const remaining = element.scrollHeight - element.scrollTop - element.clientHeight;
+    if (remaining < ROW_HEIGHT * LOAD_MORE_THRESHOLD_ROWS) {
+      onLoadMore();
     }
-    
-    return 0;
-  });
+  }, [onLoadMore, hasMore, loadingMore]);
+
+  const handleScroll = useCallback((event: ReactUIEvent<HTMLDivElement>) => {
+    const element = event.currentTarget;
+    setScrollTop(element.scrollTop);
+    setViewportHeight(element.clientHeight);
+    maybeLoadMore(element);
+  }, [maybeLoadMore]);
+
+  // A short first page may not fill the viewport, in which case no scroll event will ever ask for more
+  useEffect(() => {
+    if (scrollRef.current) maybeLoadMore(scrollRef.current);
+  }, [data.length, maybeLoadMore]);
+
+  const scrollRowIntoView = useCallback((rowIndex: number) => {
+    const element = scrollRef.current;
+    if (!element || !isVirtualized) return;
+
+    const headerHeight = element.querySelector('thead')?.clientHeight ?? 0;
+    const rowTop = rowIndex * ROW_HEIGHT;
+    if (rowTop < element.scrollTop) {
+      element.scrollTop = rowTop;
+    } else if (rowTop + ROW_HEIGHT > element.scrollTop + element.clientHeight - headerHeight) {
+      element.scrollTop = rowTop + ROW_HEIGHT - element.clientHeight + headerHeight;
+    }
+  }, [isVirtualized]);
+
+  // Arrow keys move between rows without needing every row in the DOM to tab through
+  const handleKeyDown = useCallback((event: ReactKeyboardEvent<HTMLDivElement>) => {
+    if (event.target !== event.currentTarget || data.length === 0) return;
+
+    const pageSize = Math.max(1, Math.floor(viewportHeight / ROW_HEIGHT) - 1);
+    const current = activeRow ?? -1;
+    let next: number | null = null;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        next = Math.min(data.length - 1, current + 1);
+        break;
+      case 'ArrowUp':
+        next = Math.max(0, current - 1);
+        break;
+      case 'PageDown':
+        next = Math.min(data.length - 1, current + pageSize);
+        break;
+      case 'PageUp':
+        next = Math.max(0, current - pageSize);
+        break;
+      case 'Home':
+        next = 0;
+        break;
+      case 'End':
+        next = data.length - 1;
+        break;
+      case ' ':
+        if (selectable && activeRow !== null && sortedData[activeRow]) {
+          event.preventDefault();
+          handleRowSelect(getRowId(sortedData[activeRow]));
+        }
+        return;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    setActiveRow(next);
+    scrollRowIntoView(next);
+  }, [data.length, viewportHeight, activeRow, selectable, sortedData, getRowId, handleRowSelect, scrollRowIntoView]);
+
+  const visibleRange = isVirtualized
+    ? getVisibleRange(scrollTop, viewportHeight, sortedData.length)
+    : { start: 0, end: sortedData.length };
 
   if (loading) {
     return (
       <div className="px-4 py-3">
         <div className="flex items-center justify-center h-64">
-          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#0d80f2]"></div>
-          <span className="ml-3 text-[#9cabba]">Loading...</span>
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          <span className="ml-3 text-muted-foreground">Loading...</span>
         </div>
       </div>
     );
@@ -274,7 +498,7 @@ export default function DataTable<T = Record<string, unknown>>({
             />
           </div>
           {searchValue && (
-            <div className="flex items-center gap-2 text-sm text-[#9cabba]">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <span>Searching for: "{searchValue}"</span>
               <Button
                 variant="outline"
@@ -287,42 +511,113 @@ export default function DataTable<T = Record<string, unknown>>({
           )}
         </div>
       )}
+
+      {customizableColumns && (
+        <div className="mb-2 flex justify-end">
+          <ColumnChooser
+            columns={columns}
+            layout={layout}
+            isCustomized={tableLayout.isCustomized}
+            onToggle={tableLayout.actions.toggleColumn}
+            onMove={tableLayout.actions.reorderColumn}
+            onPin={tableLayout.actions.pinColumn}
+            onReset={tableLayout.actions.resetLayout}
+          />
+        </div>
+      )}
       
-      <div className="flex overflow-hidden rounded-lg border border-[#3b4754] bg-[#111418]">
-        <table className="flex-1">
+      <div
+        ref={scrollRef}
+        className={`flex ${
+          isVirtualized ? 'overflow-auto' : customizableColumns ? 'overflow-x-auto' : 'overflow-hidden'
+        } rounded-lg border border-border bg-background focus:outline-none focus-visible:ring-1 focus-visible:ring-primary`}
+        style={isVirtualized ? { maxHeight } : undefined}
+        onScroll={isVirtualized ? handleScroll : undefined}
+        onKeyDown={handleKeyDown}
+        tabIndex={0}
+        aria-label="Table rows, use the arrow keys to move between rows"
+      >
+        <table className="flex-1 self-start">
           <thead>
-            <tr className="bg-[#1b2127]">
+            <tr className="bg-surface">
               {selectable && (
-                <th className="px-4 py-3 w-12">
+                <th
+                  className={`px-4 py-3 w-12 ${hasLeftPins || isVirtualized ? 'bg-surface' : ''}`}
+                  style={hasLeftPins || isVirtualized ? {
+                    position: 'sticky',
+                    left: hasLeftPins ? 0 : undefined,
+                    top: isVirtualized ? 0 : undefined,
+                    zIndex: 30,
+                  } : undefined}
+                >
                   <input
                     type="checkbox"
-                    checked={selectedRows.length === data.length && data.length > 0}
+                    checked={allLoadedSelected}
+                    ref={(input) => {
+                      if (input) input.indeterminate = selectedOnPage > 0 && !allLoadedSelected;
+                    }}
                     onChange={handleSelectAll}
-                    className="h-4 w-4 rounded border-[#3b4754] border-2 bg-transparent text-[#0d80f2] checked:bg-[#0d80f2] checked:border-[#0d80f2]"
+                    aria-label="Select all loaded rows"
+                    className="h-4 w-4 rounded border-border border-2 bg-transparent text-primary checked:bg-primary checked:border-primary"
                   />
                 </th>
               )}
-              {columns.map((column) => (
+              {visibleColumns.map((column) => (
                 <th
                   key={column.key}
-                  className={`px-4 py-3 text-left text-white text-sm font-medium leading-normal ${
+                  className={`px-4 py-3 text-left text-foreground text-sm font-medium leading-normal ${
                     column.width || 'w-auto'
                   } ${
-                    column.sortable ? 'cursor-pointer hover:bg-[#283039]' : ''
+                    column.sortable ? 'cursor-pointer hover:bg-surface-raised' : ''
+                  } ${
+                    customizableColumns || isVirtualized ? 'bg-surface' : ''
+                  } ${
+                    customizableColumns ? 'relative select-none' : ''
+                  } ${
+                    draggedColumn === column.key ? 'opacity-50' : ''
                   }`}
+                  style={getHeaderStyle(column)}
                   onClick={() => column.sortable && handleSort(column.key)}
+                  draggable={customizableColumns && !resizing}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggedColumn(column.key);
+                  }}
+                  onDragOver={(e) => {
+                    if (draggedColumn) e.preventDefault();
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleColumnDrop(column.key);
+                  }}
+                  onDragEnd={() => setDraggedColumn(null)}
                 >
                   <div className="flex items-center gap-2">
                     {column.label}
                     {column.sortable && sortColumn === column.key && (
-                      <span className="text-[#0d80f2]">
+                      <span className="text-primary">
                         {sortDirection === 'asc' ? '↑' : '↓'}
                       </span>
                     )}
                     {column.editable && (
-                      <span className="text-[#9cabba] text-xs">✎</span>
+                      <span className="text-muted-foreground text-xs">✎</span>
                     )}
                   </div>
+                  {customizableColumns && (
+                    <div
+                      role="separator"
+                      aria-orientation="vertical"
+                      aria-label={`Resize ${column.label}`}
+                      className={`absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-primary/40 ${
+                        resizing?.key === column.key ? 'bg-primary/60' : ''
+                      }`}
+                      onPointerDown={(e) => handleResizeStart(e, column)}
+                      onPointerMove={handleResizeMove}
+                      onPointerUp={handleResizeEnd}
+                      onPointerCancel={handleResizeEnd}
+                      onClick={(e) => e.stopPropagation()}
+                    />
+                  )}
                 </th>
               ))}
             </tr>
@@ -331,66 +626,102 @@ export default function DataTable<T = Record<string, unknown>>({
             {sortedData.length === 0 ? (
               <tr>
                 <td 
-                  colSpan={columns.length + (selectable ? 1 : 0)} 
-                  className="h-32 text-center text-[#9cabba]"
+                  colSpan={visibleColumns.length + (selectable ? 1 : 0)} 
+                  className="h-32 text-center text-muted-foreground"
                 >
                   No data available
                 </td>
               </tr>
             ) : (
-              sortedData.map((row, index) => (
-                <tr key={index} className="border-t border-t-[#3b4754] group hover:bg-[#1b2127]">
-                  {selectable && (
-                    <td className="px-4 py-2 w-12">
-                      <input
-                        type="checkbox"
-                        checked={selectedRows.includes(index)}
-                        onChange={() => handleRowSelect(index)}
-                        className="h-4 w-4 rounded border-[#3b4754] border-2 bg-transparent text-[#0d80f2] checked:bg-[#0d80f2] checked:border-[#0d80f2]"
-                      />
-                    </td>
-                  )}
-                  {columns.map((column) => (
-                    <td
-                      key={column.key}
-                      className={`h-[72px] px-4 py-2 text-sm font-normal leading-normal ${
-                        column.width || 'w-auto'
-                      } ${
-                        column.key === 'actions' 
-                          ? 'text-[#0d80f2] font-bold tracking-[0.015em]' 
-                          : 'text-[#9cabba]'
+              <>
+                {visibleRange.start > 0 && (
+                  <tr aria-hidden="true" style={{ height: visibleRange.start * ROW_HEIGHT }} />
+                )}
+                {sortedData.slice(visibleRange.start, visibleRange.end).map((row, offset) => {
+                  const index = visibleRange.start + offset;
+                  const rowId = getRowId(row);
+                  return (
+                    <tr
+                      key={index}
+                      className={`border-t border-t-border group hover:bg-surface ${
+                        activeRow === index ? 'bg-surface ring-1 ring-inset ring-primary' : ''
                       }`}
+                      onClick={() => setActiveRow(index)}
                     >
-                      {renderCell(row, column, index)}
+                      {selectable && (
+                        <td className={`px-4 py-2 w-12 ${hasLeftPins ? 'sticky left-0 z-10 bg-background group-hover:bg-surface' : ''}`}>
+                          <input
+                            type="checkbox"
+                            checked={isRowSelected(selection, rowId)}
+                            onChange={() => handleRowSelect(rowId)}
+                            className="h-4 w-4 rounded border-border border-2 bg-transparent text-primary checked:bg-primary checked:border-primary"
+                          />
+                        </td>
+                      )}
+                      {visibleColumns.map((column) => (
+                        <td
+                          key={column.key}
+                          className={`h-[72px] px-4 py-2 text-sm font-normal leading-normal ${
+                            column.width || 'w-auto'
+                          } ${
+                            column.key === 'actions' 
+                              ? 'text-primary font-bold tracking-[0.015em]' 
+                              : 'text-muted-foreground'
+                          } ${
+                            pinnedOffsets[column.key] ? 'bg-background group-hover:bg-surface' : ''
+                          }`}
+                          style={getColumnStyle(column)}
+                        >
+                          {renderCell(row, column, index)}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+                {visibleRange.end < sortedData.length && (
+                  <tr aria-hidden="true" style={{ height: (sortedData.length - visibleRange.end) * ROW_HEIGHT }} />
+                )}
+                {loadingMore && (
+                  <tr>
+                    <td colSpan={visibleColumns.length + (selectable ? 1 : 0)} className="py-4 text-center text-muted-foreground text-sm">
+                      Loading more...
                     </td>
-                  ))}
-                </tr>
-              ))
+                  </tr>
+                )}
+              </>
             )}
           </tbody>
         </table>
       </div>
       
+      {onLoadMore && !pagination && (
+        <div className="mt-4 text-muted-foreground text-sm">
+          {data.length} row{data.length !== 1 ? 's' : ''} loaded{hasMore ? ', scroll down to load more' : ''}
+        </div>
+      )}
+
       {pagination && (
         <div className="flex justify-between items-center mt-4">
           <div className="flex items-center gap-4">
-            <div className="text-[#9cabba] text-sm">
+            <div className="text-muted-foreground text-sm">
               Showing {((pagination.currentPage - 1) * pagination.perPage) + 1} to{' '}
               {Math.min(pagination.currentPage * pagination.perPage, pagination.total)} of{' '}
               {pagination.total} entries
             </div>
             {pagination.onPerPageChange && (
               <div className="flex items-center gap-2">
-                <span className="text-[#9cabba] text-sm">Show:</span>
+                <span className="text-muted-foreground text-sm">Show:</span>
                 <select
                   value={pagination.perPage}
                   onChange={(e) => pagination.onPerPageChange?.(Number(e.target.value))}
-                  className="bg-[#283039] text-white rounded px-2 py-1 text-sm border-none focus:outline-none focus:ring-1 focus:ring-[#0d80f2]"
+                  className="bg-surface-raised text-foreground rounded px-2 py-1 text-sm border-none focus:outline-none focus:ring-1 focus:ring-primary"
                 >
                   <option value={10}>10</option>
                   <option value={20}>20</option>
                   <option value={50}>50</option>
                   <option value={100}>100</option>
+                  <option value={250}>250</option>
+                  <option value={500}>500</option>
                 </select>
               </div>
             )}
@@ -435,20 +766,46 @@ export default function DataTable<T = Record<string, unknown>>({
         </div>
       )}
       
-      {selectable && selectedRows.length > 0 && (
-        <div className="mt-4 p-3 bg-[#0d80f2]/10 border border-[#0d80f2]/20 rounded-lg">
-          <div className="flex items-center justify-between">
-            <span className="text-white text-sm">
-              {selectedRows.length} row{selectedRows.length !== 1 ? 's' : ''} selected
-            </span>
+      {selectable && selectedCount > 0 && (
+        <div className="mt-4 p-3 bg-primary/10 border border-primary/20 rounded-lg">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {selection.mode === 'all' ? (
+                <span className="text-foreground">
+                  All {selectedCount} row{selectedCount !== 1 ? 's' : ''} matching this filter selected
+                  {selection.excludedIds.length > 0 && ` (${selection.excludedIds.length} excluded)`}
+                </span>
+              ) : (
+                <span className="text-foreground">
+                  {selectedCount} row{selectedCount !== 1 ? 's' : ''} selected
+                  {selectedCount > selectedOnPage && ` (${selectedCount - selectedOnPage} not shown)`}
+                </span>
+              )}
+              {selection.mode === 'ids' && allLoadedSelected && matchingCount > loadedRowIds.length && (
+                <button
+                  type="button"
+                  onClick={() => onSelectionChange?.({ mode: 'all', excludedIds: [] })}
+                  className="text-primary hover:underline"
+                >
+                  Select all {matchingCount} matching this filter
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => onSelectionChange?.(EMPTY_SELECTION)}
+                className="text-muted-foreground hover:text-foreground hover:underline"
+              >
+                Clear selection
+              </button>
+            </div>
             <div className="flex gap-2">
-              <Button size="sm" onClick={() => onRowAction?.('bulk-edit', selectedRows as any, -1)}>
+              <Button size="sm" onClick={() => onRowAction?.('bulk-edit', selection as unknown as T, -1)}>
                 Bulk Edit
               </Button>
               <Button 
                 variant="outline" 
                 size="sm" 
-                onClick={() => onRowAction?.('bulk-delete', selectedRows as any, -1)}
+                onClick={() => onRowAction?.('bulk-delete', selection as unknown as T, -1)}
                 className="text-red-400 border-red-400 hover:bg-red-400 hover:text-white"
               >
                 Delete Selected
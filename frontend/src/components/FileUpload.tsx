@@ -13,6 +13,8 @@ interface FileUploadProps {
   selectedFile?: File | null;
   onRemoveFile?: () => void;
   onRetry?: () => void;
+  prompt?: string;
+  formatsHint?: string;
 }
 
 export default function FileUpload({ 
@@ -24,7 +26,9 @@ export default function FileUpload({
   error,
   selectedFile,
   onRemoveFile,
-  onRetry
+  onRetry,
+  prompt = 'Drag and drop your salary documents here',
+  formatsHint = 'Supported formats: PDF, DOC, DOCX, XLS, XLSX'
 }: FileUploadProps) {
   const [isDragOver, setIsDragOver] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -92,16 +96,16 @@ export default function FileUpload({
       {selectedFile ? (
         <div className="flex flex-col gap-4">
           {/* Selected File Display */}
-          <div className="flex items-center justify-between p-4 bg-[#283039] rounded-lg">
+          <div className="flex items-center justify-between p-4 bg-surface-raised rounded-lg">
             <div className="flex items-center gap-3">
-              <div className="w-10 h-10 bg-[#0d80f2] rounded-lg flex items-center justify-center">
-                <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <div className="w-10 h-10 bg-primary rounded-lg flex items-center justify-center">
+                <svg className="w-5 h-5 text-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                 </svg>
               </div>
               <div>
-                <p className="text-white text-sm font-medium">{selectedFile.name}</p>
-                <p className="text-[#9cabba] text-xs">{formatFileSize(selectedFile.size)}</p>
+                <p className="text-foreground text-sm font-medium">{selectedFile.name}</p>
+                <p className="text-muted-foreground text-xs">{formatFileSize(selectedFile.size)}</p>
               </div>
             </div>
             
@@ -120,12 +124,12 @@ export default function FileUpload({
           {isUploading && (
             <div className="flex flex-col gap-2">
               <div className="flex justify-between text-sm">
-                <span className="text-white">Uploading...</span>
-                <span className="text-[#9cabba]">{Math.round(progress)}%</span>
+                <span className="text-foreground">Uploading...</span>
+                <span className="text-muted-foreground">{Math.round(progress)}%</span>
               </div>
-              <div className="w-full bg-[#3b4754] rounded-full h-2">
+              <div className="w-full bg-border rounded-full h-2">
                 <div 
-                  className="bg-[#0d80f2] h-2 rounded-full transition-all duration-300 ease-out"
+                  className="bg-primary h-2 rounded-full transition-all duration-300 ease-out"
                   style={{ width: `${progress}%` }}
                 />
               </div>
@@ -158,8 +162,8 @@ export default function FileUpload({
         <div 
           className={`flex flex-col items-center gap-6 rounded-lg border-2 border-dashed px-6 py-14 transition-colors ${
             isDragOver 
-              ? 'border-[#0d80f2] bg-[#0d80f2]/10' 
-              : 'border-[#3b4754]'
+              ? 'border-primary bg-primary/10' 
+              : 'border-border'
           } ${isUploading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
           onDragOver={handleDragOver}
           onDragLeave={handleDragLeave}
@@ -167,17 +171,17 @@ export default function FileUpload({
           onClick={handleBrowseClick}
         >
           <div className="flex max-w-[480px] flex-col items-center gap-2">
-            <svg className="w-12 h-12 text-[#9cabba] mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <svg className="w-12 h-12 text-muted-foreground mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
             </svg>
-            <p className="text-white text-lg font-bold leading-tight tracking-[-0.015em] max-w-[480px] text-center">
-              Drag and drop your salary documents here
+            <p className="text-foreground text-lg font-bold leading-tight tracking-[-0.015em] max-w-[480px] text-center">
+              {prompt}
             </p>
-            <p className="text-[#9cabba] text-sm font-normal leading-normal max-w-[480px] text-center">
+            <p className="text-muted-foreground text-sm font-normal leading-normal max-w-[480px] text-center">
               Or click to browse • Max {Math.round(maxSize / 1024 / 1024)}MB
             </p>
-            <p className="text-[#9cabba] text-xs font-normal leading-normal max-w-[480px] text-center">
-              Supported formats: PDF, DOC, DOCX, XLS, XLSX
+            <p className="text-muted-foreground text-xs font-normal leading-normal max-w-[480px] text-center">
+              {formatsHint}
             </p>
           </div>
           
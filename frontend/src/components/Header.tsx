@@ -1,7 +1,8 @@
 'use client';
 
 import Link from 'next/link';
-import { usePathname } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
+import { useAuthContext } from './AuthProvider';
 
 interface HeaderProps {
   brandName?: string;
@@ -17,16 +18,23 @@ export default function Header({
   showUserProfile = false 
 }: HeaderProps) {
   const pathname = usePathname();
+  const router = useRouter();
+  const auth = useAuthContext();
+
+  const handleLogout = async () => {
+    await auth.logout();
+    router.push('/login');
+  };
 
   return (
-    <header className="flex items-center justify-between whitespace-nowrap border-b border-solid border-b-[#283039] px-10 py-3">
-      <div className="flex items-center gap-4 text-white">
+    <header className="flex items-center justify-between whitespace-nowrap border-b border-solid border-b-surface-raised px-10 py-3">
+      <div className="flex items-center gap-4 text-foreground">
         <div className="size-4">
           <svg viewBox="0 0 48 48" fill="none" xmlns="http://www.w3.org/2000/svg">
             <path d="M4 4H17.3334V17.3334H30.6666V30.6666H44V44H4V4Z" fill="currentColor" />
           </svg>
         </div>
-        <h2 className="text-white text-lg font-bold leading-tight tracking-[-0.015em]">
+        <h2 className="text-foreground text-lg font-bold leading-tight tracking-[-0.015em]">
           {brandName}
         </h2>
       </div>
@@ -39,7 +47,7 @@ export default function Header({
                 key={item.href}
                 href={item.href}
                 className={`text-sm font-medium leading-normal ${
-                  pathname === item.href ? 'text-[#0d80f2]' : 'text-white'
+                  pathname === item.href ? 'text-primary' : 'text-foreground'
                 }`}
               >
                 {item.label}
@@ -52,19 +60,29 @@ export default function Header({
           <div className="flex gap-2">
             <Link
               href="/login"
-              className="flex min-w-[84px] max-w-[480px] cursor-pointer items-center justify-center overflow-hidden rounded-lg h-10 px-4 bg-[#0d80f2] text-white text-sm font-bold leading-normal tracking-[0.015em]"
+              className="flex min-w-[84px] max-w-[480px] cursor-pointer items-center justify-center overflow-hidden rounded-lg h-10 px-4 bg-primary text-primary-foreground text-sm font-bold leading-normal tracking-[0.015em]"
             >
               <span className="truncate">Login</span>
             </Link>
             <Link
               href="/register"
-              className="flex min-w-[84px] max-w-[480px] cursor-pointer items-center justify-center overflow-hidden rounded-lg h-10 px-4 bg-[#283039] text-white text-sm font-bold leading-normal tracking-[0.015em]"
+              className="flex min-w-[84px] max-w-[480px] cursor-pointer items-center justify-center overflow-hidden rounded-lg h-10 px-4 bg-surface-raised text-foreground text-sm font-bold leading-normal tracking-[0.015em]"
             >
               <span className="truncate">Sign Up</span>
             </Link>
           </div>
         )}
         
+        {showUserProfile && auth.isAuthenticated && (
+          <button
+            onClick={handleLogout}
+            className="flex min-w-[84px] max-w-[480px] cursor-pointer items-center justify-center overflow-hidden rounded-lg h-10 px-4 bg-surface-raised text-foreground text-sm font-bold leading-normal tracking-[0.015em]"
+            title={auth.user?.email}
+          >
+            <span className="truncate">Log out</span>
+          </button>
+        )}
+
         {showUserProfile && (
           <div
             className="bg-center bg-no-repeat aspect-square bg-cover rounded-full size-10"
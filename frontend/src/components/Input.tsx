@@ -21,11 +21,11 @@ const Input = forwardRef<HTMLInputElement, InputProps>(({
   className = '', 
   ...props 
 }, ref) => {
-  const baseClasses = 'flex w-full min-w-0 flex-1 resize-none overflow-hidden rounded-lg text-white focus:outline-0 focus:ring-0 border-none bg-[#283039] focus:border-none h-14 placeholder:text-[#9cabba] p-4 text-base font-normal leading-normal';
+  const baseClasses = 'flex w-full min-w-0 flex-1 resize-none overflow-hidden rounded-lg text-foreground focus:outline-0 focus:ring-0 border-none bg-surface-raised focus:border-none h-14 placeholder:text-muted-foreground p-4 text-base font-normal leading-normal';
   
   const variants = {
     default: baseClasses,
-    search: 'flex w-full min-w-0 flex-1 resize-none overflow-hidden rounded-lg text-white focus:outline-0 focus:ring-0 border-none bg-[#283039] focus:border-none h-10 placeholder:text-[#9cabba] px-4 text-base font-normal leading-normal'
+    search: 'flex w-full min-w-0 flex-1 resize-none overflow-hidden rounded-lg text-foreground focus:outline-0 focus:ring-0 border-none bg-surface-raised focus:border-none h-10 placeholder:text-muted-foreground px-4 text-base font-normal leading-normal'
   };
   
   let borderColor = '';
@@ -38,7 +38,7 @@ const Input = forwardRef<HTMLInputElement, InputProps>(({
   return (
     <div className="flex flex-col min-w-40 flex-1">
       {label && (
-        <p className="text-white text-base font-medium leading-normal pb-2">
+        <p className="text-foreground text-base font-medium leading-normal pb-2">
           {label}
         </p>
       )}
@@ -52,7 +52,7 @@ const Input = forwardRef<HTMLInputElement, InputProps>(({
         {/* Loading spinner */}
         {isLoading && (
           <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
-            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-[#0d80f2]"></div>
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary"></div>
           </div>
         )}
         
@@ -87,7 +87,7 @@ const Input = forwardRef<HTMLInputElement, InputProps>(({
       
       {/* Helper text */}
       {!hasError && !success && helperText && (
-        <p className="text-[#9cabba] text-sm mt-1">{helperText}</p>
+        <p className="text-muted-foreground text-sm mt-1">{helperText}</p>
       )}
     </div>
   );
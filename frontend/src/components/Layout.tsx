@@ -19,7 +19,7 @@ export default function Layout({
   showUserProfile 
 }: LayoutProps) {
   return (
-    <div className="relative flex size-full min-h-screen flex-col bg-[#111418] dark group/design-root overflow-x-hidden">
+    <div className="relative flex size-full min-h-screen flex-col bg-background group/design-root overflow-x-hidden">
       <div className="layout-container flex h-full grow flex-col">
         <Header
           brandName={brandName}
@@ -6,8 +6,8 @@ import { PerformanceOptimizer } from '@/lib/performance';
 // Loading component
 const LoadingSpinner = () => (
   <div className="flex items-center justify-center p-8">
-    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-    <span className="ml-2 text-gray-600">Loading...</span>
+    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+    <span className="ml-2 text-muted-foreground">Loading...</span>
   </div>
 );
 
@@ -212,7 +212,7 @@ export function LazySection({
 
   return (
     <div ref={sectionRef} className={className}>
-      {isVisible ? children : <div className="h-32 bg-gray-100 animate-pulse rounded" />}
+      {isVisible ? children : <div className="h-32 bg-surface-raised animate-pulse rounded" />}
     </div>
   );
 }
@@ -66,15 +66,15 @@ export default function Modal({
     >
       <div
         ref={modalRef}
-        className={`w-full ${sizeClasses[size]} bg-[#111418] rounded-lg shadow-xl border border-[#3b4754] max-h-[90vh] overflow-hidden flex flex-col`}
+        className={`w-full ${sizeClasses[size]} bg-background rounded-lg shadow-xl border border-border max-h-[90vh] overflow-hidden flex flex-col`}
       >
         {/* Header */}
-        <div className="flex items-center justify-between p-6 border-b border-[#3b4754]">
-          <h2 className="text-white text-xl font-bold">{title}</h2>
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <h2 className="text-foreground text-xl font-bold">{title}</h2>
           {showCloseButton && (
             <button
               onClick={onClose}
-              className="text-[#9cabba] hover:text-white transition-colors"
+              className="text-muted-foreground hover:text-foreground transition-colors"
             >
               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -90,7 +90,7 @@ export default function Modal({
 
         {/* Actions */}
         {actions && (
-          <div className="flex items-center justify-end gap-3 p-6 border-t border-[#3b4754]">
+          <div className="flex items-center justify-end gap-3 p-6 border-t border-border">
             {actions}
           </div>
         )}
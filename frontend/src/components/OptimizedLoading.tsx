@@ -6,11 +6,11 @@ import { useEffect, useState } from 'react';
 export function TableSkeleton({ rows = 5, columns = 6 }: { rows?: number; columns?: number }) {
   return (
     <div className="animate-pulse">
-      <div className="h-12 bg-gray-200 rounded mb-4"></div>
+      <div className="h-12 bg-surface-raised rounded mb-4"></div>
       {Array.from({ length: rows }).map((_, i) => (
         <div key={i} className="flex space-x-4 mb-3">
           {Array.from({ length: columns }).map((_, j) => (
-            <div key={j} className="h-8 bg-gray-200 rounded flex-1"></div>
+            <div key={j} className="h-8 bg-surface-raised rounded flex-1"></div>
           ))}
         </div>
       ))}
@@ -23,10 +23,10 @@ export function CardSkeleton({ count = 3 }: { count?: number }) {
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
       {Array.from({ length: count }).map((_, i) => (
         <div key={i} className="animate-pulse">
-          <div className="bg-gray-200 rounded-lg p-6">
-            <div className="h-4 bg-gray-300 rounded w-3/4 mb-2"></div>
-            <div className="h-3 bg-gray-300 rounded w-1/2 mb-4"></div>
-            <div className="h-8 bg-gray-300 rounded"></div>
+          <div className="bg-surface-raised rounded-lg p-6">
+            <div className="h-4 bg-border rounded w-3/4 mb-2"></div>
+            <div className="h-3 bg-border rounded w-1/2 mb-4"></div>
+            <div className="h-8 bg-border rounded"></div>
           </div>
         </div>
       ))}
@@ -37,13 +37,13 @@ export function CardSkeleton({ count = 3 }: { count?: number }) {
 export function FormSkeleton() {
   return (
     <div className="animate-pulse space-y-4">
-      <div className="h-4 bg-gray-200 rounded w-1/4"></div>
-      <div className="h-10 bg-gray-200 rounded"></div>
-      <div className="h-4 bg-gray-200 rounded w-1/4"></div>
-      <div className="h-10 bg-gray-200 rounded"></div>
-      <div className="h-4 bg-gray-200 rounded w-1/4"></div>
-      <div className="h-20 bg-gray-200 rounded"></div>
-      <div className="h-10 bg-gray-200 rounded w-32"></div>
+      <div className="h-4 bg-surface-raised rounded w-1/4"></div>
+      <div className="h-10 bg-surface-raised rounded"></div>
+      <div className="h-4 bg-surface-raised rounded w-1/4"></div>
+      <div className="h-10 bg-surface-raised rounded"></div>
+      <div className="h-4 bg-surface-raised rounded w-1/4"></div>
+      <div className="h-20 bg-surface-raised rounded"></div>
+      <div className="h-10 bg-surface-raised rounded w-32"></div>
     </div>
   );
 }
@@ -98,8 +98,8 @@ export function OptimizedImage({
 
   if (error) {
     return (
-      <div className={`bg-gray-200 flex items-center justify-center ${className}`}>
-        <span className="text-gray-500 text-sm">Failed to load image</span>
+      <div className={`bg-surface-raised flex items-center justify-center ${className}`}>
+        <span className="text-muted-foreground text-sm">Failed to load image</span>
       </div>
     );
   }
@@ -120,7 +120,7 @@ export function OptimizedImage({
       />
       {!isLoaded && (
         <div
-          className="absolute inset-0 bg-gray-200"
+          className="absolute inset-0 bg-surface-raised"
           style={{
             backgroundImage: `url(${blurDataURL || defaultBlurDataURL})`,
             backgroundSize: 'cover',
@@ -140,7 +140,7 @@ export const LoadingStates = {
   Form: () => <FormSkeleton />,
   Button: () => (
     <div className="animate-pulse">
-      <div className="h-10 bg-gray-200 rounded w-24"></div>
+      <div className="h-10 bg-surface-raised rounded w-24"></div>
     </div>
   ),
   Text: ({ lines = 3 }: { lines?: number }) => (
@@ -148,7 +148,7 @@ export const LoadingStates = {
       {Array.from({ length: lines }).map((_, i) => (
         <div
           key={i}
-          className={`h-4 bg-gray-200 rounded ${
+          className={`h-4 bg-surface-raised rounded ${
             i === lines - 1 ? 'w-3/4' : 'w-full'
           }`}
         ></div>
@@ -158,13 +158,13 @@ export const LoadingStates = {
   Dashboard: () => (
     <div className="space-y-6">
       <div className="animate-pulse">
-        <div className="h-8 bg-gray-200 rounded w-1/3 mb-4"></div>
+        <div className="h-8 bg-surface-raised rounded w-1/3 mb-4"></div>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
           {Array.from({ length: 3 }).map((_, i) => (
-            <div key={i} className="h-24 bg-gray-200 rounded"></div>
+            <div key={i} className="h-24 bg-surface-raised rounded"></div>
           ))}
         </div>
-        <div className="h-64 bg-gray-200 rounded"></div>
+        <div className="h-64 bg-surface-raised rounded"></div>
       </div>
     </div>
   ),
@@ -63,7 +63,7 @@ export function PerformanceDashboard() {
     return (
       <button
         onClick={() => setIsVisible(true)}
-        className="fixed bottom-4 left-4 bg-blue-600 text-white p-2 rounded-full shadow-lg hover:bg-blue-700 transition-colors z-50"
+        className="fixed bottom-4 left-4 bg-primary text-primary-foreground p-2 rounded-full shadow-lg hover:bg-primary-hover transition-colors z-50"
         title="Show Performance Dashboard"
       >
         📊
@@ -78,12 +78,12 @@ export function PerformanceDashboard() {
   };
 
   return (
-    <div className="fixed bottom-4 left-4 bg-gray-900 border border-gray-700 rounded-lg p-4 text-white text-xs font-mono max-w-sm z-50 shadow-xl">
+    <div className="fixed bottom-4 left-4 bg-surface border border-border rounded-lg p-4 text-foreground text-xs font-mono max-w-sm z-50 shadow-xl">
       <div className="flex justify-between items-center mb-3">
         <h3 className="font-bold text-sm">Performance Dashboard</h3>
         <button
           onClick={() => setIsVisible(false)}
-          className="text-gray-400 hover:text-white"
+          className="text-muted-foreground hover:text-foreground"
         >
           ✕
         </button>
@@ -95,7 +95,7 @@ export function PerformanceDashboard() {
         <div className="space-y-3">
           {/* Web Vitals */}
           <div>
-            <h4 className="font-semibold mb-2 text-blue-400">Web Vitals</h4>
+            <h4 className="font-semibold mb-2 text-primary">Web Vitals</h4>
             <div className="grid grid-cols-2 gap-2 text-xs">
               {metrics.lcp !== null && (
                 <div className={getScoreColor(metrics.lcp || 0, { good: 2500, needs: 4000 })}>
@@ -138,7 +138,7 @@ export function PerformanceDashboard() {
           <div>
             <h4 className="font-semibold mb-2 text-purple-400">Score</h4>
             <div className="flex items-center gap-2">
-              <div className="flex-1 bg-gray-700 rounded-full h-2">
+              <div className="flex-1 bg-surface-raised rounded-full h-2">
                 <div 
                   className="bg-gradient-to-r from-red-500 via-yellow-500 to-green-500 h-2 rounded-full transition-all duration-300"
                   style={{ width: '75%' }}
@@ -149,7 +149,7 @@ export function PerformanceDashboard() {
           </div>
 
           {/* Actions */}
-          <div className="flex gap-2 pt-2 border-t border-gray-700">
+          <div className="flex gap-2 pt-2 border-t border-border">
             <Button
               size="sm"
               variant="outline"
@@ -169,7 +169,7 @@ export function PerformanceDashboard() {
           </div>
 
           {/* Tips */}
-          <div className="text-xs text-gray-400 pt-2 border-t border-gray-700">
+          <div className="text-xs text-muted-foreground pt-2 border-t border-border">
             <div className="font-semibold mb-1">Tips:</div>
             <ul className="space-y-1 text-xs">
               {(metrics.lcp || 0) > 2500 && (
@@ -3,7 +3,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { SWRConfig } from 'swr';
 import { performanceMonitor, PerformanceMetrics, usePerformanceMonitor } from '@/lib/performance';
-import { cacheConfig, CacheManager } from '@/lib/cache';
+import { cacheConfig, CacheManager, CACHE_KEYS } from '@/lib/cache';
 
 // Performance context
 interface PerformanceContextType {
@@ -106,7 +106,7 @@ export function PerformanceMonitor() {
   }
 
   return (
-    <div className="fixed bottom-4 right-4 bg-black bg-opacity-80 text-white p-3 rounded-lg text-xs font-mono z-50">
+    <div className="fixed bottom-4 right-4 bg-surface/90 border border-border text-foreground p-3 rounded-lg text-xs font-mono z-50">
       <div className="font-bold mb-2">Performance Metrics</div>
       {isLoading ? (
         <div>Loading metrics...</div>
@@ -150,8 +150,8 @@ export function CriticalResourcePreloader() {
   useEffect(() => {
     // Preload critical data on app start
     const criticalKeys = [
-      '/api/admin/dashboard',
-      '/api/users?limit=20',
+      CACHE_KEYS.ADMIN_DASHBOARD,
+      `${CACHE_KEYS.USERS}?per_page=20`,
     ];
     
     preloadData(criticalKeys).catch(console.error);
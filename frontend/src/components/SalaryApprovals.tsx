@@ -0,0 +1,222 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Button from '@/components/Button';
+import { ChangeRow } from '@/components/SalaryHistoryDiff';
+import { SalaryApprovalSettings, SalaryChangeRequest } from '@/lib/api/types';
+import { canReviewChangeRequest, diffChangeRequest } from '@/lib/approvals';
+import { formatPercentChange } from '@/lib/salaryHistory';
+
+/**
+ * Marks a table row whose salary change is waiting for a second admin
+ */
+export function PendingApprovalBadge({ request }: { request: SalaryChangeRequest | null }) {
+  if (!request) return null;
+
+  return (
+    <span
+      className="inline-flex items-center rounded-full bg-yellow-500/10 border border-yellow-500/20 px-2 py-0.5 text-xs font-medium text-yellow-400"
+      title={`${formatPercentChange(request.percent_change)} change requested by ${request.requested_by?.name ?? 'unknown'}`}
+    >
+      Pending approval
+    </span>
+  );
+}
+
+interface ApprovalSettingsFormProps {
+  settings: SalaryApprovalSettings;
+  saving: boolean;
+  onSave: (settings: SalaryApprovalSettings) => void;
+}
+
+function ApprovalSettingsForm({ settings, saving, onSave }: ApprovalSettingsFormProps) {
+  const [enabled, setEnabled] = useState(settings.enabled);
+  const [threshold, setThreshold] = useState(String(settings.threshold_percent));
+
+  useEffect(() => {
+    setEnabled(settings.enabled);
+    setThreshold(String(settings.threshold_percent));
+  }, [settings]);
+
+  const parsedThreshold = parseFloat(threshold);
+  const isValid = !isNaN(parsedThreshold) && parsedThreshold >= 0;
+  const isDirty = enabled !== settings.enabled || parsedThreshold !== settings.threshold_percent;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <label className="flex items-center gap-2 text-foreground">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          className="h-4 w-4 rounded border-border bg-transparent text-primary checked:bg-primary checked:border-primary focus:ring-0 focus:ring-offset-0"
+        />
+        Require approval above
+      </label>
+      <input
+        type="number"
+        min="0"
+        step="0.5"
+        value={threshold}
+        onChange={(e) => setThreshold(e.target.value)}
+        disabled={!enabled}
+        aria-label="Approval threshold in percent"
+        className="w-20 rounded-lg bg-surface-raised px-3 h-9 text-foreground border-none focus:outline-none focus:ring-1 focus:ring-primary disabled:opacity-50"
+      />
+      <span className="text-muted-foreground">% change</span>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onSave({ enabled, threshold_percent: parsedThreshold })}
+        disabled={!isValid || !isDirty || saving}
+      >
+        {saving ? 'Saving...' : 'Save'}
+      </Button>
+    </div>
+  );
+}
+
+interface ChangeRequestCardProps {
+  request: SalaryChangeRequest;
+  currentUserId: number | null;
+  reviewing: boolean;
+  onApprove: (requestId: number, reason: string) => Promise<unknown>;
+  onReject: (requestId: number, reason: string) => Promise<unknown>;
+}
+
+function ChangeRequestCard({ request, currentUserId, reviewing, onApprove, onReject }: ChangeRequestCardProps) {
+  const [reason, setReason] = useState('');
+  const canReview = canReviewChangeRequest(request, currentUserId);
+  const changes = diffChangeRequest(request);
+
+  const handleReview = async (decide: typeof onApprove) => {
+    try {
+      await decide(request.id, reason.trim());
+    } catch {
+      // The hook surfaces the error; keep the typed reason so the reviewer can retry
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 border-t border-t-border first:border-t-0 px-4 py-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <Link href={`/admin/users/${request.user_id}`} className="text-primary text-sm font-medium">
+            {request.user?.name || `User #${request.user_id}`}
+          </Link>
+          <span className={`text-xs font-medium ${request.percent_change >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+            {formatPercentChange(request.percent_change)}
+          </span>
+          <span className="text-muted-foreground text-sm">
+            requested by {request.requested_by?.name ?? 'unknown'}
+          </span>
+        </div>
+        <time className="text-muted-foreground text-xs" dateTime={request.created_at}>
+          {new Date(request.created_at).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+        </time>
+      </div>
+
+      <div className="flex flex-col">
+        {changes.map(change => (
+          <ChangeRow key={change.field} change={change} />
+        ))}
+      </div>
+
+      {request.request_reason && (
+        <p className="text-muted-foreground text-sm italic">&ldquo;{request.request_reason}&rdquo;</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder={canReview ? 'Reason for your decision' : 'Another admin has to review your own request'}
+          disabled={!canReview || reviewing}
+          className="min-w-60 flex-1 rounded-lg bg-surface-raised px-3 h-9 text-sm text-foreground placeholder:text-muted-foreground border-none focus:outline-none focus:ring-1 focus:ring-primary disabled:opacity-50"
+        />
+        <Button
+          size="sm"
+          onClick={() => handleReview(onApprove)}
+          disabled={!canReview || reviewing || !reason.trim()}
+        >
+          Approve
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => handleReview(onReject)}
+          disabled={!canReview || reviewing || !reason.trim()}
+          className="text-red-400 border-red-400 hover:bg-red-400 hover:text-white"
+        >
+          Reject
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface PendingApprovalsQueueProps {
+  requests: SalaryChangeRequest[];
+  settings: SalaryApprovalSettings;
+  currentUserId: number | null;
+  reviewingId: number | null;
+  savingSettings: boolean;
+  loading?: boolean;
+  onApprove: (requestId: number, reason: string) => Promise<unknown>;
+  onReject: (requestId: number, reason: string) => Promise<unknown>;
+  onUpdateSettings: (settings: SalaryApprovalSettings) => void;
+}
+
+/**
+ * Salary changes above the threshold, waiting for a second admin to approve or reject them
+ */
+export function PendingApprovalsQueue({
+  requests,
+  settings,
+  currentUserId,
+  reviewingId,
+  savingSettings,
+  loading = false,
+  onApprove,
+  onReject,
+  onUpdateSettings,
+}: PendingApprovalsQueueProps) {
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 pt-5">
+        <h2 className="text-foreground text-[22px] font-bold leading-tight tracking-[-0.015em]">
+          Pending Approvals
+          {requests.length > 0 && (
+            <span className="ml-2 rounded-full bg-yellow-500/10 px-2 py-0.5 align-middle text-sm font-medium text-yellow-400">
+              {requests.length}
+            </span>
+          )}
+        </h2>
+        <ApprovalSettingsForm settings={settings} saving={savingSettings} onSave={onUpdateSettings} />
+      </div>
+
+      <div className="px-4 pb-3">
+        <div className={`flex flex-col overflow-hidden rounded-lg border border-border bg-background ${loading ? 'opacity-60' : ''}`}>
+          {requests.length === 0 ? (
+            <p className="text-muted-foreground text-sm p-4">
+              {loading ? 'Loading change requests...' : 'No salary changes are waiting for approval.'}
+            </p>
+          ) : (
+            requests.map(request => (
+              <ChangeRequestCard
+                key={request.id}
+                request={request}
+                currentUserId={currentUserId}
+                reviewing={reviewingId === request.id}
+                onApprove={onApprove}
+                onReject={onReject}
+              />
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
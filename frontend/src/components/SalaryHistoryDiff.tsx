@@ -0,0 +1,105 @@
+'use client';
+
+import Link from 'next/link';
+import { SalaryHistory } from '@/lib/api/types';
+import {
+  SalaryFieldChange,
+  diffSalaryHistory,
+  formatMoney,
+  formatPercentChange,
+  getHistoryActor,
+  getHistoryActorId,
+} from '@/lib/salaryHistory';
+
+interface SalaryHistoryDiffProps {
+  record: SalaryHistory;
+  // Show which user the record belongs to (for admin-wide feeds)
+  showUser?: boolean;
+  fallbackCurrency?: string;
+}
+
+const ACTION_LABELS: Record<NonNullable<SalaryHistory['action']>, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+};
+
+function formatValue(change: SalaryFieldChange, value: SalaryFieldChange['oldValue']): string {
+  if (value === null) return '—';
+  if (typeof value === 'number' && change.currency) return formatMoney(value, change.currency);
+  // Dates are compared as YYYY-MM-DD, which parses as UTC midnight, so format them in UTC to keep the same day
+  if (change.kind === 'date') return new Date(value).toLocaleDateString(undefined, { dateStyle: 'medium', timeZone: 'UTC' });
+  return String(value);
+}
+
+export function ChangeRow({ change }: { change: SalaryFieldChange }) {
+  const isIncrease = change.delta !== null && change.delta > 0;
+  const isDecrease = change.delta !== null && change.delta < 0;
+
+  return (
+    <div className="grid grid-cols-[140px_1fr_auto] items-baseline gap-3 py-1">
+      <span className="text-muted-foreground text-sm">{change.label}</span>
+      <span className="text-sm">
+        <span className="text-muted-foreground line-through decoration-1">{formatValue(change, change.oldValue)}</span>
+        <span className="text-muted-foreground mx-2">→</span>
+        <span className="text-foreground font-medium">{formatValue(change, change.newValue)}</span>
+      </span>
+      {change.delta !== null && change.currency ? (
+        <span className={`text-xs font-medium ${isIncrease ? 'text-green-400' : isDecrease ? 'text-red-400' : 'text-muted-foreground'}`}>
+          {change.delta > 0 ? '+' : ''}{formatMoney(change.delta, change.currency)}
+          {change.percentChange !== null && ` (${formatPercentChange(change.percentChange)})`}
+        </span>
+      ) : (
+        <span />
+      )}
+    </div>
+  );
+}
+
+export default function SalaryHistoryDiff({ record, showUser = false, fallbackCurrency }: SalaryHistoryDiffProps) {
+  const changes = diffSalaryHistory(record, fallbackCurrency);
+  const actor = getHistoryActor(record);
+  const actorId = getHistoryActorId(record);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          {record.action && (
+            <span className="rounded-full bg-surface-raised px-2 py-0.5 text-xs font-medium text-foreground">
+              {ACTION_LABELS[record.action]}
+            </span>
+          )}
+          {showUser && (
+            <Link href={`/admin/users/${record.user_id}`} className="text-primary text-sm font-medium">
+              {record.user?.name || `User #${record.user_id}`}
+            </Link>
+          )}
+          <span className="text-muted-foreground text-sm">
+            by {actor ? actor.name : actorId !== null ? `User #${actorId}` : 'System'}
+          </span>
+        </div>
+        <time className="text-muted-foreground text-xs" dateTime={record.created_at}>
+          {new Date(record.created_at).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+        </time>
+      </div>
+
+      {record.change_reason && (
+        <p className="text-foreground text-sm">
+          <span className="text-muted-foreground">Reason: </span>
+          {record.change_reason}
+        </p>
+      )}
+
+      {changes.length > 0 ? (
+        <div className="rounded-lg bg-surface px-3 py-2">
+          {changes.map(change => (
+            <ChangeRow key={change.field} change={change} />
+          ))}
+        </div>
+      ) : (
+        <p className="text-muted-foreground text-sm">No field changes recorded.</p>
+      )}
+    </div>
+  );
+}
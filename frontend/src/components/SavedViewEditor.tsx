@@ -0,0 +1,323 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Button from './Button';
+import Input from './Input';
+import Modal from './Modal';
+import { useDigestPreview } from '@/hooks/useDigestPreview';
+import { DigestFrequency, DigestMessage, DigestWindow, SavedViewDigest } from '@/lib/api/types';
+import { describeExportParams } from '@/lib/exports';
+import {
+  DIGEST_FREQUENCY_LABELS,
+  DIGEST_WINDOW_LABELS,
+  VIEW_COLUMNS,
+  WEEKDAY_LABELS,
+  ViewQuery,
+  describeSchedule,
+  getDefaultDigest,
+  getDigestColumns,
+  getNextRuns,
+  getViewSearchParams,
+  parseRecipients,
+  validateDigest,
+} from '@/lib/savedViews';
+
+const SELECT_CLASSES = 'w-full bg-surface-raised text-foreground rounded-lg px-3 py-2 text-sm border border-border focus:outline-none focus:ring-2 focus:ring-primary';
+
+interface SavedViewEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  initialName: string;
+  view: ViewQuery;
+  columns: string[] | null;
+  initialDigest: SavedViewDigest | null;
+  lastSentAt?: string | null;
+  saving?: boolean;
+  sending?: boolean;
+  error?: string | null;
+  onSave: (name: string, digest: SavedViewDigest | null) => Promise<unknown>;
+  /** Send the saved view's digest now, given the previewed message; omitted until the view has been saved */
+  onSend?: (message: DigestMessage) => Promise<unknown>;
+}
+
+export default function SavedViewEditor({
+  isOpen,
+  onClose,
+  title,
+  initialName,
+  view,
+  columns,
+  initialDigest,
+  lastSentAt = null,
+  saving = false,
+  sending = false,
+  error = null,
+  onSave,
+  onSend,
+}: SavedViewEditorProps) {
+  const [name, setName] = useState(initialName);
+  const [digest, setDigest] = useState<SavedViewDigest>(() => initialDigest ?? { ...getDefaultDigest(), enabled: false });
+  const [recipientsText, setRecipientsText] = useState(initialDigest?.recipients.join(', ') ?? '');
+  const [showErrors, setShowErrors] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  // Start from the given view each time the editor opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(initialName);
+    setDigest(initialDigest ?? { ...getDefaultDigest(), enabled: false });
+    setRecipientsText(initialDigest?.recipients.join(', ') ?? '');
+    setShowErrors(false);
+    setSent(false);
+  }, [isOpen, initialName, initialDigest]);
+
+  const preview = useDigestPreview(isOpen && digest.enabled ? { name, view, columns, digest, lastSentAt } : null);
+
+  const digestErrors = digest.enabled ? validateDigest(digest) : [];
+  const nextRuns = digest.enabled ? getNextRuns(digest.schedule, 3) : [];
+  const digestColumns = getDigestColumns(columns);
+  // Digests go to the saved view's recipients, so edits have to be saved before they can be sent
+  const hasUnsavedChanges = name.trim() !== initialName
+    || JSON.stringify(digest.enabled ? digest : null) !== JSON.stringify(initialDigest);
+
+  const updateSchedule = (updates: Partial<SavedViewDigest['schedule']>) => {
+    setDigest(prev => ({ ...prev, schedule: { ...prev.schedule, ...updates } }));
+  };
+
+  const handleRecipientsChange = (value: string) => {
+    setRecipientsText(value);
+    setDigest(prev => ({ ...prev, recipients: parseRecipients(value) }));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    if (digestErrors.length > 0) {
+      setShowErrors(true);
+      return;
+    }
+
+    try {
+      await onSave(name.trim(), digest.enabled ? digest : null);
+      onClose();
+    } catch {
+      // The error is shown in the dialog
+    }
+  };
+
+  const handleSend = async () => {
+    if (!onSend || !preview.message || hasUnsavedChanges) return;
+
+    try {
+      await onSend(preview.message);
+      setSent(true);
+    } catch {
+      // The error is shown in the dialog
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={title}
+      size="xl"
+      actions={
+        <>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          {onSend && digest.enabled && (
+            <Button
+              variant="outline"
+              onClick={handleSend}
+              disabled={sending || !preview.message || hasUnsavedChanges}
+              title={hasUnsavedChanges ? 'Save your changes before sending' : undefined}
+            >
+              {sending ? 'Sending...' : 'Send Now'}
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={!name.trim() || saving}>
+            {saving ? 'Saving...' : 'Save View'}
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-6">
+        {error && (
+          <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+        {sent && !error && (
+          <div className="p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
+            <p className="text-green-400 text-sm">Digest sent to {digest.recipients.join(', ')}</p>
+          </div>
+        )}
+
+        <Input
+          label="View Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g., Salary changes last week"
+          required
+        />
+
+        <div className="text-xs text-muted-foreground space-y-1">
+          <div>Search: {describeExportParams(getViewSearchParams(view))}</div>
+          <div>Columns: {digestColumns.map(key => VIEW_COLUMNS[key].label).join(', ')}</div>
+        </div>
+
+        {/* Schedule */}
+        <div className="border-t border-border pt-4 space-y-4">
+          <label className="flex items-center gap-2 text-foreground text-sm font-medium">
+            <input
+              type="checkbox"
+              checked={digest.enabled}
+              onChange={(e) => setDigest(prev => ({ ...prev, enabled: e.target.checked }))}
+              className="h-4 w-4 rounded border-border border-2 bg-transparent text-primary checked:bg-primary checked:border-primary"
+            />
+            Email this view as a recurring digest
+          </label>
+
+          {digest.enabled && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="digest-frequency" className="block text-foreground text-sm font-medium mb-2">
+                    Frequency
+                  </label>
+                  <select
+                    id="digest-frequency"
+                    value={digest.schedule.frequency}
+                    onChange={(e) => updateSchedule({ frequency: e.target.value as DigestFrequency })}
+                    className={SELECT_CLASSES}
+                  >
+                    {Object.entries(DIGEST_FREQUENCY_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {digest.schedule.frequency === 'weekly' && (
+                  <div>
+                    <label htmlFor="digest-weekday" className="block text-foreground text-sm font-medium mb-2">
+                      Day
+                    </label>
+                    <select
+                      id="digest-weekday"
+                      value={digest.schedule.day_of_week}
+                      onChange={(e) => updateSchedule({ day_of_week: Number(e.target.value) })}
+                      className={SELECT_CLASSES}
+                    >
+                      {WEEKDAY_LABELS.map((label, index) => (
+                        <option key={label} value={index}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {digest.schedule.frequency === 'monthly' && (
+                  <div>
+                    <label htmlFor="digest-day-of-month" className="block text-foreground text-sm font-medium mb-2">
+                      Day of month
+                    </label>
+                    <input
+                      id="digest-day-of-month"
+                      type="number"
+                      min={1}
+                      max={28}
+                      value={digest.schedule.day_of_month}
+                      onChange={(e) => updateSchedule({ day_of_month: Number(e.target.value) })}
+                      className={SELECT_CLASSES}
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <label htmlFor="digest-time" className="block text-foreground text-sm font-medium mb-2">
+                    Time
+                  </label>
+                  <input
+                    id="digest-time"
+                    type="time"
+                    value={digest.schedule.time}
+                    onChange={(e) => updateSchedule({ time: e.target.value })}
+                    className={SELECT_CLASSES}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="digest-window" className="block text-foreground text-sm font-medium mb-2">
+                  Include
+                </label>
+                <select
+                  id="digest-window"
+                  value={digest.window}
+                  onChange={(e) => setDigest(prev => ({ ...prev, window: e.target.value as DigestWindow }))}
+                  className={SELECT_CLASSES}
+                >
+                  {Object.entries(DIGEST_WINDOW_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="digest-recipients" className="block text-foreground text-sm font-medium mb-2">
+                  Recipients
+                </label>
+                <textarea
+                  id="digest-recipients"
+                  value={recipientsText}
+                  onChange={(e) => handleRecipientsChange(e.target.value)}
+                  placeholder="manager@company.com, hr@company.com"
+                  rows={2}
+                  className={SELECT_CLASSES}
+                />
+              </div>
+
+              {showErrors && digestErrors.length > 0 && (
+                <ul className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm list-disc list-inside">
+                  {digestErrors.map(message => <li key={message}>{message}</li>)}
+                </ul>
+              )}
+
+              <div className="text-xs text-muted-foreground">
+                <span className="text-foreground">{describeSchedule(digest.schedule)}.</span>{' '}
+                Next: {nextRuns.map(run => run.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })).join(' · ')}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Preview of what the next digest would contain if sent now */}
+        {digest.enabled && (
+          <div className="border-t border-border pt-4 space-y-2">
+            <h4 className="text-foreground text-sm font-medium">Preview</h4>
+            {preview.loading && <p className="text-muted-foreground text-sm">Loading preview...</p>}
+            {preview.error && (
+              <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+                <p className="text-red-400 text-sm">{preview.error}</p>
+              </div>
+            )}
+            {preview.message && (
+              <>
+                <p className="text-muted-foreground text-xs">
+                  Subject: <span className="text-foreground">{preview.message.subject}</span>
+                </p>
+                <iframe
+                  title="Digest preview"
+                  sandbox=""
+                  srcDoc={preview.message.html}
+                  className="w-full h-72 rounded-lg border border-border bg-white"
+                />
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
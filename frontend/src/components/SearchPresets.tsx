@@ -4,13 +4,14 @@ import { useState, useCallback } from 'react';
 import Button from './Button';
 import Input from './Input';
 import Modal from './Modal';
-import { SearchPreset, useSearchPresets } from '@/hooks/useSearchPresets';
+import { PRESET_VISIBILITY_LABELS, SearchPreset, useSearchPresets } from '@/hooks/useSearchPresets';
+import { PresetVisibility } from '@/lib/api/types';
 
 interface SearchPresetsProps {
   currentSearch: string;
   currentFilters: Record<string, any>;
   onApplyPreset: (preset: SearchPreset) => void;
-  onSavePreset?: (name: string, description?: string) => void;
+  onSavePreset?: (name: string, description?: string, visibility?: PresetVisibility) => void;
   className?: string;
 }
 
@@ -25,6 +26,7 @@ export default function SearchPresets({
   const [showSaveModal, setShowSaveModal] = useState(false);
   const [presetName, setPresetName] = useState('');
   const [presetDescription, setPresetDescription] = useState('');
+  const [presetVisibility, setPresetVisibility] = useState<PresetVisibility>('private');
   const [searchQuery, setSearchQuery] = useState('');
 
   const presets = useSearchPresets();
@@ -35,32 +37,98 @@ export default function SearchPresets({
     setShowModal(false);
   }, [presets, onApplyPreset]);
 
-  const handleSavePreset = useCallback(() => {
+  const handleSavePreset = useCallback(async () => {
     if (!presetName.trim()) return;
 
-    const preset = presets.createPreset(
-      presetName.trim(),
-      currentSearch,
-      currentFilters,
-      presetDescription.trim() || undefined
-    );
+    try {
+      await presets.createPreset(
+        presetName.trim(),
+        currentSearch,
+        currentFilters,
+        presetDescription.trim() || undefined,
+        presetVisibility
+      );
+    } catch {
+      // The error is shown in the save dialog
+      return;
+    }
+
+    onSavePreset?.(presetName.trim(), presetDescription.trim() || undefined, presetVisibility);
 
-    onSavePreset?.(presetName.trim(), presetDescription.trim() || undefined);
-    
     setPresetName('');
     setPresetDescription('');
+    setPresetVisibility('private');
     setShowSaveModal(false);
-  }, [presets, presetName, presetDescription, currentSearch, currentFilters, onSavePreset]);
+  }, [presets, presetName, presetDescription, presetVisibility, currentSearch, currentFilters, onSavePreset]);
 
-  const handleDeletePreset = useCallback((presetId: string) => {
+  const handleDeletePreset = useCallback((presetId: number) => {
     if (confirm('Are you sure you want to delete this search preset?')) {
-      presets.deletePreset(presetId);
+      presets.deletePreset(presetId).catch(() => {
+        // The error is shown in the presets dialog
+      });
     }
   }, [presets]);
 
+  const handleTogglePin = useCallback((presetId: number) => {
+    presets.togglePin(presetId).catch(() => {
+      // The error is shown in the presets dialog
+    });
+  }, [presets]);
+
   const filteredPresets = presets.searchPresets(searchQuery);
-  const popularPresets = presets.getPopularPresets(3);
-  const recentPresets = presets.getRecentPresets(3);
+  const pinnedPresets = presets.getPinnedPresets();
+  // Pinned presets already have their own row, so leave them out of the quick picks
+  const popularPresets = presets.getPopularPresets(3 + pinnedPresets.length)
+    .filter(preset => !preset.pinned)
+    .slice(0, 3);
+  const hasOwnPresets = presets.presets.some(preset => preset.canEdit);
+
+  const renderBadges = (preset: SearchPreset) => (
+    <>
+      {preset.pinned && (
+        <span className="px-1.5 py-0.5 rounded bg-primary/20 text-primary text-xs">Pinned</span>
+      )}
+      <span className="px-1.5 py-0.5 rounded bg-surface text-muted-foreground text-xs">
+        {PRESET_VISIBILITY_LABELS[preset.visibility]}
+      </span>
+      {!preset.canEdit && preset.ownerName && (
+        <span className="text-muted-foreground text-xs">by {preset.ownerName}</span>
+      )}
+    </>
+  );
+
+  const renderActions = (preset: SearchPreset) => (
+    <div className="flex items-center gap-2">
+      <Button
+        size="sm"
+        onClick={() => handleApplyPreset(preset)}
+      >
+        Apply
+      </Button>
+      {preset.visibility !== 'private' && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => handleTogglePin(preset.id)}
+          disabled={presets.saving}
+          title={preset.pinned ? 'Unpin for everyone' : 'Pin for everyone who can see this preset'}
+        >
+          {preset.pinned ? 'Unpin' : 'Pin'}
+        </Button>
+      )}
+      {preset.canEdit && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => handleDeletePreset(preset.id)}
+          disabled={presets.saving}
+          className="text-red-400 border-red-400 hover:bg-red-400 hover:text-white"
+        >
+          Delete
+        </Button>
+      )}
+    </div>
+  );
 
   const hasCurrentSearch = currentSearch.trim() || Object.keys(currentFilters).length > 0;
   const currentPreset = presets.presets.find(preset =>
@@ -70,11 +138,29 @@ export default function SearchPresets({
 
   return (
     <>
-      <div className={`flex items-center gap-2 ${className}`}>
+      <div className={`flex flex-wrap items-center gap-2 ${className}`}>
+        {/* Presets pinned for the team */}
+        {pinnedPresets.length > 0 && (
+          <div className="flex items-center gap-2">
+            <span className="text-muted-foreground text-sm">Pinned:</span>
+            {pinnedPresets.map(preset => (
+              <Button
+                key={preset.id}
+                variant="outline"
+                size="sm"
+                onClick={() => handleApplyPreset(preset)}
+                title={preset.description || (preset.ownerName ? `Shared by ${preset.ownerName}` : undefined)}
+              >
+                {preset.name}
+              </Button>
+            ))}
+          </div>
+        )}
+
         {/* Quick access to popular presets */}
         {popularPresets.length > 0 && (
           <div className="flex items-center gap-2">
-            <span className="text-[#9cabba] text-sm">Quick:</span>
+            <span className="text-muted-foreground text-sm">Quick:</span>
             {popularPresets.map(preset => (
               <Button
                 key={preset.id}
@@ -98,7 +184,7 @@ export default function SearchPresets({
           <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
           </svg>
-          Presets ({presets.presets.length})
+          Presets ({presets.loading ? '…' : presets.presets.length})
         </Button>
 
         {/* Save current search */}
@@ -117,7 +203,7 @@ export default function SearchPresets({
 
         {/* Current preset indicator */}
         {currentPreset && (
-          <div className="flex items-center gap-2 px-2 py-1 bg-[#0d80f2]/20 text-[#0d80f2] rounded text-sm">
+          <div className="flex items-center gap-2 px-2 py-1 bg-primary/20 text-primary rounded text-sm">
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
             </svg>
@@ -144,6 +230,12 @@ export default function SearchPresets({
         }
       >
         <div className="space-y-6">
+          {presets.error && (
+            <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+              <p className="text-red-400 text-sm">{presets.error}</p>
+            </div>
+          )}
+
           {/* Search presets */}
           <div>
             <Input
@@ -157,24 +249,25 @@ export default function SearchPresets({
           {/* Popular presets */}
           {popularPresets.length > 0 && (
             <div>
-              <h4 className="text-white text-sm font-medium mb-3">Most Used</h4>
+              <h4 className="text-foreground text-sm font-medium mb-3">Most Used</h4>
               <div className="space-y-2">
                 {popularPresets.map(preset => (
                   <div
                     key={preset.id}
-                    className="flex items-center justify-between p-3 bg-[#283039] rounded-lg"
+                    className="flex items-center justify-between p-3 bg-surface-raised rounded-lg"
                   >
                     <div className="flex-1">
                       <div className="flex items-center gap-2">
-                        <h5 className="text-white text-sm font-medium">{preset.name}</h5>
-                        <span className="text-[#9cabba] text-xs">
+                        <h5 className="text-foreground text-sm font-medium">{preset.name}</h5>
+                        {renderBadges(preset)}
+                        <span className="text-muted-foreground text-xs">
                           Used {preset.useCount} times
                         </span>
                       </div>
                       {preset.description && (
-                        <p className="text-[#9cabba] text-xs mt-1">{preset.description}</p>
+                        <p className="text-muted-foreground text-xs mt-1">{preset.description}</p>
                       )}
-                      <div className="flex items-center gap-4 mt-2 text-xs text-[#9cabba]">
+                      <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
                         {preset.search && (
                           <span>Search: "{preset.search}"</span>
                         )}
@@ -183,22 +276,7 @@ export default function SearchPresets({
                         )}
                       </div>
                     </div>
-                    <div className="flex items-center gap-2">
-                      <Button
-                        size="sm"
-                        onClick={() => handleApplyPreset(preset)}
-                      >
-                        Apply
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleDeletePreset(preset.id)}
-                        className="text-red-400 border-red-400 hover:bg-red-400 hover:text-white"
-                      >
-                        Delete
-                      </Button>
-                    </div>
+                    {renderActions(preset)}
                   </div>
                 ))}
               </div>
@@ -208,18 +286,21 @@ export default function SearchPresets({
           {/* All presets */}
           <div>
             <div className="flex items-center justify-between mb-3">
-              <h4 className="text-white text-sm font-medium">
+              <h4 className="text-foreground text-sm font-medium">
                 All Presets ({filteredPresets.length})
               </h4>
-              {presets.presets.length > 0 && (
+              {hasOwnPresets && (
                 <Button
                   variant="outline"
                   size="sm"
                   onClick={() => {
-                    if (confirm('Are you sure you want to delete all presets?')) {
-                      presets.clearPresets();
+                    if (confirm('Are you sure you want to delete all of your presets? Presets shared by others are kept.')) {
+                      presets.clearPresets().catch(() => {
+                        // The error is shown above
+                      });
                     }
                   }}
+                  disabled={presets.saving}
                   className="text-red-400 border-red-400 hover:bg-red-400 hover:text-white"
                 >
                   Clear All
@@ -229,7 +310,7 @@ export default function SearchPresets({
 
             {filteredPresets.length === 0 ? (
               <div className="text-center py-8">
-                <p className="text-[#9cabba] text-sm">
+                <p className="text-muted-foreground text-sm">
                   {searchQuery ? 'No presets match your search' : 'No saved presets yet'}
                 </p>
               </div>
@@ -238,21 +319,22 @@ export default function SearchPresets({
                 {filteredPresets.map(preset => (
                   <div
                     key={preset.id}
-                    className="flex items-center justify-between p-3 bg-[#283039] rounded-lg"
+                    className="flex items-center justify-between p-3 bg-surface-raised rounded-lg"
                   >
                     <div className="flex-1">
                       <div className="flex items-center gap-2">
-                        <h5 className="text-white text-sm font-medium">{preset.name}</h5>
+                        <h5 className="text-foreground text-sm font-medium">{preset.name}</h5>
+                        {renderBadges(preset)}
                         {preset.useCount > 0 && (
-                          <span className="text-[#9cabba] text-xs">
+                          <span className="text-muted-foreground text-xs">
                             {preset.useCount}x
                           </span>
                         )}
                       </div>
                       {preset.description && (
-                        <p className="text-[#9cabba] text-xs mt-1">{preset.description}</p>
+                        <p className="text-muted-foreground text-xs mt-1">{preset.description}</p>
                       )}
-                      <div className="flex items-center gap-4 mt-2 text-xs text-[#9cabba]">
+                      <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
                         <span>
                           Created {new Date(preset.createdAt).toLocaleDateString()}
                         </span>
@@ -263,22 +345,7 @@ export default function SearchPresets({
                         )}
                       </div>
                     </div>
-                    <div className="flex items-center gap-2">
-                      <Button
-                        size="sm"
-                        onClick={() => handleApplyPreset(preset)}
-                      >
-                        Apply
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleDeletePreset(preset.id)}
-                        className="text-red-400 border-red-400 hover:bg-red-400 hover:text-white"
-                      >
-                        Delete
-                      </Button>
-                    </div>
+                    {renderActions(preset)}
                   </div>
                 ))}
               </div>
@@ -300,18 +367,24 @@ export default function SearchPresets({
             </Button>
             <Button 
               onClick={handleSavePreset}
-              disabled={!presetName.trim()}
+              disabled={!presetName.trim() || presets.saving}
             >
-              Save Preset
+              {presets.saving ? 'Saving...' : 'Save Preset'}
             </Button>
           </>
         }
       >
         <div className="space-y-4">
-          <p className="text-[#9cabba] text-sm">
+          <p className="text-muted-foreground text-sm">
             Save your current search and filters as a preset for quick access later.
           </p>
 
+          {presets.error && (
+            <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+              <p className="text-red-400 text-sm">{presets.error}</p>
+            </div>
+          )}
+
           <Input
             label="Preset Name"
             value={presetName}
@@ -327,10 +400,29 @@ export default function SearchPresets({
             placeholder="Brief description of this search..."
           />
 
+          <div>
+            <label htmlFor="preset-visibility" className="block text-foreground text-sm font-medium mb-2">
+              Visibility
+            </label>
+            <select
+              id="preset-visibility"
+              value={presetVisibility}
+              onChange={(e) => setPresetVisibility(e.target.value as PresetVisibility)}
+              className="w-full bg-surface-raised text-foreground rounded-lg px-3 py-2 text-sm border border-border focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              <option value="private">Private - only you</option>
+              <option value="team">Team - all admins</option>
+              <option value="global">Everyone - all users with search access</option>
+            </select>
+            <p className="text-muted-foreground text-xs mt-1">
+              Shared presets can be pinned by anyone who can see them.
+            </p>
+          </div>
+
           {/* Preview */}
-          <div className="border-t border-[#3b4754] pt-4">
-            <h4 className="text-white text-sm font-medium mb-2">Preview:</h4>
-            <div className="space-y-2 text-xs text-[#9cabba]">
+          <div className="border-t border-border pt-4">
+            <h4 className="text-foreground text-sm font-medium mb-2">Preview:</h4>
+            <div className="space-y-2 text-xs text-muted-foreground">
               {currentSearch && (
                 <div>Search: "{currentSearch}"</div>
               )}
@@ -93,7 +93,7 @@ export function ServiceWorkerProvider({ children }: { children: React.ReactNode
 
       {/* Service Worker Status (Development Only) */}
       {process.env.NODE_ENV === 'development' && (
-        <div className="fixed bottom-16 right-4 text-xs text-gray-500">
+        <div className="fixed bottom-16 right-4 text-xs text-muted-foreground">
           SW: {isRegistered ? 'Active' : 'Inactive'}
         </div>
       )}
@@ -0,0 +1,167 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Button from './Button';
+import Modal from './Modal';
+import { useAuthContext } from './AuthProvider';
+import { useSessions } from '@/hooks/useSessions';
+import { authUtils } from '@/lib/api/auth';
+import { ApiTokenInfo } from '@/lib/api/types';
+import { getErrorInfo } from '@/lib/api/errors';
+
+function formatDateTime(value: string | null): string {
+  if (!value) return 'Never';
+  return new Date(value).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
+
+export default function SessionsSection() {
+  const router = useRouter();
+  const auth = useAuthContext();
+  const sessions = useSessions();
+  const [showLogoutAllModal, setShowLogoutAllModal] = useState(false);
+  const [isLoggingOutAll, setIsLoggingOutAll] = useState(false);
+  const [logoutAllError, setLogoutAllError] = useState<string | null>(null);
+
+  const handleRevoke = async (token: ApiTokenInfo) => {
+    // Revoking this browser's own token is a plain sign out
+    if (sessions.isCurrentToken(token)) {
+      await auth.logout();
+      router.push('/login');
+      return;
+    }
+
+    await sessions.revokeToken(token.id);
+  };
+
+  const handleLogoutAll = async () => {
+    setIsLoggingOutAll(true);
+    setLogoutAllError(null);
+
+    try {
+      await auth.logoutAll();
+      router.push('/login');
+    } catch (error) {
+      setLogoutAllError(getErrorInfo(error as Error).message);
+      setIsLoggingOutAll(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between px-4 pb-2 pt-4">
+        <h3 className="text-foreground text-lg font-bold leading-tight tracking-[-0.015em]">
+          Sessions
+        </h3>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setShowLogoutAllModal(true)}
+          disabled={sessions.loading || sessions.tokens.length === 0}
+        >
+          Sign out everywhere
+        </Button>
+      </div>
+      <p className="text-muted-foreground text-sm font-normal leading-normal px-4 pb-3">
+        Devices and API clients currently signed in to your account.
+      </p>
+
+      {sessions.error && (
+        <div className="mx-4 mb-4 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <div className="flex items-center gap-2">
+            <svg className="w-5 h-5 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p className="text-red-400 text-sm">{sessions.error}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="px-4 py-3">
+        <div className="flex flex-col overflow-hidden rounded-lg border border-border bg-background">
+          {sessions.loading && sessions.tokens.length === 0 && (
+            <div className="animate-pulse space-y-3 p-4">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <div key={i} className="h-10 bg-surface-raised rounded"></div>
+              ))}
+            </div>
+          )}
+
+          {!sessions.loading && sessions.tokens.length === 0 && !sessions.error && (
+            <p className="text-muted-foreground text-sm p-4">No active sessions.</p>
+          )}
+
+          {sessions.tokens.map(token => {
+            const isCurrent = sessions.isCurrentToken(token);
+            const isExpired = authUtils.isTokenExpired(token);
+
+            return (
+              <div
+                key={token.id}
+                className={`flex items-center justify-between gap-4 border-t border-t-border first:border-t-0 px-4 py-3 ${
+                  isCurrent ? 'bg-primary/10' : ''
+                }`}
+              >
+                <div className="flex min-w-0 flex-col gap-1">
+                  <div className="flex items-center gap-2">
+                    <p className="text-foreground text-sm font-medium leading-normal truncate">{token.name}</p>
+                    {isCurrent && (
+                      <span className="rounded-full bg-primary px-2 py-0.5 text-xs font-medium text-primary-foreground">
+                        This device
+                      </span>
+                    )}
+                    {isExpired && (
+                      <span className="rounded-full bg-surface-raised px-2 py-0.5 text-xs font-medium text-muted-foreground">
+                        Expired
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-muted-foreground text-xs font-normal leading-normal">
+                    Signed in {formatDateTime(token.created_at)} · Last used {formatDateTime(token.last_used_at)}
+                    {token.expires_at && ` · Expires ${formatDateTime(token.expires_at)}`}
+                  </p>
+                </div>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => handleRevoke(token)}
+                  disabled={sessions.revokingId === token.id}
+                >
+                  {sessions.revokingId === token.id ? 'Revoking...' : isCurrent ? 'Sign out' : 'Revoke'}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <Modal
+        isOpen={showLogoutAllModal}
+        onClose={() => setShowLogoutAllModal(false)}
+        title="Sign out everywhere"
+        size="sm"
+        actions={
+          <>
+            <Button variant="secondary" onClick={() => setShowLogoutAllModal(false)} disabled={isLoggingOutAll}>
+              Cancel
+            </Button>
+            <Button onClick={handleLogoutAll} disabled={isLoggingOutAll}>
+              {isLoggingOutAll ? 'Signing out...' : 'Sign out everywhere'}
+            </Button>
+          </>
+        }
+      >
+        <p className="text-muted-foreground text-sm">
+          This revokes all {sessions.tokens.length} active session{sessions.tokens.length === 1 ? '' : 's'}, including this one.
+          You will need to sign in again on every device.
+        </p>
+        {logoutAllError && (
+          <p className="text-red-400 text-sm mt-3">{logoutAllError}</p>
+        )}
+      </Modal>
+    </>
+  );
+}
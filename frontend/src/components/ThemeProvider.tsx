@@ -0,0 +1,98 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useAuthContext } from './AuthProvider';
+import { userApi } from '@/lib/api/user';
+import { ThemePreference } from '@/lib/api/types';
+import {
+  DEFAULT_THEME,
+  ResolvedTheme,
+  applyTheme,
+  getStoredTheme,
+  isThemePreference,
+  resolveTheme,
+  storeTheme,
+  watchSystemTheme,
+} from '@/lib/theme';
+
+// Theme context
+interface ThemeContextType {
+  mode: ThemePreference;
+  resolvedTheme: ResolvedTheme;
+  setMode: (mode: ThemePreference) => void;
+}
+
+const ThemeContext = createContext<ThemeContextType | null>(null);
+
+// Theme provider component
+export function ThemeProvider({ children }: { children: React.ReactNode }) {
+  const auth = useAuthContext();
+  const [mode, setModeState] = useState<ThemePreference>(DEFAULT_THEME);
+  const [resolvedTheme, setResolvedTheme] = useState<ResolvedTheme>('dark');
+
+  // Pick up the mode the head script already applied
+  useEffect(() => {
+    const storedMode = getStoredTheme();
+    setModeState(storedMode);
+    setResolvedTheme(resolveTheme(storedMode));
+  }, []);
+
+  const setMode = useCallback((nextMode: ThemePreference) => {
+    const nextTheme = resolveTheme(nextMode);
+    storeTheme(nextMode);
+    applyTheme(nextTheme);
+    setModeState(nextMode);
+    setResolvedTheme(nextTheme);
+  }, []);
+
+  // Follow OS changes while in system mode
+  useEffect(() => {
+    if (mode !== 'system') return;
+
+    return watchSystemTheme(theme => {
+      applyTheme(theme);
+      setResolvedTheme(theme);
+    });
+  }, [mode]);
+
+  // Adopt the theme saved on the server so the choice follows the user across browsers
+  useEffect(() => {
+    if (!auth.isAuthenticated) return;
+
+    let cancelled = false;
+    userApi.getPreferences()
+      .then(response => {
+        if (!cancelled && isThemePreference(response.data?.theme)) {
+          setMode(response.data.theme);
+        }
+      })
+      .catch(() => {
+        // Keep the locally stored theme when preferences are unavailable
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [auth.isAuthenticated, setMode]);
+
+  const contextValue: ThemeContextType = {
+    mode,
+    resolvedTheme,
+    setMode,
+  };
+
+  return (
+    <ThemeContext.Provider value={contextValue}>
+      {children}
+    </ThemeContext.Provider>
+  );
+}
+
+// Hook to use theme context
+export function useThemeContext() {
+  const context = useContext(ThemeContext);
+  if (!context) {
+    throw new Error('useThemeContext must be used within a ThemeProvider');
+  }
+  return context;
+}
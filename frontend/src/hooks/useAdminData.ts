@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { adminApi } from '@/lib/api/admin';
 import { UserWithSalary, SearchParams, PaginatedResponse } from '@/lib/api/types';
 import { getErrorInfo } from '@/lib/api/errors';
@@ -6,6 +6,7 @@ import { getErrorInfo } from '@/lib/api/errors';
 interface UseAdminDataState {
   users: UserWithSalary[];
   loading: boolean;
+  loadingMore: boolean;
   error: string | null;
   pagination: {
     currentPage: number;
@@ -29,6 +30,7 @@ export function useAdminData({
   const [state, setState] = useState<UseAdminDataState>({
     users: [],
     loading: false,
+    loadingMore: false,
     error: null,
     pagination: {
       currentPage: initialPage,
@@ -43,7 +45,11 @@ export function useAdminData({
     per_page: initialPerPage,
   });
 
+  // Params of the last full load, which infinite scrolling continues from
+  const loadedParams = useRef<SearchParams>(searchParams);
+
   const loadUsers = useCallback(async (params: SearchParams = searchParams) => {
+    loadedParams.current = params;
     setState(prev => ({ ...prev, loading: true, error: null }));
 
     try {
@@ -71,6 +77,48 @@ export function useAdminData({
     }
   }, [searchParams]);
 
+  /**
+   * Append the next page to the loaded users, for infinite scrolling
+   */
+  const loadMore = useCallback(async () => {
+    if (state.loading || state.loadingMore || state.pagination.currentPage >= state.pagination.totalPages) {
+      return;
+    }
+
+    const baseParams = loadedParams.current;
+    const params = { ...baseParams, page: state.pagination.currentPage + 1 };
+    setState(prev => ({ ...prev, loadingMore: true, error: null }));
+
+    try {
+      const response: PaginatedResponse<UserWithSalary> = await adminApi.getUsers(params);
+
+      // The search or filters changed while this page was loading
+      if (loadedParams.current !== baseParams) {
+        setState(prev => ({ ...prev, loadingMore: false }));
+        return;
+      }
+
+      setState(prev => {
+        // Rows can shift between pages while scrolling, so skip users that are already loaded
+        const loadedIds = new Set(prev.users.map(user => user.id));
+        return {
+          ...prev,
+          users: [...prev.users, ...response.data.filter(user => !loadedIds.has(user.id))],
+          loadingMore: false,
+          pagination: {
+            currentPage: response.pagination.current_page,
+            totalPages: response.pagination.last_page,
+            total: response.pagination.total,
+            perPage: response.pagination.per_page,
+          },
+        };
+      });
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, loadingMore: false, error: errorInfo.message }));
+    }
+  }, [state.loading, state.loadingMore, state.pagination.currentPage, state.pagination.totalPages]);
+
   const search = useCallback((query: string) => {
     const newParams = {
       ...searchParams,
@@ -174,9 +222,11 @@ export function useAdminData({
 
   return {
     ...state,
+    hasMore: state.pagination.currentPage < state.pagination.totalPages,
     searchParams,
     actions: {
       loadUsers,
+      loadMore,
       search,
       filter,
       sort,
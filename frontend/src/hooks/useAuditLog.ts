@@ -0,0 +1,129 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { adminApi, adminUtils } from '@/lib/api/admin';
+import { AuditEntry, AuditLogParams } from '@/lib/api/types';
+import { getErrorInfo } from '@/lib/api/errors';
+import { auditEntriesToCsv } from '@/lib/auditLog';
+import { downloadCsv } from '@/lib/csv';
+
+// Upper bound on pages fetched for one CSV export
+const EXPORT_PAGE_SIZE = 100;
+const EXPORT_MAX_PAGES = 50;
+
+type AuditFilters = Omit<AuditLogParams, 'page' | 'per_page'>;
+
+interface UseAuditLogState {
+  entries: AuditEntry[];
+  loading: boolean;
+  error: string | null;
+  exporting: boolean;
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    total: number;
+    perPage: number;
+  };
+}
+
+export function useAuditLog({ initialPerPage = 25 }: { initialPerPage?: number } = {}) {
+  const [state, setState] = useState<UseAuditLogState>({
+    entries: [],
+    loading: false,
+    error: null,
+    exporting: false,
+    pagination: {
+      currentPage: 1,
+      totalPages: 1,
+      total: 0,
+      perPage: initialPerPage,
+    },
+  });
+  const [filters, setFilters] = useState<AuditFilters>({});
+
+  const loadEntries = useCallback(async (page: number, activeFilters: AuditFilters, perPage: number) => {
+    setState(prev => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const response = await adminApi.getAuditTrail({ ...activeFilters, page, per_page: perPage });
+      setState(prev => ({
+        ...prev,
+        entries: response.data,
+        loading: false,
+        pagination: {
+          currentPage: response.pagination.current_page,
+          totalPages: response.pagination.last_page,
+          total: response.pagination.total,
+          perPage: response.pagination.per_page,
+        },
+      }));
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, entries: [], loading: false, error: errorInfo.message }));
+    }
+  }, []);
+
+  const applyFilters = useCallback((nextFilters: AuditFilters) => {
+    setFilters(nextFilters);
+    loadEntries(1, nextFilters, state.pagination.perPage);
+  }, [loadEntries, state.pagination.perPage]);
+
+  const changePage = useCallback((page: number) => {
+    loadEntries(page, filters, state.pagination.perPage);
+  }, [loadEntries, filters, state.pagination.perPage]);
+
+  const changePerPage = useCallback((perPage: number) => {
+    loadEntries(1, filters, perPage);
+  }, [loadEntries, filters]);
+
+  const refresh = useCallback(() => {
+    loadEntries(state.pagination.currentPage, filters, state.pagination.perPage);
+  }, [loadEntries, filters, state.pagination.currentPage, state.pagination.perPage]);
+
+  // Export every entry matching the current filters, not just the visible page
+  const exportCsv = useCallback(async () => {
+    setState(prev => ({ ...prev, exporting: true, error: null }));
+
+    try {
+      const entries: AuditEntry[] = [];
+      let page = 1;
+      let lastPage = 1;
+
+      do {
+        const response = await adminApi.getAuditTrail({ ...filters, page, per_page: EXPORT_PAGE_SIZE });
+        entries.push(...response.data);
+        lastPage = response.pagination.last_page;
+        page++;
+      } while (page <= lastPage && page <= EXPORT_MAX_PAGES);
+
+      downloadCsv(auditEntriesToCsv(entries), adminUtils.generateExportFilename('audit_log', 'csv'));
+
+      setState(prev => ({
+        ...prev,
+        exporting: false,
+        error: lastPage > EXPORT_MAX_PAGES
+          ? `Export truncated to the first ${EXPORT_MAX_PAGES * EXPORT_PAGE_SIZE} entries. Narrow the filters to export the rest.`
+          : null,
+      }));
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, exporting: false, error: errorInfo.message }));
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    loadEntries(1, {}, initialPerPage);
+  }, [loadEntries, initialPerPage]);
+
+  const actions = useMemo(() => ({
+    applyFilters,
+    changePage,
+    changePerPage,
+    refresh,
+    exportCsv,
+  }), [applyFilters, changePage, changePerPage, refresh, exportCsv]);
+
+  return {
+    ...state,
+    filters,
+    actions,
+  };
+}
@@ -1,16 +1,41 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { adminApi, adminUtils } from '@/lib/api/admin';
-import { UserWithSalary, UpdateSalaryRequest } from '@/lib/api/types';
+import {
+  ApiResponse,
+  BulkSalaryAdjustment,
+  BulkSalaryUpdate,
+  BulkUpdateResult,
+  BulkUserSelector,
+  CreateUserRequest,
+  SalaryChangeRequest,
+  UserWithSalary,
+} from '@/lib/api/types';
+import { ValidationError } from '@/lib/api/client';
 import { getErrorInfo } from '@/lib/api/errors';
+import {
+  BulkFailedItem,
+  DEFAULT_BULK_CHUNK_SIZE,
+  chunkItems,
+  collectFailedItems,
+  getBulkErrorMessages,
+  splitValidationErrorsByRow,
+} from '@/lib/bulkOperations';
+
+interface BulkFailedRow {
+  id: number;
+  messages: string[];
+}
 
 interface BulkOperationState {
   isProcessing: boolean;
   progress: number;
-  results: {
-    updated: number;
-    failed: number;
-    errors: any[];
-  } | null;
+  processed: number;
+  total: number;
+  results: BulkUpdateResult | null;
+  failedRows: BulkFailedRow[];
+  cancelling: boolean;
+  // Rows left unsent because the run was cancelled
+  skipped: number;
   error: string | null;
 }
 
@@ -19,135 +44,278 @@ interface BulkUpdateItem {
   data: Partial<UserWithSalary>;
 }
 
-interface BulkSalaryUpdateItem {
-  user_id: number;
-  salary_local_currency?: number;
-  salary_euros?: number;
-  commission?: number;
+type BulkSalaryUpdateItem = BulkSalaryUpdate;
+
+interface BulkRunResult extends BulkUpdateResult {
+  skipped: number;
+}
+
+interface UseBulkOperationsOptions {
+  chunkSize?: number;
+}
+
+interface ChunkOutcome<T> {
+  updated: number;
+  failed: BulkFailedItem<T>[];
+  pending: SalaryChangeRequest[];
+}
+
+async function sendChunk<T>(
+  chunk: T[],
+  getId: (item: T) => number,
+  send: (chunk: T[]) => Promise<ApiResponse<BulkUpdateResult>>,
+  splitOnValidationError: boolean = true
+): Promise<ChunkOutcome<T>> {
+  try {
+    const response = await send(chunk);
+    if (!response.success) {
+      throw new Error(response.message || 'Bulk update failed');
+    }
+
+    return {
+      updated: response.data.updated,
+      failed: collectFailedItems(chunk, response.data.errors ?? [], getId),
+      pending: response.data.pending_approval ?? [],
+    };
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      const { byIndex, general } = splitValidationErrorsByRow(error.errors);
+
+      // The endpoint rejects the whole chunk when any row is invalid, so resend the clean rows once on their own
+      if (byIndex.size > 0 && splitOnValidationError) {
+        const invalid = chunk
+          .map((item, index) => ({ item, messages: [...(byIndex.get(index) ?? []), ...general] }))
+          .filter((_, index) => byIndex.has(index));
+        const valid = chunk.filter((_, index) => !byIndex.has(index));
+        const retried = valid.length > 0
+          ? await sendChunk(valid, getId, send, false)
+          : { updated: 0, failed: [], pending: [] };
+
+        return { updated: retried.updated, failed: [...invalid, ...retried.failed], pending: retried.pending };
+      }
+    }
+
+    const message = getErrorInfo(error as Error).message;
+    return { updated: 0, failed: chunk.map(item => ({ item, messages: [message] })), pending: [] };
+  }
 }
 
-export function useBulkOperations() {
+export function useBulkOperations({ chunkSize = DEFAULT_BULK_CHUNK_SIZE }: UseBulkOperationsOptions = {}) {
   const [state, setState] = useState<BulkOperationState>({
     isProcessing: false,
     progress: 0,
+    processed: 0,
+    total: 0,
     results: null,
+    failedRows: [],
+    cancelling: false,
+    skipped: 0,
     error: null,
   });
 
+  const cancelRequestedRef = useRef(false);
+  // Re-runs the last operation with only the rows that failed
+  const retryRef = useRef<(() => Promise<BulkRunResult | undefined>) | null>(null);
+  // Why the last action sent nothing; state.error only catches up on the next render
+  const inputErrorRef = useRef<string | null>(null);
+
+  const rejectInput = useCallback((message: string) => {
+    inputErrorRef.current = message;
+    setState(prev => ({ ...prev, error: message }));
+  }, []);
+
   const reset = useCallback(() => {
+    cancelRequestedRef.current = false;
+    retryRef.current = null;
+    inputErrorRef.current = null;
     setState({
       isProcessing: false,
       progress: 0,
+      processed: 0,
+      total: 0,
       results: null,
+      failedRows: [],
+      cancelling: false,
+      skipped: 0,
       error: null,
     });
   }, []);
 
-  const bulkUpdateUsers = useCallback(async (updates: BulkUpdateItem[]) => {
-    // Validate input
-    const validation = adminUtils.validateBulkUpdateData(updates);
-    if (!validation.valid) {
-      setState(prev => ({
-        ...prev,
-        error: validation.errors.join(', '),
-      }));
-      return;
-    }
+  const runInChunks = useCallback(async <T,>(
+    items: T[],
+    getId: (item: T) => number,
+    send: (chunk: T[]) => Promise<ApiResponse<BulkUpdateResult>>
+  ): Promise<BulkRunResult> => {
+    cancelRequestedRef.current = false;
+    retryRef.current = null;
+    inputErrorRef.current = null;
 
     setState(prev => ({
       ...prev,
       isProcessing: true,
       progress: 0,
+      processed: 0,
+      total: items.length,
       error: null,
       results: null,
+      failedRows: [],
+      cancelling: false,
+      skipped: 0,
     }));
 
-    try {
-      const bulkData = updates.map(update => ({
-        id: update.id,
-        ...update.data,
-      }));
+    const failed: BulkFailedItem<T>[] = [];
+    const pending: SalaryChangeRequest[] = [];
+    let updated = 0;
+    let processed = 0;
 
-      const response = await adminApi.bulkUpdateUsers(
-        bulkData,
-        (progress) => {
-          setState(prev => ({ ...prev, progress }));
-        }
-      );
+    for (const chunk of chunkItems(items, chunkSize)) {
+      // Cancellation takes effect between chunks; a chunk already sent is allowed to finish
+      if (cancelRequestedRef.current) break;
+
+      const outcome = await sendChunk(chunk, getId, send);
+      updated += outcome.updated;
+      failed.push(...outcome.failed);
+      pending.push(...outcome.pending);
+      processed += chunk.length;
 
-      if (response.success) {
-        setState(prev => ({
-          ...prev,
-          isProcessing: false,
-          progress: 100,
-          results: response.data,
-        }));
-        
-        return response.data;
-      } else {
-        throw new Error(response.message || 'Bulk update failed');
-      }
-    } catch (error) {
-      const errorInfo = getErrorInfo(error as Error);
       setState(prev => ({
         ...prev,
-        isProcessing: false,
-        progress: 0,
-        error: errorInfo.message,
+        processed,
+        progress: adminUtils.calculateBulkProgress(processed, items.length),
+        failedRows: failed.map(({ item, messages }) => ({ id: getId(item), messages })),
       }));
-      throw error;
     }
-  }, []);
+
+    const results: BulkRunResult = {
+      updated,
+      failed: failed.length,
+      errors: failed.map(({ item, messages }) => ({ id: getId(item), message: messages.join('; ') })),
+      pending_approval: pending,
+      skipped: items.length - processed,
+    };
+
+    if (failed.length > 0) {
+      const failedItems = failed.map(({ item }) => item);
+      retryRef.current = () => runInChunks(failedItems, getId, send);
+    }
+
+    setState(prev => ({
+      ...prev,
+      isProcessing: false,
+      cancelling: false,
+      skipped: results.skipped,
+      results,
+    }));
+
+    return results;
+  }, [chunkSize]);
+
+  const bulkUpdateUsers = useCallback(async (updates: BulkUpdateItem[]) => {
+    // Validate input
+    const validation = adminUtils.validateBulkUpdateData(updates);
+    if (!validation.valid) {
+      rejectInput(validation.errors.join(', '));
+      return;
+    }
+
+    const bulkData = updates.map(update => ({
+      id: update.id,
+      ...update.data,
+    }));
+
+    return runInChunks(bulkData, item => item.id, chunk => adminApi.bulkUpdateUsers(chunk));
+  }, [runInChunks, rejectInput]);
 
   const bulkUpdateSalaries = useCallback(async (updates: BulkSalaryUpdateItem[]) => {
     // Validate input
     const validation = adminUtils.validateBulkUpdateData(updates);
     if (!validation.valid) {
+      rejectInput(validation.errors.join(', '));
+      return;
+    }
+
+    return runInChunks(updates, item => item.user_id, chunk => adminApi.bulkUpdateSalaries(chunk));
+  }, [runInChunks, rejectInput]);
+
+  // One request: the API applies the change to each user's current values, so there is no per-chunk progress.
+  // expectedCount is sent as a guard; the API refuses the change if the selector now matches a different number of users.
+  const bulkAdjustSalaries = useCallback(async (
+    selector: BulkUserSelector,
+    adjustment: BulkSalaryAdjustment,
+    expectedCount: number
+  ): Promise<BulkRunResult | undefined> => {
+    const run = async (currentSelector: BulkUserSelector, currentCount: number): Promise<BulkRunResult | undefined> => {
+      cancelRequestedRef.current = false;
+      retryRef.current = null;
+
       setState(prev => ({
         ...prev,
-        error: validation.errors.join(', '),
+        isProcessing: true,
+        progress: 0,
+        processed: 0,
+        total: currentCount,
+        error: null,
+        results: null,
+        failedRows: [],
+        cancelling: false,
+        skipped: 0,
       }));
-      return;
-    }
 
-    setState(prev => ({
-      ...prev,
-      isProcessing: true,
-      progress: 0,
-      error: null,
-      results: null,
-    }));
+      try {
+        const response = await adminApi.bulkAdjustSalaries(currentSelector, adjustment, currentCount);
+        if (!response.success) {
+          throw new Error(response.message || 'Bulk update failed');
+        }
 
-    try {
-      const response = await adminApi.bulkUpdateSalaries(
-        updates,
-        (progress) => {
-          setState(prev => ({ ...prev, progress }));
+        const results: BulkRunResult = { ...response.data, skipped: 0 };
+        const failedRows = (response.data.errors ?? [])
+          .filter(error => (error.user_id ?? error.id) !== undefined)
+          .map(error => ({ id: (error.user_id ?? error.id) as number, messages: getBulkErrorMessages(error) }));
+
+        // Failed users are retried by id, even when the original selector was a filter
+        if (failedRows.length > 0) {
+          const failedIds = failedRows.map(row => Number(row.id));
+          retryRef.current = () => run({ ids: failedIds }, failedIds.length);
         }
-      );
 
-      if (response.success) {
         setState(prev => ({
           ...prev,
           isProcessing: false,
           progress: 100,
-          results: response.data,
+          processed: currentCount,
+          results,
+          failedRows,
         }));
-        
-        return response.data;
-      } else {
-        throw new Error(response.message || 'Bulk salary update failed');
+        return results;
+      } catch (error) {
+        const errorInfo = getErrorInfo(error as Error);
+        setState(prev => ({ ...prev, isProcessing: false, progress: 0, error: errorInfo.message }));
+        return undefined;
       }
-    } catch (error) {
-      const errorInfo = getErrorInfo(error as Error);
-      setState(prev => ({
-        ...prev,
-        isProcessing: false,
-        progress: 0,
-        error: errorInfo.message,
-      }));
-      throw error;
+    };
+
+    return run(selector, expectedCount);
+  }, []);
+
+  const bulkCreateUsers = useCallback(async (users: CreateUserRequest[]) => {
+    if (users.length === 0) {
+      rejectInput('No users to create');
+      return;
     }
+
+    // New users have no id yet, so rows are identified by their position in the list
+    const rows = users.map((user, index) => ({ index, user }));
+    return runInChunks(rows, row => row.index, chunk => adminApi.bulkCreateUsers(chunk.map(row => row.user)));
+  }, [runInChunks, rejectInput]);
+
+  const cancel = useCallback(() => {
+    cancelRequestedRef.current = true;
+    setState(prev => (prev.isProcessing ? { ...prev, cancelling: true } : prev));
+  }, []);
+
+  const retryFailed = useCallback(async () => {
+    if (!retryRef.current) return;
+    return retryRef.current();
   }, []);
 
   const importUsers = useCallback(async (file: File) => {
@@ -195,65 +363,27 @@ export function useBulkOperations() {
     }
   }, []);
 
-  const exportUsers = useCallback(async (
-    format: 'csv' | 'excel' = 'csv',
-    filters?: any
-  ) => {
-    setState(prev => ({
-      ...prev,
-      isProcessing: true,
-      progress: 50, // Simulate progress for export
-      error: null,
-    }));
-
-    try {
-      const response = await adminApi.exportUsers(format, filters);
-      
-      if (response.success) {
-        setState(prev => ({
-          ...prev,
-          isProcessing: false,
-          progress: 100,
-        }));
-        
-        // Trigger download
-        const link = document.createElement('a');
-        link.href = response.data.download_url;
-        link.download = adminUtils.generateExportFilename('users', format);
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        
-        return response.data;
-      } else {
-        throw new Error(response.message || 'Export failed');
-      }
-    } catch (error) {
-      const errorInfo = getErrorInfo(error as Error);
-      setState(prev => ({
-        ...prev,
-        isProcessing: false,
-        progress: 0,
-        error: errorInfo.message,
-      }));
-      throw error;
-    }
-  }, []);
+  const getInputError = useCallback(() => inputErrorRef.current, []);
 
   const getResultsMessage = useCallback(() => {
     if (!state.results) return '';
-    return adminUtils.formatBulkResults(state.results);
-  }, [state.results]);
+    const message = adminUtils.formatBulkResults(state.results);
+    return state.skipped > 0 ? `${message}. Cancelled with ${state.skipped} rows not sent` : message;
+  }, [state.results, state.skipped]);
 
   return {
     ...state,
     actions: {
       bulkUpdateUsers,
       bulkUpdateSalaries,
+      bulkAdjustSalaries,
+      bulkCreateUsers,
+      cancel,
+      retryFailed,
       importUsers,
-      exportUsers,
       reset,
     },
     getResultsMessage,
+    getInputError,
   };
 }
\ No newline at end of file
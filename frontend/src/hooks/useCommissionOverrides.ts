@@ -0,0 +1,107 @@
+import { useState, useEffect, useCallback } from 'react';
+import { adminApi } from '@/lib/api/admin';
+import { CommissionOverride, CommissionOverrideRequest, CommissionOverrideScope, User } from '@/lib/api/types';
+import { getErrorInfo } from '@/lib/api/errors';
+import { resolveCommission } from '@/lib/commissions';
+
+interface UseCommissionOverridesState {
+  overrides: CommissionOverride[];
+  globalAmount: number | null;
+  loading: boolean;
+  error: string | null;
+  savingKey: string | null;
+}
+
+// Identifies the user or department an in-flight save belongs to
+export function getOverrideKey(data: {
+  scope: CommissionOverrideScope;
+  user_id?: number | null;
+  department?: string | null;
+}): string {
+  return data.scope === 'user' ? `user:${data.user_id}` : `department:${data.department}`;
+}
+
+export function useCommissionOverrides() {
+  const [state, setState] = useState<UseCommissionOverridesState>({
+    overrides: [],
+    globalAmount: null,
+    loading: true,
+    error: null,
+    savingKey: null,
+  });
+
+  const load = useCallback(async () => {
+    setState(prev => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const [overrides, commission] = await Promise.all([
+        adminApi.getCommissionOverrides(),
+        adminApi.getCommission(),
+      ]);
+
+      setState(prev => ({
+        ...prev,
+        overrides: overrides.data,
+        globalAmount: commission.data ? Number(commission.data.amount) : null,
+        loading: false,
+      }));
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, loading: false, error: errorInfo.message }));
+    }
+  }, []);
+
+  const setOverride = useCallback(async (data: CommissionOverrideRequest) => {
+    setState(prev => ({ ...prev, savingKey: getOverrideKey(data), error: null }));
+
+    try {
+      const response = await adminApi.setCommissionOverride(data);
+      const key = getOverrideKey(response.data);
+      setState(prev => ({
+        ...prev,
+        overrides: [...prev.overrides.filter(override => getOverrideKey(override) !== key), response.data],
+        savingKey: null,
+      }));
+      return response.data;
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, savingKey: null, error: errorInfo.message }));
+      throw error;
+    }
+  }, []);
+
+  const resetToGlobal = useCallback(async (override: CommissionOverride) => {
+    setState(prev => ({ ...prev, savingKey: getOverrideKey(override), error: null }));
+
+    try {
+      await adminApi.deleteCommissionOverride(override.id);
+      setState(prev => ({
+        ...prev,
+        overrides: prev.overrides.filter(item => item.id !== override.id),
+        savingKey: null,
+      }));
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, savingKey: null, error: errorInfo.message }));
+    }
+  }, []);
+
+  const resolve = useCallback(
+    (user: Pick<User, 'id' | 'department'>) => resolveCommission(user, state.overrides, state.globalAmount),
+    [state.overrides, state.globalAmount]
+  );
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return {
+    ...state,
+    actions: {
+      setOverride,
+      resetToGlobal,
+      resolve,
+      refresh: load,
+    },
+  };
+}
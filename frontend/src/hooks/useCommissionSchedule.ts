@@ -0,0 +1,114 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { adminApi } from '@/lib/api/admin';
+import { Commission } from '@/lib/api/types';
+import { getErrorInfo } from '@/lib/api/errors';
+import { buildCommissionTimeline } from '@/lib/commissions';
+
+interface UseCommissionScheduleState {
+  commissions: Commission[];
+  loading: boolean;
+  error: string | null;
+  // Set when only the pending changes failed to load; the rest of the timeline is still shown
+  scheduledError: string | null;
+  scheduling: boolean;
+  cancellingId: number | null;
+}
+
+interface UseCommissionScheduleOptions {
+  historyLimit?: number;
+}
+
+export function useCommissionSchedule({ historyLimit = 50 }: UseCommissionScheduleOptions = {}) {
+  const [state, setState] = useState<UseCommissionScheduleState>({
+    commissions: [],
+    loading: true,
+    error: null,
+    scheduledError: null,
+    scheduling: false,
+    cancellingId: null,
+  });
+
+  const load = useCallback(async () => {
+    setState(prev => ({ ...prev, loading: true, error: null, scheduledError: null }));
+
+    const [current, history, scheduled] = await Promise.allSettled([
+      adminApi.getCommission(),
+      adminApi.getCommissionHistory(1, historyLimit),
+      adminApi.getScheduledCommissions(),
+    ]);
+
+    // The timeline needs the current value and history; pending changes are optional
+    if (current.status === 'rejected' || history.status === 'rejected') {
+      const failed = current.status === 'rejected' ? current : history;
+      const errorInfo = getErrorInfo((failed as PromiseRejectedResult).reason as Error);
+      setState(prev => ({ ...prev, loading: false, error: errorInfo.message }));
+      return;
+    }
+
+    const scheduledCommissions = scheduled.status === 'fulfilled' ? scheduled.value.data : [];
+    const scheduledError = scheduled.status === 'rejected'
+      ? `Pending changes could not be loaded: ${getErrorInfo(scheduled.reason as Error).message}`
+      : null;
+
+    setState(prev => ({
+      ...prev,
+      commissions: [...scheduledCommissions, ...(current.value.data ? [current.value.data] : []), ...history.value.data],
+      loading: false,
+      scheduledError,
+    }));
+  }, [historyLimit]);
+
+  const schedule = useCallback(async (amount: number, effectiveDate: string) => {
+    setState(prev => ({ ...prev, scheduling: true, error: null }));
+
+    try {
+      const response = await adminApi.updateCommission(amount, effectiveDate);
+      setState(prev => ({
+        ...prev,
+        commissions: [response.data, ...prev.commissions],
+        scheduling: false,
+      }));
+      return response.data;
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, scheduling: false, error: errorInfo.message }));
+      throw error;
+    }
+  }, []);
+
+  const cancel = useCallback(async (commissionId: number) => {
+    setState(prev => ({ ...prev, cancellingId: commissionId, error: null }));
+
+    try {
+      await adminApi.cancelScheduledCommission(commissionId);
+      setState(prev => ({
+        ...prev,
+        commissions: prev.commissions.filter(commission => commission.id !== commissionId),
+        cancellingId: null,
+      }));
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, cancellingId: null, error: errorInfo.message }));
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const timeline = useMemo(() => buildCommissionTimeline(state.commissions), [state.commissions]);
+  const currentCommission = timeline.find(entry => entry.status === 'current') ?? null;
+  const pendingCommissions = timeline.filter(entry => entry.status === 'pending');
+
+  return {
+    ...state,
+    timeline,
+    currentCommission,
+    pendingCommissions,
+    actions: {
+      schedule,
+      cancel,
+      refresh: load,
+    },
+  };
+}
@@ -0,0 +1,92 @@
+import { useState, useEffect, useMemo } from 'react';
+import { adminApi } from '@/lib/api/admin';
+import { DigestMessage, SavedViewDigest, UserWithSalary } from '@/lib/api/types';
+import { getErrorInfo } from '@/lib/api/errors';
+import {
+  DIGEST_ROW_LIMIT,
+  ViewQuery,
+  getDigestPeriod,
+  getViewSearchParams,
+  renderDigest,
+} from '@/lib/savedViews';
+
+interface UseDigestPreviewState {
+  users: UserWithSalary[];
+  total: number;
+  loading: boolean;
+  error: string | null;
+}
+
+interface DigestPreviewInput {
+  name: string;
+  view: ViewQuery;
+  columns: string[] | null;
+  digest: SavedViewDigest;
+  lastSentAt: string | null;
+}
+
+/**
+ * What a view's digest would contain if it were sent now. Pass null to skip
+ * loading, e.g. while the editor is closed. The view and schedule should keep
+ * their identity between renders, or the preview reloads each time.
+ */
+export function useDigestPreview(input: DigestPreviewInput | null) {
+  const [state, setState] = useState<UseDigestPreviewState>({
+    users: [],
+    total: 0,
+    loading: false,
+    error: null,
+  });
+
+  // Recipients and names do not change which users are listed, so only these inputs are tracked
+  const view = input?.view ?? null;
+  const digestWindow = input?.digest.window;
+  const schedule = input?.digest.schedule;
+  const lastSentAt = input?.lastSentAt ?? null;
+
+  const period = useMemo(
+    () => digestWindow && schedule ? getDigestPeriod({ window: digestWindow, schedule }, lastSentAt) : null,
+    [digestWindow, schedule, lastSentAt]
+  );
+
+  const params = useMemo(() => view ? getViewSearchParams(view, period) : null, [view, period]);
+
+  useEffect(() => {
+    if (!params) return;
+
+    let cancelled = false;
+    setState(prev => ({ ...prev, loading: true, error: null }));
+
+    adminApi.getUsers({ ...params, page: 1, per_page: DIGEST_ROW_LIMIT })
+      .then(response => {
+        if (cancelled) return;
+        setState({ users: response.data, total: response.pagination.total, loading: false, error: null });
+      })
+      .catch(error => {
+        if (cancelled) return;
+        const errorInfo = getErrorInfo(error as Error);
+        setState(prev => ({ ...prev, users: [], total: 0, loading: false, error: errorInfo.message }));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [params]);
+
+  const message: DigestMessage | null = input && !state.loading && !state.error
+    ? renderDigest({
+        name: input.name || 'Saved view',
+        view: input.view,
+        columns: input.columns,
+        users: state.users,
+        total: state.total,
+        period,
+      })
+    : null;
+
+  return {
+    ...state,
+    period,
+    message,
+  };
+}
@@ -0,0 +1,56 @@
+import { useMemo } from 'react';
+import useSWR from 'swr';
+import { cacheConfig, CACHE_KEYS } from '@/lib/cache';
+import { exchangeRatesApi } from '@/lib/api/exchangeRates';
+import { getErrorInfo } from '@/lib/api/errors';
+import { buildRateTable, getFallbackRateTable, getSupportedCurrencies } from '@/lib/currency';
+
+// Rates change at most daily, so one fetch per session is plenty
+const RATES_DEDUPING_INTERVAL = 10 * 60 * 1000;
+
+export function useExchangeRates() {
+  const { data, error, isLoading } = useSWR(
+    CACHE_KEYS.EXCHANGE_RATES,
+    () => exchangeRatesApi.getLatest(),
+    {
+      ...cacheConfig,
+      revalidateIfStale: false,
+      dedupingInterval: RATES_DEDUPING_INTERVAL,
+    }
+  );
+
+  const liveRates = data?.data;
+  const isFallback = !liveRates?.length;
+  const rates = useMemo(
+    () => (liveRates?.length ? buildRateTable(liveRates) : getFallbackRateTable()),
+    [liveRates]
+  );
+  const currencies = useMemo(() => getSupportedCurrencies(rates), [rates]);
+
+  return {
+    rates,
+    currencies,
+    isFallback,
+    loading: isLoading,
+    error: error ? getErrorInfo(error as Error).message : null,
+  };
+}
+
+export function useExchangeRateHistory(currencyCode: string | null, dateFrom: string) {
+  const code = currencyCode?.toUpperCase() ?? null;
+  const { data, error, isLoading } = useSWR(
+    code && code !== 'EUR' ? CACHE_KEYS.EXCHANGE_RATE_HISTORY(code, dateFrom) : null,
+    () => exchangeRatesApi.getHistory(code!, { date_from: dateFrom }),
+    {
+      ...cacheConfig,
+      revalidateIfStale: false,
+      dedupingInterval: RATES_DEDUPING_INTERVAL,
+    }
+  );
+
+  return {
+    history: data?.data ?? [],
+    loading: isLoading,
+    error: error ? getErrorInfo(error as Error).message : null,
+  };
+}
@@ -0,0 +1,107 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import useSWR from 'swr';
+import { cacheConfig, CACHE_KEYS } from '@/lib/cache';
+import { adminApi, adminUtils } from '@/lib/api/admin';
+import { ApiResponse, ExportFormat, ExportJob, SearchParams } from '@/lib/api/types';
+import { getErrorInfo } from '@/lib/api/errors';
+import { isActiveExportJob, triggerDownload } from '@/lib/exports';
+
+// Poll while any job is queued or processing; stop once they have all settled
+const EXPORT_POLL_INTERVAL = 2000;
+
+interface UseExportJobsState {
+  starting: boolean;
+  deletingId: number | null;
+  actionError: string | null;
+}
+
+export function useExportJobs() {
+  const [state, setState] = useState<UseExportJobsState>({
+    starting: false,
+    deletingId: null,
+    actionError: null,
+  });
+  // Jobs started from this tab download automatically once they are ready
+  const autoDownloadIds = useRef(new Set<number>());
+
+  const { data, error, isLoading, mutate } = useSWR(
+    CACHE_KEYS.EXPORT_JOBS,
+    () => adminApi.getExportJobs(),
+    {
+      ...cacheConfig,
+      refreshInterval: (latest?: ApiResponse<ExportJob[]>) =>
+        latest?.data?.some(isActiveExportJob) ? EXPORT_POLL_INTERVAL : 0,
+    }
+  );
+
+  const jobs = useMemo(() => data?.data ?? [], [data]);
+
+  const download = useCallback((job: ExportJob) => {
+    if (!job.download_url) return;
+    triggerDownload(job.download_url, adminUtils.generateExportFilename('users', job.format));
+  }, []);
+
+  useEffect(() => {
+    jobs.forEach(job => {
+      if (autoDownloadIds.current.has(job.id) && !isActiveExportJob(job)) {
+        autoDownloadIds.current.delete(job.id);
+        if (job.status === 'completed') download(job);
+      }
+    });
+  }, [jobs, download]);
+
+  const startExport = useCallback(async (
+    format: ExportFormat,
+    params: Omit<SearchParams, 'page' | 'per_page'> = {}
+  ) => {
+    setState(prev => ({ ...prev, starting: true, actionError: null }));
+
+    try {
+      const response = await adminApi.exportUsers(format, params);
+      autoDownloadIds.current.add(response.data.id);
+      await mutate(
+        current => current
+          ? { ...current, data: [response.data, ...current.data.filter(job => job.id !== response.data.id)] }
+          : current,
+        { revalidate: true }
+      );
+      setState(prev => ({ ...prev, starting: false }));
+      return response.data;
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, starting: false, actionError: errorInfo.message }));
+      throw error;
+    }
+  }, [mutate]);
+
+  const deleteJob = useCallback(async (jobId: number) => {
+    setState(prev => ({ ...prev, deletingId: jobId, actionError: null }));
+
+    try {
+      await adminApi.deleteExportJob(jobId);
+      autoDownloadIds.current.delete(jobId);
+      await mutate(
+        current => current ? { ...current, data: current.data.filter(job => job.id !== jobId) } : current,
+        { revalidate: false }
+      );
+      setState(prev => ({ ...prev, deletingId: null }));
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, deletingId: null, actionError: errorInfo.message }));
+    }
+  }, [mutate]);
+
+  return {
+    ...state,
+    jobs,
+    activeCount: jobs.filter(isActiveExportJob).length,
+    loading: isLoading,
+    error: error ? getErrorInfo(error as Error).message : null,
+    actions: {
+      startExport,
+      deleteJob,
+      download,
+      refresh: () => mutate(),
+    },
+  };
+}
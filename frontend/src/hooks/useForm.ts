@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 
 interface UseFormOptions<T> {
   initialValues: T;
@@ -12,6 +12,8 @@ export function useForm<T extends Record<string, unknown>>({
   validate
 }: UseFormOptions<T>) {
   const [values, setValues] = useState<T>(initialValues);
+  // Values the form was last loaded or saved with, used for dirty tracking
+  const [baseline, setBaseline] = useState<T>(initialValues);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -48,15 +50,23 @@ export function useForm<T extends Record<string, unknown>>({
     }
   }, [values, validate, onSubmit]);
 
-  const reset = useCallback(() => {
-    setValues(initialValues);
+  const reset = useCallback((nextValues?: T) => {
+    const resetValues = nextValues ?? initialValues;
+    setBaseline(resetValues);
+    setValues(resetValues);
     setErrors({});
   }, [initialValues]);
 
+  const isDirty = useMemo(
+    () => JSON.stringify(values) !== JSON.stringify(baseline),
+    [values, baseline]
+  );
+
   return {
     values,
     errors,
     isSubmitting,
+    isDirty,
     handleChange,
     handleSubmit,
     reset,
@@ -0,0 +1,141 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { adminApi } from '@/lib/api/admin';
+import { SalaryApprovalSettings, SalaryChangeRequest, UpdateSalaryRequest } from '@/lib/api/types';
+import { getErrorInfo } from '@/lib/api/errors';
+import { DEFAULT_APPROVAL_SETTINGS } from '@/lib/approvals';
+
+interface UseSalaryApprovalsState {
+  pendingRequests: SalaryChangeRequest[];
+  settings: SalaryApprovalSettings;
+  loading: boolean;
+  error: string | null;
+  reviewingId: number | null;
+  savingSettings: boolean;
+}
+
+export function useSalaryApprovals() {
+  const [state, setState] = useState<UseSalaryApprovalsState>({
+    pendingRequests: [],
+    settings: DEFAULT_APPROVAL_SETTINGS,
+    loading: true,
+    error: null,
+    reviewingId: null,
+    savingSettings: false,
+  });
+
+  const load = useCallback(async () => {
+    setState(prev => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const [requests, settings] = await Promise.all([
+        adminApi.getSalaryChangeRequests({ status: 'pending' }),
+        adminApi.getSalaryApprovalSettings(),
+      ]);
+
+      setState(prev => ({
+        ...prev,
+        pendingRequests: requests.data,
+        settings: settings.data ?? prev.settings,
+        loading: false,
+      }));
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, loading: false, error: errorInfo.message }));
+    }
+  }, []);
+
+  // Goes through updateSalary so the backend decides whether the change needs a second admin
+  const submitSalaryChange = useCallback(async (userId: number, data: UpdateSalaryRequest) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    try {
+      const response = await adminApi.updateSalary(userId, data);
+
+      if (response.data.status === 'pending_approval') {
+        const changeRequest = response.data.change_request;
+        setState(prev => ({
+          ...prev,
+          pendingRequests: [
+            ...prev.pendingRequests.filter(request => request.id !== changeRequest.id),
+            changeRequest,
+          ],
+        }));
+      }
+
+      return response.data;
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, error: errorInfo.message }));
+      throw error;
+    }
+  }, []);
+
+  const review = useCallback(async (requestId: number, decision: 'approve' | 'reject', reason: string) => {
+    setState(prev => ({ ...prev, reviewingId: requestId, error: null }));
+
+    try {
+      const response = decision === 'approve'
+        ? await adminApi.approveSalaryChangeRequest(requestId, reason)
+        : await adminApi.rejectSalaryChangeRequest(requestId, reason);
+
+      setState(prev => ({
+        ...prev,
+        pendingRequests: prev.pendingRequests.filter(request => request.id !== requestId),
+        reviewingId: null,
+      }));
+      return response.data;
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, reviewingId: null, error: errorInfo.message }));
+      throw error;
+    }
+  }, []);
+
+  const approve = useCallback(
+    (requestId: number, reason: string) => review(requestId, 'approve', reason),
+    [review]
+  );
+
+  const reject = useCallback(
+    (requestId: number, reason: string) => review(requestId, 'reject', reason),
+    [review]
+  );
+
+  const updateSettings = useCallback(async (settings: SalaryApprovalSettings) => {
+    setState(prev => ({ ...prev, savingSettings: true, error: null }));
+
+    try {
+      const response = await adminApi.updateSalaryApprovalSettings(settings);
+      setState(prev => ({ ...prev, settings: response.data, savingSettings: false }));
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, savingSettings: false, error: errorInfo.message }));
+    }
+  }, []);
+
+  const pendingByUser = useMemo(
+    () => new Map(state.pendingRequests.map(request => [request.user_id, request])),
+    [state.pendingRequests]
+  );
+
+  const getPendingForUser = useCallback(
+    (userId: number) => pendingByUser.get(userId) ?? null,
+    [pendingByUser]
+  );
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return {
+    ...state,
+    actions: {
+      submitSalaryChange,
+      approve,
+      reject,
+      updateSettings,
+      getPendingForUser,
+      refresh: load,
+    },
+  };
+}
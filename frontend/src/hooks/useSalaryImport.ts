@@ -0,0 +1,236 @@
+import { useState, useCallback, useMemo } from 'react';
+import { adminApi } from '@/lib/api/admin';
+import { UserWithSalary } from '@/lib/api/types';
+import { getErrorInfo } from '@/lib/api/errors';
+import { parseCsv } from '@/lib/csv';
+import { readXlsxRows } from '@/lib/xlsx';
+import { ColumnMapping, ImportField, buildImportPreview, guessColumnMapping } from '@/lib/salaryImport';
+import { useBulkOperations } from './useBulkOperations';
+
+export type ImportStep = 'upload' | 'map' | 'preview' | 'results';
+
+export type ImportRowStatus = 'created' | 'updated' | 'pending_approval' | 'failed' | 'skipped';
+
+export interface ImportRowResult {
+  rowNumber: number;
+  email: string;
+  status: ImportRowStatus;
+  messages: string[];
+}
+
+interface UseSalaryImportState {
+  step: ImportStep;
+  file: File | null;
+  headers: string[];
+  rows: string[][];
+  mapping: ColumnMapping;
+  existingUsers: UserWithSalary[];
+  parsing: boolean;
+  error: string | null;
+  phase: 'creating' | 'updating' | null;
+  results: ImportRowResult[];
+}
+
+// Existing users are loaded in pages to match rows against; larger directories cannot be matched reliably
+const USER_LOOKUP_PAGE_SIZE = 100;
+const USER_LOOKUP_MAX_PAGES = 50;
+
+const STOPPED_MESSAGE = 'Import was stopped before this row was sent';
+const NOT_SENT_MESSAGE = 'These rows could not be sent';
+const PENDING_APPROVAL_MESSAGE = 'Exceeds the approval threshold; waiting for another admin to review it';
+
+const INITIAL_STATE: UseSalaryImportState = {
+  step: 'upload',
+  file: null,
+  headers: [],
+  rows: [],
+  mapping: [],
+  existingUsers: [],
+  parsing: false,
+  error: null,
+  phase: null,
+  results: [],
+};
+
+async function readSpreadsheet(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    return readXlsxRows(await file.arrayBuffer());
+  }
+  if (/\.(csv|txt)$/i.test(file.name) || file.type === 'text/csv') {
+    return parseCsv(await file.text());
+  }
+  throw new Error('Only CSV and XLSX files can be imported');
+}
+
+export function useSalaryImport(supportedCurrencies: string[] = []) {
+  const [state, setState] = useState<UseSalaryImportState>(INITIAL_STATE);
+  const bulkOps = useBulkOperations();
+  const { getInputError } = bulkOps;
+
+  const selectFile = useCallback(async (file: File) => {
+    setState(prev => ({ ...prev, file, parsing: true, error: null }));
+
+    try {
+      // Existing users are matched by email to decide between create and update
+      const [table, existing] = await Promise.all([
+        readSpreadsheet(file),
+        adminApi.getAllUsers({}, USER_LOOKUP_PAGE_SIZE, USER_LOOKUP_MAX_PAGES),
+      ]);
+
+      if (table.length < 2) {
+        throw new Error('The file needs a header row and at least one data row');
+      }
+      // Unloaded users would be previewed as new ones, so refuse rather than show a wrong diff
+      if (existing.users.length < existing.total) {
+        throw new Error(
+          `Only ${existing.users.length} of ${existing.total} existing users could be loaded, so rows cannot be matched to existing employees reliably`
+        );
+      }
+
+      const [headers, ...rows] = table;
+      setState(prev => ({
+        ...prev,
+        headers,
+        rows,
+        mapping: guessColumnMapping(headers),
+        existingUsers: existing.users,
+        parsing: false,
+        step: 'map',
+      }));
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, parsing: false, error: errorInfo.message }));
+    }
+  }, []);
+
+  const setColumnField = useCallback((columnIndex: number, field: ImportField | null) => {
+    setState(prev => ({
+      ...prev,
+      // A field maps to one column at most, so clear it from any other column
+      mapping: prev.mapping.map((current, index) => {
+        if (index === columnIndex) return field;
+        return field !== null && current === field ? null : current;
+      }),
+    }));
+  }, []);
+
+  const goToStep = useCallback((step: ImportStep) => {
+    setState(prev => ({ ...prev, step }));
+  }, []);
+
+  const preview = useMemo(
+    () => buildImportPreview(state.rows, state.mapping, state.existingUsers, supportedCurrencies),
+    [state.rows, state.mapping, state.existingUsers, supportedCurrencies]
+  );
+
+  const submit = useCallback(async () => {
+    const creates = preview.filter(row => row.action === 'create');
+    const updates = preview.filter(row => row.action === 'update');
+    const results = new Map<number, ImportRowResult>();
+
+    setState(prev => ({ ...prev, step: 'results', error: null, results: [] }));
+
+    // No outcome means the bulk operation refused the rows before sending any of them
+    const markNotSent = (rows: typeof preview) => {
+      const message = getInputError() ?? NOT_SENT_MESSAGE;
+      rows.forEach(row => results.set(row.rowNumber, {
+        rowNumber: row.rowNumber,
+        email: row.email,
+        status: 'failed',
+        messages: [message],
+      }));
+    };
+
+    try {
+      if (creates.length > 0) {
+        setState(prev => ({ ...prev, phase: 'creating' }));
+        const outcome = await bulkOps.actions.bulkCreateUsers(creates.map(row => row.create!));
+        if (!outcome) {
+          markNotSent(creates);
+        } else {
+          const failedByIndex = new Map(outcome.errors.map(error => [error.id, error.message]));
+          const sent = creates.length - outcome.skipped;
+
+          creates.forEach((row, index) => {
+            const message = failedByIndex.get(index);
+            results.set(row.rowNumber, {
+              rowNumber: row.rowNumber,
+              email: row.email,
+              status: index >= sent ? 'skipped' : message ? 'failed' : 'created',
+              messages: index >= sent ? [STOPPED_MESSAGE] : message ? message.split('; ') : [],
+            });
+          });
+        }
+      }
+
+      const cancelled = Array.from(results.values()).some(result => result.status === 'skipped');
+
+      if (updates.length > 0 && !cancelled) {
+        setState(prev => ({ ...prev, phase: 'updating' }));
+        const outcome = await bulkOps.actions.bulkUpdateSalaries(updates.map(row => row.update!));
+        if (!outcome) {
+          markNotSent(updates);
+        } else {
+          const failedById = new Map(outcome.errors.map(error => [error.id, error.message]));
+          const pendingUserIds = new Set(outcome.pending_approval?.map(request => request.user_id) ?? []);
+          const sent = updates.length - outcome.skipped;
+
+          updates.forEach((row, index) => {
+            const userId = row.update!.user_id;
+            const message = failedById.get(userId);
+            const pending = pendingUserIds.has(userId);
+            results.set(row.rowNumber, {
+              rowNumber: row.rowNumber,
+              email: row.email,
+              status: index >= sent ? 'skipped' : message ? 'failed' : pending ? 'pending_approval' : 'updated',
+              messages: index >= sent
+                ? [STOPPED_MESSAGE]
+                : message
+                  ? message.split('; ')
+                  : pending ? [PENDING_APPROVAL_MESSAGE] : [],
+            });
+          });
+        }
+      } else {
+        updates.forEach(row => results.set(row.rowNumber, {
+          rowNumber: row.rowNumber,
+          email: row.email,
+          status: 'skipped',
+          messages: [STOPPED_MESSAGE],
+        }));
+      }
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, error: errorInfo.message }));
+    }
+
+    setState(prev => ({
+      ...prev,
+      phase: null,
+      results: Array.from(results.values()).sort((a, b) => a.rowNumber - b.rowNumber),
+    }));
+  }, [preview, bulkOps.actions, getInputError]);
+
+  const reset = useCallback(() => {
+    bulkOps.actions.reset();
+    setState(INITIAL_STATE);
+  }, [bulkOps.actions]);
+
+  return {
+    ...state,
+    preview,
+    progress: bulkOps.progress,
+    processed: bulkOps.processed,
+    total: bulkOps.total,
+    isProcessing: bulkOps.isProcessing,
+    cancelling: bulkOps.cancelling,
+    actions: {
+      selectFile,
+      setColumnField,
+      goToStep,
+      submit,
+      cancel: bulkOps.actions.cancel,
+      reset,
+    },
+  };
+}
@@ -0,0 +1,158 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { adminApi } from '@/lib/api/admin';
+import { SearchParams, UserWithSalary } from '@/lib/api/types';
+import { getErrorInfo } from '@/lib/api/errors';
+import { resolveCommission } from '@/lib/commissions';
+import {
+  SimulationRule,
+  SimulationRuleInput,
+  runSimulation,
+  toBulkSalaryUpdates,
+  toCommissionOverrides,
+} from '@/lib/salarySimulator';
+import { useCommissionOverrides } from './useCommissionOverrides';
+
+type SimulatorQuery = Omit<SearchParams, 'page' | 'per_page'>;
+
+interface SubmitResult {
+  updated: number;
+  commissions: number;
+  // Salary changes above the approval threshold, waiting for a second admin
+  pendingApproval: number;
+  failed: number;
+}
+
+interface UseSalarySimulatorState {
+  users: UserWithSalary[];
+  totalMatching: number;
+  loading: boolean;
+  error: string | null;
+  submitting: boolean;
+  submitResult: SubmitResult | null;
+}
+
+export function useSalarySimulator(query: SimulatorQuery) {
+  const [state, setState] = useState<UseSalarySimulatorState>({
+    users: [],
+    totalMatching: 0,
+    loading: true,
+    error: null,
+    submitting: false,
+    submitResult: null,
+  });
+  const [rules, setRules] = useState<SimulationRule[]>([]);
+  const commissionOverrides = useCommissionOverrides();
+  const { overrides, globalAmount, actions: { setOverride, refresh: refreshOverrides } } = commissionOverrides;
+
+  // Stable key so the effect only reruns when the filters actually change
+  const queryKey = JSON.stringify(query);
+
+  const loadUsers = useCallback(async () => {
+    const activeQuery: SimulatorQuery = JSON.parse(queryKey);
+    setState(prev => ({ ...prev, loading: true, error: null }));
+
+    try {
+      // The simulator works on the whole filtered set, not just the visible page
+      const { users, total } = await adminApi.getAllUsers(activeQuery);
+
+      setState(prev => ({ ...prev, users, totalMatching: total, loading: false }));
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, users: [], loading: false, error: errorInfo.message }));
+    }
+  }, [queryKey]);
+
+  const addRule = useCallback((rule: SimulationRuleInput) => {
+    const id = `rule_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    setRules(prev => [...prev, { ...rule, id } as SimulationRule]);
+    setState(prev => ({ ...prev, submitResult: null }));
+  }, []);
+
+  const removeRule = useCallback((ruleId: string) => {
+    setRules(prev => prev.filter(rule => rule.id !== ruleId));
+    setState(prev => ({ ...prev, submitResult: null }));
+  }, []);
+
+  const moveRule = useCallback((ruleId: string, direction: -1 | 1) => {
+    setRules(prev => {
+      const index = prev.findIndex(rule => rule.id === ruleId);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  const clearRules = useCallback(() => {
+    setRules([]);
+    setState(prev => ({ ...prev, submitResult: null }));
+  }, []);
+
+  const result = useMemo(
+    () => runSimulation(state.users, rules, user => resolveCommission(user, overrides, globalAmount).amount),
+    [state.users, rules, overrides, globalAmount]
+  );
+
+  const submit = useCallback(async () => {
+    const updates = toBulkSalaryUpdates(result.rows);
+    const commissionUpdates = toCommissionOverrides(result.rows);
+    if (updates.length === 0 && commissionUpdates.length === 0) return;
+
+    setState(prev => ({ ...prev, submitting: true, error: null, submitResult: null }));
+
+    try {
+      const response = updates.length > 0 ? await adminApi.bulkUpdateSalaries(updates) : null;
+      const submitResult: SubmitResult = {
+        updated: response ? response.data?.updated ?? updates.length : 0,
+        commissions: 0,
+        pendingApproval: response?.data?.pending_approval?.length ?? 0,
+        failed: response?.data?.failed ?? 0,
+      };
+
+      // Effective commission is resolved from overrides, so new amounts are saved as user overrides
+      for (const commissionUpdate of commissionUpdates) {
+        try {
+          await setOverride(commissionUpdate);
+          submitResult.commissions++;
+        } catch {
+          submitResult.failed++;
+        }
+      }
+
+      setState(prev => ({ ...prev, submitting: false, submitResult }));
+      setRules([]);
+      await loadUsers();
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, submitting: false, error: errorInfo.message }));
+    }
+  }, [result.rows, loadUsers, setOverride]);
+
+  const refresh = useCallback(() => {
+    loadUsers();
+    refreshOverrides();
+  }, [loadUsers, refreshOverrides]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  return {
+    ...state,
+    loading: state.loading || commissionOverrides.loading,
+    error: state.error ?? commissionOverrides.error,
+    rules,
+    result,
+    isTruncated: state.users.length < state.totalMatching,
+    actions: {
+      addRule,
+      removeRule,
+      moveRule,
+      clearRules,
+      submit,
+      refresh,
+    },
+  };
+}
@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback } from 'react';
+import { adminApi } from '@/lib/api/admin';
+import { ActivityItem, SalaryStats, StatsPeriod } from '@/lib/api/types';
+import { getErrorInfo } from '@/lib/api/errors';
+
+interface UseSalaryStatsState {
+  period: StatsPeriod;
+  stats: SalaryStats | null;
+  loading: boolean;
+  error: string | null;
+  activities: ActivityItem[];
+  activitiesLoading: boolean;
+  activitiesError: string | null;
+}
+
+interface UseSalaryStatsOptions {
+  initialPeriod?: StatsPeriod;
+  activityLimit?: number;
+}
+
+export function useSalaryStats({ initialPeriod = 'month', activityLimit = 10 }: UseSalaryStatsOptions = {}) {
+  const [state, setState] = useState<UseSalaryStatsState>({
+    period: initialPeriod,
+    stats: null,
+    loading: true,
+    error: null,
+    activities: [],
+    activitiesLoading: true,
+    activitiesError: null,
+  });
+
+  const loadStats = useCallback(async (period: StatsPeriod, useCache: boolean = true) => {
+    setState(prev => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const response = await adminApi.getSalaryStats(period, useCache);
+      setState(prev => {
+        // Ignore responses for a period the user has already moved away from
+        if (prev.period !== period) return prev;
+        return { ...prev, stats: response.data, loading: false };
+      });
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => (prev.period !== period ? prev : { ...prev, loading: false, error: errorInfo.message }));
+    }
+  }, []);
+
+  const loadActivities = useCallback(async (useCache: boolean = true) => {
+    setState(prev => ({ ...prev, activitiesLoading: true, activitiesError: null }));
+
+    try {
+      const response = await adminApi.getRecentActivities(activityLimit, useCache);
+      setState(prev => ({ ...prev, activities: response.data, activitiesLoading: false }));
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, activitiesLoading: false, activitiesError: errorInfo.message }));
+    }
+  }, [activityLimit]);
+
+  const changePeriod = useCallback((period: StatsPeriod) => {
+    setState(prev => ({ ...prev, period }));
+    loadStats(period);
+  }, [loadStats]);
+
+  const refresh = useCallback(() => {
+    loadStats(state.period, false);
+    loadActivities(false);
+  }, [loadStats, loadActivities, state.period]);
+
+  useEffect(() => {
+    loadStats(initialPeriod);
+    loadActivities();
+  }, [loadStats, loadActivities, initialPeriod]);
+
+  return {
+    ...state,
+    actions: {
+      changePeriod,
+      refresh,
+    },
+  };
+}
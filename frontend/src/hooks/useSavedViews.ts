@@ -0,0 +1,151 @@
+import { useState, useCallback, useMemo } from 'react';
+import useSWR from 'swr';
+import { cacheConfig, CacheManager, CACHE_KEYS } from '@/lib/cache';
+import { adminApi } from '@/lib/api/admin';
+import { DigestMessage, SavedView, SavedViewDigest, SavedViewRequest } from '@/lib/api/types';
+import { getErrorInfo } from '@/lib/api/errors';
+import { getDigestNotifier } from '@/lib/digestNotifiers';
+
+interface UseSavedViewsState {
+  saving: boolean;
+  sendingId: number | null;
+  deletingId: number | null;
+  actionError: string | null;
+}
+
+export interface SavedViewInput {
+  name: string;
+  /** Preset to build on; a private preset is created from search and filters when omitted */
+  presetId?: number;
+  search: string;
+  filters: Record<string, string>;
+  sort_by: string | null;
+  sort_direction: 'asc' | 'desc';
+  columns: string[] | null;
+  digest: SavedViewDigest | null;
+}
+
+export function useSavedViews() {
+  const [state, setState] = useState<UseSavedViewsState>({
+    saving: false,
+    sendingId: null,
+    deletingId: null,
+    actionError: null,
+  });
+
+  const { data, error, isLoading, mutate } = useSWR(
+    CACHE_KEYS.SAVED_VIEWS,
+    () => adminApi.getSavedViews(),
+    cacheConfig
+  );
+
+  const views = useMemo(() => data?.data ?? [], [data]);
+
+  const upsertView = useCallback((view: SavedView) => {
+    return mutate(
+      current => current
+        ? { ...current, data: [view, ...current.data.filter(existing => existing.id !== view.id)] }
+        : current,
+      { revalidate: false }
+    );
+  }, [mutate]);
+
+  const createView = useCallback(async (input: SavedViewInput) => {
+    setState(prev => ({ ...prev, saving: true, actionError: null }));
+
+    try {
+      let presetId = input.presetId;
+      if (presetId === undefined) {
+        const preset = await adminApi.createSearchPreset({
+          name: input.name,
+          search: input.search,
+          filters: input.filters,
+          visibility: 'private',
+        });
+        presetId = preset.data.id;
+        await CacheManager.invalidate(CACHE_KEYS.SEARCH_PRESETS);
+      }
+
+      const request: SavedViewRequest = {
+        name: input.name,
+        preset_id: presetId,
+        sort_by: input.sort_by,
+        sort_direction: input.sort_direction,
+        columns: input.columns,
+        digest: input.digest,
+      };
+      const response = await adminApi.createSavedView(request);
+      await upsertView(response.data);
+      setState(prev => ({ ...prev, saving: false }));
+      return response.data;
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, saving: false, actionError: errorInfo.message }));
+      throw error;
+    }
+  }, [upsertView]);
+
+  const updateView = useCallback(async (viewId: number, updates: Partial<SavedViewRequest>) => {
+    setState(prev => ({ ...prev, saving: true, actionError: null }));
+
+    try {
+      const response = await adminApi.updateSavedView(viewId, updates);
+      await upsertView(response.data);
+      setState(prev => ({ ...prev, saving: false }));
+      return response.data;
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, saving: false, actionError: errorInfo.message }));
+      throw error;
+    }
+  }, [upsertView]);
+
+  const deleteView = useCallback(async (viewId: number) => {
+    setState(prev => ({ ...prev, deletingId: viewId, actionError: null }));
+
+    try {
+      await adminApi.deleteSavedView(viewId);
+      await mutate(
+        current => current ? { ...current, data: current.data.filter(view => view.id !== viewId) } : current,
+        { revalidate: false }
+      );
+      setState(prev => ({ ...prev, deletingId: null }));
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, deletingId: null, actionError: errorInfo.message }));
+    }
+  }, [mutate]);
+
+  // Send a saved view's digest now, outside its schedule, through the configured notifier
+  const sendDigest = useCallback(async (view: SavedView, message: DigestMessage) => {
+    setState(prev => ({ ...prev, sendingId: view.id, actionError: null }));
+
+    try {
+      await getDigestNotifier().send({ viewId: view.id, message, recipients: view.digest?.recipients ?? [] });
+      setState(prev => ({ ...prev, sendingId: null }));
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, sendingId: null, actionError: errorInfo.message }));
+      throw error;
+    }
+  }, []);
+
+  const clearError = useCallback(() => {
+    setState(prev => ({ ...prev, actionError: null }));
+  }, []);
+
+  return {
+    ...state,
+    views,
+    loading: isLoading,
+    error: error ? getErrorInfo(error as Error).message : null,
+    actions: {
+      createView,
+      updateView,
+      deleteView,
+      sendDigest,
+      clearError,
+      refresh: () => mutate(),
+    },
+  };
+}
@@ -1,4 +1,5 @@
 import { useState, useCallback, useEffect } from 'react';
+import { buildUsersQuery, formatQueryValue, removeQueryField } from '@/lib/searchQuery';
 
 interface SearchHistoryOptions {
   maxHistory?: number;
@@ -156,32 +157,10 @@ export function useAdvancedSearch(
   
   const history = useSearchHistory(options);
 
-  // Parse search query to extract filters
+  // Parse search query into free text and filter_by entries
   const parseQuery = useCallback((searchQuery: string) => {
-    const extractedFilters: Record<string, any> = {};
-    let textQuery = searchQuery;
-
-    // Common filter patterns
-    const filterPatterns = [
-      { key: 'name', pattern: /name:([^\s]+)/gi },
-      { key: 'email', pattern: /email:([^\s]+)/gi },
-      { key: 'salary', pattern: /salary:([^\s]+)/gi },
-      { key: 'department', pattern: /dept:([^\s]+)/gi },
-      { key: 'created', pattern: /created:([^\s]+)/gi },
-    ];
-
-    filterPatterns.forEach(({ key, pattern }) => {
-      const matches = searchQuery.match(pattern);
-      if (matches) {
-        matches.forEach(match => {
-          const value = match.split(':')[1];
-          extractedFilters[key] = value;
-          textQuery = textQuery.replace(match, '').trim();
-        });
-      }
-    });
-
-    return { textQuery, filters: extractedFilters };
+    const { search, filter_by, errors } = buildUsersQuery(searchQuery);
+    return { textQuery: search ?? '', filters: filter_by ?? {}, errors };
   }, []);
 
   // Execute search with debouncing
@@ -214,23 +193,12 @@ export function useAdvancedSearch(
 
   const addFilter = useCallback((key: string, value: any) => {
     const filterPrefix = key === 'department' ? 'dept:' : `${key}:`;
-    const filterString = `${filterPrefix}${value}`;
-    
-    setQuery(prev => {
-      const existing = prev.includes(filterPrefix);
-      if (existing) {
-        // Replace existing filter
-        return prev.replace(new RegExp(`${filterPrefix}[^\\s]+`, 'g'), filterString);
-      } else {
-        // Add new filter
-        return `${prev} ${filterString}`.trim();
-      }
-    });
+    // Replaces any existing filter on the same field
+    setQuery(prev => `${removeQueryField(prev, key)} ${filterPrefix}${formatQueryValue(String(value))}`.trim());
   }, []);
 
   const removeFilter = useCallback((key: string) => {
-    const filterPrefix = key === 'department' ? 'dept:' : `${key}:`;
-    setQuery(prev => prev.replace(new RegExp(`${filterPrefix}[^\\s]+`, 'g'), '').trim());
+    setQuery(prev => removeQueryField(prev, key));
   }, []);
 
   return {
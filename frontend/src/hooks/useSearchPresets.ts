@@ -1,116 +1,280 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import useSWR from 'swr';
+import { cacheConfig, CACHE_KEYS, LocalStorageCache } from '@/lib/cache';
+import { adminApi } from '@/lib/api/admin';
+import { PresetVisibility, SearchPresetImport, ServerSearchPreset } from '@/lib/api/types';
+import { getErrorInfo } from '@/lib/api/errors';
+import { useAuthContext } from '@/components/AuthProvider';
 
 export interface SearchPreset {
+  id: number;
+  name: string;
+  description?: string;
+  search: string;
+  filters: Record<string, string>;
+  createdAt: string;
+  lastUsed?: string;
+  useCount: number;
+  visibility: PresetVisibility;
+  ownerId: number;
+  ownerName?: string;
+  pinned: boolean;
+  /** Only the owner can edit or delete a preset */
+  canEdit: boolean;
+}
+
+// Shape of presets saved in the browser before they were stored server-side
+interface LocalSearchPreset {
   id: string;
   name: string;
   description?: string;
   search: string;
-  filters: Record<string, any>;
+  filters: Record<string, unknown>;
   createdAt: string;
   lastUsed?: string;
   useCount: number;
 }
 
 interface UseSearchPresetsOptions {
+  /** localStorage key of presets saved before they were stored server-side */
   storageKey?: string;
-  maxPresets?: number;
 }
 
-export function useSearchPresets(options: UseSearchPresetsOptions = {}) {
-  const {
-    storageKey = 'search_presets',
-    maxPresets = 20,
-  } = options;
+interface UseSearchPresetsState {
+  saving: boolean;
+  actionError: string | null;
+}
 
-  const [presets, setPresets] = useState<SearchPreset[]>([]);
+export const PRESET_VISIBILITY_LABELS: Record<PresetVisibility, string> = {
+  private: 'Private',
+  team: 'Team',
+  global: 'Everyone',
+};
 
-  // Load presets from localStorage on mount
-  useEffect(() => {
+// Both the admin page and the presets bar mount this hook, so share one migration per user
+const migrations = new Map<number, Promise<void>>();
+
+const getMigrationKey = (userId: number) => `search_presets_migrated_${userId}`;
+
+function toFilterValues(filters: Record<string, unknown>): Record<string, string> {
+  return Object.entries(filters).reduce((acc, [key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      acc[key] = String(value);
+    }
+    return acc;
+  }, {} as Record<string, string>);
+}
+
+function isLocalPreset(value: unknown): value is LocalSearchPreset {
+  const preset = value as LocalSearchPreset;
+  return Boolean(preset && preset.name && preset.search !== undefined && preset.filters);
+}
+
+function toImport(preset: LocalSearchPreset): SearchPresetImport {
+  return {
+    name: preset.name,
+    description: preset.description ?? null,
+    search: preset.search,
+    filters: toFilterValues(preset.filters),
+    visibility: 'private',
+    use_count: preset.useCount ?? 0,
+    last_used_at: preset.lastUsed ?? null,
+    created_at: preset.createdAt ?? new Date().toISOString(),
+  };
+}
+
+function toPreset(preset: ServerSearchPreset, userId: number | undefined): SearchPreset {
+  return {
+    id: preset.id,
+    name: preset.name,
+    description: preset.description ?? undefined,
+    search: preset.search,
+    filters: preset.filters,
+    createdAt: preset.created_at,
+    lastUsed: preset.last_used_at ?? undefined,
+    useCount: preset.use_count,
+    visibility: preset.visibility,
+    ownerId: preset.owner_id,
+    ownerName: preset.owner?.name,
+    pinned: preset.pinned,
+    canEdit: preset.owner_id === userId,
+  };
+}
+
+function readFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(new Error('Failed to read file'));
+    reader.readAsText(file);
+  });
+}
+
+/**
+ * Upload presets left in this browser as the user's private presets, keeping
+ * their usage counts. Runs once per user; the local copy is removed afterwards.
+ */
+function migrateLocalPresets(userId: number, storageKey: string): Promise<void> {
+  const pending = migrations.get(userId);
+  if (pending) return pending;
+
+  const migration = (async () => {
+    if (LocalStorageCache.get<boolean>(getMigrationKey(userId))) return;
+
+    let stored: unknown = null;
     try {
-      const stored = localStorage.getItem(storageKey);
-      if (stored) {
-        const parsedPresets = JSON.parse(stored);
-        if (Array.isArray(parsedPresets)) {
-          setPresets(parsedPresets.slice(0, maxPresets));
-        }
-      }
+      stored = JSON.parse(localStorage.getItem(storageKey) ?? 'null');
     } catch (error) {
-      console.warn('Failed to load search presets:', error);
+      console.warn('Failed to read local search presets:', error);
+    }
+
+    const localPresets = Array.isArray(stored) ? stored.filter(isLocalPreset) : [];
+    if (localPresets.length > 0) {
+      await adminApi.importSearchPresets(localPresets.map(toImport));
     }
-  }, [storageKey, maxPresets]);
 
-  // Save presets to localStorage
-  const saveToStorage = useCallback((newPresets: SearchPreset[]) => {
+    LocalStorageCache.set(getMigrationKey(userId), true);
+    localStorage.removeItem(storageKey);
+  })();
+
+  migrations.set(userId, migration);
+  // Allow a retry on the next mount if the upload failed
+  migration.catch(() => migrations.delete(userId));
+  return migration;
+}
+
+export function useSearchPresets(options: UseSearchPresetsOptions = {}) {
+  const { storageKey = 'search_presets' } = options;
+  const { user } = useAuthContext();
+  const userId = user?.id;
+
+  const [state, setState] = useState<UseSearchPresetsState>({
+    saving: false,
+    actionError: null,
+  });
+
+  const { data, error, isLoading, mutate } = useSWR(
+    userId ? CACHE_KEYS.SEARCH_PRESETS : null,
+    () => adminApi.getSearchPresets(),
+    cacheConfig
+  );
+
+  // Move presets saved in this browser to the server on first login
+  useEffect(() => {
+    if (!userId) return;
+
+    migrateLocalPresets(userId, storageKey)
+      .then(() => mutate())
+      .catch(migrationError => {
+        const errorInfo = getErrorInfo(migrationError as Error);
+        setState(prev => ({ ...prev, actionError: `Failed to upload local presets: ${errorInfo.message}` }));
+      });
+  }, [userId, storageKey, mutate]);
+
+  const presets = useMemo(
+    () => (data?.data ?? []).map(preset => toPreset(preset, userId)),
+    [data, userId]
+  );
+
+  const replacePreset = useCallback((preset: ServerSearchPreset) => {
+    return mutate(
+      current => current
+        ? { ...current, data: current.data.map(existing => existing.id === preset.id ? preset : existing) }
+        : current,
+      { revalidate: false }
+    );
+  }, [mutate]);
+
+  const runAction = useCallback(async <T,>(action: () => Promise<T>) => {
+    setState(prev => ({ ...prev, saving: true, actionError: null }));
+
     try {
-      localStorage.setItem(storageKey, JSON.stringify(newPresets));
-    } catch (error) {
-      console.warn('Failed to save search presets:', error);
+      const result = await action();
+      setState(prev => ({ ...prev, saving: false }));
+      return result;
+    } catch (actionError) {
+      const errorInfo = getErrorInfo(actionError as Error);
+      setState(prev => ({ ...prev, saving: false, actionError: errorInfo.message }));
+      throw actionError;
     }
-  }, [storageKey]);
+  }, []);
 
   // Create a new preset
   const createPreset = useCallback((
     name: string,
     search: string,
-    filters: Record<string, any>,
-    description?: string
-  ): SearchPreset => {
-    const preset: SearchPreset = {
-      id: `preset_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    filters: Record<string, unknown>,
+    description?: string,
+    visibility: PresetVisibility = 'private'
+  ) => runAction(async () => {
+    const response = await adminApi.createSearchPreset({
       name,
-      description,
+      description: description ?? null,
       search,
-      filters,
-      createdAt: new Date().toISOString(),
-      useCount: 0,
-    };
-
-    setPresets(prev => {
-      const newPresets = [preset, ...prev].slice(0, maxPresets);
-      saveToStorage(newPresets);
-      return newPresets;
+      filters: toFilterValues(filters),
+      visibility,
     });
-
-    return preset;
-  }, [maxPresets, saveToStorage]);
+    await mutate(
+      current => current ? { ...current, data: [response.data, ...current.data] } : current,
+      { revalidate: false }
+    );
+    return toPreset(response.data, userId);
+  }), [runAction, mutate, userId]);
 
   // Update an existing preset
   const updatePreset = useCallback((
-    id: string,
-    updates: Partial<Omit<SearchPreset, 'id' | 'createdAt'>>
-  ) => {
-    setPresets(prev => {
-      const newPresets = prev.map(preset =>
-        preset.id === id
-          ? { ...preset, ...updates }
-          : preset
-      );
-      saveToStorage(newPresets);
-      return newPresets;
-    });
-  }, [saveToStorage]);
+    id: number,
+    updates: Partial<Pick<SearchPreset, 'name' | 'description' | 'search' | 'filters' | 'visibility' | 'pinned'>>
+  ) => runAction(async () => {
+    const response = await adminApi.updateSearchPreset(id, updates);
+    await replacePreset(response.data);
+    return toPreset(response.data, userId);
+  }), [runAction, replacePreset, userId]);
+
+  // Pin or unpin a shared preset for everyone who can see it
+  const togglePin = useCallback((id: number) => {
+    const preset = presets.find(p => p.id === id);
+    if (!preset || preset.visibility === 'private') return Promise.resolve(null);
+    return updatePreset(id, { pinned: !preset.pinned });
+  }, [presets, updatePreset]);
 
   // Delete a preset
-  const deletePreset = useCallback((id: string) => {
-    setPresets(prev => {
-      const newPresets = prev.filter(preset => preset.id !== id);
-      saveToStorage(newPresets);
-      return newPresets;
-    });
-  }, [saveToStorage]);
+  const deletePreset = useCallback((id: number) => runAction(async () => {
+    await adminApi.deleteSearchPreset(id);
+    await mutate(
+      current => current ? { ...current, data: current.data.filter(preset => preset.id !== id) } : current,
+      { revalidate: false }
+    );
+  }), [runAction, mutate]);
 
   // Use a preset (increment use count and update last used)
-  const usePreset = useCallback((id: string) => {
+  const usePreset = useCallback((id: number) => {
     const preset = presets.find(p => p.id === id);
     if (!preset) return null;
 
-    updatePreset(id, {
-      useCount: preset.useCount + 1,
-      lastUsed: new Date().toISOString(),
-    });
+    // Count the use straight away; the server response replaces the optimistic copy
+    mutate(
+      current => current
+        ? {
+            ...current,
+            data: current.data.map(existing => existing.id === id
+              ? { ...existing, use_count: existing.use_count + 1, last_used_at: new Date().toISOString() }
+              : existing),
+          }
+        : current,
+      { revalidate: false }
+    );
+    adminApi.recordSearchPresetUse(id)
+      .then(response => replacePreset(response.data))
+      .catch(useError => console.warn('Failed to record search preset use:', useError));
 
     return preset;
-  }, [presets, updatePreset]);
+  }, [presets, mutate, replacePreset]);
+
+  // Get pinned presets (shared presets pinned for the whole team)
+  const getPinnedPresets = useCallback(() => {
+    return presets.filter(preset => preset.pinned);
+  }, [presets]);
 
   // Get popular presets (sorted by use count)
   const getPopularPresets = useCallback((limit: number = 5) => {
@@ -130,7 +294,7 @@ export function useSearchPresets(options: UseSearchPresetsOptions = {}) {
       .slice(0, limit);
   }, [presets]);
 
-  // Search presets by name or description
+  // Search presets by name, description or owner
   const searchPresets = useCallback((query: string) => {
     if (!query.trim()) return presets;
 
@@ -138,26 +302,24 @@ export function useSearchPresets(options: UseSearchPresetsOptions = {}) {
     return presets.filter(preset =>
       preset.name.toLowerCase().includes(lowerQuery) ||
       preset.description?.toLowerCase().includes(lowerQuery) ||
-      preset.search.toLowerCase().includes(lowerQuery)
+      preset.search.toLowerCase().includes(lowerQuery) ||
+      preset.ownerName?.toLowerCase().includes(lowerQuery)
     );
   }, [presets]);
 
-  // Clear all presets
-  const clearPresets = useCallback(() => {
-    setPresets([]);
-    try {
-      localStorage.removeItem(storageKey);
-    } catch (error) {
-      console.warn('Failed to clear search presets:', error);
-    }
-  }, [storageKey]);
+  // Clear all presets owned by the current user; shared presets of others are kept
+  const clearPresets = useCallback(() => runAction(async () => {
+    const ownPresets = presets.filter(preset => preset.canEdit);
+    await Promise.all(ownPresets.map(preset => adminApi.deleteSearchPreset(preset.id)));
+    await mutate();
+  }), [runAction, presets, mutate]);
 
   // Export presets as JSON
   const exportPresets = useCallback(() => {
     const dataStr = JSON.stringify(presets, null, 2);
     const dataBlob = new Blob([dataStr], { type: 'application/json' });
     const url = URL.createObjectURL(dataBlob);
-    
+
     const link = document.createElement('a');
     link.href = url;
     link.download = `search_presets_${new Date().toISOString().split('T')[0]}.json`;
@@ -167,56 +329,48 @@ export function useSearchPresets(options: UseSearchPresetsOptions = {}) {
     URL.revokeObjectURL(url);
   }, [presets]);
 
-  // Import presets from JSON
-  const importPresets = useCallback((file: File) => {
-    return new Promise<number>((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = (e) => {
-        try {
-          const importedPresets = JSON.parse(e.target?.result as string);
-          
-          if (!Array.isArray(importedPresets)) {
-            reject(new Error('Invalid file format'));
-            return;
-          }
+  // Import presets from JSON as private presets of the current user
+  const importPresets = useCallback(async (file: File) => {
+    let importedPresets: unknown;
+    try {
+      importedPresets = JSON.parse(await readFile(file));
+    } catch {
+      throw new Error('Failed to parse file');
+    }
 
-          // Validate preset structure
-          const validPresets = importedPresets.filter(preset =>
-            preset.id && preset.name && preset.search !== undefined && preset.filters
-          );
+    if (!Array.isArray(importedPresets)) {
+      throw new Error('Invalid file format');
+    }
 
-          if (validPresets.length === 0) {
-            reject(new Error('No valid presets found'));
-            return;
-          }
+    const validPresets = importedPresets.filter(isLocalPreset);
+    if (validPresets.length === 0) {
+      throw new Error('No valid presets found');
+    }
 
-          // Merge with existing presets (avoid duplicates by name)
-          setPresets(prev => {
-            const existingNames = new Set(prev.map(p => p.name));
-            const newPresets = validPresets.filter(p => !existingNames.has(p.name));
-            const merged = [...prev, ...newPresets].slice(0, maxPresets);
-            saveToStorage(merged);
-            return merged;
-          });
-
-          resolve(validPresets.length);
-        } catch (error) {
-          reject(new Error('Failed to parse file'));
-        }
-      };
-
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsText(file);
+    // Skip presets the user already has (by name)
+    const existingNames = new Set(presets.filter(preset => preset.canEdit).map(preset => preset.name));
+    const newPresets = validPresets.filter(preset => !existingNames.has(preset.name));
+
+    return runAction(async () => {
+      if (newPresets.length > 0) {
+        await adminApi.importSearchPresets(newPresets.map(toImport));
+        await mutate();
+      }
+      return validPresets.length;
     });
-  }, [maxPresets, saveToStorage]);
+  }, [presets, runAction, mutate]);
 
   return {
     presets,
+    loading: isLoading,
+    saving: state.saving,
+    error: state.actionError || (error ? getErrorInfo(error as Error).message : null),
     createPreset,
     updatePreset,
+    togglePin,
     deletePreset,
     usePreset,
+    getPinnedPresets,
     getPopularPresets,
     getRecentPresets,
     searchPresets,
@@ -233,10 +387,10 @@ export function useSearchWithPresets(
 ) {
   const [currentSearch, setCurrentSearch] = useState('');
   const [currentFilters, setCurrentFilters] = useState<Record<string, any>>({});
-  
+
   const presets = useSearchPresets(options);
 
-  const applyPreset = useCallback((presetId: string) => {
+  const applyPreset = useCallback((presetId: number) => {
     const preset = presets.usePreset(presetId);
     if (preset) {
       setCurrentSearch(preset.search);
@@ -247,8 +401,12 @@ export function useSearchWithPresets(
     return null;
   }, [presets, onSearch]);
 
-  const saveCurrentAsPreset = useCallback((name: string, description?: string) => {
-    return presets.createPreset(name, currentSearch, currentFilters, description);
+  const saveCurrentAsPreset = useCallback((
+    name: string,
+    description?: string,
+    visibility?: PresetVisibility
+  ) => {
+    return presets.createPreset(name, currentSearch, currentFilters, description, visibility);
   }, [presets, currentSearch, currentFilters]);
 
   const updateSearch = useCallback((search: string, filters: Record<string, any>) => {
@@ -281,4 +439,4 @@ export function useSearchWithPresets(
     getCurrentPreset,
     ...presets,
   };
-}
\ No newline at end of file
+}
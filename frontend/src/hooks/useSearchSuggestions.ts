@@ -0,0 +1,60 @@
+import { useEffect, useMemo } from 'react';
+import { adminApi } from '@/lib/api/admin';
+import { SuggestionField } from '@/lib/api/types';
+import { getErrorInfo } from '@/lib/api/errors';
+import { SuggestionUsage, getActiveToken, rankSuggestions } from '@/lib/searchSuggestions';
+import { useDebouncedApi } from './useDebounce';
+
+interface UseSearchSuggestionsOptions {
+  debounceMs?: number;
+  limit?: number;
+}
+
+/**
+ * Typeahead for the admin search box: asks the server for values matching the
+ * term under the caret and ranks them with the user's recent searches and presets
+ */
+export function useSearchSuggestions(
+  query: string,
+  cursor: number,
+  usage: SuggestionUsage,
+  { debounceMs = 250, limit = 8 }: UseSearchSuggestionsOptions = {}
+) {
+  const token = useMemo(() => getActiveToken(query, cursor), [query, cursor]);
+  const api = useDebouncedApi(
+    (term: string, field: SuggestionField | null) => adminApi.getSearchSuggestions(term, field, limit),
+    debounceMs
+  );
+  const { execute, reset } = api;
+
+  // Free text needs a couple of characters before it is worth a request; field values need one
+  const term = token?.term ?? '';
+  const field = token?.field ?? null;
+  const shouldFetch = token !== null && term.length >= (field ? 1 : 2);
+
+  useEffect(() => {
+    if (shouldFetch) {
+      execute(term, field);
+    } else {
+      reset();
+    }
+  }, [shouldFetch, term, field, execute, reset]);
+
+  // Responses can arrive out of order, so only use one that answers the current term
+  const result = api.data?.data;
+  const serverSuggestions = useMemo(
+    () => (result && result.query === term && result.field === field ? result.suggestions : []),
+    [result, term, field]
+  );
+
+  const suggestions = useMemo(
+    () => (token && shouldFetch ? rankSuggestions(query, token, serverSuggestions, usage, limit) : []),
+    [query, token, shouldFetch, serverSuggestions, usage, limit]
+  );
+
+  return {
+    suggestions,
+    loading: api.loading,
+    error: api.error ? getErrorInfo(api.error).message : null,
+  };
+}
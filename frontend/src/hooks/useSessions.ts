@@ -0,0 +1,79 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiClient } from '@/lib/api/client';
+import { authApi, authUtils } from '@/lib/api/auth';
+import { ApiTokenInfo } from '@/lib/api/types';
+import { getErrorInfo } from '@/lib/api/errors';
+
+interface UseSessionsState {
+  tokens: ApiTokenInfo[];
+  loading: boolean;
+  error: string | null;
+  revokingId: number | null;
+}
+
+export function useSessions({ autoLoad = true }: { autoLoad?: boolean } = {}) {
+  const [state, setState] = useState<UseSessionsState>({
+    tokens: [],
+    loading: false,
+    error: null,
+    revokingId: null,
+  });
+
+  const loadTokens = useCallback(async () => {
+    setState(prev => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const response = await authApi.getTokens();
+      const currentToken = apiClient.getAuthToken();
+
+      // Current session first, then most recently used
+      const tokens = [...response.data.tokens].sort((a, b) => {
+        if (authUtils.isCurrentToken(a, currentToken)) return -1;
+        if (authUtils.isCurrentToken(b, currentToken)) return 1;
+        const aTime = new Date(a.last_used_at || a.created_at).getTime();
+        const bTime = new Date(b.last_used_at || b.created_at).getTime();
+        return bTime - aTime;
+      });
+
+      setState(prev => ({ ...prev, tokens, loading: false }));
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, loading: false, error: errorInfo.message }));
+    }
+  }, []);
+
+  const revokeToken = useCallback(async (tokenId: number) => {
+    setState(prev => ({ ...prev, revokingId: tokenId, error: null }));
+
+    try {
+      await authApi.revokeToken(tokenId);
+      setState(prev => ({
+        ...prev,
+        revokingId: null,
+        tokens: prev.tokens.filter(token => token.id !== tokenId),
+      }));
+      return true;
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, revokingId: null, error: errorInfo.message }));
+      return false;
+    }
+  }, []);
+
+  const isCurrentToken = useCallback((token: ApiTokenInfo) => {
+    return authUtils.isCurrentToken(token, apiClient.getAuthToken());
+  }, []);
+
+  useEffect(() => {
+    if (autoLoad) {
+      loadTokens();
+    }
+  }, [autoLoad, loadTokens]);
+
+  return {
+    ...state,
+    loadTokens,
+    revokeToken,
+    isCurrentToken,
+  };
+}
@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { LocalStorageCache } from '@/lib/cache';
+import {
+  ColumnPin,
+  LayoutColumn,
+  MIN_COLUMN_WIDTH,
+  TableLayout,
+  getDefaultLayout,
+  isDefaultLayout,
+  moveColumn,
+  normalizeLayout,
+} from '@/lib/tableLayout';
+
+/**
+ * Column order, visibility, widths and pinning for a table. The layout is
+ * persisted under `storageKey` when one is given, otherwise kept in memory.
+ */
+export function useTableLayout(columns: LayoutColumn[], storageKey?: string) {
+  // Column definitions are usually recreated on every render, and the layout only depends on their keys
+  const columnSignature = columns.map(column => column.key).join('|');
+  const stableColumns = useMemo<LayoutColumn[]>(
+    () => (columnSignature ? columnSignature.split('|').map(key => ({ key })) : []),
+    [columnSignature]
+  );
+
+  const [layout, setLayout] = useState<TableLayout>(() => getDefaultLayout(stableColumns));
+
+  // Load the saved layout on mount and whenever the table or user changes
+  useEffect(() => {
+    const stored = storageKey ? LocalStorageCache.get<TableLayout>(storageKey) : null;
+    setLayout(normalizeLayout(stored, stableColumns));
+  }, [storageKey, stableColumns]);
+
+  const updateLayout = useCallback((update: (prev: TableLayout) => TableLayout) => {
+    setLayout(prev => {
+      const next = update(prev);
+      if (storageKey) {
+        if (isDefaultLayout(next, stableColumns)) {
+          LocalStorageCache.remove(storageKey);
+        } else {
+          LocalStorageCache.set(storageKey, next);
+        }
+      }
+      return next;
+    });
+  }, [storageKey, stableColumns]);
+
+  const toggleColumn = useCallback((key: string) => {
+    updateLayout(prev => {
+      if (prev.hidden.includes(key)) {
+        return { ...prev, hidden: prev.hidden.filter(hiddenKey => hiddenKey !== key) };
+      }
+      // Keep at least one column on screen
+      if (prev.hidden.length >= prev.order.length - 1) return prev;
+      return { ...prev, hidden: [...prev.hidden, key] };
+    });
+  }, [updateLayout]);
+
+  const reorderColumn = useCallback((key: string, targetKey: string) => {
+    updateLayout(prev => moveColumn(prev, key, targetKey));
+  }, [updateLayout]);
+
+  const resizeColumn = useCallback((key: string, width: number) => {
+    updateLayout(prev => ({
+      ...prev,
+      widths: { ...prev.widths, [key]: Math.max(MIN_COLUMN_WIDTH, Math.round(width)) },
+    }));
+  }, [updateLayout]);
+
+  const pinColumn = useCallback((key: string, pin: ColumnPin | null) => {
+    updateLayout(prev => {
+      const pinned = { ...prev.pinned };
+      if (pin) {
+        pinned[key] = pin;
+      } else {
+        delete pinned[key];
+      }
+      return { ...prev, pinned };
+    });
+  }, [updateLayout]);
+
+  const resetLayout = useCallback(() => {
+    updateLayout(() => getDefaultLayout(stableColumns));
+  }, [updateLayout, stableColumns]);
+
+  return {
+    layout,
+    isCustomized: !isDefaultLayout(layout, stableColumns),
+    actions: {
+      toggleColumn,
+      reorderColumn,
+      resizeColumn,
+      pinColumn,
+      resetLayout,
+    },
+  };
+}
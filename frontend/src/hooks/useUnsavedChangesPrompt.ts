@@ -0,0 +1,54 @@
+import { useEffect } from 'react';
+
+const DEFAULT_MESSAGE = 'You have unsaved changes. Are you sure you want to leave this page?';
+
+/**
+ * Warn before leaving a page with unsaved changes.
+ * Covers reloads/tab closes (beforeunload) and in-app link clicks,
+ * since the App Router exposes no route change events to cancel.
+ */
+export function useUnsavedChangesPrompt(isDirty: boolean, message: string = DEFAULT_MESSAGE) {
+  useEffect(() => {
+    if (!isDirty) return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = message;
+      return message;
+    };
+
+    const handleClick = (e: MouseEvent) => {
+      if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) {
+        return;
+      }
+
+      const anchor = (e.target as HTMLElement | null)?.closest('a');
+      if (!anchor || !anchor.href || anchor.target === '_blank') {
+        return;
+      }
+
+      const url = new URL(anchor.href, window.location.href);
+      const isSamePage = url.origin === window.location.origin
+        && url.pathname === window.location.pathname
+        && url.search === window.location.search;
+
+      if (isSamePage || anchor.hasAttribute('download')) {
+        return;
+      }
+
+      if (!window.confirm(message)) {
+        e.preventDefault();
+        e.stopPropagation();
+      }
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    // Capture phase so the prompt runs before Next.js Link handles the click
+    document.addEventListener('click', handleClick, true);
+
+    return () => {
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+      document.removeEventListener('click', handleClick, true);
+    };
+  }, [isDirty, message]);
+}
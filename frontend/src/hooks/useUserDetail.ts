@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback } from 'react';
+import { adminApi } from '@/lib/api/admin';
+import { UserWithSalary, SalaryHistory } from '@/lib/api/types';
+import { getErrorInfo } from '@/lib/api/errors';
+
+interface UseUserDetailState {
+  user: UserWithSalary | null;
+  loading: boolean;
+  error: string | null;
+  history: SalaryHistory[];
+  historyLoading: boolean;
+  historyError: string | null;
+  historyPagination: {
+    currentPage: number;
+    totalPages: number;
+    total: number;
+    perPage: number;
+  };
+}
+
+interface UseUserDetailOptions {
+  historyPerPage?: number;
+}
+
+export function useUserDetail(userId: number | null, { historyPerPage = 10 }: UseUserDetailOptions = {}) {
+  const [state, setState] = useState<UseUserDetailState>({
+    user: null,
+    loading: true,
+    error: null,
+    history: [],
+    historyLoading: false,
+    historyError: null,
+    historyPagination: {
+      currentPage: 1,
+      totalPages: 1,
+      total: 0,
+      perPage: historyPerPage,
+    },
+  });
+
+  const loadUser = useCallback(async () => {
+    if (userId === null) return;
+
+    setState(prev => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const response = await adminApi.getUser(userId);
+      setState(prev => ({ ...prev, user: response.data, loading: false }));
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({ ...prev, user: null, loading: false, error: errorInfo.message }));
+    }
+  }, [userId]);
+
+  const loadHistory = useCallback(async (page: number = 1) => {
+    if (userId === null) return;
+
+    setState(prev => ({ ...prev, historyLoading: true, historyError: null }));
+
+    try {
+      const response = await adminApi.getUserSalaryHistory(userId, page, historyPerPage);
+      setState(prev => ({
+        ...prev,
+        history: response.data,
+        historyLoading: false,
+        historyPagination: {
+          currentPage: response.pagination.current_page,
+          totalPages: response.pagination.last_page,
+          total: response.pagination.total,
+          perPage: response.pagination.per_page,
+        },
+      }));
+    } catch (error) {
+      const errorInfo = getErrorInfo(error as Error);
+      setState(prev => ({
+        ...prev,
+        history: [],
+        historyLoading: false,
+        historyError: errorInfo.message,
+      }));
+    }
+  }, [userId, historyPerPage]);
+
+  const refresh = useCallback(() => {
+    loadUser();
+    loadHistory(state.historyPagination.currentPage);
+  }, [loadUser, loadHistory, state.historyPagination.currentPage]);
+
+  useEffect(() => {
+    loadUser();
+    loadHistory(1);
+  }, [loadUser, loadHistory]);
+
+  return {
+    ...state,
+    actions: {
+      loadUser,
+      loadHistory,
+      refresh,
+    },
+  };
+}
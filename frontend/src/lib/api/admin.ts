@@ -4,13 +4,47 @@ import {
   PaginatedResponse,
   UserWithSalary,
   UpdateSalaryRequest,
+  SalaryUpdateResult,
+  SalaryChangeRequest,
+  SalaryChangeRequestParams,
+  SalaryApprovalSettings,
   BulkUpdateRequest,
+  CreateUserRequest,
+  BulkSalaryUpdate,
+  BulkUpdateResult,
+  BulkUserSelector,
+  BulkSalaryAdjustment,
   SearchParams,
+  SuggestionField,
+  SearchSuggestionsResult,
+  ServerSearchPreset,
+  SearchPresetRequest,
+  SearchPresetImport,
+  SavedView,
+  SavedViewRequest,
+  ExportFormat,
+  ExportJob,
   DashboardStats,
   Commission,
+  CommissionOverride,
+  CommissionOverrideRequest,
   SalaryHistory,
+  AuditEntry,
+  AuditLogParams,
+  StatsPeriod,
+  StatsDateRange,
+  SalaryStats,
+  ActivityItem,
 } from './types';
 
+// Date range loaded for each grouping, so every chart shows a useful number of periods
+const STATS_DATE_RANGES: Record<StatsPeriod, StatsDateRange> = {
+  week: '90d',
+  month: '1y',
+  quarter: 'all',
+  year: 'all',
+};
+
 /**
  * Admin operations API
  * Handles administrative functions like user management, salary updates, and dashboard data
@@ -38,6 +72,124 @@ export const adminApi = {
     return apiClient.get<PaginatedResponse<UserWithSalary>>('/v1/admin/users', searchParams);
   },
 
+  /**
+   * Load every page of users matching the params, stopping after maxPages
+   */
+  async getAllUsers(
+    params: Omit<SearchParams, 'page' | 'per_page'> = {},
+    perPage: number = 100,
+    maxPages: number = 20
+  ): Promise<{ users: UserWithSalary[]; total: number }> {
+    const users: UserWithSalary[] = [];
+    let page = 1;
+    let lastPage = 1;
+    let total = 0;
+
+    do {
+      const response = await adminApi.getUsers({ ...params, page, per_page: perPage });
+      users.push(...response.data);
+      lastPage = response.pagination.last_page;
+      total = response.pagination.total;
+      page++;
+    } while (page <= lastPage && page <= maxPages);
+
+    return { users, total };
+  },
+
+  /**
+   * Values matching a partial search term, optionally limited to one field
+   */
+  async getSearchSuggestions(
+    query: string,
+    field: SuggestionField | null = null,
+    limit: number = 8
+  ): Promise<ApiResponse<SearchSuggestionsResult>> {
+    const params: Record<string, string> = { q: query, limit: limit.toString() };
+    if (field) params.field = field;
+
+    return apiClient.get<ApiResponse<SearchSuggestionsResult>>('/v1/admin/users/suggestions', params);
+  },
+
+  /**
+   * Search presets visible to the current admin: their own plus team and global ones
+   */
+  async getSearchPresets(): Promise<ApiResponse<ServerSearchPreset[]>> {
+    return apiClient.get<ApiResponse<ServerSearchPreset[]>>('/v1/admin/search-presets');
+  },
+
+  /**
+   * Save a search preset owned by the current admin
+   */
+  async createSearchPreset(data: SearchPresetRequest): Promise<ApiResponse<ServerSearchPreset>> {
+    return apiClient.post<ApiResponse<ServerSearchPreset>>('/v1/admin/search-presets', data);
+  },
+
+  /**
+   * Update a preset; only the owner may change anything other than pinning
+   */
+  async updateSearchPreset(
+    presetId: number,
+    data: Partial<SearchPresetRequest>
+  ): Promise<ApiResponse<ServerSearchPreset>> {
+    return apiClient.put<ApiResponse<ServerSearchPreset>>(`/v1/admin/search-presets/${presetId}`, data);
+  },
+
+  /**
+   * Delete a preset owned by the current admin
+   */
+  async deleteSearchPreset(presetId: number): Promise<ApiResponse<void>> {
+    return apiClient.delete<ApiResponse<void>>(`/v1/admin/search-presets/${presetId}`);
+  },
+
+  /**
+   * Record that the current admin applied a preset
+   */
+  async recordSearchPresetUse(presetId: number): Promise<ApiResponse<ServerSearchPreset>> {
+    return apiClient.post<ApiResponse<ServerSearchPreset>>(`/v1/admin/search-presets/${presetId}/use`);
+  },
+
+  /**
+   * Import presets as the current admin's, keeping their usage history
+   */
+  async importSearchPresets(presets: SearchPresetImport[]): Promise<ApiResponse<ServerSearchPreset[]>> {
+    return apiClient.post<ApiResponse<ServerSearchPreset[]>>('/v1/admin/search-presets/import', { presets });
+  },
+
+  /**
+   * Saved views of the current admin, with their digest schedules
+   */
+  async getSavedViews(): Promise<ApiResponse<SavedView[]>> {
+    return apiClient.get<ApiResponse<SavedView[]>>('/v1/admin/saved-views');
+  },
+
+  /**
+   * Save a view; scheduled digests are sent by the API's mailer
+   */
+  async createSavedView(data: SavedViewRequest): Promise<ApiResponse<SavedView>> {
+    return apiClient.post<ApiResponse<SavedView>>('/v1/admin/saved-views', data);
+  },
+
+  /**
+   * Update a saved view or its digest schedule
+   */
+  async updateSavedView(viewId: number, data: Partial<SavedViewRequest>): Promise<ApiResponse<SavedView>> {
+    return apiClient.put<ApiResponse<SavedView>>(`/v1/admin/saved-views/${viewId}`, data);
+  },
+
+  /**
+   * Delete a saved view and stop its digest
+   */
+  async deleteSavedView(viewId: number): Promise<ApiResponse<void>> {
+    return apiClient.delete<ApiResponse<void>>(`/v1/admin/saved-views/${viewId}`);
+  },
+
+  /**
+   * Send a view's digest right away; the API renders it and mails the view's saved recipients
+   */
+  async sendSavedViewDigest(viewId: number): Promise<ApiResponse<void>> {
+    return apiClient.post<ApiResponse<void>>(`/v1/admin/saved-views/${viewId}/send`);
+  },
+
   /**
    * Get user by ID (admin view with full details)
    */
@@ -66,85 +218,107 @@ export const adminApi = {
 
   /**
    * Update user salary with automatic calculations
+   * Changes above the approval threshold come back as a pending change request instead of being written
    */
   async updateSalary(
     userId: number,
     salaryData: UpdateSalaryRequest,
     realTimeUpdate: boolean = false
-  ): Promise<ApiResponse<UserWithSalary>> {
+  ): Promise<ApiResponse<SalaryUpdateResult>> {
     const endpoint = `/v1/admin/users/${userId}/salary`;
     
     if (realTimeUpdate) {
       console.log('Real-time salary update requested for user:', userId);
     }
 
-    return apiClient.put<ApiResponse<UserWithSalary>>(endpoint, salaryData);
+    return apiClient.put<ApiResponse<SalaryUpdateResult>>(endpoint, salaryData);
   },
 
   /**
-   * Bulk update users with progress tracking
+   * List salary change requests, pending ones by default
    */
-  async bulkUpdateUsers(
-    updates: BulkUpdateRequest['users'],
-    onProgress?: (progress: number) => void
-  ): Promise<ApiResponse<{ updated: number; failed: number; errors: any[] }>> {
-    // For progress tracking, we'll simulate it since the API call is atomic
-    if (onProgress) {
-      onProgress(0);
-    }
+  async getSalaryChangeRequests(
+    params: SalaryChangeRequestParams = { status: 'pending' }
+  ): Promise<ApiResponse<SalaryChangeRequest[]>> {
+    const query: Record<string, string> = {};
 
-    try {
-      const result = await apiClient.post<ApiResponse<{ updated: number; failed: number; errors: any[] }>>(
-        '/v1/admin/users/bulk-update',
-        { users: updates }
-      );
+    if (params.status) query.status = params.status;
+    if (params.user_id) query.user_id = params.user_id.toString();
 
-      if (onProgress) {
-        onProgress(100);
-      }
+    return apiClient.get<ApiResponse<SalaryChangeRequest[]>>('/v1/admin/salary-change-requests', query);
+  },
 
-      return result;
-    } catch (error) {
-      if (onProgress) {
-        onProgress(0);
-      }
-      throw error;
-    }
+  /**
+   * Approve a pending change request; the salary and its history entry are written at this point
+   */
+  async approveSalaryChangeRequest(requestId: number, reason: string): Promise<ApiResponse<SalaryChangeRequest>> {
+    return apiClient.post<ApiResponse<SalaryChangeRequest>>(
+      `/v1/admin/salary-change-requests/${requestId}/approve`,
+      { reason }
+    );
   },
 
   /**
-   * Bulk update salaries with progress tracking
+   * Reject a pending change request, leaving the current salary untouched
    */
-  async bulkUpdateSalaries(
-    updates: Array<{
-      user_id: number;
-      salary_local_currency?: number;
-      salary_euros?: number;
-      commission?: number;
-    }>,
-    onProgress?: (progress: number) => void
-  ): Promise<ApiResponse<{ updated: number; failed: number; errors: any[] }>> {
-    if (onProgress) {
-      onProgress(0);
-    }
+  async rejectSalaryChangeRequest(requestId: number, reason: string): Promise<ApiResponse<SalaryChangeRequest>> {
+    return apiClient.post<ApiResponse<SalaryChangeRequest>>(
+      `/v1/admin/salary-change-requests/${requestId}/reject`,
+      { reason }
+    );
+  },
 
-    try {
-      const result = await apiClient.post<ApiResponse<{ updated: number; failed: number; errors: any[] }>>(
-        '/v1/admin/salaries/bulk-update',
-        { salaries: updates }
-      );
+  /**
+   * Get the maker/checker threshold for salary changes
+   */
+  async getSalaryApprovalSettings(): Promise<ApiResponse<SalaryApprovalSettings>> {
+    return apiClient.get<ApiResponse<SalaryApprovalSettings>>('/v1/admin/salary-change-requests/settings');
+  },
 
-      if (onProgress) {
-        onProgress(100);
-      }
+  /**
+   * Update the maker/checker threshold for salary changes
+   */
+  async updateSalaryApprovalSettings(settings: SalaryApprovalSettings): Promise<ApiResponse<SalaryApprovalSettings>> {
+    return apiClient.put<ApiResponse<SalaryApprovalSettings>>('/v1/admin/salary-change-requests/settings', settings);
+  },
 
-      return result;
-    } catch (error) {
-      if (onProgress) {
-        onProgress(0);
-      }
-      throw error;
-    }
+  /**
+   * Bulk update users in a single request; useBulkOperations splits large batches into chunks
+   */
+  async bulkUpdateUsers(updates: BulkUpdateRequest['users']): Promise<ApiResponse<BulkUpdateResult>> {
+    return apiClient.post<ApiResponse<BulkUpdateResult>>('/v1/admin/users/bulk-update', { users: updates });
+  },
+
+  /**
+   * Create users in a single request; useBulkOperations splits large batches into chunks
+   */
+  async bulkCreateUsers(users: CreateUserRequest[]): Promise<ApiResponse<BulkUpdateResult>> {
+    return apiClient.post<ApiResponse<BulkUpdateResult>>('/v1/admin/users/bulk-create', { users });
+  },
+
+  /**
+   * Bulk update salaries in a single request; useBulkOperations splits large batches into chunks
+   */
+  async bulkUpdateSalaries(updates: BulkSalaryUpdate[]): Promise<ApiResponse<BulkUpdateResult>> {
+    return apiClient.post<ApiResponse<BulkUpdateResult>>('/v1/admin/salaries/bulk-update', { salaries: updates });
+  },
+
+  /**
+   * Adjust salaries of every user a selector matches. "All matching" selectors
+   * are resolved by the API, so users that were never loaded are included, and
+   * the change applies to current values. The API rejects the request with 409
+   * when the selector no longer matches `expectedCount` users.
+   */
+  async bulkAdjustSalaries(
+    selector: BulkUserSelector,
+    adjustment: BulkSalaryAdjustment,
+    expectedCount: number
+  ): Promise<ApiResponse<BulkUpdateResult>> {
+    return apiClient.post<ApiResponse<BulkUpdateResult>>('/v1/admin/salaries/bulk-adjust', {
+      selector,
+      ...adjustment,
+      expected_count: expectedCount,
+    });
   },
 
   /**
@@ -161,7 +335,7 @@ export const adminApi = {
   async getRecentActivities(
     limit: number = 20,
     useCache: boolean = true
-  ): Promise<ApiResponse<any[]>> {
+  ): Promise<ApiResponse<ActivityItem[]>> {
     const params: Record<string, string> = {
       limit: limit.toString(),
     };
@@ -170,23 +344,27 @@ export const adminApi = {
       params.cache = 'true';
     }
 
-    return apiClient.get<ApiResponse<any[]>>('/v1/admin/statistics', params);
+    return apiClient.get<ApiResponse<ActivityItem[]>>('/v1/admin/activities', params);
   },
 
   /**
-   * Get salary statistics and trends
+   * Get detailed salary statistics with trends grouped by period
    */
   async getSalaryStats(
-    period: 'week' | 'month' | 'quarter' | 'year' = 'month',
+    period: StatsPeriod = 'month',
     useCache: boolean = true
-  ): Promise<ApiResponse<any>> {
-    const params: Record<string, string> = { period };
+  ): Promise<ApiResponse<SalaryStats>> {
+    const params: Record<string, string> = {
+      report_type: 'detailed',
+      group_by: period,
+      date_range: STATS_DATE_RANGES[period],
+    };
     
     if (useCache) {
       params.cache = 'true';
     }
 
-    return apiClient.get<ApiResponse<any>>('/v1/admin/statistics', params);
+    return apiClient.get<ApiResponse<SalaryStats>>('/v1/admin/statistics', params);
   },
 
   /**
@@ -201,6 +379,48 @@ export const adminApi = {
     return apiClient.put<ApiResponse<Commission>>('/v1/admin/commissions', data);
   },
 
+  /**
+   * Get the commission currently in effect
+   */
+  async getCommission(): Promise<ApiResponse<Commission>> {
+    return apiClient.get<ApiResponse<Commission>>('/v1/admin/commissions');
+  },
+
+  /**
+   * Get commission changes scheduled for a future effective date
+   */
+  async getScheduledCommissions(): Promise<ApiResponse<Commission[]>> {
+    return apiClient.get<ApiResponse<Commission[]>>('/v1/admin/commissions/scheduled');
+  },
+
+  /**
+   * Cancel a scheduled commission change before it takes effect
+   */
+  async cancelScheduledCommission(commissionId: number): Promise<ApiResponse<void>> {
+    return apiClient.delete<ApiResponse<void>>(`/v1/admin/commissions/${commissionId}`);
+  },
+
+  /**
+   * Get all per-user and per-department commission overrides
+   */
+  async getCommissionOverrides(): Promise<ApiResponse<CommissionOverride[]>> {
+    return apiClient.get<ApiResponse<CommissionOverride[]>>('/v1/admin/commissions/overrides');
+  },
+
+  /**
+   * Create or replace the commission override for a user or department
+   */
+  async setCommissionOverride(data: CommissionOverrideRequest): Promise<ApiResponse<CommissionOverride>> {
+    return apiClient.put<ApiResponse<CommissionOverride>>('/v1/admin/commissions/overrides', data);
+  },
+
+  /**
+   * Remove an override so the user or department falls back to the global commission
+   */
+  async deleteCommissionOverride(overrideId: number): Promise<ApiResponse<void>> {
+    return apiClient.delete<ApiResponse<void>>(`/v1/admin/commissions/overrides/${overrideId}`);
+  },
+
   /**
    * Get commission history
    */
@@ -229,24 +449,34 @@ export const adminApi = {
   },
 
   /**
-   * Export users data (CSV/Excel)
+   * Start an export job for the users matching the given search, filters and sort
    */
   async exportUsers(
-    format: 'csv' | 'excel' = 'csv',
-    filters?: SearchParams
-  ): Promise<ApiResponse<{ download_url: string }>> {
-    const params: Record<string, string> = { format };
-    
-    if (filters) {
-      if (filters.search) params.search = filters.search;
-      if (filters.filter_by) {
-        Object.entries(filters.filter_by).forEach(([key, value]) => {
-          params[`filter[${key}]`] = value;
-        });
-      }
-    }
+    format: ExportFormat = 'csv',
+    params: Omit<SearchParams, 'page' | 'per_page'> = {}
+  ): Promise<ApiResponse<ExportJob>> {
+    return apiClient.post<ApiResponse<ExportJob>>('/v1/admin/exports', { format, params });
+  },
+
+  /**
+   * List export jobs, newest first
+   */
+  async getExportJobs(): Promise<ApiResponse<ExportJob[]>> {
+    return apiClient.get<ApiResponse<ExportJob[]>>('/v1/admin/exports');
+  },
 
-    return apiClient.get<ApiResponse<{ download_url: string }>>('/v1/admin/users/export', params);
+  /**
+   * Get the current status of an export job
+   */
+  async getExportJob(jobId: number): Promise<ApiResponse<ExportJob>> {
+    return apiClient.get<ApiResponse<ExportJob>>(`/v1/admin/exports/${jobId}`);
+  },
+
+  /**
+   * Delete an export job and its file
+   */
+  async deleteExportJob(jobId: number): Promise<ApiResponse<void>> {
+    return apiClient.delete<ApiResponse<void>>(`/v1/admin/exports/${jobId}`);
   },
 
   /**
@@ -305,23 +535,23 @@ export const adminApi = {
   },
 
   /**
-   * Get audit trail
+   * Get the unified audit trail of salary and commission changes, newest first
    */
-  async getAuditTrail(
-    userId?: number,
-    action?: string,
-    page: number = 1,
-    perPage: number = 50
-  ): Promise<PaginatedResponse<any>> {
-    const params: Record<string, string> = {
-      page: page.toString(),
-      per_page: perPage.toString(),
+  async getAuditTrail(params: AuditLogParams = {}): Promise<PaginatedResponse<AuditEntry>> {
+    const query: Record<string, string> = {
+      page: (params.page || 1).toString(),
+      per_page: (params.per_page || 50).toString(),
     };
 
-    if (userId) params.user_id = userId.toString();
-    if (action) params.action = action;
+    if (params.type) query.type = params.type;
+    if (params.actor_id) query.actor_id = params.actor_id.toString();
+    if (params.user_id) query.user_id = params.user_id.toString();
+    if (params.field) query.field = params.field;
+    if (params.reason) query.reason = params.reason;
+    if (params.date_from) query.date_from = params.date_from;
+    if (params.date_to) query.date_to = params.date_to;
 
-    return apiClient.get<PaginatedResponse<any>>('/v1/admin/audit-trail', params);
+    return apiClient.get<PaginatedResponse<AuditEntry>>('/v1/admin/audit-trail', query);
   },
 
   /**
@@ -353,7 +583,7 @@ export const adminUtils = {
   /**
    * Format bulk operation results
    */
-  formatBulkResults(result: { updated: number; failed: number; errors: any[] }): string {
+  formatBulkResults(result: BulkUpdateResult): string {
     const { updated, failed, errors } = result;
     let message = `Updated ${updated} records`;
     
@@ -384,11 +614,6 @@ export const adminUtils = {
       return { valid: false, errors };
     }
     
-    if (updates.length > 1000) {
-      errors.push('Too many updates (max 1000)');
-      return { valid: false, errors };
-    }
-    
     updates.forEach((update, index) => {
       if (!update.id && !update.user_id) {
         errors.push(`Update ${index + 1}: Missing ID`);
@@ -0,0 +1,130 @@
+import { apiClient } from './client';
+import {
+  ApiResponse,
+  ApiTokenInfo,
+  AuthToken,
+  CurrentUser,
+  LoginRequest,
+  LoginResponseData,
+  TokenListResponse,
+  UserPermissions,
+} from './types';
+
+/**
+ * Authentication API
+ * Wraps the Sanctum token endpoints under /v1/auth
+ */
+export const authApi = {
+  /**
+   * Exchange credentials for a personal access token
+   */
+  async login(credentials: LoginRequest): Promise<ApiResponse<LoginResponseData>> {
+    return apiClient.post<ApiResponse<LoginResponseData>>('/v1/auth/login', {
+      ...credentials,
+      device_name: credentials.device_name || authUtils.getDeviceName(),
+    });
+  },
+
+  /**
+   * Revoke the token used for this request
+   */
+  async logout(): Promise<ApiResponse<void>> {
+    return apiClient.post<ApiResponse<void>>('/v1/auth/logout');
+  },
+
+  /**
+   * Revoke every token belonging to the current user
+   */
+  async logoutAll(): Promise<ApiResponse<void>> {
+    return apiClient.post<ApiResponse<void>>('/v1/auth/logout-all');
+  },
+
+  /**
+   * Issue a new token and revoke the current one
+   */
+  async refresh(deviceName?: string): Promise<ApiResponse<AuthToken>> {
+    return apiClient.post<ApiResponse<AuthToken>>('/v1/auth/refresh', {
+      device_name: deviceName || authUtils.getDeviceName(),
+    });
+  },
+
+  /**
+   * Get the authenticated user with permissions and account statistics
+   */
+  async me(): Promise<ApiResponse<CurrentUser>> {
+    return apiClient.get<ApiResponse<CurrentUser>>('/v1/auth/me');
+  },
+
+  /**
+   * List the current user's personal access tokens
+   */
+  async getTokens(): Promise<ApiResponse<TokenListResponse>> {
+    return apiClient.get<ApiResponse<TokenListResponse>>('/v1/auth/tokens');
+  },
+
+  /**
+   * Revoke a single personal access token
+   */
+  async revokeToken(tokenId: number): Promise<ApiResponse<void>> {
+    return apiClient.delete<ApiResponse<void>>(`/v1/auth/tokens/${tokenId}`);
+  },
+};
+
+/**
+ * Utility functions for authentication
+ */
+export const authUtils = {
+  /**
+   * Build a readable device name for the token, e.g. "Chrome on macOS"
+   */
+  getDeviceName(): string {
+    if (typeof navigator === 'undefined') return 'Web Browser';
+
+    const userAgent = navigator.userAgent;
+    const browser =
+      /Edg\//.test(userAgent) ? 'Edge' :
+      /Firefox\//.test(userAgent) ? 'Firefox' :
+      /Chrome\//.test(userAgent) ? 'Chrome' :
+      /Safari\//.test(userAgent) ? 'Safari' :
+      'Browser';
+    const platform =
+      /Windows/.test(userAgent) ? 'Windows' :
+      /Android/.test(userAgent) ? 'Android' :
+      /iPhone|iPad/.test(userAgent) ? 'iOS' :
+      /Mac OS X/.test(userAgent) ? 'macOS' :
+      /Linux/.test(userAgent) ? 'Linux' :
+      'Unknown';
+
+    return `${browser} on ${platform}`;
+  },
+
+  /**
+   * Check if the permission set grants access to the admin area
+   */
+  isAdmin(permissions: UserPermissions | null | undefined): boolean {
+    return !!permissions?.can_view_admin_dashboard;
+  },
+
+  /**
+   * Extract the token id from a Sanctum plain-text token ("{id}|{secret}")
+   */
+  getTokenId(token: string | null): number | null {
+    if (!token || !token.includes('|')) return null;
+    const id = parseInt(token.split('|')[0], 10);
+    return Number.isNaN(id) ? null : id;
+  },
+
+  /**
+   * Check if a listed token is the one this browser is using
+   */
+  isCurrentToken(tokenInfo: ApiTokenInfo, token: string | null): boolean {
+    return authUtils.getTokenId(token) === tokenInfo.id;
+  },
+
+  /**
+   * Check if a token has passed its expiry time
+   */
+  isTokenExpired(tokenInfo: ApiTokenInfo): boolean {
+    return !!tokenInfo.expires_at && new Date(tokenInfo.expires_at).getTime() < Date.now();
+  },
+};
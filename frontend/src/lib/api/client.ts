@@ -1,3 +1,5 @@
+import { AUTH_TOKEN_COOKIE, AUTH_TOKEN_COOKIE_MAX_AGE } from '../authCookie';
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api';
 
 // Error types for better error handling
@@ -47,18 +49,23 @@ class LocalStorageTokenManager implements TokenManager {
   setToken(token: string): void {
     if (typeof window === 'undefined') return;
     localStorage.setItem(this.TOKEN_KEY, token);
+    document.cookie = `${AUTH_TOKEN_COOKIE}=${encodeURIComponent(token)}; path=/; max-age=${AUTH_TOKEN_COOKIE_MAX_AGE}; SameSite=Lax`;
   }
 
   removeToken(): void {
     if (typeof window === 'undefined') return;
     localStorage.removeItem(this.TOKEN_KEY);
+    document.cookie = `${AUTH_TOKEN_COOKIE}=; path=/; max-age=0; SameSite=Lax`;
   }
 }
 
 // Request/Response interceptor types
 type RequestInterceptor = (config: RequestInit, url: string) => RequestInit | Promise<RequestInit>;
-type ResponseInterceptor = (response: Response, url: string) => Response | Promise<Response>;
+type ResponseInterceptor = (response: Response, url: string, config: RequestInit) => Response | Promise<Response>;
 type ErrorInterceptor = (error: Error, url: string) => Error | Promise<Error>;
+type SessionExpiredListener = () => void;
+
+const REFRESH_ENDPOINT = '/v1/auth/refresh';
 
 class ApiClient {
   private baseUrl: string;
@@ -66,6 +73,8 @@ class ApiClient {
   private requestInterceptors: RequestInterceptor[] = [];
   private responseInterceptors: ResponseInterceptor[] = [];
   private errorInterceptors: ErrorInterceptor[] = [];
+  private sessionExpiredListeners = new Set<SessionExpiredListener>();
+  private refreshPromise: Promise<string | null> | null = null;
 
   constructor(baseUrl: string, tokenManager?: TokenManager) {
     this.baseUrl = baseUrl;
@@ -75,6 +84,10 @@ class ApiClient {
     this.addRequestInterceptor(this.logRequest.bind(this));
     this.addResponseInterceptor(this.logResponse.bind(this));
     this.addErrorInterceptor(this.logError.bind(this));
+
+    // Add token refresh interceptors
+    this.addRequestInterceptor(this.waitForTokenRefresh.bind(this));
+    this.addResponseInterceptor(this.refreshOnUnauthorized.bind(this));
   }
 
   // Interceptor management
@@ -132,6 +145,127 @@ class ApiClient {
     this.tokenManager.removeToken();
   }
 
+  // Session expiry notifications, emitted when the server rejects a token refresh
+  addSessionExpiredListener(listener: SessionExpiredListener): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
+  }
+
+  private emitSessionExpired(): void {
+    this.sessionExpiredListeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Session expired listener failed:', error);
+      }
+    });
+  }
+
+  // Token refresh interceptors
+  private async waitForTokenRefresh(config: RequestInit): Promise<RequestInit> {
+    if (!this.refreshPromise) {
+      return config;
+    }
+
+    // Hold the request until the in-flight refresh settles, then send it with the new token.
+    // A refresh that failed on the network or server side fails the held request with it.
+    const token = await this.refreshPromise;
+    return token ? this.withAuthToken(config, token) : config;
+  }
+
+  private async refreshOnUnauthorized(response: Response, url: string, config: RequestInit): Promise<Response> {
+    const usedToken = this.getRequestToken(config);
+    if (response.status !== 401 || !usedToken || url.endsWith(REFRESH_ENDPOINT)) {
+      return response;
+    }
+
+    // Another request may already have replaced the token this one was sent with
+    const currentToken = this.getAuthToken();
+    const token = currentToken && currentToken !== usedToken
+      ? currentToken
+      : await this.refreshAuthToken();
+
+    if (!token) {
+      return response;
+    }
+
+    return fetch(url, this.withAuthToken(config, token));
+  }
+
+  private refreshAuthToken(): Promise<string | null> {
+    // Concurrent 401s share a single refresh call
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performTokenRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performTokenRefresh(): Promise<string | null> {
+    const token = this.getAuthToken();
+    if (!token) {
+      return null;
+    }
+
+    let response: Response;
+    try {
+      // Bypasses the interceptor chain so a failed refresh cannot trigger another one
+      response = await fetch(`${this.baseUrl}${REFRESH_ENDPOINT}`, {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+    } catch {
+      // The session may still be valid; keep the token so a retry can succeed
+      throw new NetworkError('Network connection failed. Please check your internet connection.');
+    }
+
+    // Only a rejected token ends the session; server errors leave it in place
+    if (response.status === 401 || response.status === 403) {
+      if (process.env.NODE_ENV === 'development') {
+        console.warn('🔒 Session expired: token refresh returned', response.status);
+      }
+      this.clearAuthToken();
+      this.emitSessionExpired();
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new ApiError('Token refresh failed.', response.status);
+    }
+
+    const body = await response.json().catch(() => null);
+    const newToken: string | undefined = body?.data?.token;
+    if (!newToken) {
+      throw new ApiError('Token refresh response did not contain a token.', response.status, body);
+    }
+
+    this.setAuthToken(newToken);
+    return newToken;
+  }
+
+  private getRequestToken(config: RequestInit): string | null {
+    const headers = (config.headers || {}) as Record<string, string>;
+    const authorization = headers['Authorization'];
+    return authorization ? authorization.replace(/^Bearer\s+/, '') : null;
+  }
+
+  private withAuthToken(config: RequestInit, token: string): RequestInit {
+    return {
+      ...config,
+      headers: {
+        ...(config.headers as Record<string, string>),
+        'Authorization': `Bearer ${token}`,
+      },
+    };
+  }
+
   private async request<T>(
     endpoint: string,
     options: RequestInit = {}
@@ -175,7 +309,7 @@ class ApiClient {
       // Apply response interceptors
       let processedResponse = response;
       for (const interceptor of this.responseInterceptors) {
-        processedResponse = await interceptor(processedResponse, url);
+        processedResponse = await interceptor(processedResponse, url, config);
       }
 
       // Handle different response statuses
@@ -0,0 +1,43 @@
+import { apiClient } from './client';
+import { ApiResponse, ExchangeRate, ExchangeRateHistoryParams } from './types';
+
+/**
+ * Exchange rates API
+ * Rates are quoted as the EUR value of one unit of the local currency
+ */
+export const exchangeRatesApi = {
+  /**
+   * Get the latest rate for every supported currency
+   */
+  async getLatest(): Promise<ApiResponse<ExchangeRate[]>> {
+    return apiClient.get<ApiResponse<ExchangeRate[]>>('/v1/exchange-rates');
+  },
+
+  /**
+   * Get the rate that applied to a currency on a given date (YYYY-MM-DD)
+   */
+  async getRateOn(currencyCode: string, date: string): Promise<ApiResponse<ExchangeRate>> {
+    return apiClient.get<ApiResponse<ExchangeRate>>(
+      `/v1/exchange-rates/${encodeURIComponent(currencyCode.toUpperCase())}`,
+      { date }
+    );
+  },
+
+  /**
+   * Get historical rates for a currency, oldest first
+   */
+  async getHistory(
+    currencyCode: string,
+    params: ExchangeRateHistoryParams = {}
+  ): Promise<ApiResponse<ExchangeRate[]>> {
+    const searchParams: Record<string, string> = {};
+
+    if (params.date_from) searchParams.date_from = params.date_from;
+    if (params.date_to) searchParams.date_to = params.date_to;
+
+    return apiClient.get<ApiResponse<ExchangeRate[]>>(
+      `/v1/exchange-rates/${encodeURIComponent(currencyCode.toUpperCase())}/history`,
+      searchParams
+    );
+  },
+};
@@ -1,10 +1,12 @@
 // Main API exports
 export { ApiError, NetworkError, ValidationError } from './client';
+import { authApi, authUtils } from './auth';
 import { userApi, userUtils } from './user';
 import { adminApi, adminUtils } from './admin';
+import { exchangeRatesApi } from './exchangeRates';
 import { salaryApi } from './salary'; // Legacy - deprecated
 
-export { userApi, userUtils, adminApi, adminUtils, salaryApi };
+export { authApi, authUtils, userApi, userUtils, adminApi, adminUtils, exchangeRatesApi, salaryApi };
 
 // Error handling utilities
 export {
@@ -23,18 +25,77 @@ export type {
   ApiResponse,
   PaginatedResponse,
   PaginationMeta,
+  LoginRequest,
+  AuthToken,
+  LoginResponseData,
+  UserPermissions,
+  CurrentUser,
+  ApiTokenInfo,
+  TokenListResponse,
+  ThemePreference,
+  NotificationPreferences,
+  UserPreferences,
+  UpdatePreferencesRequest,
   User,
   UserWithSalary,
   Salary,
+  ExchangeRate,
+  ExchangeRateHistoryParams,
   SalaryHistory,
+  SalarySnapshot,
+  UserReference,
+  AuditEntryType,
+  SalaryAuditEntry,
+  CommissionAuditEntry,
+  AuditEntry,
+  AuditLogParams,
   UploadedDocument,
   CreateUserRequest,
   UpdateUserRequest,
   UpdateSalaryRequest,
+  SalaryChangeRequestStatus,
+  SalaryChangeRequest,
+  SalaryApprovalSettings,
+  SalaryUpdateResult,
+  SalaryChangeRequestParams,
   BulkUpdateRequest,
+  BulkSalaryUpdate,
+  BulkUpdateError,
+  BulkUpdateResult,
+  BulkUserSelector,
+  BulkSalaryAdjustment,
   SearchParams,
+  PresetVisibility,
+  ServerSearchPreset,
+  SearchPresetRequest,
+  SearchPresetImport,
+  DigestFrequency,
+  DigestSchedule,
+  DigestWindow,
+  SavedViewDigest,
+  SavedView,
+  SavedViewRequest,
+  DigestMessage,
+  SuggestionField,
+  ServerSuggestion,
+  SearchSuggestionsResult,
+  ExportFormat,
+  ExportJobStatus,
+  ExportJob,
   DashboardStats,
+  StatsPeriod,
+  StatsDateRange,
+  SalaryDistributionBucket,
+  SalaryTrendPoint,
+  RegistrationPoint,
+  ActivityTrendPoint,
+  SalaryStats,
+  ActivityType,
+  ActivityItem,
   Commission,
+  CommissionOverrideScope,
+  CommissionOverride,
+  CommissionOverrideRequest,
   ErrorResponse,
   UploadProgressCallback,
   ApiClientConfig,
@@ -45,17 +106,24 @@ export { apiClient } from './client';
 
 // Convenience exports for common operations
 export const api = {
+  // Authentication
+  auth: authApi,
+
   // User operations
   user: userApi,
   
   // Admin operations  
   admin: adminApi,
+
+  // Currency conversion
+  exchangeRates: exchangeRatesApi,
   
   // Legacy support
   salary: salaryApi,
   
   // Utilities
   utils: {
+    auth: authUtils,
     user: userUtils,
     admin: adminUtils,
   },
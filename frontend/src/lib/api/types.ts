@@ -27,10 +27,86 @@ export interface User {
   name: string;
   email: string;
   email_verified_at: string | null;
+  department?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Authentication related types
+export interface LoginRequest {
+  email: string;
+  password: string;
+  device_name?: string;
+  remember?: boolean;
+}
+
+export interface AuthToken {
+  token: string;
+  token_type: 'Bearer';
+  expires_at: string;
+}
+
+export interface LoginResponseData extends AuthToken {
+  user: UserWithSalary;
+}
+
+// Permission flags returned by /v1/auth/me
+export interface UserPermissions {
+  can_view_own_profile: boolean;
+  can_update_own_profile: boolean;
+  can_upload_documents: boolean;
+  can_view_all_users?: boolean;
+  can_manage_users?: boolean;
+  can_manage_salaries?: boolean;
+  can_view_admin_dashboard?: boolean;
+  can_manage_commissions?: boolean;
+  can_view_statistics?: boolean;
+  can_perform_bulk_operations?: boolean;
+}
+
+export interface CurrentUser {
+  user: UserWithSalary;
+  permissions: UserPermissions;
+  statistics: {
+    salary_changes_count: number;
+    documents_count: number;
+    account_age_days: number;
+  };
+}
+
+// Per-user preferences stored server-side
+export type ThemePreference = 'light' | 'dark' | 'system';
+
+export interface NotificationPreferences {
+  salary_updates: boolean;
+  announcements: boolean;
+}
+
+export interface UserPreferences {
+  theme: ThemePreference;
+  notifications: NotificationPreferences;
+}
+
+export interface UpdatePreferencesRequest {
+  theme?: ThemePreference;
+  notifications?: Partial<NotificationPreferences>;
+}
+
+// Personal access token as listed by /v1/auth/tokens
+export interface ApiTokenInfo {
+  id: number;
+  name: string;
+  abilities: string[];
+  last_used_at: string | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+export interface TokenListResponse {
+  tokens: ApiTokenInfo[];
+  total_count: number;
+}
+
 // Salary related types
 export interface Salary {
   id: number;
@@ -40,12 +116,27 @@ export interface Salary {
   salary_euros: number;
   commission: number;
   displayed_salary: number;
+  // Rate applied when salary_euros was computed, when the API records it
+  exchange_rate?: number | null;
   effective_date: string;
   notes: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Exchange rate from a local currency to EUR
+export interface ExchangeRate {
+  currency_code: string;
+  rate_to_eur: number;
+  effective_date: string;
+  source?: string | null;
+}
+
+export interface ExchangeRateHistoryParams {
+  date_from?: string;
+  date_to?: string;
+}
+
 // Combined user with salary data
 export interface UserWithSalary extends User {
   current_salary: Salary | null;
@@ -53,17 +144,68 @@ export interface UserWithSalary extends User {
   uploaded_documents: UploadedDocument[];
 }
 
+// Salary fields captured in history snapshots (decimals may arrive as strings)
+export interface SalarySnapshot {
+  salary_local_currency?: number | string;
+  local_currency_code?: string;
+  salary_euros?: number | string;
+  commission?: number | string;
+  displayed_salary?: number | string;
+  effective_date?: string;
+  notes?: string | null;
+}
+
+// Minimal user reference embedded in audit records
+export type UserReference = Pick<User, 'id' | 'name' | 'email'>;
+
 // Salary history for audit trail
 export interface SalaryHistory {
   id: number;
   user_id: number;
-  old_values: Record<string, any>;
-  new_values: Record<string, any>;
-  changed_by: number;
+  old_values: SalarySnapshot | null;
+  new_values: SalarySnapshot;
+  // Either the actor id or, when the relation is loaded, the actor itself
+  changed_by: number | UserReference | null;
+  changed_by_user?: UserReference | null;
+  user?: UserReference;
+  change_reason: string | null;
+  action?: 'create' | 'update' | 'delete';
+  created_at: string;
+}
+
+// Unified audit log across salary and commission changes
+export type AuditEntryType = 'salary' | 'commission';
+
+export interface SalaryAuditEntry extends SalaryHistory {
+  type: 'salary';
+}
+
+export interface CommissionAuditEntry {
+  type: 'commission';
+  id: number;
+  old_amount: number | string | null;
+  new_amount: number | string;
+  effective_date: string;
+  changed_by: number | UserReference | null;
+  changed_by_user?: UserReference | null;
   change_reason: string | null;
   created_at: string;
 }
 
+export type AuditEntry = SalaryAuditEntry | CommissionAuditEntry;
+
+export interface AuditLogParams {
+  page?: number;
+  per_page?: number;
+  type?: AuditEntryType;
+  actor_id?: number;
+  user_id?: number;
+  field?: string;
+  reason?: string;
+  date_from?: string;
+  date_to?: string;
+}
+
 // File upload related types
 export interface UploadedDocument {
   id: number;
@@ -101,6 +243,41 @@ export interface UpdateSalaryRequest {
   notes?: string;
 }
 
+// Maker/checker approval for salary changes above the configured threshold
+export type SalaryChangeRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface SalaryChangeRequest {
+  id: number;
+  user_id: number;
+  user?: UserReference;
+  current: SalarySnapshot;
+  proposed: UpdateSalaryRequest;
+  // Change in displayed salary relative to the current record
+  percent_change: number;
+  status: SalaryChangeRequestStatus;
+  requested_by: UserReference | null;
+  request_reason: string | null;
+  reviewed_by: UserReference | null;
+  review_reason: string | null;
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+export interface SalaryApprovalSettings {
+  enabled: boolean;
+  threshold_percent: number;
+}
+
+// updateSalary either writes the salary or parks it as a change request awaiting review
+export type SalaryUpdateResult =
+  | { status: 'applied'; user: UserWithSalary }
+  | { status: 'pending_approval'; change_request: SalaryChangeRequest };
+
+export interface SalaryChangeRequestParams {
+  status?: SalaryChangeRequestStatus;
+  user_id?: number;
+}
+
 // Bulk operations
 export interface BulkUpdateRequest {
   users: Array<{
@@ -111,6 +288,42 @@ export interface BulkUpdateRequest {
   }>;
 }
 
+export interface BulkSalaryUpdate {
+  user_id: number;
+  salary_local_currency?: number;
+  salary_euros?: number;
+  commission?: number;
+}
+
+// Users a bulk action applies to: listed ids, or every user matching a search except the excluded ones
+export type BulkUserSelector =
+  | { ids: number[] }
+  | { filter: Omit<SearchParams, 'page' | 'per_page'>; exclude_ids: number[] };
+
+// Change the API applies to each selected user's current salary
+export interface BulkSalaryAdjustment {
+  percent_raise?: number;
+  // Saved as a per-user commission override, since overrides decide the effective amount
+  commission?: number;
+}
+
+// A row the bulk endpoints refused, identified by its position in the batch or its id
+export interface BulkUpdateError {
+  index?: number;
+  id?: number;
+  user_id?: number;
+  message?: string;
+  errors?: Record<string, string[]>;
+}
+
+export interface BulkUpdateResult {
+  updated: number;
+  failed: number;
+  errors: BulkUpdateError[];
+  // Rows above the approval threshold, parked as change requests instead of written
+  pending_approval?: SalaryChangeRequest[];
+}
+
 // Search and filter parameters
 export interface SearchParams {
   search?: string;
@@ -121,6 +334,140 @@ export interface SearchParams {
   filter_by?: Record<string, string>;
 }
 
+// Saved searches; private presets are only visible to their owner
+export type PresetVisibility = 'private' | 'team' | 'global';
+
+export interface ServerSearchPreset {
+  id: number;
+  name: string;
+  description: string | null;
+  search: string;
+  filters: Record<string, string>;
+  visibility: PresetVisibility;
+  owner_id: number;
+  owner?: Pick<User, 'id' | 'name'>;
+  /** Pinned presets are shown first for everyone who can see them */
+  pinned: boolean;
+  /** Usage by the current user */
+  use_count: number;
+  last_used_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SearchPresetRequest {
+  name: string;
+  description?: string | null;
+  search: string;
+  filters: Record<string, string>;
+  visibility: PresetVisibility;
+  pinned?: boolean;
+}
+
+// Presets saved in the browser before they were stored server-side
+export interface SearchPresetImport extends SearchPresetRequest {
+  use_count: number;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+// Saved views: a preset plus sort and columns, optionally mailed as a recurring digest
+export type DigestFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface DigestSchedule {
+  frequency: DigestFrequency;
+  /** 0 (Sunday) to 6, used by weekly digests */
+  day_of_week: number;
+  /** 1 to 28, used by monthly digests */
+  day_of_month: number;
+  /** Local send time as HH:MM */
+  time: string;
+  /** IANA timezone the send time is in */
+  timezone: string;
+}
+
+// Whether a digest lists every matching user or only those whose salary changed since the previous digest
+export type DigestWindow = 'all' | 'changed_since_last';
+
+export interface SavedViewDigest {
+  enabled: boolean;
+  schedule: DigestSchedule;
+  window: DigestWindow;
+  recipients: string[];
+}
+
+export interface SavedView {
+  id: number;
+  name: string;
+  preset_id: number;
+  preset: ServerSearchPreset;
+  sort_by: string | null;
+  sort_direction: 'asc' | 'desc';
+  /** Visible column keys in display order; null keeps the table's own layout */
+  columns: string[] | null;
+  digest: SavedViewDigest | null;
+  owner_id: number;
+  last_sent_at: string | null;
+  next_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedViewRequest {
+  name: string;
+  preset_id: number;
+  sort_by: string | null;
+  sort_direction: 'asc' | 'desc';
+  columns: string[] | null;
+  digest: SavedViewDigest | null;
+}
+
+// Digest as rendered in the browser, for the editor's preview and local mail catchers
+export interface DigestMessage {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Typeahead values from /v1/admin/users/suggestions
+export type SuggestionField = 'name' | 'email' | 'email_domain' | 'department' | 'currency';
+
+export interface ServerSuggestion {
+  field: SuggestionField;
+  value: string;
+  /** Number of users with this value */
+  count: number;
+}
+
+export interface SearchSuggestionsResult {
+  /** The term the suggestions were generated for */
+  query: string;
+  field: SuggestionField | null;
+  suggestions: ServerSuggestion[];
+}
+
+// Asynchronous export jobs; the file is built server-side and kept until expires_at
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export type ExportJobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'expired';
+
+export interface ExportJob {
+  id: number;
+  format: ExportFormat;
+  status: ExportJobStatus;
+  // 0-100 while processing, when the backend reports it
+  progress: number | null;
+  // Search, filters and sort the export was started with
+  params: Omit<SearchParams, 'page' | 'per_page'>;
+  row_count: number | null;
+  file_size: number | null;
+  download_url: string | null;
+  error: string | null;
+  created_at: string;
+  completed_at: string | null;
+  expires_at: string | null;
+}
+
 // Admin dashboard statistics
 export interface DashboardStats {
   total_users: number;
@@ -131,6 +478,90 @@ export interface DashboardStats {
   recent_updates: number;
 }
 
+// Salary statistics and trends from /v1/admin/statistics
+export type StatsPeriod = 'week' | 'month' | 'quarter' | 'year';
+export type StatsDateRange = '7d' | '30d' | '90d' | '1y' | 'all';
+
+export interface SalaryDistributionBucket {
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+export interface SalaryTrendPoint {
+  period_start: string;
+  average_salary: number;
+  total_commission: number;
+  changes: number;
+}
+
+export interface RegistrationPoint {
+  period_start: string;
+  registrations: number;
+}
+
+export interface ActivityTrendPoint {
+  period_start: string;
+  salary_changes: number;
+  document_uploads: number;
+}
+
+export interface SalaryStats {
+  period: {
+    from: string;
+    to: string;
+    range: StatsDateRange;
+  };
+  users: {
+    total: number;
+    new_in_period: number;
+    active: number;
+    with_salary: number;
+    without_salary: number;
+  };
+  salaries: {
+    total_records: number;
+    average_salary: number;
+    median_salary: number;
+    average_commission: number;
+    changes_in_period: number;
+    distribution: SalaryDistributionBucket[];
+  };
+  documents: {
+    total_documents: number;
+    uploads_in_period: number;
+    total_size_mb: number;
+  };
+  activities: {
+    salary_changes: number;
+    document_uploads: number;
+    user_registrations: number;
+  };
+  // Only included for report_type=detailed
+  trends?: {
+    group_by: StatsPeriod;
+    user_growth: RegistrationPoint[];
+    salary_trends: SalaryTrendPoint[];
+    activity_trends: ActivityTrendPoint[];
+  };
+}
+
+// Recent admin activity feed item
+export type ActivityType = 'salary_change' | 'commission_change' | 'user_registered';
+
+export interface ActivityItem {
+  id: number;
+  type: ActivityType;
+  user: UserReference | null;
+  changed_by: UserReference | null;
+  changes: {
+    salary_change: number | null;
+    commission_change: number | null;
+  };
+  reason: string | null;
+  created_at: string;
+}
+
 // Commission settings
 export interface Commission {
   id: number;
@@ -140,6 +571,26 @@ export interface Commission {
   updated_at: string;
 }
 
+// Commission override for a single user or a whole department; takes precedence over the global amount
+export type CommissionOverrideScope = 'user' | 'department';
+
+export interface CommissionOverride {
+  id: number;
+  scope: CommissionOverrideScope;
+  user_id: number | null;
+  department: string | null;
+  amount: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CommissionOverrideRequest {
+  scope: CommissionOverrideScope;
+  user_id?: number;
+  department?: string;
+  amount: number;
+}
+
 // Error response structure
 export interface ErrorResponse {
   success: false;
@@ -4,8 +4,11 @@ import {
   PaginatedResponse,
   User,
   UserWithSalary,
+  SalaryHistory,
   CreateUserRequest,
   UpdateUserRequest,
+  UserPreferences,
+  UpdatePreferencesRequest,
   SearchParams,
   UploadedDocument,
   UploadProgressCallback,
@@ -98,6 +101,20 @@ export const userApi = {
     return apiClient.put<ApiResponse<UserWithSalary>>('/v1/user', userData);
   },
 
+  /**
+   * Get current user preferences (theme, notifications)
+   */
+  async getPreferences(): Promise<ApiResponse<UserPreferences>> {
+    return apiClient.get<ApiResponse<UserPreferences>>('/v1/user/preferences');
+  },
+
+  /**
+   * Update current user preferences
+   */
+  async updatePreferences(preferences: UpdatePreferencesRequest): Promise<ApiResponse<UserPreferences>> {
+    return apiClient.put<ApiResponse<UserPreferences>>('/v1/user/preferences', preferences);
+  },
+
   /**
    * Search and filter users with advanced parameters
    */
@@ -176,8 +193,8 @@ export const userApi = {
     userId: number,
     page: number = 1,
     perPage: number = 20
-  ): Promise<PaginatedResponse<any>> {
-    return apiClient.get<PaginatedResponse<any>>(`/v1/users/${userId}/history`, {
+  ): Promise<PaginatedResponse<SalaryHistory>> {
+    return apiClient.get<PaginatedResponse<SalaryHistory>>(`/v1/users/${userId}/history`, {
       page: page.toString(),
       per_page: perPage.toString(),
     });
@@ -0,0 +1,31 @@
+import type { BulkUpdateResult, SalaryApprovalSettings, SalaryChangeRequest } from './api/types';
+import { SalaryFieldChange, diffSalarySnapshots } from './salaryHistory';
+
+// Mirrors the backend default until the settings endpoint answers
+export const DEFAULT_APPROVAL_SETTINGS: SalaryApprovalSettings = {
+  enabled: true,
+  threshold_percent: 10,
+};
+
+/**
+ * Bulk writes go through the same threshold as single edits; rows above it come back
+ * as change requests. Describes them for the notice shown after a bulk run.
+ */
+export function describePendingApprovals(result: Pick<BulkUpdateResult, 'pending_approval'> | null | undefined): string | null {
+  const count = result?.pending_approval?.length ?? 0;
+  if (count === 0) return null;
+  return count === 1
+    ? '1 salary change exceeds the approval threshold and is waiting for another admin to review it.'
+    : `${count} salary changes exceed the approval threshold and are waiting for another admin to review them.`;
+}
+
+export function diffChangeRequest(request: SalaryChangeRequest): SalaryFieldChange[] {
+  return diffSalarySnapshots(request.current, { ...request.current, ...request.proposed });
+}
+
+/**
+ * The checker must be a different admin from the maker
+ */
+export function canReviewChangeRequest(request: SalaryChangeRequest, reviewerId: number | null | undefined): boolean {
+  return request.status === 'pending' && !!reviewerId && request.requested_by?.id !== reviewerId;
+}
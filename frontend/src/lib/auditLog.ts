@@ -0,0 +1,100 @@
+import type { AuditEntry, CommissionAuditEntry } from './api/types';
+import { CsvValue, toCsv } from './csv';
+import { diffSalaryHistory, getHistoryActor, getHistoryActorId } from './salaryHistory';
+
+export interface CommissionChange {
+  oldAmount: number | null;
+  newAmount: number;
+  delta: number | null;
+  percentChange: number | null;
+}
+
+interface AuditCsvRow {
+  date: string;
+  type: AuditEntry['type'];
+  user_id: number | null;
+  user_name: string | null;
+  actor: string;
+  reason: string | null;
+  field: string | null;
+  old_value: CsvValue;
+  new_value: CsvValue;
+  currency: string | null;
+  delta: number | null;
+  percent_change: number | null;
+}
+
+export function getCommissionChange(entry: CommissionAuditEntry): CommissionChange {
+  const oldAmount = entry.old_amount === null || entry.old_amount === undefined ? null : Number(entry.old_amount);
+  const newAmount = Number(entry.new_amount);
+  const delta = oldAmount !== null ? newAmount - oldAmount : null;
+  const percentChange = delta !== null && oldAmount ? (delta / Math.abs(oldAmount)) * 100 : null;
+
+  return { oldAmount, newAmount, delta, percentChange };
+}
+
+export function getAuditActorName(entry: AuditEntry): string {
+  const actor = getHistoryActor(entry);
+  if (actor) return actor.name;
+  const actorId = getHistoryActorId(entry);
+  return actorId !== null ? `User #${actorId}` : 'System';
+}
+
+/**
+ * Flatten audit entries to CSV, one line per changed field
+ */
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+  const rows = entries.flatMap((entry): AuditCsvRow[] => {
+    const base = {
+      date: entry.created_at,
+      type: entry.type,
+      user_id: entry.type === 'salary' ? entry.user_id : null,
+      user_name: entry.type === 'salary' ? entry.user?.name ?? null : null,
+      actor: getAuditActorName(entry),
+      reason: entry.change_reason,
+    };
+
+    if (entry.type === 'commission') {
+      const change = getCommissionChange(entry);
+      return [{
+        ...base,
+        field: 'commission_amount',
+        old_value: change.oldAmount,
+        new_value: change.newAmount,
+        currency: 'EUR',
+        delta: change.delta,
+        percent_change: change.percentChange,
+      }];
+    }
+
+    const changes = diffSalaryHistory(entry);
+    if (changes.length === 0) {
+      return [{ ...base, field: null, old_value: null, new_value: null, currency: null, delta: null, percent_change: null }];
+    }
+
+    return changes.map(change => ({
+      ...base,
+      field: change.field,
+      old_value: change.oldValue,
+      new_value: change.newValue,
+      currency: change.currency,
+      delta: change.delta,
+      percent_change: change.percentChange,
+    }));
+  });
+
+  return toCsv(rows, [
+    { header: 'Date', value: row => row.date },
+    { header: 'Type', value: row => row.type },
+    { header: 'User ID', value: row => row.user_id },
+    { header: 'User', value: row => row.user_name },
+    { header: 'Changed By', value: row => row.actor },
+    { header: 'Field', value: row => row.field },
+    { header: 'Old Value', value: row => row.old_value },
+    { header: 'New Value', value: row => row.new_value },
+    { header: 'Currency', value: row => row.currency },
+    { header: 'Change', value: row => row.delta },
+    { header: 'Change %', value: row => row.percent_change === null ? null : Math.round(row.percent_change * 100) / 100 },
+    { header: 'Reason', value: row => row.reason },
+  ]);
+}
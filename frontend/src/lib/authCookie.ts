@@ -0,0 +1,5 @@
+// Kept free of other imports so the edge middleware bundle stays small
+
+// Cookie mirroring the stored token so middleware can check the session on navigation
+export const AUTH_TOKEN_COOKIE = 'api_token';
+export const AUTH_TOKEN_COOKIE_MAX_AGE = 60 * 60 * 24 * 30;
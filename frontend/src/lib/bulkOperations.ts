@@ -0,0 +1,74 @@
+import type { BulkUpdateError } from './api/types';
+import { formatValidationErrors } from './api/errors';
+
+// Rows sent per request; small enough for steady progress, large enough to keep request count down
+export const DEFAULT_BULK_CHUNK_SIZE = 50;
+
+export interface BulkFailedItem<T> {
+  item: T;
+  messages: string[];
+}
+
+export function chunkItems<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export function getBulkErrorMessages(error: BulkUpdateError): string[] {
+  const messages = error.errors ? formatValidationErrors(error.errors) : [];
+  if (error.message && !messages.includes(error.message)) {
+    messages.unshift(error.message);
+  }
+  return messages.length > 0 ? messages : ['Unknown error'];
+}
+
+/**
+ * Match the per-row errors of a bulk response back to the rows that were sent
+ */
+export function collectFailedItems<T>(
+  chunk: T[],
+  errors: BulkUpdateError[],
+  getId: (item: T) => number
+): BulkFailedItem<T>[] {
+  const failed = new Map<T, string[]>();
+
+  errors.forEach(error => {
+    const errorId = error.user_id ?? error.id;
+    const item = error.index !== undefined && error.index >= 0 && error.index < chunk.length
+      ? chunk[error.index]
+      : chunk.find(candidate => getId(candidate) === errorId);
+
+    if (item !== undefined) {
+      failed.set(item, [...(failed.get(item) ?? []), ...getBulkErrorMessages(error)]);
+    }
+  });
+
+  return Array.from(failed, ([item, messages]) => ({ item, messages }));
+}
+
+/**
+ * Split Laravel's "users.3.salary_euros" style validation keys by row index
+ */
+export function splitValidationErrorsByRow(errors: Record<string, string[]>): {
+  byIndex: Map<number, string[]>;
+  general: string[];
+} {
+  const byIndex = new Map<number, string[]>();
+  const general: string[] = [];
+
+  Object.entries(errors).forEach(([key, messages]) => {
+    const match = key.match(/^\w+\.(\d+)\.(.+)$/);
+    if (!match) {
+      general.push(...formatValidationErrors({ [key]: messages }));
+      return;
+    }
+
+    const index = Number(match[1]);
+    byIndex.set(index, [...(byIndex.get(index) ?? []), ...formatValidationErrors({ [match[2]]: messages })]);
+  });
+
+  return { byIndex, general };
+}
@@ -1,5 +1,6 @@
 import useSWR, { SWRConfiguration, mutate } from 'swr';
 import { performanceMonitor } from './performance';
+import { apiClient } from './api/client';
 
 // Cache configuration
 export const cacheConfig: SWRConfiguration = {
@@ -25,29 +26,25 @@ export const cacheConfig: SWRConfiguration = {
   // Custom fetcher with performance monitoring
   fetcher: async (url: string) => {
     return performanceMonitor.measureCustom(`API: ${url}`, async () => {
-      const response = await fetch(url, {
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-      
-      return response.json();
+      // Goes through the API client so auth headers and token refresh apply
+      return apiClient.get(url);
     });
   },
 };
 
 // Cache keys for consistent invalidation
 export const CACHE_KEYS = {
-  USERS: '/api/users',
-  USER: (id: string) => `/api/users/${id}`,
-  SALARIES: '/api/salaries',
-  SALARY: (id: string) => `/api/salaries/${id}`,
-  ADMIN_DASHBOARD: '/api/admin/dashboard',
-  SEARCH_RESULTS: (query: string) => `/api/search?q=${encodeURIComponent(query)}`,
+  USERS: '/v1/admin/users',
+  USER: (id: string) => `/v1/admin/users/${id}`,
+  SALARIES: '/v1/admin/salaries',
+  SALARY: (id: string) => `/v1/admin/salaries/${id}`,
+  ADMIN_DASHBOARD: '/v1/admin/dashboard',
+  SEARCH_RESULTS: (query: string) => `/v1/admin/users?search=${encodeURIComponent(query)}`,
+  EXCHANGE_RATES: '/v1/exchange-rates',
+  EXCHANGE_RATE_HISTORY: (currencyCode: string, dateFrom: string) => `/v1/exchange-rates/${currencyCode}/history?date_from=${dateFrom}`,
+  EXPORT_JOBS: '/v1/admin/exports',
+  SEARCH_PRESETS: '/v1/admin/search-presets',
+  SAVED_VIEWS: '/v1/admin/saved-views',
 } as const;
 
 // Custom hooks with caching
@@ -106,7 +103,7 @@ export class CacheManager {
   // Invalidate all user-related caches
   static async invalidateUsers() {
     await mutate(
-      key => typeof key === 'string' && key.startsWith('/api/users'),
+      key => typeof key === 'string' && key.startsWith('/v1/admin/users'),
       undefined,
       { revalidate: true }
     );
@@ -115,7 +112,7 @@ export class CacheManager {
   // Invalidate all salary-related caches
   static async invalidateSalaries() {
     await mutate(
-      key => typeof key === 'string' && key.startsWith('/api/salaries'),
+      key => typeof key === 'string' && key.startsWith('/v1/admin/salaries'),
       undefined,
       { revalidate: true }
     );
@@ -124,7 +121,7 @@ export class CacheManager {
   // Invalidate search caches
   static async invalidateSearch() {
     await mutate(
-      key => typeof key === 'string' && key.startsWith('/api/search'),
+      key => typeof key === 'string' && key.startsWith('/v1/admin/users?search='),
       undefined,
       { revalidate: true }
     );
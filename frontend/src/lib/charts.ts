@@ -0,0 +1,58 @@
+import type { SalaryDistributionBucket, StatsPeriod } from './api/types';
+
+export interface ChartDatum {
+  label: string;
+  value: number;
+}
+
+/**
+ * Round an axis maximum up to 1, 2, 2.5 or 5 times a power of ten and return evenly spaced ticks
+ */
+export function getNiceTicks(maxValue: number, tickCount: number = 4): number[] {
+  if (!Number.isFinite(maxValue) || maxValue <= 0) {
+    return [0, 1];
+  }
+
+  const roughStep = maxValue / tickCount;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(roughStep)));
+  const step = [1, 2, 2.5, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= roughStep) ?? roughStep;
+  const ticks: number[] = [];
+
+  for (let tick = 0; tick < maxValue + step; tick += step) {
+    ticks.push(Number(tick.toFixed(10)));
+  }
+
+  return ticks;
+}
+
+/**
+ * Short axis label such as 1.2k or 3.4M
+ */
+export function formatCompactNumber(value: number): string {
+  return new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+}
+
+/**
+ * Label a bucket start date according to the selected grouping
+ */
+export function formatPeriodLabel(periodStart: string, period: StatsPeriod): string {
+  const date = new Date(periodStart);
+  if (Number.isNaN(date.getTime())) return periodStart;
+
+  switch (period) {
+    case 'week':
+      return date.toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+    case 'quarter':
+      return `Q${Math.floor(date.getMonth() / 3) + 1} ${date.getFullYear()}`;
+    case 'year':
+      return String(date.getFullYear());
+    default:
+      return date.toLocaleDateString(undefined, { month: 'short', year: '2-digit' });
+  }
+}
+
+export function formatDistributionLabel(bucket: SalaryDistributionBucket): string {
+  const min = `€${formatCompactNumber(bucket.min)}`;
+  if (bucket.max === null) return `${min}+`;
+  return `${min}–${formatCompactNumber(bucket.max)}`;
+}
@@ -0,0 +1,109 @@
+import type { Commission, CommissionOverride, Salary, User } from './api/types';
+
+export type CommissionStatus = 'past' | 'current' | 'pending';
+
+export interface CommissionTimelineEntry extends Commission {
+  status: CommissionStatus;
+}
+
+export type CommissionSource = 'global' | CommissionOverride['scope'];
+
+export interface ResolvedCommission {
+  amount: number | null;
+  source: CommissionSource;
+  override: CommissionOverride | null;
+}
+
+export interface CommissionPreview {
+  currentDisplayed: number;
+  newDisplayed: number;
+  delta: number;
+  // Overridden users keep their commission when the global amount changes
+  overridden: boolean;
+}
+
+export function todayIsoDate(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+// Effective dates may arrive as full timestamps; compare on the calendar day only
+function effectiveDay(commission: Commission): string {
+  return commission.effective_date.slice(0, 10);
+}
+
+/**
+ * Merge commission entries into a newest-first timeline and mark which one is in effect today
+ */
+export function buildCommissionTimeline(
+  commissions: Commission[],
+  today: string = todayIsoDate()
+): CommissionTimelineEntry[] {
+  const unique = new Map<number, Commission>();
+  commissions.forEach(commission => unique.set(commission.id, commission));
+
+  const sorted = Array.from(unique.values()).sort((a, b) => {
+    const byDate = effectiveDay(b).localeCompare(effectiveDay(a));
+    return byDate !== 0 ? byDate : b.created_at.localeCompare(a.created_at);
+  });
+
+  let currentFound = false;
+  return sorted.map(commission => {
+    if (effectiveDay(commission) > today) {
+      return { ...commission, status: 'pending' as const };
+    }
+    if (!currentFound) {
+      currentFound = true;
+      return { ...commission, status: 'current' as const };
+    }
+    return { ...commission, status: 'past' as const };
+  });
+}
+
+/**
+ * Pick the commission that applies to a user: their own override, then their department's, then the global amount
+ */
+export function resolveCommission(
+  user: Pick<User, 'id' | 'department'>,
+  overrides: CommissionOverride[],
+  globalAmount: number | null
+): ResolvedCommission {
+  const userOverride = overrides.find(override => override.scope === 'user' && override.user_id === user.id);
+  if (userOverride) {
+    return { amount: Number(userOverride.amount), source: 'user', override: userOverride };
+  }
+
+  const departmentOverride = user.department
+    ? overrides.find(override => override.scope === 'department' && override.department === user.department)
+    : undefined;
+  if (departmentOverride) {
+    return { amount: Number(departmentOverride.amount), source: 'department', override: departmentOverride };
+  }
+
+  return { amount: globalAmount, source: 'global', override: null };
+}
+
+/**
+ * displayed_salary is salary_euros plus the commission, so a new global amount shifts it one-for-one
+ * for users that inherit it
+ */
+export function previewCommissionChange(
+  salary: Pick<Salary, 'salary_euros' | 'displayed_salary'>,
+  newAmount: number,
+  resolved?: ResolvedCommission
+): CommissionPreview {
+  const currentDisplayed = Number(salary.displayed_salary);
+  const overridden = !!resolved && resolved.source !== 'global';
+  const newDisplayed = overridden
+    ? currentDisplayed
+    : Math.round((Number(salary.salary_euros) + newAmount) * 100) / 100;
+
+  return {
+    currentDisplayed,
+    newDisplayed,
+    delta: Math.round((newDisplayed - currentDisplayed) * 100) / 100,
+    overridden,
+  };
+}
@@ -0,0 +1,97 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Quote a cell when it contains separators, quotes or line breaks. Text that a
+ * spreadsheet would run as a formula gets a leading apostrophe; numbers are
+ * left alone so negative amounts stay numeric.
+ */
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows to CSV using the given column order and headers
+ */
+export function toCsv<T>(
+  rows: T[],
+  columns: Array<{ header: string; value: (row: T) => CsvValue }>
+): string {
+  const header = columns.map(column => escapeCsvValue(column.header)).join(',');
+  const body = rows.map(row => columns.map(column => escapeCsvValue(column.value(row))).join(','));
+  return [header, ...body].join('\r\n');
+}
+
+/**
+ * Trigger a browser download of CSV content
+ */
+export function downloadCsv(content: string, filename: string): void {
+  if (typeof window === 'undefined') return;
+
+  // BOM so spreadsheet apps detect UTF-8
+  const blob = new Blob(['\uFEFF', content], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Parse CSV text into rows of cells, handling quoted fields and embedded line breaks.
+ * Semicolon-separated files (common in European spreadsheet exports) are detected from the header line.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines, typically a trailing newline or spacer rows
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
@@ -0,0 +1,116 @@
+import type { ExchangeRate, Salary } from './api/types';
+
+export type RateTable = Record<string, ExchangeRate>;
+
+// Mirrors SalaryService::EXCHANGE_RATES so previews still work when the rates endpoint is unreachable
+export const FALLBACK_RATES_TO_EUR: Record<string, number> = {
+  EUR: 1.0,
+  USD: 0.85,
+  GBP: 1.15,
+  CAD: 0.65,
+  AUD: 0.6,
+  JPY: 0.0065,
+  CHF: 0.95,
+  SEK: 0.085,
+  NOK: 0.082,
+  DKK: 0.134,
+};
+
+// Stored EUR values further than this from today's conversion get flagged
+export const RATE_DRIFT_THRESHOLD_PERCENT = 2;
+
+export function buildRateTable(rates: ExchangeRate[]): RateTable {
+  return rates.reduce<RateTable>((table, rate) => {
+    table[rate.currency_code.toUpperCase()] = { ...rate, rate_to_eur: Number(rate.rate_to_eur) };
+    return table;
+  }, {});
+}
+
+export function getFallbackRateTable(): RateTable {
+  return buildRateTable(
+    Object.entries(FALLBACK_RATES_TO_EUR).map(([currency_code, rate_to_eur]) => ({
+      currency_code,
+      rate_to_eur,
+      effective_date: '',
+      source: 'fallback',
+    }))
+  );
+}
+
+export function getSupportedCurrencies(table: RateTable): string[] {
+  // EUR first, the rest alphabetically
+  return Object.keys(table).sort((a, b) => (a === 'EUR' ? -1 : b === 'EUR' ? 1 : a.localeCompare(b)));
+}
+
+export function getRate(table: RateTable, currencyCode: string): number | null {
+  if (currencyCode.toUpperCase() === 'EUR') return 1;
+  return table[currencyCode.toUpperCase()]?.rate_to_eur ?? null;
+}
+
+/**
+ * Convert a local amount to EUR, rounded to cents like the backend
+ */
+export function convertToEuros(amount: number, rate: number): number {
+  return Math.round(amount * rate * 100) / 100;
+}
+
+/**
+ * Parse user input into a positive amount, or null when it isn't one
+ */
+export function parseAmount(value: unknown): number | null {
+  const amount = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+/**
+ * Rate that produced the stored EUR value: the recorded rate, else implied from the amounts
+ */
+export function getRateUsed(salary: Pick<Salary, 'salary_local_currency' | 'salary_euros' | 'exchange_rate'>): number | null {
+  if (salary.exchange_rate) return Number(salary.exchange_rate);
+
+  const local = Number(salary.salary_local_currency);
+  const euros = Number(salary.salary_euros);
+  if (!local || !Number.isFinite(euros)) return null;
+
+  return euros / local;
+}
+
+export interface RateDrift {
+  rateUsed: number | null;
+  currentRate: number;
+  expectedEuros: number;
+  differenceEuros: number;
+  driftPercent: number;
+  exceedsThreshold: boolean;
+}
+
+/**
+ * Compare a stored EUR salary against today's conversion of its local amount
+ */
+export function getRateDrift(
+  salary: Pick<Salary, 'salary_local_currency' | 'local_currency_code' | 'salary_euros' | 'exchange_rate'>,
+  table: RateTable,
+  thresholdPercent: number = RATE_DRIFT_THRESHOLD_PERCENT
+): RateDrift | null {
+  const currentRate = getRate(table, salary.local_currency_code);
+  const local = Number(salary.salary_local_currency);
+  if (currentRate === null || !local) return null;
+
+  const expectedEuros = convertToEuros(local, currentRate);
+  const storedEuros = Number(salary.salary_euros);
+  const differenceEuros = storedEuros - expectedEuros;
+  const driftPercent = expectedEuros ? (differenceEuros / expectedEuros) * 100 : 0;
+
+  return {
+    rateUsed: getRateUsed(salary),
+    currentRate,
+    expectedEuros,
+    differenceEuros,
+    driftPercent,
+    exceedsThreshold: Math.abs(driftPercent) > thresholdPercent,
+  };
+}
+
+export function formatRate(rate: number, currencyCode: string): string {
+  return `1 ${currencyCode.toUpperCase()} = ${rate.toLocaleString('en-US', { maximumSignificantDigits: 6 })} EUR`;
+}
@@ -0,0 +1,15 @@
+export const DEPARTMENT_OPTIONS = [
+  { value: 'engineering', label: 'Engineering' },
+  { value: 'marketing', label: 'Marketing' },
+  { value: 'sales', label: 'Sales' },
+  { value: 'finance', label: 'Finance' },
+  { value: 'hr', label: 'Human Resources' },
+  { value: 'operations', label: 'Operations' },
+  { value: 'design', label: 'Design' },
+  { value: 'product', label: 'Product Management' },
+];
+
+export function getDepartmentLabel(value: string | null | undefined): string {
+  if (!value) return 'No department';
+  return DEPARTMENT_OPTIONS.find(option => option.value === value)?.label ?? value;
+}
@@ -0,0 +1,70 @@
+import type { DigestMessage } from './api/types';
+import { adminApi } from './api/admin';
+
+/**
+ * A digest sent from the browser ("Send now"), with the preview the editor
+ * rendered and the saved view's recipients
+ */
+export interface DigestDelivery {
+  viewId: number;
+  message: DigestMessage;
+  recipients: string[];
+}
+
+/**
+ * Delivers digests sent from the browser. Scheduled digests are always sent by
+ * the API; NEXT_PUBLIC_DIGEST_NOTIFIER swaps the notifier, e.g. for a local
+ * mail catcher during testing.
+ */
+export interface DigestNotifier {
+  id: string;
+  label: string;
+  send(delivery: DigestDelivery): Promise<void>;
+}
+
+const notifiers = new Map<string, DigestNotifier>();
+
+export function registerDigestNotifier(notifier: DigestNotifier): void {
+  notifiers.set(notifier.id, notifier);
+}
+
+export function getDigestNotifier(id: string = process.env.NEXT_PUBLIC_DIGEST_NOTIFIER || 'api'): DigestNotifier {
+  const notifier = notifiers.get(id);
+  if (!notifier) {
+    throw new Error(`Unknown digest notifier "${id}"`);
+  }
+  return notifier;
+}
+
+// Only the view id is posted: the API renders the digest and mails the view's saved recipients
+registerDigestNotifier({
+  id: 'api',
+  label: 'Email',
+  async send({ viewId }) {
+    await adminApi.sendSavedViewDigest(viewId);
+  },
+});
+
+// Posts the preview to a Mailpit-compatible HTTP API so digests can be inspected without a real mail server
+registerDigestNotifier({
+  id: 'mail-catcher',
+  label: 'Local mail catcher',
+  async send({ message, recipients }) {
+    const baseUrl = process.env.NEXT_PUBLIC_MAIL_CATCHER_URL || 'http://localhost:8025';
+    const response = await fetch(`${baseUrl}/api/v1/send`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        From: { Email: process.env.NEXT_PUBLIC_DIGEST_FROM || 'digests@localhost' },
+        To: recipients.map(email => ({ Email: email })),
+        Subject: message.subject,
+        Text: message.text,
+        HTML: message.html,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mail catcher rejected the digest (HTTP ${response.status})`);
+    }
+  },
+});
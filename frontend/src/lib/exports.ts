@@ -0,0 +1,75 @@
+import type { ExportFormat, ExportJob, ExportJobStatus, SearchParams } from './api/types';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  json: 'JSON',
+};
+
+export const EXPORT_STATUS_LABELS: Record<ExportJobStatus, string> = {
+  queued: 'Queued',
+  processing: 'Processing',
+  completed: 'Ready',
+  failed: 'Failed',
+  expired: 'Expired',
+};
+
+export function isActiveExportJob(job: Pick<ExportJob, 'status'>): boolean {
+  return job.status === 'queued' || job.status === 'processing';
+}
+
+export function isExportDownloadable(job: ExportJob, now: Date = new Date()): boolean {
+  if (job.status !== 'completed' || !job.download_url) return false;
+  return !job.expires_at || new Date(job.expires_at) > now;
+}
+
+export function formatFileSize(bytes: number | null): string {
+  if (bytes === null) return '—';
+  if (bytes === 0) return '0 Bytes';
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), sizes.length - 1);
+  return `${parseFloat((bytes / Math.pow(1024, i)).toFixed(2))} ${sizes[i]}`;
+}
+
+/**
+ * Human readable summary of the search, filters and sort an export was started with
+ */
+export function describeExportParams(params: Omit<SearchParams, 'page' | 'per_page'>): string {
+  const parts: string[] = [];
+
+  if (params.search) parts.push(`search "${params.search}"`);
+  Object.entries(params.filter_by ?? {}).forEach(([key, value]) => {
+    parts.push(`${key.replace(/_/g, ' ')}: ${value}`);
+  });
+  if (params.sort_by) parts.push(`sorted by ${params.sort_by.replace(/_/g, ' ')} ${params.sort_direction ?? 'asc'}`);
+
+  return parts.length > 0 ? parts.join(', ') : 'All users';
+}
+
+/**
+ * Query string that reopens the users table with an export's search and filters
+ */
+export function toUsersQueryString(params: Omit<SearchParams, 'page' | 'per_page'>): string {
+  const query = new URLSearchParams();
+
+  if (params.search) query.set('search', params.search);
+  if (params.sort_by) query.set('sort_by', params.sort_by);
+  if (params.sort_direction) query.set('sort_direction', params.sort_direction);
+  Object.entries(params.filter_by ?? {}).forEach(([key, value]) => query.set(key, value));
+
+  return query.toString();
+}
+
+/**
+ * Start a browser download of a file the API has already prepared
+ */
+export function triggerDownload(url: string, filename: string): void {
+  if (typeof window === 'undefined') return;
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
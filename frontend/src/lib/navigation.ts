@@ -0,0 +1,11 @@
+// Header links shared by every admin page
+export const ADMIN_NAVIGATION_ITEMS = [
+  { href: '/admin/dashboard', label: 'Dashboard' },
+  { href: '/admin', label: 'Users' },
+  { href: '/admin/commissions', label: 'Commissions' },
+  { href: '/admin/audit', label: 'Audit Log' },
+  { href: '/admin/exports', label: 'Exports' },
+  { href: '/admin/views', label: 'Saved Views' },
+  { href: '/register', label: 'Add User' },
+  { href: '/settings', label: 'Settings' },
+];
@@ -0,0 +1,125 @@
+import type { SalaryHistory, SalarySnapshot, UserReference } from './api/types';
+
+export type SalaryField = keyof SalarySnapshot;
+
+interface SalaryFieldConfig {
+  label: string;
+  kind: 'local-currency' | 'euro' | 'text' | 'date';
+}
+
+// Display order and formatting for each tracked field
+export const SALARY_FIELD_CONFIG: Record<SalaryField, SalaryFieldConfig> = {
+  salary_local_currency: { label: 'Local salary', kind: 'local-currency' },
+  local_currency_code: { label: 'Currency', kind: 'text' },
+  salary_euros: { label: 'Salary (EUR)', kind: 'euro' },
+  commission: { label: 'Commission', kind: 'euro' },
+  displayed_salary: { label: 'Displayed salary', kind: 'euro' },
+  effective_date: { label: 'Effective date', kind: 'date' },
+  notes: { label: 'Notes', kind: 'text' },
+};
+
+export interface SalaryFieldChange {
+  field: SalaryField;
+  label: string;
+  kind: SalaryFieldConfig['kind'];
+  oldValue: string | number | null;
+  newValue: string | number | null;
+  currency: string | null;
+  // Only set for monetary fields with both sides present
+  delta: number | null;
+  percentChange: number | null;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function normalize(value: unknown, kind: SalaryFieldConfig['kind']): string | number | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (kind === 'local-currency' || kind === 'euro') return toNumber(value);
+  if (kind === 'date') return String(value).slice(0, 10);
+  return String(value);
+}
+
+/**
+ * Build the field-by-field diff of a history record, skipping unchanged fields
+ */
+export function diffSalaryHistory(record: SalaryHistory, fallbackCurrency: string = 'EUR'): SalaryFieldChange[] {
+  return diffSalarySnapshots(record.old_values || {}, record.new_values || {}, fallbackCurrency);
+}
+
+export function diffSalarySnapshots(
+  oldValues: SalarySnapshot,
+  newValues: SalarySnapshot,
+  fallbackCurrency: string = 'EUR'
+): SalaryFieldChange[] {
+  const localCurrency = newValues.local_currency_code || oldValues.local_currency_code || fallbackCurrency;
+
+  return (Object.keys(SALARY_FIELD_CONFIG) as SalaryField[]).reduce<SalaryFieldChange[]>((changes, field) => {
+    const config = SALARY_FIELD_CONFIG[field];
+    const oldValue = normalize(oldValues[field], config.kind);
+    const newValue = normalize(newValues[field], config.kind);
+
+    if (oldValue === newValue) {
+      return changes;
+    }
+
+    const isMonetary = config.kind === 'local-currency' || config.kind === 'euro';
+    const delta = isMonetary && typeof oldValue === 'number' && typeof newValue === 'number'
+      ? newValue - oldValue
+      : null;
+    const percentChange = delta !== null && oldValue !== 0
+      ? (delta / Math.abs(oldValue as number)) * 100
+      : null;
+
+    changes.push({
+      field,
+      label: config.label,
+      kind: config.kind,
+      oldValue,
+      newValue,
+      currency: config.kind === 'local-currency' ? localCurrency : config.kind === 'euro' ? 'EUR' : null,
+      delta,
+      percentChange,
+    });
+
+    return changes;
+  }, []);
+}
+
+/**
+ * Resolve who made the change, whichever way the backend serialized it
+ */
+type ActorFields = Pick<SalaryHistory, 'changed_by' | 'changed_by_user'>;
+
+export function getHistoryActor(record: ActorFields): UserReference | null {
+  if (record.changed_by_user) return record.changed_by_user;
+  if (record.changed_by && typeof record.changed_by === 'object') return record.changed_by;
+  return null;
+}
+
+export function getHistoryActorId(record: ActorFields): number | null {
+  const actor = getHistoryActor(record);
+  if (actor) return actor.id;
+  return typeof record.changed_by === 'number' ? record.changed_by : null;
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  } catch {
+    // Unknown currency codes still render as plain numbers
+    return `${amount.toLocaleString('en-US', { maximumFractionDigits: 2 })} ${currency}`;
+  }
+}
+
+export function formatPercentChange(percent: number): string {
+  const sign = percent > 0 ? '+' : '';
+  return `${sign}${percent.toFixed(1)}%`;
+}
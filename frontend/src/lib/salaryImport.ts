@@ -0,0 +1,235 @@
+import type { BulkSalaryUpdate, CreateUserRequest, SalarySnapshot, UserWithSalary } from './api/types';
+import { userUtils } from './api/user';
+import { SalaryFieldChange, diffSalarySnapshots } from './salaryHistory';
+
+export type ImportField =
+  | 'email'
+  | 'name'
+  | 'salary_local_currency'
+  | 'local_currency_code'
+  | 'salary_euros'
+  | 'commission';
+
+// Header spellings recognised when guessing the column mapping
+export const IMPORT_FIELDS: Record<ImportField, { label: string; aliases: string[] }> = {
+  email: { label: 'Email', aliases: ['email', 'e_mail', 'email_address', 'mail'] },
+  name: { label: 'Name', aliases: ['name', 'full_name', 'employee', 'employee_name'] },
+  salary_local_currency: {
+    label: 'Local salary',
+    aliases: ['salary_local_currency', 'local_salary', 'salary', 'salary_local', 'base_salary'],
+  },
+  local_currency_code: {
+    label: 'Currency',
+    aliases: ['local_currency_code', 'currency', 'currency_code', 'local_currency'],
+  },
+  salary_euros: { label: 'Salary (EUR)', aliases: ['salary_euros', 'salary_eur', 'eur_salary', 'salary_in_euros'] },
+  commission: { label: 'Commission', aliases: ['commission', 'commission_eur', 'bonus'] },
+};
+
+// Field per file column; null ignores the column
+export type ColumnMapping = Array<ImportField | null>;
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'invalid';
+
+export interface ImportPreviewRow {
+  // Row number as shown in a spreadsheet, counting the header as row 1
+  rowNumber: number;
+  email: string;
+  name: string;
+  action: ImportAction;
+  errors: string[];
+  existing: UserWithSalary | null;
+  changes: SalaryFieldChange[];
+  create: CreateUserRequest | null;
+  update: BulkSalaryUpdate | null;
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const used = new Set<ImportField>();
+
+  return headers.map(header => {
+    const normalized = normalizeHeader(header);
+    const match = (Object.keys(IMPORT_FIELDS) as ImportField[]).find(field =>
+      !used.has(field) && IMPORT_FIELDS[field].aliases.includes(normalized)
+    );
+
+    if (!match) return null;
+    used.add(match);
+    return match;
+  });
+}
+
+// Import columns that hold money amounts
+type AmountField = 'salary_local_currency' | 'salary_euros' | 'commission';
+
+function stripCurrency(value: string): string {
+  return value.trim().replace(/[\s€$£¥]|[A-Z]{3}$/g, '');
+}
+
+// A dot that can only be a thousands separator: several groups, or a decimal comma after them
+const DOT_GROUPED_PATTERN = /^-?[1-9]\d{0,2}((\.\d{3}){2,}|(\.\d{3})+,\d+)$/;
+
+/**
+ * Whether a column writes thousands as "50.000". Salaries are whole amounts large enough
+ * that a dot followed by three digits is a separator; other columns, such as commissions
+ * with three decimals, only count when one of their values can't be read any other way.
+ */
+export function usesDotThousands(field: AmountField, columnValues: string[]): boolean {
+  return field !== 'commission'
+    || columnValues.some(value => DOT_GROUPED_PATTERN.test(stripCurrency(value)));
+}
+
+/**
+ * Parse a spreadsheet number, tolerating currency symbols and thousands separators.
+ * Commas on their own that group digits in threes are thousands separators, and so are
+ * dots when `dotThousands` is set, so "50,000" (and then "50.000") are fifty thousand.
+ * A leading zero group is always a decimal: "0.123" stays below one.
+ */
+export function parseImportNumber(value: string, dotThousands: boolean = false): number | null {
+  let text = stripCurrency(value);
+  if (text === '') return null;
+
+  if (text.includes(',') && text.includes('.')) {
+    // Whichever separator comes last is the decimal one
+    text = text.lastIndexOf(',') > text.lastIndexOf('.')
+      ? text.replace(/\./g, '').replace(',', '.')
+      : text.replace(/,/g, '');
+  } else if (text.includes(',')) {
+    text = /^-?[1-9]\d{0,2}(,\d{3})+$/.test(text) ? text.replace(/,/g, '') : text.replace(',', '.');
+  } else if (dotThousands && /^-?[1-9]\d{0,2}(\.\d{3})+$/.test(text)) {
+    text = text.replace(/\./g, '');
+  }
+
+  const amount = Number(text);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+function readRow(cells: string[], mapping: ColumnMapping): Partial<Record<ImportField, string>> {
+  return mapping.reduce<Partial<Record<ImportField, string>>>((values, field, index) => {
+    const value = cells[index]?.trim();
+    if (field && value) values[field] = value;
+    return values;
+  }, {});
+}
+
+function toSnapshot(user: UserWithSalary): SalarySnapshot {
+  const salary = user.current_salary;
+  return salary
+    ? {
+        salary_local_currency: salary.salary_local_currency,
+        local_currency_code: salary.local_currency_code,
+        salary_euros: salary.salary_euros,
+        commission: salary.commission,
+      }
+    : {};
+}
+
+/**
+ * Validate each file row and work out whether it creates a user, updates a salary or changes nothing.
+ * Nothing is sent to the API here.
+ */
+export function buildImportPreview(
+  rows: string[][],
+  mapping: ColumnMapping,
+  existingUsers: UserWithSalary[],
+  supportedCurrencies: string[] = []
+): ImportPreviewRow[] {
+  const usersByEmail = new Map(existingUsers.map(user => [user.email.toLowerCase(), user]));
+  const firstRowByEmail = new Map<string, number>();
+  const amountFields: AmountField[] = ['salary_local_currency', 'salary_euros', 'commission'];
+  const dotThousands = new Map(amountFields.map(field => {
+    const column = mapping.indexOf(field);
+    const columnValues = column === -1 ? [] : rows.map(cells => cells[column] ?? '');
+    return [field, usesDotThousands(field, columnValues)];
+  }));
+
+  return rows.map((cells, index) => {
+    const rowNumber = index + 2;
+    const values = readRow(cells, mapping);
+    const errors: string[] = [];
+    const email = values.email ?? '';
+    const name = values.name ?? '';
+
+    if (!email) {
+      errors.push('Email is required');
+    } else if (!userUtils.isValidEmail(email)) {
+      errors.push('Email is not valid');
+    } else {
+      const firstRow = firstRowByEmail.get(email.toLowerCase());
+      if (firstRow) {
+        errors.push(`Duplicate of row ${firstRow}`);
+      } else {
+        firstRowByEmail.set(email.toLowerCase(), rowNumber);
+      }
+    }
+
+    const amounts: Partial<Record<AmountField, number>> = {};
+    amountFields.forEach(field => {
+      const raw = values[field];
+      if (raw === undefined) return;
+
+      const amount = parseImportNumber(raw, dotThousands.get(field));
+      const label = IMPORT_FIELDS[field].label;
+      if (amount === null) {
+        errors.push(`${label} "${raw}" is not a number`);
+      } else if (field === 'commission' ? amount < 0 : !userUtils.isValidSalary(amount)) {
+        errors.push(field === 'commission'
+          ? `${label} cannot be negative`
+          : `${label} must be greater than 0 and at most 10,000,000`);
+      } else {
+        amounts[field] = amount;
+      }
+    });
+
+    const currency = values.local_currency_code?.toUpperCase();
+    if (currency && supportedCurrencies.length > 0 && !supportedCurrencies.includes(currency)) {
+      errors.push(`Currency ${currency} is not supported`);
+    }
+
+    const existing = email ? usersByEmail.get(email.toLowerCase()) ?? null : null;
+    const base = { rowNumber, email, name: name || existing?.name || '', existing, changes: [], create: null, update: null };
+
+    if (existing) {
+      const currentCurrency = existing.current_salary?.local_currency_code;
+      if (currency && currentCurrency && currency !== currentCurrency) {
+        errors.push(`Currency differs from the current record (${currentCurrency}); change it from the user page`);
+      }
+      if (errors.length > 0) {
+        return { ...base, action: 'invalid', errors };
+      }
+
+      const current = toSnapshot(existing);
+      const changes = diffSalarySnapshots(current, { ...current, ...amounts });
+      if (changes.length === 0) {
+        return { ...base, action: 'unchanged', errors };
+      }
+
+      return { ...base, action: 'update', errors, changes, update: { user_id: existing.id, ...amounts } };
+    }
+
+    if (!name) errors.push('Name is required for new users');
+    if (amounts.salary_local_currency === undefined && !errors.some(error => error.startsWith('Local salary'))) {
+      errors.push('Local salary is required for new users');
+    }
+    if (errors.length > 0) {
+      return { ...base, action: 'invalid', errors };
+    }
+
+    return {
+      ...base,
+      action: 'create',
+      errors,
+      changes: diffSalarySnapshots({}, { salary_local_currency: amounts.salary_local_currency, local_currency_code: currency ?? 'EUR' }, currency ?? 'EUR'),
+      create: {
+        name,
+        email,
+        salary_local_currency: amounts.salary_local_currency!,
+        local_currency_code: currency ?? 'EUR',
+      },
+    };
+  });
+}
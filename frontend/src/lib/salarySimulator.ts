@@ -0,0 +1,171 @@
+import type { CommissionOverrideRequest, UserWithSalary } from './api/types';
+import { getDepartmentLabel } from './departments';
+import { formatMoney } from './salaryHistory';
+
+interface RuleScope {
+  id: string;
+  // Limit the rule to one department; null applies it to everyone
+  department: string | null;
+}
+
+export type SimulationRule =
+  | (RuleScope & { type: 'percent_raise'; percent: number })
+  | (RuleScope & { type: 'salary_floor'; minimum: number })
+  | (RuleScope & { type: 'set_commission'; amount: number });
+
+export type SimulationRuleType = SimulationRule['type'];
+
+// A rule as entered in the builder, before it is given an id
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+export type SimulationRuleInput = WithoutId<SimulationRule>;
+
+export interface SimulatedSalary {
+  salary_local_currency: number;
+  salary_euros: number;
+  commission: number;
+  displayed_salary: number;
+}
+
+export interface SimulationRow {
+  user: UserWithSalary;
+  before: SimulatedSalary;
+  after: SimulatedSalary;
+  delta: number;
+  appliedRuleIds: string[];
+  changed: boolean;
+}
+
+export interface SimulationTotals {
+  before: number;
+  after: number;
+  delta: number;
+  percentChange: number | null;
+  affectedUsers: number;
+}
+
+export interface SimulationResult {
+  rows: SimulationRow[];
+  totals: SimulationTotals;
+}
+
+export const RULE_TYPE_LABELS: Record<SimulationRuleType, string> = {
+  percent_raise: 'Percentage raise',
+  salary_floor: 'Salary floor (EUR)',
+  set_commission: 'New commission (EUR)',
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function describeRule(rule: SimulationRule): string {
+  const scope = rule.department ? ` for ${getDepartmentLabel(rule.department)}` : ' for everyone';
+
+  switch (rule.type) {
+    case 'percent_raise':
+      return `${rule.percent >= 0 ? '+' : ''}${rule.percent}%${scope}`;
+    case 'salary_floor':
+      return `Floor at ${formatMoney(rule.minimum, 'EUR')}${scope}`;
+    case 'set_commission':
+      return `Commission ${formatMoney(rule.amount, 'EUR')}${scope}`;
+  }
+}
+
+function withDisplayed(salary: Omit<SimulatedSalary, 'displayed_salary'>): SimulatedSalary {
+  return { ...salary, displayed_salary: round2(salary.salary_euros + salary.commission) };
+}
+
+// Scale the local amount with the EUR amount so the implied exchange rate is preserved
+function withEuroSalary(salary: SimulatedSalary, salaryEuros: number): SimulatedSalary {
+  const ratio = salary.salary_euros ? salaryEuros / salary.salary_euros : 1;
+  return withDisplayed({
+    salary_local_currency: round2(salary.salary_local_currency * ratio),
+    salary_euros: round2(salaryEuros),
+    commission: salary.commission,
+  });
+}
+
+export function applyRule(salary: SimulatedSalary, rule: SimulationRule): SimulatedSalary {
+  switch (rule.type) {
+    case 'percent_raise':
+      return withEuroSalary(salary, salary.salary_euros * (1 + rule.percent / 100));
+    case 'salary_floor':
+      return salary.salary_euros < rule.minimum ? withEuroSalary(salary, rule.minimum) : salary;
+    case 'set_commission':
+      return withDisplayed({ ...salary, commission: round2(rule.amount) });
+  }
+}
+
+function ruleApplies(rule: SimulationRule, user: UserWithSalary): boolean {
+  return rule.department === null || rule.department === user.department;
+}
+
+/**
+ * Apply rules in order to every user with a salary; nothing is persisted.
+ * `getCommission` gives each user's effective commission, since overrides take
+ * precedence over the amount stored on the salary.
+ */
+export function runSimulation(
+  users: UserWithSalary[],
+  rules: SimulationRule[],
+  getCommission: (user: UserWithSalary) => number | null = () => null
+): SimulationResult {
+  const rows = users
+    .filter(user => user.current_salary)
+    .map(user => {
+      const salary = user.current_salary!;
+      const before = withDisplayed({
+        salary_local_currency: Number(salary.salary_local_currency),
+        salary_euros: Number(salary.salary_euros),
+        commission: getCommission(user) ?? Number(salary.commission),
+      });
+
+      const appliedRuleIds: string[] = [];
+      const after = rules.reduce((current, rule) => {
+        if (!ruleApplies(rule, user)) return current;
+        const next = applyRule(current, rule);
+        if (next !== current) appliedRuleIds.push(rule.id);
+        return next;
+      }, before);
+
+      const delta = round2(after.displayed_salary - before.displayed_salary);
+      const changed = after.salary_euros !== before.salary_euros || after.commission !== before.commission;
+
+      return { user, before, after, delta, appliedRuleIds, changed };
+    });
+
+  const before = round2(rows.reduce((sum, row) => sum + row.before.displayed_salary, 0));
+  const after = round2(rows.reduce((sum, row) => sum + row.after.displayed_salary, 0));
+
+  return {
+    rows,
+    totals: {
+      before,
+      after,
+      delta: round2(after - before),
+      percentChange: before ? ((after - before) / before) * 100 : null,
+      affectedUsers: rows.filter(row => row.changed).length,
+    },
+  };
+}
+
+/**
+ * Payload for adminApi.bulkUpdateSalaries covering only the rows whose salary the rules changed.
+ * Commission is left out: the effective amount comes from overrides, see toCommissionOverrides.
+ */
+export function toBulkSalaryUpdates(rows: SimulationRow[]) {
+  return rows
+    .filter(row => row.after.salary_euros !== row.before.salary_euros)
+    .map(row => ({
+      user_id: row.user.id,
+      salary_local_currency: row.after.salary_local_currency,
+      salary_euros: row.after.salary_euros,
+    }));
+}
+
+/**
+ * Per-user commission overrides for the rows whose commission the rules changed
+ */
+export function toCommissionOverrides(rows: SimulationRow[]): CommissionOverrideRequest[] {
+  return rows
+    .filter(row => row.after.commission !== row.before.commission)
+    .map(row => ({ scope: 'user', user_id: row.user.id, amount: row.after.commission }));
+}
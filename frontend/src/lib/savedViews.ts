@@ -0,0 +1,355 @@
+import type {
+  DigestFrequency,
+  DigestMessage,
+  DigestSchedule,
+  DigestWindow,
+  SavedViewDigest,
+  SearchParams,
+  UserWithSalary,
+} from './api/types';
+import { userUtils } from './api/user';
+import { buildUsersQuery } from './searchQuery';
+import { describeExportParams } from './exports';
+import type { TableLayout } from './tableLayout';
+
+export const DIGEST_FREQUENCY_LABELS: Record<DigestFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+export const DIGEST_WINDOW_LABELS: Record<DigestWindow, string> = {
+  all: 'All matching users',
+  changed_since_last: 'Only users whose salary changed since the previous digest',
+};
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** Rows listed in a digest; the full count is always included */
+export const DIGEST_ROW_LIMIT = 50;
+
+/**
+ * Users table columns a digest can include, keyed like the admin table's columns
+ */
+export const VIEW_COLUMNS: Record<string, { label: string; format: (value: unknown) => string }> = {
+  name: { label: 'Name', format: value => String(value ?? '') },
+  email: { label: 'Email', format: value => String(value ?? '') },
+  salary_local_currency: { label: 'Local Salary', format: value => formatAmount(value, 'USD') },
+  salary_euros: { label: 'Salary (EUR)', format: value => formatAmount(value, 'EUR') },
+  commission: { label: 'Commission', format: value => formatAmount(value, 'EUR') },
+  displayed_salary: { label: 'Total Salary', format: value => formatAmount(value, 'EUR') },
+  created_at: { label: 'Registered', format: value => value ? new Date(String(value)).toLocaleDateString() : 'N/A' },
+};
+
+const DEFAULT_DIGEST_COLUMNS = ['name', 'email', 'displayed_salary'];
+
+function formatAmount(value: unknown, currency: string): string {
+  const amount = Number(value);
+  return value !== null && value !== undefined && value !== '' && !isNaN(amount)
+    ? userUtils.formatSalary(amount, currency)
+    : 'N/A';
+}
+
+export function getDefaultDigest(): SavedViewDigest {
+  return {
+    enabled: true,
+    schedule: {
+      frequency: 'weekly',
+      day_of_week: 1,
+      day_of_month: 1,
+      time: '08:00',
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    },
+    window: 'changed_since_last',
+    recipients: [],
+  };
+}
+
+export function parseRecipients(value: string): string[] {
+  return value
+    .split(/[\s,;]+/)
+    .map(recipient => recipient.trim())
+    .filter(Boolean);
+}
+
+export function validateDigest(digest: SavedViewDigest): string[] {
+  const errors: string[] = [];
+  const { schedule } = digest;
+
+  if (digest.recipients.length === 0) {
+    errors.push('Add at least one recipient');
+  }
+  digest.recipients
+    .filter(recipient => !userUtils.isValidEmail(recipient))
+    .forEach(recipient => errors.push(`"${recipient}" is not a valid email address`));
+  if (!isValidTimeZone(schedule.timezone)) {
+    errors.push(`"${schedule.timezone}" is not a known time zone`);
+  }
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(schedule.time)) {
+    errors.push('Send time must be a valid time of day');
+  }
+  if (schedule.frequency === 'weekly' && (schedule.day_of_week < 0 || schedule.day_of_week > 6)) {
+    errors.push('Pick a day of the week');
+  }
+  // Capped at 28 so every month has a run
+  if (schedule.frequency === 'monthly' && (schedule.day_of_month < 1 || schedule.day_of_month > 28)) {
+    errors.push('Day of the month must be between 1 and 28');
+  }
+
+  return errors;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// An unknown or missing zone falls back to the browser's own
+function getZoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : undefined,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  });
+}
+
+/**
+ * Wall-clock time of an instant in a zone, as if that wall-clock time were UTC
+ */
+function toZonedTime(date: Date, formatter: Intl.DateTimeFormat): number {
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map(part => [part.type, Number(part.value)])
+  );
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Instant at which a zone's clock shows the given wall-clock time. The offset
+ * is checked twice so times next to a daylight saving change land correctly.
+ * A time the clocks skip over moves forward to the first minute that exists,
+ * e.g. 02:30 on a spring-forward night becomes 03:00.
+ */
+function fromZonedTime(wallClock: number, formatter: Intl.DateTimeFormat): Date {
+  // Daylight saving gaps are at most a few hours, so a day of minutes always finds a valid time
+  for (let candidate = wallClock; candidate < wallClock + 24 * 60 * MINUTE_MS; candidate += MINUTE_MS) {
+    const guess = candidate - (toZonedTime(new Date(candidate), formatter) - candidate);
+    const instant = new Date(candidate - (toZonedTime(new Date(guess), formatter) - guess));
+    if (toZonedTime(instant, formatter) === candidate) return instant;
+  }
+  return new Date(wallClock);
+}
+
+function isScheduledDay(schedule: DigestSchedule, day: Date): boolean {
+  switch (schedule.frequency) {
+    case 'daily':
+      return true;
+    case 'weekly':
+      return day.getUTCDay() === schedule.day_of_week;
+    case 'monthly':
+      return day.getUTCDate() === schedule.day_of_month;
+  }
+}
+
+// `day` is a calendar date held in UTC fields
+function atScheduledTime(schedule: DigestSchedule, day: Date, formatter: Intl.DateTimeFormat): Date {
+  const [hours, minutes] = schedule.time.split(':').map(Number);
+  const wallClock = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hours || 0, minutes || 0);
+  return fromZonedTime(wallClock, formatter);
+}
+
+// Calendar date `offset` days from the date an instant falls on in the schedule's zone
+function getZonedDay(date: Date, offset: number, formatter: Intl.DateTimeFormat): Date {
+  const day = new Date(toZonedTime(date, formatter));
+  return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate() + offset));
+}
+
+/**
+ * First run strictly after `from`, in the schedule's time zone
+ */
+export function getNextRun(schedule: DigestSchedule, from: Date = new Date()): Date {
+  const formatter = getZoneFormatter(schedule.timezone);
+  // A monthly schedule always has a matching day within 31 days
+  for (let offset = 0; offset <= 31; offset++) {
+    const day = getZonedDay(from, offset, formatter);
+    const run = atScheduledTime(schedule, day, formatter);
+    if (isScheduledDay(schedule, day) && run > from) return run;
+  }
+  return atScheduledTime(schedule, getZonedDay(from, 0, formatter), formatter);
+}
+
+/**
+ * Last run at or before `before`, in the schedule's time zone
+ */
+export function getPreviousRun(schedule: DigestSchedule, before: Date = new Date()): Date {
+  const formatter = getZoneFormatter(schedule.timezone);
+  for (let offset = 0; offset <= 31; offset++) {
+    const day = getZonedDay(before, -offset, formatter);
+    const run = atScheduledTime(schedule, day, formatter);
+    if (isScheduledDay(schedule, day) && run <= before) return run;
+  }
+  return atScheduledTime(schedule, getZonedDay(before, 0, formatter), formatter);
+}
+
+export function getNextRuns(schedule: DigestSchedule, count: number, from: Date = new Date()): Date[] {
+  const runs: Date[] = [];
+  let cursor = from;
+  for (let i = 0; i < count; i++) {
+    cursor = getNextRun(schedule, cursor);
+    runs.push(cursor);
+  }
+  return runs;
+}
+
+export function describeSchedule(schedule: DigestSchedule): string {
+  const time = schedule.time;
+  const localZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const zone = schedule.timezone && schedule.timezone !== localZone ? ` (${schedule.timezone})` : '';
+
+  switch (schedule.frequency) {
+    case 'daily':
+      return `Every day at ${time}${zone}`;
+    case 'weekly':
+      return `Every ${WEEKDAY_LABELS[schedule.day_of_week]} at ${time}${zone}`;
+    case 'monthly':
+      return `Monthly on day ${schedule.day_of_month} at ${time}${zone}`;
+  }
+}
+
+/**
+ * Salary change window a digest covers when it only lists changes since the
+ * previous one. Before the first digest is sent, it covers the current
+ * schedule interval, from the latest run to the next, so a weekly digest
+ * lists one week of changes.
+ */
+export function getDigestPeriod(
+  digest: Pick<SavedViewDigest, 'window' | 'schedule'>,
+  lastSentAt: string | null,
+  now: Date = new Date()
+): { from: Date; to: Date } | null {
+  if (digest.window !== 'changed_since_last') return null;
+  if (lastSentAt) return { from: new Date(lastSentAt), to: now };
+
+  return {
+    from: getPreviousRun(digest.schedule, now),
+    to: getNextRun(digest.schedule, now),
+  };
+}
+
+export interface ViewQuery {
+  search: string;
+  filters: Record<string, string>;
+  sort_by: string | null;
+  sort_direction: 'asc' | 'desc';
+}
+
+/**
+ * Users API parameters for a view, narrowed to a digest period if there is one
+ */
+export function getViewSearchParams(
+  view: ViewQuery,
+  period: { from: Date; to: Date } | null = null
+): Omit<SearchParams, 'page' | 'per_page'> {
+  const { search, filter_by } = buildUsersQuery(view.search, view.filters);
+
+  return {
+    search,
+    sort_by: view.sort_by ?? undefined,
+    sort_direction: view.sort_direction,
+    filter_by: period
+      ? { ...filter_by, salary_changed_from: period.from.toISOString(), salary_changed_to: period.to.toISOString() }
+      : filter_by,
+  };
+}
+
+export function getDigestColumns(columns: string[] | null): string[] {
+  const digestColumns = (columns ?? DEFAULT_DIGEST_COLUMNS).filter(key => key in VIEW_COLUMNS);
+  return digestColumns.length > 0 ? digestColumns : DEFAULT_DIGEST_COLUMNS;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Render a digest for the editor's preview and for notifiers that deliver it
+ * from the browser. The API renders the email it sends from the saved view,
+ * with the same columns and row limit.
+ */
+export function renderDigest(options: {
+  name: string;
+  view: ViewQuery;
+  columns: string[] | null;
+  users: UserWithSalary[];
+  total: number;
+  period: { from: Date; to: Date } | null;
+}): DigestMessage {
+  const { name, view, users, total, period } = options;
+  const columns = getDigestColumns(options.columns);
+  const rows = users.slice(0, DIGEST_ROW_LIMIT).map(user =>
+    columns.map(key => VIEW_COLUMNS[key].format((user as unknown as Record<string, unknown>)[key]))
+  );
+
+  const summary = period
+    ? `${total} ${total === 1 ? 'user' : 'users'} with salary changes between ${period.from.toLocaleString()} and ${period.to.toLocaleString()}`
+    : `${total} matching ${total === 1 ? 'user' : 'users'}`;
+  const criteria = describeExportParams(getViewSearchParams(view));
+  const more = total > rows.length ? `and ${total - rows.length} more` : '';
+
+  const textLines = [
+    `${name}: ${summary}`,
+    `Search: ${criteria}`,
+    '',
+    columns.map(key => VIEW_COLUMNS[key].label).join('\t'),
+    ...rows.map(row => row.join('\t')),
+  ];
+  if (more) textLines.push(more);
+  const text = textLines.join('\n');
+
+  const html = [
+    `<h2>${escapeHtml(name)}</h2>`,
+    `<p>${escapeHtml(summary)}</p>`,
+    `<p><small>Search: ${escapeHtml(criteria)}</small></p>`,
+    '<table cellpadding="6" cellspacing="0" border="1">',
+    `<thead><tr>${columns.map(key => `<th align="left">${escapeHtml(VIEW_COLUMNS[key].label)}</th>`).join('')}</tr></thead>`,
+    `<tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody>`,
+    '</table>',
+    more ? `<p>${escapeHtml(more)}</p>` : '',
+  ].join('');
+
+  return {
+    subject: `${name}: ${summary}`,
+    text,
+    html,
+  };
+}
+
+/**
+ * Users table layout that shows a view's columns, keeping the user's widths and
+ * pins. Columns the view leaves out are hidden rather than dropped.
+ */
+export function getViewLayout(columns: string[], stored: TableLayout | null): TableLayout {
+  const known = stored?.order ?? [...Object.keys(VIEW_COLUMNS), 'actions'];
+  const rest = known.filter(key => !columns.includes(key));
+
+  return {
+    order: [...columns, ...rest],
+    hidden: rest,
+    widths: stored?.widths ?? {},
+    pinned: stored?.pinned ?? {},
+  };
+}
@@ -0,0 +1,574 @@
+import { DEPARTMENT_OPTIONS } from './departments';
+import type { SearchParams } from './api/types';
+
+/**
+ * Query language for the admin search box.
+ *
+ *   john "jane doe"              free text, quoted phrases
+ *   name:"John Doe" dept:sales   field filters
+ *   salary:>50000 salary:40000-80000 commission:<=1000
+ *   created:last-30d created:2024-01-01..2024-06-30 created:>2024-01-01
+ *   dept:sales OR dept:finance   AND is implied between terms
+ *   NOT status:inactive  -intern (status:active OR verified:yes)
+ */
+
+export type QueryFieldType = 'text' | 'number' | 'date' | 'enum';
+
+export interface QueryFieldDefinition {
+  label: string;
+  /** Key used in SearchParams.filter_by */
+  filterKey: string;
+  type: QueryFieldType;
+  values?: string[];
+}
+
+export const QUERY_FIELDS: Record<string, QueryFieldDefinition> = {
+  name: { label: 'Name', filterKey: 'name_pattern', type: 'text' },
+  email: { label: 'Email', filterKey: 'email', type: 'text' },
+  salary: { label: 'Salary', filterKey: 'salary', type: 'number' },
+  commission: { label: 'Commission', filterKey: 'commission', type: 'number' },
+  department: {
+    label: 'Department',
+    filterKey: 'department',
+    type: 'enum',
+    values: DEPARTMENT_OPTIONS.map(option => option.value),
+  },
+  currency: { label: 'Currency', filterKey: 'salary_currency', type: 'text' },
+  created: { label: 'Created', filterKey: 'created', type: 'date' },
+  status: { label: 'Status', filterKey: 'status', type: 'enum', values: ['active', 'inactive'] },
+  verified: { label: 'Verified', filterKey: 'verified', type: 'enum', values: ['yes', 'no'] },
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+  dept: 'department',
+};
+
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export type ComparisonOperator = '>' | '>=' | '<' | '<=';
+export type RelativeDateUnit = 'd' | 'w' | 'm' | 'y';
+
+export type QueryValue =
+  | { kind: 'match'; value: string; phrase: boolean }
+  | { kind: 'compare'; operator: ComparisonOperator; value: string }
+  | { kind: 'range'; from: string; to: string }
+  | { kind: 'relative'; amount: number; unit: RelativeDateUnit };
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+export type QueryNode =
+  | ({ type: 'and'; children: QueryNode[] } & Span)
+  | ({ type: 'or'; children: QueryNode[] } & Span)
+  | ({ type: 'not'; child: QueryNode } & Span)
+  | ({ type: 'text'; value: string; phrase: boolean } & Span)
+  | ({ type: 'field'; field: string; value: QueryValue } & Span);
+
+export interface ParsedQuery {
+  ast: QueryNode | null;
+  errors: QueryError[];
+}
+
+// Tokenizer
+
+export type QueryToken =
+  | ({ type: 'lparen' | 'rparen' | 'and' | 'or' | 'not' } & Span)
+  | ({ type: 'text'; value: string; phrase: boolean } & Span)
+  | ({ type: 'field'; name: string; raw: string; phrase: boolean; nameEnd: number } & Span);
+
+const WORD_BREAK = /[\s()"]/;
+
+function readPhrase(input: string, start: number, errors: QueryError[]): { value: string; end: number } {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) {
+    errors.push({ message: 'Missing closing quote', start, end: input.length });
+    return { value: input.slice(start + 1), end: input.length };
+  }
+  return { value: input.slice(start + 1, close), end: close + 1 };
+}
+
+export function tokenizeQuery(input: string): { tokens: QueryToken[]; errors: QueryError[] } {
+  const tokens: QueryToken[] = [];
+  const errors: QueryError[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', start: i, end: i + 1 });
+      i++;
+    } else if (char === '"') {
+      const phrase = readPhrase(input, i, errors);
+      tokens.push({ type: 'text', value: phrase.value, phrase: true, start: i, end: phrase.end });
+      i = phrase.end;
+    } else if (char === '-' && i + 1 < input.length && !/[\s\d]/.test(input[i + 1])) {
+      // A leading minus negates the next term, e.g. -intern or -dept:sales
+      tokens.push({ type: 'not', start: i, end: i + 1 });
+      i++;
+    } else {
+      const start = i;
+      while (i < input.length && !WORD_BREAK.test(input[i])) i++;
+      const word = input.slice(start, i);
+      const colon = word.indexOf(':');
+
+      if (colon > 0 && /^[a-z_]+$/i.test(word.slice(0, colon))) {
+        let raw = word.slice(colon + 1);
+        let phrase = false;
+        // field:"quoted value" keeps its spaces
+        if (raw === '' && input[i] === '"') {
+          const quoted = readPhrase(input, i, errors);
+          raw = quoted.value;
+          phrase = true;
+          i = quoted.end;
+        }
+        tokens.push({ type: 'field', name: word.slice(0, colon).toLowerCase(), raw, phrase, nameEnd: start + colon, start, end: i });
+      } else if (word === 'AND' || word === '&&') {
+        tokens.push({ type: 'and', start, end: i });
+      } else if (word === 'OR' || word === '||') {
+        tokens.push({ type: 'or', start, end: i });
+      } else if (word === 'NOT') {
+        tokens.push({ type: 'not', start, end: i });
+      } else {
+        tokens.push({ type: 'text', value: word, phrase: false, start, end: i });
+      }
+    }
+  }
+
+  return { tokens, errors };
+}
+
+// Field values
+
+const NUMBER_PATTERN = /^\d+(\.\d+)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const RELATIVE_DATE_PATTERN = /^last-(\d+)([dwmy])$/;
+
+function parseNumber(raw: string): string | null {
+  const value = raw.replace(/[,_]/g, '');
+  return NUMBER_PATTERN.test(value) ? value : null;
+}
+
+// Date parses overflowing days like 2024-02-30 into the next month, so the parsed date must read back the same
+function isValidDate(raw: string): boolean {
+  if (raw === 'today' || raw === 'yesterday') return true;
+  if (!DATE_PATTERN.test(raw)) return false;
+  const date = new Date(raw);
+  return !isNaN(date.getTime()) && date.toISOString().split('T')[0] === raw;
+}
+
+function parseFieldValue(
+  definition: QueryFieldDefinition,
+  raw: string,
+  phrase: boolean
+): { value: QueryValue } | { error: string } {
+  if (raw === '') {
+    return { error: `${definition.label} needs a value` };
+  }
+
+  if (definition.type === 'text' || definition.type === 'enum') {
+    const value = definition.type === 'enum' ? raw.toLowerCase() : raw;
+    if (definition.values && !definition.values.includes(value)) {
+      return { error: `${definition.label} must be one of: ${definition.values.join(', ')}` };
+    }
+    return { value: { kind: 'match', value, phrase } };
+  }
+
+  const isDate = definition.type === 'date';
+  const validate = isDate
+    ? (value: string) => (isValidDate(value) ? value : null)
+    : parseNumber;
+  const expected = isDate ? 'a date like 2024-01-31, today or last-30d' : 'a number';
+
+  if (isDate) {
+    const relative = raw.match(RELATIVE_DATE_PATTERN);
+    if (relative) {
+      return { value: { kind: 'relative', amount: Number(relative[1]), unit: relative[2] as RelativeDateUnit } };
+    }
+  }
+
+  const comparison = raw.match(/^(>=|<=|>|<)(.*)$/);
+  if (comparison) {
+    const value = validate(comparison[2]);
+    if (value === null) return { error: `${definition.label} expects ${expected} after ${comparison[1]}` };
+    return { value: { kind: 'compare', operator: comparison[1] as ComparisonOperator, value } };
+  }
+
+  // Dates contain hyphens, so date ranges use `..`; numbers accept either
+  const rangeParts = raw.includes('..') ? raw.split('..') : isDate ? [raw] : raw.split('-');
+  if (rangeParts.length === 2) {
+    const from = validate(rangeParts[0]);
+    const to = validate(rangeParts[1]);
+    if (from === null || to === null) return { error: `${definition.label} range expects ${expected} on both sides` };
+    const outOfOrder = isDate ? from > to : Number(from) > Number(to);
+    if (outOfOrder) return { error: `${definition.label} range starts after it ends` };
+    return { value: { kind: 'range', from, to } };
+  }
+
+  const value = validate(raw);
+  if (value === null) return { error: `${definition.label} expects ${expected}` };
+  return { value: { kind: 'match', value, phrase } };
+}
+
+export function resolveQueryField(name: string): string | null {
+  const field = FIELD_ALIASES[name] ?? name;
+  return field in QUERY_FIELDS ? field : null;
+}
+
+// Parser
+
+/**
+ * Parse a search query into an AST. Parsing never throws: problems are
+ * collected as errors with the character range they apply to, and the rest
+ * of the query is still parsed so it can be applied.
+ */
+export function parseSearchQuery(input: string): ParsedQuery {
+  const { tokens, errors } = tokenizeQuery(input);
+  let position = 0;
+
+  const peek = () => tokens[position];
+
+  const combine = (type: 'and' | 'or', children: QueryNode[]): QueryNode | null => {
+    if (children.length === 0) return null;
+    if (children.length === 1) return children[0];
+    return { type, children, start: children[0].start, end: children[children.length - 1].end };
+  };
+
+  function parseOr(): QueryNode | null {
+    const children: QueryNode[] = [];
+    const first = parseAnd();
+    if (first) children.push(first);
+
+    while (peek()?.type === 'or') {
+      const operator = tokens[position++];
+      const next = parseAnd();
+      if (!next || children.length === 0) {
+        errors.push({ message: 'OR needs a term on both sides', start: operator.start, end: operator.end });
+      }
+      if (next) children.push(next);
+    }
+
+    return combine('or', children);
+  }
+
+  function parseAnd(): QueryNode | null {
+    const children: QueryNode[] = [];
+
+    while (position < tokens.length) {
+      const token = peek();
+      if (token.type === 'or' || token.type === 'rparen') break;
+
+      if (token.type === 'and') {
+        position++;
+        const following = peek();
+        if (children.length === 0 || !following || following.type === 'or' || following.type === 'rparen') {
+          errors.push({ message: 'AND needs a term on both sides', start: token.start, end: token.end });
+        }
+        continue;
+      }
+
+      const node = parseUnary();
+      if (node) children.push(node);
+    }
+
+    return combine('and', children);
+  }
+
+  function parseUnary(): QueryNode | null {
+    const token = peek();
+    if (token?.type !== 'not') return parsePrimary();
+
+    position++;
+    const child = position < tokens.length && !['or', 'and', 'rparen'].includes(peek().type) ? parseUnary() : null;
+    if (!child) {
+      errors.push({ message: 'NOT needs a term after it', start: token.start, end: token.end });
+      return null;
+    }
+    return { type: 'not', child, start: token.start, end: child.end };
+  }
+
+  function parsePrimary(): QueryNode | null {
+    const token = tokens[position++];
+
+    if (token.type === 'lparen') {
+      const inner = parseOr();
+      if (peek()?.type === 'rparen') {
+        position++;
+      } else {
+        errors.push({ message: 'Missing closing parenthesis', start: token.start, end: token.end });
+      }
+      if (!inner) {
+        errors.push({ message: 'Empty group', start: token.start, end: token.end });
+      }
+      return inner;
+    }
+
+    if (token.type === 'text') {
+      return { type: 'text', value: token.value, phrase: token.phrase, start: token.start, end: token.end };
+    }
+
+    if (token.type === 'field') {
+      const field = resolveQueryField(token.name);
+      if (!field) {
+        errors.push({
+          message: `Unknown field "${token.name}". Try ${Object.keys(QUERY_FIELDS).join(', ')}`,
+          start: token.start,
+          end: token.nameEnd,
+        });
+        return null;
+      }
+
+      const parsed = parseFieldValue(QUERY_FIELDS[field], token.raw, token.phrase);
+      if ('error' in parsed) {
+        // Point at the value, or at the whole term when the value is missing
+        errors.push({ message: parsed.error, start: token.raw ? token.nameEnd + 1 : token.start, end: token.end });
+        return null;
+      }
+      return { type: 'field', field, value: parsed.value, start: token.start, end: token.end };
+    }
+
+    // A stray operator or closing parenthesis
+    errors.push({
+      message: token.type === 'rparen' ? 'Unexpected closing parenthesis' : `Unexpected ${token.type.toUpperCase()}`,
+      start: token.start,
+      end: token.end,
+    });
+    return null;
+  }
+
+  const parts: QueryNode[] = [];
+  while (position < tokens.length) {
+    const node = parseOr();
+    if (node) parts.push(node);
+    // parseOr only stops early on a closing parenthesis with no group open
+    if (peek()?.type === 'rparen') {
+      const stray = tokens[position++];
+      errors.push({ message: 'Unexpected closing parenthesis', start: stray.start, end: stray.end });
+    }
+  }
+
+  return { ast: combine('and', parts), errors };
+}
+
+// Translation to SearchParams
+
+// Dates in queries are the user's calendar days, so they are read and written in local time
+function toIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function parseIsoDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function resolveDate(value: string, now: Date): string {
+  if (value === 'today') return toIsoDate(now);
+  if (value === 'yesterday') {
+    const date = new Date(now);
+    date.setDate(date.getDate() - 1);
+    return toIsoDate(date);
+  }
+  return value;
+}
+
+// Smallest step between two bounds: one cent for amounts, one day for dates
+function shiftBound(type: QueryFieldType, value: string, direction: 1 | -1): string {
+  if (type === 'date') {
+    const date = parseIsoDate(value);
+    date.setDate(date.getDate() + direction);
+    return toIsoDate(date);
+  }
+  return String((Math.round(Number(value) * 100) + direction) / 100);
+}
+
+function relativeDateStart(amount: number, unit: RelativeDateUnit, now: Date): string {
+  const date = new Date(now);
+  if (unit === 'd') date.setDate(date.getDate() - amount);
+  if (unit === 'w') date.setDate(date.getDate() - amount * 7);
+  if (unit === 'm') date.setMonth(date.getMonth() - amount);
+  if (unit === 'y') date.setFullYear(date.getFullYear() - amount);
+  return toIsoDate(date);
+}
+
+/**
+ * Filter entries for one field term. Numeric and date bounds are sent as
+ * `<key>_min`/`<key>_max` and `<key>_from`/`<key>_to` like AdvancedFilters
+ * does; the server treats both ends as inclusive, so `>` and `<` move the
+ * bound one step inwards.
+ */
+function fieldToFilters(node: Extract<QueryNode, { type: 'field' }>, now: Date): Record<string, string> {
+  const definition = QUERY_FIELDS[node.field];
+  const { value } = node;
+  const [lower, upper] = definition.type === 'date' ? ['from', 'to'] : ['min', 'max'];
+  const key = definition.filterKey;
+  const normalize = (raw: string) => (definition.type === 'date' ? resolveDate(raw, now) : raw);
+
+  switch (value.kind) {
+    case 'match':
+      if (definition.type === 'date') {
+        const day = normalize(value.value);
+        return { [`${key}_from`]: day, [`${key}_to`]: day };
+      }
+      if (definition.type === 'number') {
+        return { [`${key}_min`]: value.value, [`${key}_max`]: value.value };
+      }
+      // email:@company.com matches on the domain
+      if (node.field === 'email' && /^@[^@\s]+$/.test(value.value)) {
+        return { email_domain: value.value.slice(1) };
+      }
+      return { [key]: value.value };
+    case 'compare': {
+      const isLower = value.operator.startsWith('>');
+      const bound = normalize(value.value);
+      const inclusive = value.operator.endsWith('=')
+        ? bound
+        : shiftBound(definition.type, bound, isLower ? 1 : -1);
+      return { [`${key}_${isLower ? lower : upper}`]: inclusive };
+    }
+    case 'range':
+      return { [`${key}_${lower}`]: normalize(value.from), [`${key}_${upper}`]: normalize(value.to) };
+    case 'relative':
+      return { [`${key}_from`]: relativeDateStart(value.amount, value.unit, now), [`${key}_to`]: toIsoDate(now) };
+  }
+}
+
+/**
+ * Terms joined by AND, including those inside parenthesised AND groups
+ */
+export function flattenAnd(node: QueryNode): QueryNode[] {
+  return node.type === 'and' ? node.children.flatMap(flattenAnd) : [node];
+}
+
+export interface QuerySearchParams {
+  search?: string;
+  filter_by: Record<string, string>;
+  /** Parts of the query that parsed but cannot be expressed as search + filter_by */
+  errors: QueryError[];
+}
+
+/**
+ * Translate a query AST into the `search` and `filter_by` params the users
+ * endpoint understands. filter_by is a flat AND of fields, so the translator
+ * accepts a top-level AND of terms where each term is free text, `-text`, a
+ * field filter, a negated text or enum filter (`<key>_not`) or an OR of values
+ * of a single text or enum field (sent comma separated).
+ */
+export function queryToSearchParams(ast: QueryNode | null, now: Date = new Date()): QuerySearchParams {
+  const terms: string[] = [];
+  const filterBy: Record<string, string> = {};
+  const errors: QueryError[] = [];
+
+  const formatText = (node: Extract<QueryNode, { type: 'text' }>) =>
+    node.phrase ? `"${node.value}"` : node.value;
+
+  const addFilters = (node: QueryNode, filters: Record<string, string>) => {
+    const duplicate = Object.keys(filters).find(key => key in filterBy);
+    if (duplicate) {
+      errors.push({ message: `${duplicate.replace(/_/g, ' ')} is already filtered earlier in the query`, start: node.start, end: node.end });
+      return;
+    }
+    Object.assign(filterBy, filters);
+  };
+
+  const isMatchable = (node: QueryNode): node is Extract<QueryNode, { type: 'field' }> =>
+    node.type === 'field'
+    && node.value.kind === 'match'
+    && (QUERY_FIELDS[node.field].type === 'text' || QUERY_FIELDS[node.field].type === 'enum');
+
+  const nodes = ast === null ? [] : flattenAnd(ast);
+
+  nodes.forEach(node => {
+    if (node.type === 'text') {
+      terms.push(formatText(node));
+    } else if (node.type === 'field') {
+      addFilters(node, fieldToFilters(node, now));
+    } else if (node.type === 'not' && node.child.type === 'text') {
+      terms.push(`-${formatText(node.child)}`);
+    } else if (node.type === 'not' && isMatchable(node.child) && node.child.field !== 'email') {
+      const child = node.child;
+      addFilters(node, { [`${QUERY_FIELDS[child.field].filterKey}_not`]: (child.value as { value: string }).value });
+    } else if (
+      node.type === 'or'
+      && node.children.every(isMatchable)
+      && new Set(node.children.map(child => (child as Extract<QueryNode, { type: 'field' }>).field)).size === 1
+    ) {
+      const children = node.children as Extract<QueryNode, { type: 'field' }>[];
+      addFilters(node, {
+        [QUERY_FIELDS[children[0].field].filterKey]: children.map(child => (child.value as { value: string }).value).join(','),
+      });
+    } else {
+      errors.push({
+        message: node.type === 'or'
+          ? 'OR can only combine values of the same field, e.g. dept:sales OR dept:finance'
+          : 'This part of the query cannot be applied as a filter',
+        start: node.start,
+        end: node.end,
+      });
+    }
+  });
+
+  return {
+    search: terms.length > 0 ? terms.join(' ') : undefined,
+    filter_by: filterBy,
+    errors,
+  };
+}
+
+/**
+ * Parse the search box query and merge its filters over the filter panel's.
+ * Returns everything that applies, plus all parse and translation errors.
+ */
+export function buildUsersQuery(
+  query: string | undefined,
+  panelFilters: Record<string, string> = {}
+): Pick<SearchParams, 'search' | 'filter_by'> & { errors: QueryError[] } {
+  const parsed = parseSearchQuery(query ?? '');
+  const translated = queryToSearchParams(parsed.ast);
+  const filterBy = { ...panelFilters, ...translated.filter_by };
+
+  return {
+    search: translated.search,
+    filter_by: Object.keys(filterBy).length > 0 ? filterBy : undefined,
+    errors: [...parsed.errors, ...translated.errors].sort((a, b) => a.start - b.start),
+  };
+}
+
+/**
+ * Remove the characters a node covers from the query, tidying leftover spaces
+ */
+export function removeQuerySpan(query: string, span: Span): string {
+  return `${query.slice(0, span.start)} ${query.slice(span.end)}`.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Remove every top-level filter on a field (aliases included) from the query
+ */
+export function removeQueryField(query: string, field: string): string {
+  const { ast } = parseSearchQuery(query);
+  const target = resolveQueryField(field);
+  if (!ast || !target) return query;
+
+  // Remove from the end so earlier spans stay valid
+  return flattenAnd(ast)
+    .filter(node => node.type === 'field' && node.field === target)
+    .reverse()
+    .reduce((current, node) => removeQuerySpan(current, node), query);
+}
+
+/**
+ * Quote a value for use after `field:` when it contains spaces or quotes
+ */
+export function formatQueryValue(value: string): string {
+  return /[\s()"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
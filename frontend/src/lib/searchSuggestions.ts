@@ -0,0 +1,182 @@
+import type { ServerSuggestion, SuggestionField } from './api/types';
+import { formatQueryValue, resolveQueryField, tokenizeQuery } from './searchQuery';
+
+export interface SearchSuggestion {
+  type: 'recent' | 'suggestion' | 'filter';
+  /** The full query after picking this suggestion */
+  value: string;
+  label: string;
+  description?: string;
+  count?: number;
+  /** Caret position to restore after the suggestion is inserted */
+  cursor?: number;
+}
+
+/** The term under the caret that suggestions complete */
+export interface ActiveSearchToken {
+  start: number;
+  end: number;
+  /** Field the term is scoped to, or null for free text */
+  field: SuggestionField | null;
+  term: string;
+}
+
+/** Usage signals that push familiar values up the list */
+export interface SuggestionUsage {
+  history: string[];
+  presets: Array<{ search: string; useCount: number }>;
+}
+
+export const SUGGESTION_PREFIXES: Record<SuggestionField, string> = {
+  name: 'name:',
+  email: 'email:',
+  email_domain: 'email:@',
+  department: 'dept:',
+  currency: 'currency:',
+};
+
+const SUGGESTION_FIELD_LABELS: Record<SuggestionField, string> = {
+  name: 'Name',
+  email: 'Email',
+  email_domain: 'Email domain',
+  department: 'Department',
+  currency: 'Currency',
+};
+
+/**
+ * Suggestion field for a `field:value` term, or null if the field has no typeahead
+ */
+function toSuggestionField(name: string, raw: string): { field: SuggestionField; term: string } | null {
+  switch (resolveQueryField(name)) {
+    case 'name':
+      return { field: 'name', term: raw };
+    case 'email':
+      return raw.startsWith('@') ? { field: 'email_domain', term: raw.slice(1) } : { field: 'email', term: raw };
+    case 'department':
+      return { field: 'department', term: raw };
+    case 'currency':
+      return { field: 'currency', term: raw };
+    default:
+      return null;
+  }
+}
+
+export function getActiveToken(query: string, cursor: number): ActiveSearchToken | null {
+  const { tokens } = tokenizeQuery(query);
+  const token = tokens.find(candidate => candidate.start < cursor && cursor <= candidate.end);
+  if (!token) return null;
+
+  if (token.type === 'text') {
+    return { start: token.start, end: token.end, field: null, term: token.value };
+  }
+  if (token.type === 'field') {
+    const scoped = toSuggestionField(token.name, token.raw);
+    return scoped ? { start: token.start, end: token.end, ...scoped } : null;
+  }
+  return null;
+}
+
+export function formatSuggestionToken(field: SuggestionField, value: string): string {
+  return `${SUGGESTION_PREFIXES[field]}${formatQueryValue(value)}`;
+}
+
+/**
+ * Replace the active token with a suggestion and leave the caret after it
+ */
+export function applySuggestion(query: string, token: ActiveSearchToken, insert: string): { value: string; cursor: number } {
+  const before = query.slice(0, token.start);
+  const after = query.slice(token.end).trimStart();
+  // The trailing space lets the next term be typed straight away
+  return {
+    value: `${before}${insert} ${after}`,
+    cursor: before.length + insert.length + 1,
+  };
+}
+
+const usageKey = (field: SuggestionField, value: string) => `${field}:${value.toLowerCase()}`;
+
+/**
+ * How often each field value appears in recent searches and presets. Recent
+ * searches count more the more recent they are; presets by how often they are used.
+ */
+function collectUsage(usage: SuggestionUsage): Map<string, { field: SuggestionField; value: string; score: number }> {
+  const scores = new Map<string, { field: SuggestionField; value: string; score: number }>();
+
+  const add = (search: string, weight: number) => {
+    tokenizeQuery(search).tokens.forEach(token => {
+      if (token.type !== 'field' || !token.raw) return;
+      const scoped = toSuggestionField(token.name, token.raw);
+      if (!scoped || !scoped.term) return;
+
+      const key = usageKey(scoped.field, scoped.term);
+      const current = scores.get(key);
+      scores.set(key, { field: scoped.field, value: scoped.term, score: (current?.score ?? 0) + weight });
+    });
+  };
+
+  usage.history.forEach((search, index) => add(search, 2 * (usage.history.length - index) / usage.history.length));
+  usage.presets.forEach(preset => add(preset.search, 1 + Math.min(preset.useCount, 10) * 0.3));
+
+  return scores;
+}
+
+function matchScore(value: string, term: string): number {
+  const candidate = value.toLowerCase();
+  const needle = term.toLowerCase();
+  if (!needle) return 1;
+  if (candidate.startsWith(needle)) return 3;
+  if (candidate.includes(needle)) return 1;
+  return 0;
+}
+
+/**
+ * Merge server suggestions with values from history and presets that match
+ * the active token, and order them by match quality, usage and popularity
+ */
+export function rankSuggestions(
+  query: string,
+  token: ActiveSearchToken,
+  server: ServerSuggestion[],
+  usage: SuggestionUsage,
+  limit: number = 8
+): SearchSuggestion[] {
+  const usageScores = collectUsage(usage);
+  const candidates = new Map<string, { field: SuggestionField; value: string; count?: number; score: number }>();
+
+  server.forEach(suggestion => {
+    if (token.field && suggestion.field !== token.field) return;
+    const key = usageKey(suggestion.field, suggestion.value);
+    candidates.set(key, {
+      field: suggestion.field,
+      value: suggestion.value,
+      count: suggestion.count,
+      score: matchScore(suggestion.value, token.term)
+        + (usageScores.get(key)?.score ?? 0)
+        + Math.log10(suggestion.count + 1) * 0.5,
+    });
+  });
+
+  usageScores.forEach((entry, key) => {
+    if (candidates.has(key) || (token.field && entry.field !== token.field)) return;
+    const score = matchScore(entry.value, token.term);
+    // Unlike server results, remembered values still have to match what was typed
+    if (score === 0) return;
+    candidates.set(key, { field: entry.field, value: entry.value, score: score + entry.score });
+  });
+
+  return Array.from(candidates.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(candidate => {
+      const insert = formatSuggestionToken(candidate.field, candidate.value);
+      const applied = applySuggestion(query, token, insert);
+      return {
+        type: 'suggestion' as const,
+        value: applied.value,
+        cursor: applied.cursor,
+        label: insert,
+        description: SUGGESTION_FIELD_LABELS[candidate.field],
+        count: candidate.count,
+      };
+    });
+}
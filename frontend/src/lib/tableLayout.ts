@@ -0,0 +1,138 @@
+export type ColumnPin = 'left' | 'right';
+
+export interface TableLayout {
+  /** Column keys in display order, before pinning is applied */
+  order: string[];
+  hidden: string[];
+  /** Widths in pixels for columns the user has resized */
+  widths: Record<string, number>;
+  pinned: Record<string, ColumnPin>;
+}
+
+export interface LayoutColumn {
+  key: string;
+  width?: string;
+}
+
+export const MIN_COLUMN_WIDTH = 80;
+export const DEFAULT_COLUMN_WIDTH = 150;
+/** Width of the row selection checkbox column (w-12) */
+export const SELECTION_COLUMN_WIDTH = 48;
+
+export function getTableLayoutKey(tableId: string, userId?: number | null): string {
+  return `table_layout_${userId ?? 'guest'}_${tableId}`;
+}
+
+export function getDefaultLayout(columns: LayoutColumn[]): TableLayout {
+  return {
+    order: columns.map(column => column.key),
+    hidden: [],
+    widths: {},
+    pinned: {},
+  };
+}
+
+/**
+ * Reconcile a stored layout with the current column definitions so columns
+ * added since it was saved show up at the end and removed ones are dropped
+ */
+export function normalizeLayout(layout: Partial<TableLayout> | null, columns: LayoutColumn[]): TableLayout {
+  const keys = columns.map(column => column.key);
+  if (!layout) return getDefaultLayout(columns);
+
+  const order = (layout.order ?? []).filter(key => keys.includes(key));
+  keys.forEach(key => {
+    if (!order.includes(key)) order.push(key);
+  });
+
+  const hidden = (layout.hidden ?? []).filter(key => keys.includes(key));
+
+  return {
+    order,
+    // Never restore a layout that hides every column
+    hidden: hidden.length >= keys.length ? [] : hidden,
+    widths: Object.fromEntries(
+      Object.entries(layout.widths ?? {}).filter(([key, width]) => keys.includes(key) && width >= MIN_COLUMN_WIDTH)
+    ),
+    pinned: Object.fromEntries(
+      Object.entries(layout.pinned ?? {}).filter(([key, pin]) => keys.includes(key) && (pin === 'left' || pin === 'right'))
+    ),
+  };
+}
+
+/**
+ * Pixel width from a Tailwind arbitrary width class such as `w-[200px]`
+ */
+export function parseWidthClass(width?: string): number | null {
+  const match = width?.match(/w-\[(\d+)px\]/);
+  return match ? Number(match[1]) : null;
+}
+
+export function getColumnWidth(column: LayoutColumn, layout: TableLayout): number {
+  return layout.widths[column.key] ?? parseWidthClass(column.width) ?? DEFAULT_COLUMN_WIDTH;
+}
+
+/**
+ * Visible columns in render order: left pinned, unpinned, then right pinned
+ */
+export function applyLayout<C extends LayoutColumn>(columns: C[], layout: TableLayout): C[] {
+  const byKey = new Map(columns.map(column => [column.key, column]));
+  const visible = layout.order
+    .filter(key => !layout.hidden.includes(key))
+    .map(key => byKey.get(key))
+    .filter((column): column is C => column !== undefined);
+
+  return [
+    ...visible.filter(column => layout.pinned[column.key] === 'left'),
+    ...visible.filter(column => !layout.pinned[column.key]),
+    ...visible.filter(column => layout.pinned[column.key] === 'right'),
+  ];
+}
+
+/**
+ * Sticky offsets for pinned columns, measured from the table edge they are pinned to
+ */
+export function getPinnedOffsets(
+  columns: LayoutColumn[],
+  layout: TableLayout,
+  leadingOffset = 0
+): Record<string, { side: ColumnPin; offset: number }> {
+  const offsets: Record<string, { side: ColumnPin; offset: number }> = {};
+
+  let left = leadingOffset;
+  columns.forEach(column => {
+    if (layout.pinned[column.key] !== 'left') return;
+    offsets[column.key] = { side: 'left', offset: left };
+    left += getColumnWidth(column, layout);
+  });
+
+  let right = 0;
+  [...columns].reverse().forEach(column => {
+    if (layout.pinned[column.key] !== 'right') return;
+    offsets[column.key] = { side: 'right', offset: right };
+    right += getColumnWidth(column, layout);
+  });
+
+  return offsets;
+}
+
+export function moveColumn(layout: TableLayout, key: string, targetKey: string): TableLayout {
+  if (key === targetKey) return layout;
+
+  const order = layout.order.filter(current => current !== key);
+  const targetIndex = order.indexOf(targetKey);
+  if (targetIndex === -1) return layout;
+
+  // Dropping onto a column further right places the dragged column after it
+  const insertAt = layout.order.indexOf(key) < layout.order.indexOf(targetKey) ? targetIndex + 1 : targetIndex;
+  order.splice(insertAt, 0, key);
+
+  return { ...layout, order };
+}
+
+export function isDefaultLayout(layout: TableLayout, columns: LayoutColumn[]): boolean {
+  return layout.hidden.length === 0
+    && Object.keys(layout.widths).length === 0
+    && Object.keys(layout.pinned).length === 0
+    && layout.order.join('|') === columns.map(column => column.key).join('|');
+}
@@ -0,0 +1,48 @@
+export type RowId = string | number;
+
+/**
+ * Rows picked in a table, by row identity rather than position so the
+ * selection survives sorting, paging and refreshes. In `all` mode every row
+ * matching the current filter is selected except the excluded ones, including
+ * rows that have not been loaded.
+ */
+export type RowSelection =
+  | { mode: 'ids'; ids: RowId[] }
+  | { mode: 'all'; excludedIds: RowId[] };
+
+export const EMPTY_SELECTION: RowSelection = { mode: 'ids', ids: [] };
+
+export function isRowSelected(selection: RowSelection, id: RowId): boolean {
+  return selection.mode === 'all' ? !selection.excludedIds.includes(id) : selection.ids.includes(id);
+}
+
+export function toggleRowSelection(selection: RowSelection, id: RowId): RowSelection {
+  return setRowsSelected(selection, [id], !isRowSelected(selection, id));
+}
+
+export function setRowsSelected(selection: RowSelection, ids: RowId[], selected: boolean): RowSelection {
+  if (selection.mode === 'all') {
+    const excludedIds = selected
+      ? selection.excludedIds.filter(id => !ids.includes(id))
+      : [...selection.excludedIds, ...ids.filter(id => !selection.excludedIds.includes(id))];
+    return { mode: 'all', excludedIds };
+  }
+
+  const selectedIds = selected
+    ? [...selection.ids, ...ids.filter(id => !selection.ids.includes(id))]
+    : selection.ids.filter(id => !ids.includes(id));
+  return { mode: 'ids', ids: selectedIds };
+}
+
+/**
+ * Number of selected rows; `all` mode needs the total matching the filter
+ */
+export function getSelectedCount(selection: RowSelection, totalMatching: number): number {
+  return selection.mode === 'all'
+    ? Math.max(0, totalMatching - selection.excludedIds.length)
+    : selection.ids.length;
+}
+
+export function isSelectionEmpty(selection: RowSelection, totalMatching: number): boolean {
+  return getSelectedCount(selection, totalMatching) === 0;
+}
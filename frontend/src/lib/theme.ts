@@ -0,0 +1,76 @@
+import type { ThemePreference } from './api/types';
+
+export type ResolvedTheme = 'light' | 'dark';
+
+export const THEME_STORAGE_KEY = 'salary_app_theme';
+export const DEFAULT_THEME: ThemePreference = 'dark';
+
+const SYSTEM_LIGHT_QUERY = '(prefers-color-scheme: light)';
+
+// Check that a stored value is a known theme mode
+export function isThemePreference(value: unknown): value is ThemePreference {
+  return value === 'light' || value === 'dark' || value === 'system';
+}
+
+// Read the persisted theme mode, falling back to the default
+export function getStoredTheme(): ThemePreference {
+  if (typeof window === 'undefined') return DEFAULT_THEME;
+
+  try {
+    const stored = localStorage.getItem(THEME_STORAGE_KEY);
+    return isThemePreference(stored) ? stored : DEFAULT_THEME;
+  } catch {
+    return DEFAULT_THEME;
+  }
+}
+
+export function storeTheme(mode: ThemePreference): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(THEME_STORAGE_KEY, mode);
+  } catch (error) {
+    console.warn('Failed to persist theme:', error);
+  }
+}
+
+export function getSystemTheme(): ResolvedTheme {
+  if (typeof window === 'undefined') return 'dark';
+  return window.matchMedia(SYSTEM_LIGHT_QUERY).matches ? 'light' : 'dark';
+}
+
+export function resolveTheme(mode: ThemePreference): ResolvedTheme {
+  return mode === 'system' ? getSystemTheme() : mode;
+}
+
+// Apply a resolved theme to the document so the CSS palette switches
+export function applyTheme(theme: ResolvedTheme): void {
+  if (typeof document === 'undefined') return;
+  document.documentElement.dataset.theme = theme;
+}
+
+// Subscribe to OS colour scheme changes, returns an unsubscribe function
+export function watchSystemTheme(callback: (theme: ResolvedTheme) => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+
+  const mediaQuery = window.matchMedia(SYSTEM_LIGHT_QUERY);
+  const handleChange = (e: MediaQueryListEvent) => callback(e.matches ? 'light' : 'dark');
+
+  mediaQuery.addEventListener('change', handleChange);
+  return () => mediaQuery.removeEventListener('change', handleChange);
+}
+
+/**
+ * Inline script for the document head. Runs before first paint so the
+ * stored theme is applied without flashing the default palette.
+ */
+export const themeInitScript = `(function () {
+  try {
+    var mode = localStorage.getItem('${THEME_STORAGE_KEY}');
+    if (mode !== 'light' && mode !== 'dark' && mode !== 'system') mode = '${DEFAULT_THEME}';
+    var theme = mode === 'system'
+      ? (window.matchMedia('${SYSTEM_LIGHT_QUERY}').matches ? 'light' : 'dark')
+      : mode;
+    document.documentElement.dataset.theme = theme;
+  } catch (e) {}
+})();`;
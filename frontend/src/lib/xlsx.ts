@@ -0,0 +1,155 @@
+// Minimal XLSX reader: unzips the workbook with the browser's DecompressionStream and
+// reads the first worksheet as rows of text. Formulas come through as their cached values.
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+
+function readZipEntries(buffer: ArrayBuffer): Map<string, ZipEntry> {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  // The end-of-central-directory record sits in the last 64KB (22 bytes plus an optional comment)
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('The file is not a valid XLSX workbook');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) break;
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function readZipText(buffer: ArrayBuffer, entry: ZipEntry): Promise<string> {
+  const view = new DataView(buffer);
+  const nameLength = view.getUint16(entry.localHeaderOffset + 26, true);
+  const extraLength = view.getUint16(entry.localHeaderOffset + 28, true);
+  const start = entry.localHeaderOffset + 30 + nameLength + extraLength;
+  const data = new Uint8Array(buffer, start, entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method !== 8) {
+    throw new Error('The workbook uses an unsupported compression method');
+  }
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, 'application/xml');
+}
+
+// "AB12" -> 27
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '');
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function textContent(element: Element): string {
+  return Array.from(element.getElementsByTagName('t')).map(node => node.textContent ?? '').join('');
+}
+
+async function resolveFirstSheetPath(buffer: ArrayBuffer, entries: Map<string, ZipEntry>): Promise<string> {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const workbookEntry = entries.get('xl/workbook.xml');
+  const relsEntry = entries.get('xl/_rels/workbook.xml.rels');
+  if (!workbookEntry || !relsEntry) return fallback;
+
+  const workbook = parseXml(await readZipText(buffer, workbookEntry));
+  const firstSheet = workbook.getElementsByTagName('sheet')[0];
+  const relationId = firstSheet?.getAttribute('r:id');
+  if (!relationId) return fallback;
+
+  const rels = parseXml(await readZipText(buffer, relsEntry));
+  const relation = Array.from(rels.getElementsByTagName('Relationship'))
+    .find(node => node.getAttribute('Id') === relationId);
+  const target = relation?.getAttribute('Target');
+  if (!target) return fallback;
+
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Read the first worksheet of an XLSX file as rows of cell text
+ */
+export async function readXlsxRows(buffer: ArrayBuffer): Promise<string[][]> {
+  const entries = readZipEntries(buffer);
+
+  const sharedStringsEntry = entries.get('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsEntry
+    ? Array.from(parseXml(await readZipText(buffer, sharedStringsEntry)).getElementsByTagName('si')).map(textContent)
+    : [];
+
+  const sheetEntry = entries.get(await resolveFirstSheetPath(buffer, entries));
+  if (!sheetEntry) {
+    throw new Error('The workbook does not contain a worksheet');
+  }
+
+  const sheet = parseXml(await readZipText(buffer, sheetEntry));
+  const rows = Array.from(sheet.getElementsByTagName('row')).map(rowElement => {
+    const cells: string[] = [];
+
+    Array.from(rowElement.getElementsByTagName('c')).forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : position;
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+
+      let text: string;
+      if (type === 's') {
+        text = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = textContent(cell);
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        text = value;
+      }
+
+      // Sparse rows skip empty cells, so pad up to the referenced column
+      while (cells.length < index) cells.push('');
+      cells[index] = text;
+    });
+
+    return cells;
+  });
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
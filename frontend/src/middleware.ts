@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AUTH_TOKEN_COOKIE } from '@/lib/authCookie';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api';
+
+// Redirect to the login page, remembering where the user was heading
+function redirectToLogin(request: NextRequest): NextResponse {
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('redirect', `${request.nextUrl.pathname}${request.nextUrl.search}`);
+
+  const response = NextResponse.redirect(loginUrl);
+  response.cookies.delete(AUTH_TOKEN_COOKIE);
+  return response;
+}
+
+export async function middleware(request: NextRequest) {
+  const token = request.cookies.get(AUTH_TOKEN_COOKIE)?.value;
+  if (!token) {
+    return redirectToLogin(request);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}/v1/auth/me`, {
+      headers: {
+        'Accept': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      cache: 'no-store',
+    });
+  } catch {
+    // Backend unreachable: let the client-side guard decide once the API is back
+    return NextResponse.next();
+  }
+
+  if (response.status === 401) {
+    return redirectToLogin(request);
+  }
+
+  if (!response.ok) {
+    return NextResponse.next();
+  }
+
+  const body = await response.json().catch(() => null);
+  if (!body?.data?.permissions?.can_view_admin_dashboard) {
+    return NextResponse.rewrite(new URL('/forbidden', request.url), { status: 403 });
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/admin/:path*'],
+};